@@ -0,0 +1,83 @@
+import { readFile } from 'node:fs/promises';
+import { PerformanceObserver } from 'node:perf_hooks';
+import format from 'human-format';
+import { Tokenizer } from '../../packages/parse5/dist/tokenizer/index.js';
+import UpstreamTokenizer from 'parse5/lib/tokenizer/index.js';
+
+const RUNS = 50;
+
+main();
+
+async function main() {
+    const data = await readFile(new URL('../../test/data/huge-page/huge-page.html', import.meta.url), 'utf8');
+
+    console.log('Input data size:', format(data.length * RUNS, { unit: 'B' }));
+
+    printResults('Working copy', await measure(() => tokenize(data)));
+    printResults('Upstream', await measure(() => tokenizeUpstream(data)));
+}
+
+function noop() {}
+
+const tokenHandler = {
+    onComment: noop,
+    onDoctype: noop,
+    onStartTag: noop,
+    onEndTag: noop,
+    onEof: noop,
+    onInterpolation: noop,
+    onCharacter: noop,
+    onNullCharacter: noop,
+    onWhitespaceCharacter: noop,
+};
+
+function tokenize(data) {
+    new Tokenizer({}, tokenHandler).write(data, true);
+}
+
+function tokenizeUpstream(data) {
+    const tokenizer = new UpstreamTokenizer();
+
+    tokenizer.write(data, true);
+
+    while (tokenizer.getNextToken().type !== UpstreamTokenizer.EOF_TOKEN) {
+        // Drain the token queue
+    }
+}
+
+async function measure(run) {
+    const gcEntries = [];
+    const observer = new PerformanceObserver((list) => gcEntries.push(...list.getEntries()));
+    let maxMemUsage = 0;
+
+    observer.observe({ entryTypes: ['gc'] });
+
+    const startDate = new Date();
+
+    for (let i = 0; i < RUNS; i++) {
+        run();
+        maxMemUsage = Math.max(maxMemUsage, process.memoryUsage().heapUsed);
+    }
+
+    const endDate = new Date();
+
+    //NOTE: GC entries are delivered asynchronously.
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    gcEntries.push(...observer.takeRecords());
+    observer.disconnect();
+
+    return {
+        duration: endDate - startDate,
+        gcCount: gcEntries.length,
+        gcDuration: gcEntries.reduce((sum, entry) => sum + entry.duration, 0),
+        maxMemUsage,
+    };
+}
+
+function printResults(name, { duration, gcCount, gcDuration, maxMemUsage }) {
+    console.log(`\n${name}`);
+    console.log('Duration:', format(duration / 1000, { unit: 's' }));
+    console.log('GC runs:', gcCount);
+    console.log('GC duration:', format(gcDuration / 1000, { unit: 's' }));
+    console.log('Memory max:', format(maxMemUsage, { unit: 'B' }));
+}
@@ -4,15 +4,17 @@ import { loadTreeConstructionTestData } from 'parse5-test-utils/dist/generate-pa
 import { loadSAXParserTestData } from 'parse5-test-utils/dist/load-sax-parser-test-data.js';
 import { treeAdapters, WritableStreamStub } from 'parse5-test-utils/dist/common.js';
 import * as parse5 from '../../packages/parse5/dist/index.js';
+import { Tokenizer } from '../../packages/parse5/dist/tokenizer/index.js';
 import { ParserStream as parse5Stream } from '../../packages/parse5-parser-stream/dist/index.js';
 import * as parse5Upstream from 'parse5';
+import UpstreamTokenizer from 'parse5/lib/tokenizer/index.js';
 
 const hugePagePath = new URL('../../test/data/huge-page/huge-page.html', import.meta.url);
 const treeConstructionPath = new URL('../../test/data/html5lib-tests/tree-construction', import.meta.url);
 const saxPath = new URL('../../test/data/sax/', import.meta.url);
 
 //HACK: https://github.com/bestiejs/benchmark.js/issues/51
-/* global workingCopy, WorkingCopyParserStream, upstreamParser, hugePage, microTests, runMicro, runPages, files */
+/* global workingCopy, WorkingCopyParserStream, upstreamParser, hugePage, microTests, runMicro, runPages, files, tokenizeHugePage, tokenizeHugePageUpstream */
 global.workingCopy = parse5;
 global.WorkingCopyParserStream = parse5Stream;
 global.upstreamParser = parse5Upstream;
@@ -51,6 +53,34 @@ global.runPages = function (parser) {
     }
 };
 
+// Tokenizer data
+const noop = () => {};
+const tokenHandler = {
+    onComment: noop,
+    onDoctype: noop,
+    onStartTag: noop,
+    onEndTag: noop,
+    onEof: noop,
+    onInterpolation: noop,
+    onCharacter: noop,
+    onNullCharacter: noop,
+    onWhitespaceCharacter: noop,
+};
+
+global.tokenizeHugePage = function () {
+    new Tokenizer({}, tokenHandler).write(hugePage, true);
+};
+
+global.tokenizeHugePageUpstream = function () {
+    const tokenizer = new UpstreamTokenizer();
+
+    tokenizer.write(hugePage, true);
+
+    while (tokenizer.getNextToken().type !== UpstreamTokenizer.EOF_TOKEN) {
+        // Drain the token queue
+    }
+};
+
 // Stream data
 global.files = readdirSync(saxPath).map((dirName) => new URL(`${dirName}/src.html`, saxPath).pathname);
 
@@ -97,6 +127,12 @@ runBench({
     upstreamFn: () => upstreamParser.parse(hugePage),
 });
 
+runBench({
+    name: 'parse5 regression benchmark - TOKENIZER',
+    workingCopyFn: () => tokenizeHugePage(),
+    upstreamFn: () => tokenizeHugePageUpstream(),
+});
+
 runBench({
     name: 'parse5 regression benchmark - PAGES',
     workingCopyFn: () => runPages(workingCopy),
@@ -0,0 +1,703 @@
+import { closest, matches, parseFragment, querySelector, querySelectorAll, serialize } from 'parse5';
+import { DOCUMENT_MODE, NAMESPACES as NS, TAG_NAMES as TN, isValidShadowHostName } from 'parse5/dist/common/html.js';
+import type { ENCODING_CONFIDENCE } from 'parse5/dist/common/encoding.js';
+import type { Attribute, ElementLocation } from 'parse5/dist/common/token.js';
+import type { ShadowRootInit, TreeAdapter, TreeAdapterTypeMap } from 'parse5/dist/tree-adapters/interface.js';
+
+/**
+ * Node types. The values are the same as the ones of the DOM `Node.nodeType` property.
+ */
+export enum NodeType {
+    Element = 1,
+    Text = 3,
+    Comment = 8,
+    Document = 9,
+    DocumentType = 10,
+    DocumentFragment = 11,
+}
+
+export type ChildNode = Element | Text | Comment | DocumentType;
+
+export type DomTreeAdapterMap = TreeAdapterTypeMap<
+    Node,
+    ParentNode,
+    ChildNode,
+    Document,
+    DocumentFragment,
+    Element,
+    Comment,
+    Text,
+    Template,
+    DocumentType
+>;
+
+//Nodes
+export abstract class Node {
+    /** The type of the node. */
+    abstract readonly nodeType: NodeType;
+    /** The name of the node. */
+    abstract readonly nodeName: string;
+    /** Parent node. */
+    parentNode: ParentNode | null = null;
+    /** Node source code location info. Available if location info is enabled. */
+    sourceCodeLocation?: ElementLocation | null;
+
+    /** Parent node, if it is an element. */
+    get parentElement(): Element | null {
+        return this.parentNode instanceof Element ? this.parentNode : null;
+    }
+
+    /** The node's previous sibling. */
+    get previousSibling(): ChildNode | null {
+        return this.parentNode?.childNodes[this._getIndex() - 1] ?? null;
+    }
+
+    /** The node's next sibling. */
+    get nextSibling(): ChildNode | null {
+        return this.parentNode?.childNodes[this._getIndex() + 1] ?? null;
+    }
+
+    /**
+     * Text content of the node and its descendants. It is `null` for documents and document types.
+     * Setting it replaces the node's children with a single text node.
+     */
+    get textContent(): string | null {
+        return null;
+    }
+
+    set textContent(_value: string | null) {
+        //NOTE: documents and document types ignore the text content.
+    }
+
+    /**
+     * Removes the node from its parent.
+     */
+    remove(): void {
+        if (this.parentNode) {
+            (this.parentNode.childNodes as Node[]).splice(this._getIndex(), 1);
+            this.parentNode = null;
+        }
+    }
+
+    /**
+     * Replaces the node with the given nodes. Strings are inserted as text nodes.
+     */
+    replaceWith(...nodes: (ChildNode | string)[]): void {
+        const parent = this.parentNode;
+
+        if (parent) {
+            let referenceNode = this.nextSibling;
+
+            while (referenceNode && nodes.includes(referenceNode)) {
+                referenceNode = referenceNode.nextSibling;
+            }
+
+            this.remove();
+
+            for (const node of nodes) {
+                parent.insertBefore(typeof node === 'string' ? new Text(node) : node, referenceNode);
+            }
+        }
+    }
+
+    private _getIndex(): number {
+        return this.parentNode ? (this.parentNode.childNodes as Node[]).indexOf(this) : -1;
+    }
+}
+
+export abstract class ParentNode extends Node {
+    /** The node's children. */
+    childNodes: ChildNode[] = [];
+
+    /** The node's element children. */
+    get children(): Element[] {
+        return this.childNodes.filter((node): node is Element => node instanceof Element);
+    }
+
+    /** The node's first child. */
+    get firstChild(): ChildNode | null {
+        return this.childNodes[0] ?? null;
+    }
+
+    /** The node's last child. */
+    get lastChild(): ChildNode | null {
+        return this.childNodes[this.childNodes.length - 1] ?? null;
+    }
+
+    override get textContent(): string | null {
+        let text = '';
+
+        for (const node of this.childNodes) {
+            if (!(node instanceof DocumentType || node instanceof Comment)) {
+                text += node.textContent;
+            }
+        }
+
+        return text;
+    }
+
+    override set textContent(value: string | null) {
+        for (const node of this.childNodes) {
+            node.parentNode = null;
+        }
+
+        this.childNodes = [];
+
+        if (value) {
+            appendChild(this, new Text(value));
+        }
+    }
+
+    /**
+     * Returns the first descendant element that matches the selector.
+     *
+     * @see {@link querySelector} for the supported selectors.
+     */
+    querySelector(selector: string): Element | null {
+        return querySelector(this, selector, { treeAdapter });
+    }
+
+    /**
+     * Returns all descendant elements that match the selector.
+     *
+     * @see {@link querySelector} for the supported selectors.
+     */
+    querySelectorAll(selector: string): Element[] {
+        return querySelectorAll(this, selector, { treeAdapter });
+    }
+
+    /**
+     * Appends the nodes to the node's children. Strings are appended as text nodes. If a node already has a parent,
+     * it is removed from it first.
+     */
+    append(...nodes: (ChildNode | string)[]): void {
+        for (const node of nodes) {
+            this.insertBefore(typeof node === 'string' ? new Text(node) : node, null);
+        }
+    }
+
+    /**
+     * Inserts the node before the reference node. If the reference node is `null`, the node is appended.
+     * If the node already has a parent, it is removed from it first.
+     *
+     * @returns The inserted node.
+     */
+    insertBefore<N extends ChildNode>(node: N, referenceNode: ChildNode | null): N {
+        if (isInclusiveAncestor(node, this)) {
+            throw new Error('The node is an inclusive ancestor of the parent node');
+        }
+
+        if (referenceNode && referenceNode.parentNode !== this) {
+            throw new Error('The reference node is not a child of the parent node');
+        }
+
+        if (referenceNode !== node) {
+            node.remove();
+
+            if (referenceNode) {
+                insertBefore(this, node, referenceNode);
+            } else {
+                appendChild(this, node);
+            }
+        }
+
+        return node;
+    }
+}
+
+export class Document extends ParentNode {
+    readonly nodeType = NodeType.Document;
+    readonly nodeName = '#document';
+    /**
+     * Document mode.
+     *
+     * @see {@link DOCUMENT_MODE} */
+    mode = DOCUMENT_MODE.NO_QUIRKS;
+    /** Canonical name of the document encoding. Available if the document was parsed from bytes. */
+    encoding?: string;
+    /** Confidence of the parser in the document encoding. Available if the document was parsed from bytes. */
+    encodingConfidence?: ENCODING_CONFIDENCE;
+
+    /** The document type node of the document. */
+    get doctype(): DocumentType | null {
+        return this.childNodes.find((node): node is DocumentType => node instanceof DocumentType) ?? null;
+    }
+
+    /** The root element of the document. */
+    get documentElement(): Element | null {
+        return this.childNodes.find((node): node is Element => node instanceof Element) ?? null;
+    }
+
+    override get textContent(): string | null {
+        return null;
+    }
+
+    override set textContent(_value: string | null) {
+        //NOTE: documents ignore the text content.
+    }
+}
+
+export class DocumentFragment extends ParentNode {
+    readonly nodeType = NodeType.DocumentFragment;
+    readonly nodeName = '#document-fragment';
+
+    /** HTML serialization of the node's children. Setting it replaces the children with the parsed HTML. */
+    get innerHTML(): string {
+        return serialize(this, { treeAdapter });
+    }
+
+    set innerHTML(html: string) {
+        setInnerHTML(this, this instanceof ShadowRoot ? this.host : null, html);
+    }
+}
+
+export class ShadowRoot extends DocumentFragment implements ShadowRootInit {
+    constructor(
+        /** Shadow host element. */
+        public host: Element,
+        /** Shadow root mode. */
+        public mode: ShadowRootInit['mode'],
+        /** Determines if the shadow root is cloned along with its host. */
+        public clonable = false,
+        /** Determines if the shadow root is serializable. */
+        public serializable = false,
+        /** Determines if the shadow root delegates focus. */
+        public delegatesFocus = false
+    ) {
+        super();
+    }
+}
+
+export class Element extends ParentNode {
+    readonly nodeType = NodeType.Element;
+    /** Attached shadow root. Available if declarative shadow roots are allowed. */
+    shadowRoot: ShadowRoot | null = null;
+
+    constructor(
+        /** Element tag name. Same as {@link nodeName}. */
+        public tagName: string,
+        /** Element namespace. */
+        public namespaceURI: NS = NS.HTML,
+        /** List of element attributes. */
+        public attrs: Attribute[] = []
+    ) {
+        super();
+    }
+
+    /** Element tag name. Same as {@link tagName}. */
+    get nodeName(): string {
+        return this.tagName;
+    }
+
+    /** HTML serialization of the element's content. Setting it replaces the content with the parsed HTML. */
+    get innerHTML(): string {
+        return serialize(this instanceof Template ? this.content : this, { treeAdapter });
+    }
+
+    set innerHTML(html: string) {
+        setInnerHTML(this instanceof Template ? this.content : this, this, html);
+    }
+
+    /**
+     * HTML serialization of the element itself. Setting it replaces the element with the parsed HTML.
+     * The element must have a parent, which is not a document.
+     */
+    get outerHTML(): string {
+        //NOTE: the serializer outputs only the content of the given node, so we put the element into
+        //a temporary fragment without changing its parent.
+        const fragment = new DocumentFragment();
+
+        fragment.childNodes.push(this);
+
+        return serialize(fragment, { treeAdapter });
+    }
+
+    set outerHTML(html: string) {
+        const parent = this.parentNode;
+
+        if (!parent) {
+            throw new Error('The element has no parent');
+        }
+
+        if (parent instanceof Document) {
+            throw new TypeError('Cannot set outerHTML of the document element');
+        }
+
+        const fragment = parseFragment(parent instanceof Element ? parent : null, html, { treeAdapter });
+
+        this.replaceWith(...fragment.childNodes);
+    }
+
+    /**
+     * Returns the value of the attribute with the given qualified name (e.g. `xlink:href`), or `null` if the element
+     * doesn't have such an attribute. Names of attributes of HTML elements are case-insensitive.
+     */
+    getAttribute(name: string): string | null {
+        return this.attrs[this._getAttributeIndex(name)]?.value ?? null;
+    }
+
+    /**
+     * Sets the value of the attribute with the given qualified name. The attribute is added if the element
+     * doesn't have it yet.
+     */
+    setAttribute(name: string, value: string): void {
+        const attr = this.attrs[this._getAttributeIndex(name)];
+
+        if (attr) {
+            attr.value = value;
+        } else {
+            this.attrs.push({ name: this.namespaceURI === NS.HTML ? name.toLowerCase() : name, value });
+        }
+    }
+
+    hasAttribute(name: string): boolean {
+        return this._getAttributeIndex(name) !== -1;
+    }
+
+    removeAttribute(name: string): void {
+        const idx = this._getAttributeIndex(name);
+
+        if (idx !== -1) {
+            this.attrs.splice(idx, 1);
+        }
+    }
+
+    /**
+     * Checks if the element matches the selector.
+     *
+     * @see {@link querySelector} for the supported selectors.
+     */
+    matches(selector: string): boolean {
+        return matches(this, selector, { treeAdapter });
+    }
+
+    /**
+     * Returns the closest inclusive ancestor of the element that matches the selector.
+     *
+     * @see {@link querySelector} for the supported selectors.
+     */
+    closest(selector: string): Element | null {
+        return closest(this, selector, { treeAdapter });
+    }
+
+    private _getAttributeIndex(name: string): number {
+        const qualifiedName = this.namespaceURI === NS.HTML ? name.toLowerCase() : name;
+
+        return this.attrs.findIndex(
+            (attr) => (attr.prefix ? `${attr.prefix}:${attr.name}` : attr.name) === qualifiedName
+        );
+    }
+}
+
+export class Template extends Element {
+    /** Template content. */
+    content = new DocumentFragment();
+
+    constructor(attrs: Attribute[] = []) {
+        super(TN.TEMPLATE, NS.HTML, attrs);
+    }
+}
+
+abstract class CharacterData extends Node {
+    constructor(
+        /** Text of the node. */
+        public data: string
+    ) {
+        super();
+    }
+
+    override get textContent(): string {
+        return this.data;
+    }
+
+    override set textContent(value: string | null) {
+        this.data = value ?? '';
+    }
+}
+
+export class Text extends CharacterData {
+    readonly nodeType = NodeType.Text;
+    readonly nodeName = '#text';
+}
+
+export class Comment extends CharacterData {
+    readonly nodeType = NodeType.Comment;
+    readonly nodeName = '#comment';
+}
+
+export class DocumentType extends Node {
+    readonly nodeType = NodeType.DocumentType;
+
+    constructor(
+        /** Document type name. */
+        public name: string,
+        /** Document type public identifier. */
+        public publicId = '',
+        /** Document type system identifier. */
+        public systemId = ''
+    ) {
+        super();
+    }
+
+    /** Document type name. Same as {@link name}. */
+    get nodeName(): string {
+        return this.name;
+    }
+}
+
+function isInclusiveAncestor(node: Node, descendant: Node): boolean {
+    return node === descendant || (descendant.parentNode !== null && isInclusiveAncestor(node, descendant.parentNode));
+}
+
+function setInnerHTML(parent: ParentNode, context: Element | null, html: string): void {
+    const fragment = parseFragment(context, html, { treeAdapter });
+
+    parent.textContent = null;
+
+    for (const node of fragment.childNodes) {
+        node.parentNode = parent;
+    }
+
+    parent.childNodes = fragment.childNodes;
+}
+
+//Node construction
+export function createDocument(): Document {
+    return new Document();
+}
+
+export function createDocumentFragment(): DocumentFragment {
+    return new DocumentFragment();
+}
+
+export function createElement(tagName: string, namespaceURI: NS, attrs: Attribute[]): Element {
+    return tagName === TN.TEMPLATE && namespaceURI === NS.HTML
+        ? new Template(attrs)
+        : new Element(tagName, namespaceURI, attrs);
+}
+
+export function createCommentNode(data: string): Comment {
+    return new Comment(data);
+}
+
+//Tree mutation
+export function appendChild(parentNode: ParentNode, newNode: ChildNode): void {
+    parentNode.childNodes.push(newNode);
+    newNode.parentNode = parentNode;
+}
+
+export function insertBefore(parentNode: ParentNode, newNode: ChildNode, referenceNode: ChildNode): void {
+    const insertionIdx = parentNode.childNodes.indexOf(referenceNode);
+
+    parentNode.childNodes.splice(insertionIdx, 0, newNode);
+    newNode.parentNode = parentNode;
+}
+
+export function setTemplateContent(templateElement: Template, contentElement: DocumentFragment): void {
+    templateElement.content = contentElement;
+}
+
+export function getTemplateContent(templateElement: Template): DocumentFragment {
+    return templateElement.content;
+}
+
+export function attachShadowRoot(host: Element, init: ShadowRootInit): ShadowRoot | null {
+    if (host.shadowRoot || host.namespaceURI !== NS.HTML || !isValidShadowHostName(host.tagName)) {
+        return null;
+    }
+
+    host.shadowRoot = new ShadowRoot(host, init.mode, init.clonable, init.serializable, init.delegatesFocus);
+
+    return host.shadowRoot;
+}
+
+export function setDocumentType(document: Document, name: string, publicId: string, systemId: string): void {
+    const doctypeNode = document.doctype;
+
+    if (doctypeNode) {
+        doctypeNode.name = name;
+        doctypeNode.publicId = publicId;
+        doctypeNode.systemId = systemId;
+    } else {
+        appendChild(document, new DocumentType(name, publicId, systemId));
+    }
+}
+
+export function setDocumentEncoding(document: Document, encoding: string, confidence: ENCODING_CONFIDENCE): void {
+    document.encoding = encoding;
+    document.encodingConfidence = confidence;
+}
+
+export function setDocumentMode(document: Document, mode: DOCUMENT_MODE): void {
+    document.mode = mode;
+}
+
+export function getDocumentMode(document: Document): DOCUMENT_MODE {
+    return document.mode;
+}
+
+export function detachNode(node: ChildNode): void {
+    if (node.parentNode) {
+        const idx = node.parentNode.childNodes.indexOf(node);
+
+        node.parentNode.childNodes.splice(idx, 1);
+        node.parentNode = null;
+    }
+}
+
+export function insertText(parentNode: ParentNode, text: string): void {
+    const prevNode = parentNode.lastChild;
+
+    if (prevNode instanceof Text) {
+        prevNode.data += text;
+    } else {
+        appendChild(parentNode, new Text(text));
+    }
+}
+
+export function insertTextBefore(parentNode: ParentNode, text: string, referenceNode: ChildNode): void {
+    const prevNode = parentNode.childNodes[parentNode.childNodes.indexOf(referenceNode) - 1];
+
+    if (prevNode instanceof Text) {
+        prevNode.data += text;
+    } else {
+        insertBefore(parentNode, new Text(text), referenceNode);
+    }
+}
+
+export function adoptAttributes(recipient: Element, attrs: Attribute[]): void {
+    const recipientAttrsMap = new Set(recipient.attrs.map((attr) => attr.name));
+
+    for (let j = 0; j < attrs.length; j++) {
+        if (!recipientAttrsMap.has(attrs[j].name)) {
+            recipient.attrs.push(attrs[j]);
+        }
+    }
+}
+
+//Tree traversing
+export function getFirstChild(node: ParentNode): ChildNode | null {
+    return node.firstChild;
+}
+
+export function getChildNodes(node: ParentNode): ChildNode[] {
+    return node.childNodes;
+}
+
+export function getParentNode(node: Node): ParentNode | null {
+    return node.parentNode;
+}
+
+export function getShadowRoot(element: Element): ShadowRoot | null {
+    return element.shadowRoot;
+}
+
+export function getShadowRootInit(shadowRoot: ShadowRoot): ShadowRootInit {
+    const { mode, clonable, serializable, delegatesFocus } = shadowRoot;
+
+    return { mode, clonable, serializable, delegatesFocus };
+}
+
+export function getAttrList(element: Element): Attribute[] {
+    return element.attrs;
+}
+
+//Node data
+export function getTagName(element: Element): string {
+    return element.tagName;
+}
+
+export function getNamespaceURI(element: Element): NS {
+    return element.namespaceURI;
+}
+
+export function getTextNodeContent(textNode: Text): string {
+    return textNode.data;
+}
+
+export function getCommentNodeContent(commentNode: Comment): string {
+    return commentNode.data;
+}
+
+export function getDocumentTypeNodeName(doctypeNode: DocumentType): string {
+    return doctypeNode.name;
+}
+
+export function getDocumentTypeNodePublicId(doctypeNode: DocumentType): string {
+    return doctypeNode.publicId;
+}
+
+export function getDocumentTypeNodeSystemId(doctypeNode: DocumentType): string {
+    return doctypeNode.systemId;
+}
+
+//Node types
+export function isTextNode(node: Node): node is Text {
+    return node.nodeType === NodeType.Text;
+}
+
+export function isCommentNode(node: Node): node is Comment {
+    return node.nodeType === NodeType.Comment;
+}
+
+export function isDocumentTypeNode(node: Node): node is DocumentType {
+    return node.nodeType === NodeType.DocumentType;
+}
+
+export function isElementNode(node: Node): node is Element {
+    return node.nodeType === NodeType.Element;
+}
+
+// Source code location
+export function setNodeSourceCodeLocation(node: Node, location: ElementLocation | null): void {
+    node.sourceCodeLocation = location;
+}
+
+export function getNodeSourceCodeLocation(node: Node): ElementLocation | undefined | null {
+    return node.sourceCodeLocation;
+}
+
+export function updateNodeSourceCodeLocation(node: Node, endLocation: Partial<ElementLocation>): void {
+    node.sourceCodeLocation = { ...node.sourceCodeLocation, ...endLocation } as ElementLocation;
+}
+
+//NOTE: the tree adapter used by the nodes to serialize and parse their HTML content.
+const treeAdapter: TreeAdapter<DomTreeAdapterMap> = {
+    adoptAttributes,
+    appendChild,
+    attachShadowRoot,
+    createCommentNode,
+    createDocument,
+    createDocumentFragment,
+    createElement,
+    detachNode,
+    getAttrList,
+    getChildNodes,
+    getCommentNodeContent,
+    getDocumentMode,
+    getDocumentTypeNodeName,
+    getDocumentTypeNodePublicId,
+    getDocumentTypeNodeSystemId,
+    getFirstChild,
+    getNamespaceURI,
+    getNodeSourceCodeLocation,
+    getParentNode,
+    getShadowRoot,
+    getShadowRootInit,
+    getTagName,
+    getTextNodeContent,
+    getTemplateContent,
+    insertBefore,
+    insertText,
+    insertTextBefore,
+    isCommentNode,
+    isDocumentTypeNode,
+    isElementNode,
+    isTextNode,
+    setDocumentEncoding,
+    setDocumentMode,
+    setDocumentType,
+    setNodeSourceCodeLocation,
+    updateNodeSourceCodeLocation,
+    setTemplateContent,
+};
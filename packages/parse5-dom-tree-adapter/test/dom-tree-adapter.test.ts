@@ -0,0 +1,198 @@
+import * as assert from 'node:assert';
+import { parse, parseFragment, serialize } from 'parse5';
+import type { TreeAdapter } from 'parse5/dist/tree-adapters/interface.js';
+import * as domTreeAdapter from '../lib/index.js';
+import {
+    Comment,
+    Document,
+    DocumentFragment,
+    DomTreeAdapterMap,
+    Element,
+    NodeType,
+    ShadowRoot,
+    Template,
+    Text,
+} from '../lib/index.js';
+
+const treeAdapter: TreeAdapter<DomTreeAdapterMap> = domTreeAdapter;
+const options = { treeAdapter, allowDeclarativeShadowRoots: true };
+
+function parseDiv(html: string): Element {
+    const fragment = parseFragment(`<div>${html}</div>`, options);
+
+    return fragment.childNodes[0] as Element;
+}
+
+describe('DOM tree adapter', () => {
+    it('Creates class instances', () => {
+        const document = parse('<!DOCTYPE html><p>Hi<!--comment--></p><template>x</template>', options);
+
+        assert.ok(document instanceof Document);
+        assert.strictEqual(document.doctype?.name, 'html');
+
+        const html = document.documentElement;
+
+        assert.strictEqual(html?.nodeType, NodeType.Element);
+
+        const [, body] = html.children;
+        const [p, template] = body.children;
+
+        assert.ok(p.childNodes[0] instanceof Text);
+        assert.ok(p.childNodes[1] instanceof Comment);
+        assert.ok(template instanceof Template);
+        assert.ok(template.content instanceof DocumentFragment);
+        assert.strictEqual(template.content.textContent, 'x');
+    });
+
+    it('Round-trips through the serializer', () => {
+        const html =
+            '<!DOCTYPE html><html><head></head><body><svg><path xlink:href="#a"></path></svg>&amp;</body></html>';
+
+        assert.strictEqual(serialize(parse(html, options), { treeAdapter }), html);
+    });
+
+    it('Attaches declarative shadow roots', () => {
+        const div = parseDiv('<div><template shadowrootmode="open"><b>Shadow</b></template>Light</div>').children[0];
+
+        assert.ok(div.shadowRoot instanceof ShadowRoot);
+        assert.strictEqual(div.shadowRoot.host, div);
+        assert.strictEqual(div.shadowRoot.innerHTML, '<b>Shadow</b>');
+        assert.strictEqual(div.innerHTML, 'Light');
+    });
+});
+
+describe('Node', () => {
+    it('Navigates the tree', () => {
+        const div = parseDiv('a<b>b</b><!--c--><i>d</i>');
+        const [b, i] = div.children;
+
+        assert.strictEqual(b.parentElement, div);
+        assert.strictEqual(b.previousSibling, div.firstChild);
+        assert.strictEqual(b.nextSibling?.nodeName, '#comment');
+        assert.strictEqual(i.nextSibling, null);
+        assert.strictEqual(div.firstChild?.previousSibling, null);
+        assert.strictEqual(div.lastChild, i);
+        assert.strictEqual(div.parentNode?.nodeName, '#document-fragment');
+        assert.strictEqual(div.parentElement, null);
+    });
+
+    it('Gets and sets the text content', () => {
+        const div = parseDiv('a<b>b<!--c--></b><i>d</i>');
+
+        assert.strictEqual(div.textContent, 'abd');
+        assert.strictEqual(div.childNodes[1].textContent, 'b');
+
+        const [b] = div.children;
+
+        div.textContent = 'e';
+
+        assert.strictEqual(div.innerHTML, 'e');
+        assert.strictEqual(b.parentNode, null);
+
+        div.textContent = '';
+
+        assert.strictEqual(div.childNodes.length, 0);
+    });
+
+    it('Removes and replaces nodes', () => {
+        const div = parseDiv('<b>b</b><i>i</i><u>u</u>');
+        const [b, i, u] = div.children;
+
+        i.remove();
+
+        assert.strictEqual(i.parentNode, null);
+        assert.strictEqual(div.innerHTML, '<b>b</b><u>u</u>');
+
+        b.replaceWith('x', i, u);
+
+        assert.strictEqual(b.parentNode, null);
+        assert.strictEqual(div.innerHTML, 'x<i>i</i><u>u</u>');
+
+        u.replaceWith(u, new Text('y'));
+
+        assert.strictEqual(div.innerHTML, 'x<i>i</i><u>u</u>y');
+    });
+
+    it('Moves nodes between parents', () => {
+        const div = parseDiv('<b>b</b><i>i</i>');
+        const [b, i] = div.children;
+
+        b.append(i, 'x');
+        div.insertBefore(new Element('u'), b);
+
+        assert.strictEqual(div.innerHTML, '<u></u><b>b<i>i</i>x</b>');
+        assert.throws(() => i.append(div));
+        assert.throws(() => div.insertBefore(new Text('x'), i));
+    });
+});
+
+describe('Element', () => {
+    it('Gets and sets attributes', () => {
+        const div = parseDiv('<a HREF="#a"></a><svg viewBox="0 0 1 1"><use xlink:href="#b"></use></svg>');
+        const [a, svg] = div.children;
+        const [use] = svg.children;
+
+        assert.strictEqual(a.getAttribute('href'), '#a');
+        assert.strictEqual(a.getAttribute('Href'), '#a');
+        assert.strictEqual(a.getAttribute('title'), null);
+        assert.strictEqual(svg.getAttribute('viewBox'), '0 0 1 1');
+        assert.strictEqual(svg.getAttribute('viewbox'), null);
+        assert.strictEqual(use.getAttribute('xlink:href'), '#b');
+        assert.strictEqual(use.hasAttribute('href'), false);
+
+        a.setAttribute('href', '#c');
+        a.setAttribute('Title', 'd');
+        svg.removeAttribute('viewBox');
+
+        assert.strictEqual(div.innerHTML, '<a href="#c" title="d"></a><svg><use xlink:href="#b"></use></svg>');
+    });
+
+    it('Gets and sets the inner HTML', () => {
+        const div = parseDiv('<table></table><template><p>a</p></template>');
+        const [table, template] = div.children;
+
+        assert.ok(template instanceof Template);
+
+        assert.strictEqual(template.innerHTML, '<p>a</p>');
+
+        table.innerHTML = '<tr><td>b</td></tr>';
+        template.innerHTML = '<td>c</td>';
+
+        assert.strictEqual(
+            div.innerHTML,
+            '<table><tbody><tr><td>b</td></tr></tbody></table><template><td>c</td></template>'
+        );
+        assert.strictEqual(table.children[0].parentNode, table);
+        assert.strictEqual(template.content.childNodes[0].parentNode, template.content);
+    });
+
+    it('Gets and sets the outer HTML', () => {
+        const div = parseDiv('<p>a</p>');
+        const [p] = div.children;
+
+        assert.strictEqual(p.outerHTML, '<p>a</p>');
+        assert.strictEqual(p.parentNode, div);
+
+        p.outerHTML = 'b<i>c</i>';
+
+        assert.strictEqual(div.outerHTML, '<div>b<i>c</i></div>');
+        assert.strictEqual(p.parentNode, null);
+        assert.throws(() => {
+            p.outerHTML = '';
+        });
+    });
+
+    it('Matches selectors', () => {
+        const div = parseDiv('<section id="s" class="a  b"><p title="t"><span lang=en>x</span></p></section><p></p>');
+        const span = div.querySelector('span');
+
+        assert.ok(span);
+        assert.deepStrictEqual(div.querySelectorAll('section p, p:empty'), [span.parentNode, div.lastChild]);
+        assert.ok(span.matches('SPAN[lang=en]'));
+        assert.ok(span.matches('section > p > :scope'));
+        assert.strictEqual(span.closest('[title]')?.tagName, 'p');
+        assert.strictEqual(span.closest('section#s.b.a')?.tagName, 'section');
+        assert.strictEqual(span.closest('.c'), null);
+        assert.throws(() => span.matches('span::before'), SyntaxError);
+    });
+});
@@ -0,0 +1,665 @@
+import { TokenType, Attribute } from 'parse5/dist/common/token.js';
+import { NAMESPACES as NS, DOCUMENT_MODE } from 'parse5/dist/common/html.js';
+import { getDocumentMode } from 'parse5/dist/common/doctype.js';
+import { escapeString, VOID_ELEMENTS } from 'parse5/dist/serializer/index.js';
+import { compileSelector } from 'parse5/dist/selector/index.js';
+import {
+    parseSelector,
+    ComplexSelector,
+    Combinator,
+    SelectorType,
+    SelectorSyntaxError,
+} from 'parse5/dist/selector/parser.js';
+import * as defaultTreeAdapter from 'parse5/dist/tree-adapters/default.js';
+import type { Document, Element } from 'parse5/dist/tree-adapters/default.js';
+import type { SaxEvent, StartTag, Text, Comment, Doctype } from 'parse5-sax-parser';
+import type { ParserFeedbackSimulator } from 'parse5-sax-parser/dist/parser-feedback-simulator.js';
+import { serializeStartTag, serializeEndTag, serializeComment } from './serialize.js';
+import { getOpenElementCountAfterStartTag, getElementIndexClosedByEndTag } from './implied-end-tags.js';
+
+const SELECTOR_NAMESPACES: Record<string, string> = {
+    html: NS.HTML,
+    svg: NS.SVG,
+    math: NS.MATHML,
+    xlink: NS.XLINK,
+    xml: NS.XML,
+    xmlns: NS.XMLNS,
+};
+
+export interface ContentOptions {
+    /**
+     * Treat the content as HTML and insert it as is. Otherwise, the content is considered to be text and is escaped.
+     *
+     * @default `false`
+     */
+    html?: boolean;
+}
+
+/**
+ * Handlers registered for a selector with `.on(selector, handlers)`.
+ */
+export interface ElementHandlers {
+    /** Called for the start tag of each element matching the selector. */
+    element?(element: RewriterElement): void;
+    /** Called for each text chunk inside the matching elements, including the text of their descendants. */
+    text?(text: RewriterText): void;
+    /** Called for each comment inside the matching elements, including the comments of their descendants. */
+    comments?(comment: RewriterComment): void;
+}
+
+interface ContentMutations {
+    before: string;
+    after: string;
+    /** `null` if the content is not removed or replaced. */
+    replacement: string | null;
+}
+
+interface ElementMutations extends ContentMutations {
+    prepend: string;
+    append: string;
+    /** `null` if the inner content is not replaced. */
+    innerContent: string | null;
+    startTagModified: boolean;
+}
+
+function toHtml(content: string, options: ContentOptions): string {
+    return options.html ? content : escapeString(content, false);
+}
+
+/**
+ * Base class for the content passed to element handlers. All modifications are applied to the output stream
+ * once the handlers return.
+ */
+abstract class RewriterContent {
+    constructor(protected mutations: ContentMutations) {}
+
+    /** Indicates that the content is removed or replaced. */
+    public get removed(): boolean {
+        return this.mutations.replacement !== null;
+    }
+
+    /** Inserts the content before this one. */
+    public before(content: string, options: ContentOptions = {}): this {
+        this.mutations.before += toHtml(content, options);
+        return this;
+    }
+
+    /** Inserts the content right after this one, i.e. before the content inserted by the previous calls. */
+    public after(content: string, options: ContentOptions = {}): this {
+        this.mutations.after = toHtml(content, options) + this.mutations.after;
+        return this;
+    }
+
+    /** Replaces this content with the given one. */
+    public replace(content: string, options: ContentOptions = {}): this {
+        this.mutations.replacement = toHtml(content, options);
+        return this;
+    }
+
+    /** Removes this content from the output. */
+    public remove(): this {
+        this.mutations.replacement = '';
+        return this;
+    }
+}
+
+/**
+ * Element matched by a selector. Provides access to the start tag of the element and allows to modify the element
+ * and its content without building a tree.
+ *
+ * Void elements (e.g. `<img>`) and self-closing foreign elements have no content, so `prepend()`, `append()` and
+ * `setInnerContent()` are ignored for them.
+ */
+export class RewriterElement extends RewriterContent {
+    constructor(
+        private token: StartTag,
+        /** Namespace of the element. */
+        public readonly namespaceURI: NS,
+        /** Indicates that the element has no content and no end tag. */
+        public readonly isVoid: boolean,
+        protected override mutations: ElementMutations
+    ) {
+        super(mutations);
+    }
+
+    /** Tag name of the element. Renaming the element renames its end tag as well. */
+    public get tagName(): string {
+        return this.token.tagName;
+    }
+
+    public set tagName(tagName: string) {
+        this.token.tagName = tagName;
+        this.mutations.startTagModified = true;
+    }
+
+    /** List of the element attributes. */
+    public get attributes(): readonly Readonly<Attribute>[] {
+        return this.token.attrs;
+    }
+
+    /** Returns the value of the attribute, or `null` if the element doesn't have it. */
+    public getAttribute(name: string): string | null {
+        return this.token.attrs.find((attr) => attr.name === name)?.value ?? null;
+    }
+
+    public hasAttribute(name: string): boolean {
+        return this.token.attrs.some((attr) => attr.name === name);
+    }
+
+    /** Sets the value of the attribute. Adds the attribute if the element doesn't have it. */
+    public setAttribute(name: string, value: string): this {
+        const attr = this.token.attrs.find((attr) => attr.name === name);
+
+        if (attr) {
+            attr.value = value;
+        } else {
+            this.token.attrs.push({ name, value });
+        }
+
+        this.mutations.startTagModified = true;
+        return this;
+    }
+
+    public removeAttribute(name: string): this {
+        const idx = this.token.attrs.findIndex((attr) => attr.name === name);
+
+        if (idx !== -1) {
+            this.token.attrs.splice(idx, 1);
+            this.mutations.startTagModified = true;
+        }
+
+        return this;
+    }
+
+    /** Inserts the content right after the start tag, i.e. before the content inserted by the previous calls. */
+    public prepend(content: string, options: ContentOptions = {}): this {
+        this.mutations.prepend = toHtml(content, options) + this.mutations.prepend;
+        return this;
+    }
+
+    /** Inserts the content right before the end tag. */
+    public append(content: string, options: ContentOptions = {}): this {
+        this.mutations.append += toHtml(content, options);
+        return this;
+    }
+
+    /** Replaces the content of the element. Discards the content inserted by `prepend()` and `append()`. */
+    public setInnerContent(content: string, options: ContentOptions = {}): this {
+        this.mutations.innerContent = toHtml(content, options);
+        this.mutations.prepend = '';
+        this.mutations.append = '';
+        return this;
+    }
+}
+
+/**
+ * Text chunk inside an element matched by a selector.
+ */
+export class RewriterText extends RewriterContent {
+    constructor(
+        private token: Text,
+        /** Raw source representation of the text, without character references decoded. */
+        public readonly raw: string,
+        mutations: ContentMutations
+    ) {
+        super(mutations);
+    }
+
+    /** Text content with character references decoded. */
+    public get text(): string {
+        return this.token.text;
+    }
+
+    /**
+     * Indicates that the chunk is the last one in its text node. Always `true`, unless the rewriter reports text
+     * in chunks (see the `textChunks` option).
+     */
+    public get lastInTextNode(): boolean {
+        return this.token.lastInTextNode ?? true;
+    }
+}
+
+/**
+ * Comment inside an element matched by a selector.
+ */
+export class RewriterComment extends RewriterContent {
+    constructor(private token: Comment, mutations: ContentMutations, private onModified: () => void) {
+        super(mutations);
+    }
+
+    /** Comment text. */
+    public get text(): string {
+        return this.token.text;
+    }
+
+    public set text(text: string) {
+        this.token.text = text;
+        this.onModified();
+    }
+}
+
+function isQuirksModeDoctype({ name, publicId, systemId }: Doctype): boolean {
+    const token = { type: TokenType.DOCTYPE, name, publicId, systemId, forceQuirks: false, location: null } as const;
+
+    return getDocumentMode(token) === DOCUMENT_MODE.QUIRKS;
+}
+
+interface Registration {
+    matches: (element: Element) => boolean;
+    handlers: ElementHandlers;
+}
+
+interface OpenElement {
+    node: Element;
+    tagName: string;
+    element: RewriterElement | null;
+    mutations: ElementMutations | null;
+    /** Registrations of the element and its ancestors that have text or comment handlers. */
+    contentHandlers: Registration[];
+    /** The content of the element is removed or replaced. */
+    suppressesContent: boolean;
+}
+
+//NOTE: elements are matched once their start tag is encountered, so selectors
+//can't depend on the following siblings or the content of the element.
+function validateSelector(selectors: ComplexSelector[]): void {
+    for (const complex of selectors) {
+        for (const { compound } of complex) {
+            for (const simple of compound) {
+                switch (simple.type) {
+                    case SelectorType.Has:
+                    case SelectorType.Empty: {
+                        throw new SelectorSyntaxError(
+                            `${simple.type === SelectorType.Has ? ':has()' : ':empty'} is not supported in streaming`
+                        );
+                    }
+                    case SelectorType.Nth: {
+                        if (simple.last) {
+                            throw new SelectorSyntaxError(
+                                'Pseudo-classes that count siblings from the end are not supported in streaming'
+                            );
+                        }
+
+                        if (simple.selectors) {
+                            validateSelector(simple.selectors);
+                        }
+
+                        break;
+                    }
+                    case SelectorType.Is:
+                    case SelectorType.Not: {
+                        validateSelector(simple.selectors);
+                        break;
+                    }
+                    default: {
+                        // Can be matched at the start tag
+                    }
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Closed siblings of the open elements that have to be kept for the registered selectors, in the ascending order.
+ */
+enum SiblingRetention {
+    None,
+    /** Only the previous sibling is required by the next-sibling combinator (`a + b`) and `:first-child`. */
+    Previous,
+    /** All siblings are required by the subsequent-sibling combinator (`a ~ b`) and the other `:nth-*()` pseudo-classes. */
+    All,
+}
+
+function getSiblingRetention(selectors: ComplexSelector[]): SiblingRetention {
+    let retention = SiblingRetention.None;
+
+    for (const complex of selectors) {
+        for (const { combinator, compound } of complex) {
+            if (combinator === Combinator.SubsequentSibling) {
+                return SiblingRetention.All;
+            }
+
+            if (combinator === Combinator.NextSibling) {
+                retention = SiblingRetention.Previous;
+            }
+
+            for (const simple of compound) {
+                if (simple.type === SelectorType.Nth) {
+                    //NOTE: `:first-child` only checks if the element has a previous sibling.
+                    if (simple.a !== 0 || simple.b !== 1 || simple.ofType || simple.selectors) {
+                        return SiblingRetention.All;
+                    }
+
+                    retention = SiblingRetention.Previous;
+                }
+
+                if (simple.type === SelectorType.Is || simple.type === SelectorType.Not) {
+                    retention = Math.max(retention, getSiblingRetention(simple.selectors));
+                }
+            }
+        }
+    }
+
+    return retention;
+}
+
+/**
+ * Dispatches the tokens of the rewriter to the selector-based element handlers and applies the modifications
+ * made by the handlers to the output.
+ *
+ * The open elements are tracked with the tree construction rules for implied end tags: an element is closed by its
+ * end tag, by a start or end tag that implies its end tag (e.g. `<li>` closes the previous `<li>`) or by the end of
+ * the input. Misnested formatting elements are not reconstructed, so their extent can differ from the one in the
+ * parsed tree. Elements are kept in a lightweight tree, so that selectors can refer to the ancestors and preceding
+ * siblings. The content of the closed elements is discarded, and so are their closed siblings, unless the registered
+ * selectors depend on them.
+ */
+export class ElementHandlersDispatcher {
+    private registrations: Registration[] = [];
+    private document: Document = defaultTreeAdapter.createDocument();
+    private stack: OpenElement[] = [];
+    private suppressionDepth = 0;
+    private siblingRetention = SiblingRetention.None;
+    //NOTE: documents without a doctype are rendered in the quirks mode.
+    private quirksMode = true;
+
+    /**
+     * @param simulator Parser feedback simulator of the rewriter, used to determine the namespaces of elements.
+     * @param emitToken Emits the token using the default rewriter behavior.
+     * @param emitRaw Emits the HTML string into the output stream.
+     */
+    constructor(
+        private simulator: ParserFeedbackSimulator,
+        private emitToken: (event: SaxEvent, rawHtml: string) => void,
+        private emitRaw: (html: string) => void
+    ) {}
+
+    public add(selector: string, handlers: ElementHandlers): void {
+        const selectors = parseSelector(selector, SELECTOR_NAMESPACES);
+
+        validateSelector(selectors);
+        this.siblingRetention = Math.max(this.siblingRetention, getSiblingRetention(selectors));
+        this.registrations.push({ matches: compileSelector(selector), handlers });
+    }
+
+    public handleEvent(event: SaxEvent, rawHtml: string): void {
+        if (event.type === 'doctype') {
+            this.quirksMode = isQuirksModeDoctype(event.token);
+        }
+
+        //NOTE: don't track elements until handlers are registered.
+        if (this.registrations.length === 0) {
+            this.emitToken(event, rawHtml);
+            return;
+        }
+
+        switch (event.type) {
+            case 'startTag': {
+                this._handleStartTag(event.token, rawHtml);
+                break;
+            }
+            case 'endTag': {
+                this._handleEndTag(event, rawHtml);
+                break;
+            }
+            case 'text': {
+                this._handleContent(event, rawHtml, (registration, mutations) =>
+                    registration.handlers.text?.(new RewriterText(event.token, rawHtml, mutations))
+                );
+                break;
+            }
+            case 'comment': {
+                let modified = false;
+                const onModified = (): void => {
+                    modified = true;
+                };
+
+                this._handleContent(
+                    event,
+                    rawHtml,
+                    (registration, mutations) =>
+                        registration.handlers.comments?.(new RewriterComment(event.token, mutations, onModified)),
+                    () => (modified ? serializeComment(event.token) : rawHtml)
+                );
+                break;
+            }
+            case 'doctype': {
+                this._emitUnlessSuppressed(event, rawHtml);
+                break;
+            }
+        }
+    }
+
+    /** Closes all open elements. Should be called once the input ends. */
+    public end(): void {
+        for (let entry = this.stack.pop(); entry; entry = this.stack.pop()) {
+            this._closeElement(entry, null);
+        }
+    }
+
+    private _emitHtml(html: string): void {
+        if (html) {
+            this.emitRaw(html);
+        }
+    }
+
+    private _emitUnlessSuppressed(event: SaxEvent, rawHtml: string): void {
+        if (this.suppressionDepth === 0) {
+            this.emitToken(event, rawHtml);
+        }
+    }
+
+    private _handleStartTag(token: StartTag, rawHtml: string): void {
+        const namespaceURI = this.simulator.elementNamespace;
+
+        this._closeElementsAbove(
+            getOpenElementCountAfterStartTag(this.stack, token.tagName, namespaceURI, this.quirksMode)
+        );
+
+        const parent = this.stack.length > 0 ? this.stack[this.stack.length - 1] : null;
+        const node = defaultTreeAdapter.createElement(
+            token.tagName,
+            namespaceURI,
+            token.attrs.map((attr) => ({ ...attr }))
+        );
+        const isVoid = namespaceURI === NS.HTML ? VOID_ELEMENTS.has(token.tagName) : token.selfClosing;
+
+        const parentNode = parent?.node ?? this.document;
+
+        //NOTE: all the previous siblings are closed at this point.
+        if (this.siblingRetention === SiblingRetention.None) {
+            parentNode.childNodes = [];
+        } else if (this.siblingRetention === SiblingRetention.Previous) {
+            parentNode.childNodes = parentNode.childNodes.slice(-1);
+        }
+
+        defaultTreeAdapter.appendChild(parentNode, node);
+
+        const entry: OpenElement = {
+            node,
+            tagName: token.tagName,
+            element: null,
+            mutations: null,
+            contentHandlers: parent?.contentHandlers ?? [],
+            suppressesContent: false,
+        };
+
+        if (this.suppressionDepth === 0) {
+            const matched = this.registrations.filter((registration) => registration.matches(node));
+
+            if (matched.length > 0) {
+                this._runElementHandlers(entry, token, matched, isVoid);
+            }
+
+            this._emitStartTag(entry, token, rawHtml, isVoid);
+        }
+
+        if (isVoid) {
+            node.childNodes = [];
+        } else {
+            this.stack.push(entry);
+        }
+    }
+
+    private _runElementHandlers(entry: OpenElement, token: StartTag, matched: Registration[], isVoid: boolean): void {
+        const mutations: ElementMutations = {
+            before: '',
+            after: '',
+            replacement: null,
+            prepend: '',
+            append: '',
+            innerContent: null,
+            startTagModified: false,
+        };
+
+        entry.mutations = mutations;
+        entry.element = new RewriterElement(token, entry.node.namespaceURI, isVoid, mutations);
+
+        const contentHandlers = matched.filter(
+            (registration) =>
+                (registration.handlers.text || registration.handlers.comments) &&
+                !entry.contentHandlers.includes(registration)
+        );
+
+        if (contentHandlers.length > 0) {
+            entry.contentHandlers = [...entry.contentHandlers, ...contentHandlers];
+        }
+
+        for (const { handlers } of matched) {
+            handlers.element?.(entry.element);
+        }
+    }
+
+    private _emitStartTag(entry: OpenElement, token: StartTag, rawHtml: string, isVoid: boolean): void {
+        const { mutations } = entry;
+
+        if (mutations === null) {
+            this.emitToken({ type: 'startTag', token }, rawHtml);
+            return;
+        }
+
+        this._emitHtml(mutations.before);
+
+        if (mutations.replacement === null) {
+            this.emitToken(
+                { type: 'startTag', token },
+                mutations.startTagModified ? serializeStartTag(token) : rawHtml
+            );
+        } else {
+            this._emitHtml(mutations.replacement);
+        }
+
+        if (isVoid) {
+            this._emitHtml(mutations.after);
+        } else if (mutations.replacement === null) {
+            this._emitHtml(mutations.prepend);
+
+            if (mutations.innerContent !== null) {
+                this._emitHtml(mutations.innerContent);
+                this._suppressContent(entry);
+            }
+        } else {
+            this._suppressContent(entry);
+        }
+    }
+
+    private _suppressContent(entry: OpenElement): void {
+        entry.suppressesContent = true;
+        this.suppressionDepth++;
+    }
+
+    private _handleEndTag(event: SaxEvent & { type: 'endTag' }, rawHtml: string): void {
+        const idx = getElementIndexClosedByEndTag(this.stack, event.token.tagName);
+
+        if (idx === -1) {
+            this._emitUnlessSuppressed(event, rawHtml);
+            return;
+        }
+
+        this._closeElementsAbove(idx + 1);
+
+        const [entry] = this.stack.splice(idx);
+
+        this._closeElement(entry, { event, rawHtml });
+    }
+
+    private _closeElementsAbove(length: number): void {
+        for (const entry of this.stack.splice(length).reverse()) {
+            this._closeElement(entry, null);
+        }
+    }
+
+    private _closeElement(entry: OpenElement, endTag: { event: SaxEvent; rawHtml: string } | null): void {
+        //NOTE: the content of the closed element can't be matched by selectors anymore.
+        entry.node.childNodes = [];
+
+        if (entry.suppressesContent) {
+            this.suppressionDepth--;
+        }
+
+        if (this.suppressionDepth > 0) {
+            return;
+        }
+
+        const { mutations, element } = entry;
+
+        if (mutations === null || element === null) {
+            if (endTag) {
+                this.emitToken(endTag.event, endTag.rawHtml);
+            }
+
+            return;
+        }
+
+        if (mutations.replacement === null) {
+            this._emitHtml(mutations.append);
+
+            if (endTag) {
+                if (element.tagName === entry.tagName) {
+                    this.emitToken(endTag.event, endTag.rawHtml);
+                } else {
+                    const token = { ...endTag.event.token, tagName: element.tagName };
+
+                    this.emitToken({ type: 'endTag', token }, serializeEndTag(token));
+                }
+            }
+        }
+
+        this._emitHtml(mutations.after);
+    }
+
+    private _handleContent(
+        event: SaxEvent,
+        rawHtml: string,
+        callHandler: (registration: Registration, mutations: ContentMutations) => void,
+        getHtml: () => string = (): string => rawHtml
+    ): void {
+        if (this.suppressionDepth > 0) {
+            return;
+        }
+
+        const contentHandlers = this.stack.length > 0 ? this.stack[this.stack.length - 1].contentHandlers : [];
+
+        if (contentHandlers.length === 0) {
+            this.emitToken(event, rawHtml);
+            return;
+        }
+
+        const mutations: ContentMutations = { before: '', after: '', replacement: null };
+
+        for (const registration of contentHandlers) {
+            callHandler(registration, mutations);
+        }
+
+        this._emitHtml(mutations.before);
+
+        if (mutations.replacement === null) {
+            this.emitToken(event, getHtml());
+        } else {
+            this._emitHtml(mutations.replacement);
+        }
+
+        this._emitHtml(mutations.after);
+    }
+}
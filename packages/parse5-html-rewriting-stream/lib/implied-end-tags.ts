@@ -0,0 +1,333 @@
+import {
+    TAG_ID as $,
+    NAMESPACES as NS,
+    SPECIAL_ELEMENTS,
+    getTagID,
+    isNumberedHeader,
+} from 'parse5/dist/common/html.js';
+import { isIntegrationPoint } from 'parse5/dist/common/foreign-content.js';
+import { SCOPING_ELEMENT_NS } from 'parse5/dist/parser/open-element-stack.js';
+import type { Element } from 'parse5/dist/tree-adapters/default.js';
+
+//NOTE: a subset of the tree construction rules, which determines the elements closed by start and end tags
+//without building the tree. Misnested formatting elements (e.g. `<b>1<p>2</b>3`) are not reconstructed
+//by the adoption agency algorithm, as that requires moving the elements around.
+
+const CLOSES_P = new Set([
+    $.ADDRESS,
+    $.ARTICLE,
+    $.ASIDE,
+    $.BLOCKQUOTE,
+    $.CENTER,
+    $.DD,
+    $.DETAILS,
+    $.DIALOG,
+    $.DIR,
+    $.DIV,
+    $.DL,
+    $.DT,
+    $.FIELDSET,
+    $.FIGCAPTION,
+    $.FIGURE,
+    $.FOOTER,
+    $.FORM,
+    $.H1,
+    $.H2,
+    $.H3,
+    $.H4,
+    $.H5,
+    $.H6,
+    $.HEADER,
+    $.HGROUP,
+    $.HR,
+    $.LI,
+    $.LISTING,
+    $.MAIN,
+    $.MENU,
+    $.NAV,
+    $.OL,
+    $.P,
+    $.PLAINTEXT,
+    $.PRE,
+    $.SECTION,
+    $.SUMMARY,
+    $.TABLE,
+    $.UL,
+    $.XMP,
+]);
+
+const TABLE_CONTEXT = new Set([$.TABLE]);
+const COLUMN_GROUP_CONTEXT = new Set([$.COLGROUP, $.TABLE]);
+const TABLE_BODY_CONTEXT = new Set([$.TBODY, $.TFOOT, $.THEAD, $.TABLE]);
+const TABLE_ROW_CONTEXT = new Set([$.TR, ...TABLE_BODY_CONTEXT]);
+const TABLE_STRUCTURE = new Set([$.TABLE, $.TBODY, $.TFOOT, $.THEAD, $.TR]);
+const TABLE_SCOPED_END_TAGS = new Set([$.CAPTION, $.COLGROUP, $.TABLE, $.TBODY, $.TD, $.TFOOT, $.TH, $.THEAD, $.TR]);
+
+const enum Scope {
+    Default,
+    Button,
+    ListItem,
+    Table,
+}
+
+export interface StackEntry {
+    node: Element;
+}
+
+function getHtmlTagID(node: Element): $ {
+    return node.namespaceURI === NS.HTML ? getTagID(node.tagName) : $.UNKNOWN;
+}
+
+function isScopeBoundary(node: Element, scope: Scope): boolean {
+    const tn = getTagID(node.tagName);
+
+    switch (scope) {
+        case Scope.Table: {
+            return node.namespaceURI === NS.HTML && (tn === $.TABLE || tn === $.TEMPLATE || tn === $.HTML);
+        }
+        case Scope.Button: {
+            return getHtmlTagID(node) === $.BUTTON || SCOPING_ELEMENT_NS.get(tn) === node.namespaceURI;
+        }
+        case Scope.ListItem: {
+            const htmlTn = getHtmlTagID(node);
+
+            return htmlTn === $.UL || htmlTn === $.OL || SCOPING_ELEMENT_NS.get(tn) === node.namespaceURI;
+        }
+        default: {
+            return SCOPING_ELEMENT_NS.get(tn) === node.namespaceURI;
+        }
+    }
+}
+
+function isSpecial(node: Element): boolean {
+    return SPECIAL_ELEMENTS[node.namespaceURI].has(getTagID(node.tagName));
+}
+
+function isForeignContent(node: Element): boolean {
+    return node.namespaceURI !== NS.HTML && !isIntegrationPoint(getTagID(node.tagName), node.namespaceURI, node.attrs);
+}
+
+/** Returns the index of the topmost HTML element that satisfies the predicate and is in the scope, or `-1`. */
+function findInScope(stack: StackEntry[], length: number, scope: Scope, predicate: (tn: $) => boolean): number {
+    for (let i = length - 1; i >= 0; i--) {
+        const { node } = stack[i];
+
+        if (node.namespaceURI === NS.HTML && predicate(getTagID(node.tagName))) {
+            return i;
+        }
+
+        if (isScopeBoundary(node, scope)) {
+            return -1;
+        }
+    }
+
+    return -1;
+}
+
+//NOTE: table structure elements close everything up to the element that can contain them. They are ignored
+//if there is no such element in the table scope.
+function clearBackToContext(stack: StackEntry[], length: number, context: Set<$>): number {
+    for (let i = length - 1; i >= 0; i--) {
+        const tn = getHtmlTagID(stack[i].node);
+
+        if (context.has(tn)) {
+            return i + 1;
+        }
+
+        if (tn === $.TEMPLATE || tn === $.HTML) {
+            break;
+        }
+    }
+
+    return length;
+}
+
+function closeListItem(stack: StackEntry[], length: number, isListItem: (tn: $) => boolean): number {
+    for (let i = length - 1; i >= 0; i--) {
+        const { node } = stack[i];
+        const tn = getHtmlTagID(node);
+
+        if (isListItem(tn)) {
+            return i;
+        }
+
+        if (isSpecial(node) && tn !== $.ADDRESS && tn !== $.DIV && tn !== $.P) {
+            break;
+        }
+    }
+
+    return length;
+}
+
+/**
+ * Returns the number of the open elements which stay open once the start tag is processed. The elements above
+ * are implicitly closed by the start tag.
+ *
+ * @param stack Open elements.
+ * @param tagName Tag name of the start tag.
+ * @param namespaceURI Namespace of the element created for the start tag.
+ * @param quirksMode Indicates that the document is in the quirks mode.
+ */
+export function getOpenElementCountAfterStartTag(
+    stack: StackEntry[],
+    tagName: string,
+    namespaceURI: NS,
+    quirksMode: boolean
+): number {
+    let { length } = stack;
+
+    if (namespaceURI !== NS.HTML) {
+        return length;
+    }
+
+    //NOTE: HTML elements break out of foreign content.
+    while (length > 0 && isForeignContent(stack[length - 1].node)) {
+        length--;
+    }
+
+    const tn = getTagID(tagName);
+
+    switch (tn) {
+        case $.LI: {
+            length = closeListItem(stack, length, (itemTn) => itemTn === $.LI);
+            break;
+        }
+        case $.DD:
+        case $.DT: {
+            length = closeListItem(stack, length, (itemTn) => itemTn === $.DD || itemTn === $.DT);
+            break;
+        }
+        case $.TD:
+        case $.TH: {
+            length = clearBackToContext(stack, length, TABLE_ROW_CONTEXT);
+            break;
+        }
+        case $.TR: {
+            length = clearBackToContext(stack, length, TABLE_BODY_CONTEXT);
+            break;
+        }
+        case $.COL: {
+            length = clearBackToContext(stack, length, COLUMN_GROUP_CONTEXT);
+            break;
+        }
+        case $.CAPTION:
+        case $.COLGROUP:
+        case $.TBODY:
+        case $.TFOOT:
+        case $.THEAD: {
+            length = clearBackToContext(stack, length, TABLE_CONTEXT);
+            break;
+        }
+        case $.TABLE: {
+            //NOTE: a table can't be nested in another table, unless it's inside a cell or a caption.
+            if (length > 0 && TABLE_STRUCTURE.has(getHtmlTagID(stack[length - 1].node))) {
+                const tableContextLength = clearBackToContext(stack, length, TABLE_CONTEXT);
+
+                if (tableContextLength !== length || getHtmlTagID(stack[length - 1].node) === $.TABLE) {
+                    length = tableContextLength - 1;
+                }
+            }
+
+            break;
+        }
+        case $.OPTION:
+        case $.OPTGROUP: {
+            if (length > 0 && getHtmlTagID(stack[length - 1].node) === $.OPTION) {
+                length--;
+            }
+
+            if (tn === $.OPTGROUP && length > 0 && getHtmlTagID(stack[length - 1].node) === $.OPTGROUP) {
+                length--;
+            }
+
+            break;
+        }
+        case $.BUTTON: {
+            const idx = findInScope(stack, length, Scope.Default, (openTn) => openTn === $.BUTTON);
+
+            if (idx !== -1) {
+                length = idx;
+            }
+
+            break;
+        }
+        default:
+        // Do nothing
+    }
+
+    //NOTE: tables are placed inside paragraphs in the quirks mode.
+    if (CLOSES_P.has(tn) && (tn !== $.TABLE || !quirksMode)) {
+        const idx = findInScope(stack, length, Scope.Button, (openTn) => openTn === $.P);
+
+        if (idx !== -1) {
+            length = idx;
+        }
+    }
+
+    if (isNumberedHeader(tn) && length > 0 && isNumberedHeader(getHtmlTagID(stack[length - 1].node))) {
+        length--;
+    }
+
+    return length;
+}
+
+/**
+ * Returns the index of the open element closed by the end tag, or `-1` if the end tag is ignored.
+ * The elements above it are implicitly closed.
+ *
+ * @param stack Open elements.
+ * @param tagName Tag name of the end tag.
+ */
+export function getElementIndexClosedByEndTag(stack: StackEntry[], tagName: string): number {
+    let { length } = stack;
+    const lowerCaseTagName = tagName.toLowerCase();
+
+    //NOTE: end tags in foreign content close the foreign element with the same name. Otherwise, they are
+    //processed as usual once an HTML element is reached.
+    for (; length > 0 && stack[length - 1].node.namespaceURI !== NS.HTML; length--) {
+        if (stack[length - 1].node.tagName.toLowerCase() === lowerCaseTagName) {
+            return length - 1;
+        }
+    }
+
+    const tn = getTagID(tagName);
+
+    if (tn === $.P) {
+        return findInScope(stack, length, Scope.Button, (openTn) => openTn === $.P);
+    }
+
+    if (tn === $.LI) {
+        return findInScope(stack, length, Scope.ListItem, (openTn) => openTn === $.LI);
+    }
+
+    if (isNumberedHeader(tn)) {
+        return findInScope(stack, length, Scope.Default, isNumberedHeader);
+    }
+
+    if (TABLE_SCOPED_END_TAGS.has(tn)) {
+        return findInScope(stack, length, Scope.Table, (openTn) => openTn === tn);
+    }
+
+    if (tn === $.BR) {
+        return -1;
+    }
+
+    if (SPECIAL_ELEMENTS[NS.HTML].has(tn)) {
+        return findInScope(stack, length, Scope.Default, (openTn) => openTn === tn);
+    }
+
+    //NOTE: other end tags close the element with the same name, unless a special element is open above it.
+    for (let i = length - 1; i >= 0; i--) {
+        const { node } = stack[i];
+
+        if (node.namespaceURI === NS.HTML && node.tagName === tagName) {
+            return i;
+        }
+
+        if (isSpecial(node)) {
+            break;
+        }
+    }
+
+    return -1;
+}
@@ -1,6 +1,27 @@
-import type { Token, Location } from 'parse5/dist/common/token.js';
-import { SAXParser, EndTag, StartTag, Doctype, Text, Comment, SaxToken } from 'parse5-sax-parser';
-import { escapeString } from 'parse5/dist/serializer/index.js';
+import { TokenType, Token } from 'parse5/dist/common/token.js';
+import {
+    SAXParser,
+    SAXParserOptions,
+    EndTag,
+    StartTag,
+    Doctype,
+    Text,
+    Comment,
+    SaxEvent,
+    getSaxEvent,
+} from 'parse5-sax-parser';
+import { ElementHandlersDispatcher, ElementHandlers } from './element-handlers.js';
+import {
+    RawHtmlBuffer,
+    serializeDoctype,
+    serializeStartTag,
+    serializeEndTag,
+    serializeText,
+    serializeComment,
+} from './serialize.js';
+
+export { RewritingTransformStream } from './transform-stream.js';
+export { ContentOptions, ElementHandlers, RewriterElement, RewriterText, RewriterComment } from './element-handlers.js';
 
 /**
  * Streaming [SAX](https://en.wikipedia.org/wiki/Simple_API_for_XML)-style HTML rewriter.
@@ -42,6 +63,15 @@ import { escapeString } from 'parse5/dist/serializer/index.js';
  *     rewriter.emitRaw(`<i>${raw}</i>`);
  * });
  *
+ * // Add an attribute to all links and remove scripts
+ * rewriter.on('a[href]', {
+ *     element: element => element.setAttribute('rel', 'noopener'),
+ * });
+ *
+ * rewriter.on('script', {
+ *     element: element => element.remove(),
+ * });
+ *
  * http.get('http://google.com', res => {
  *    // Assumes response is UTF-8.
  *    res.setEncoding('utf8');
@@ -52,30 +82,76 @@ import { escapeString } from 'parse5/dist/serializer/index.js';
  * ```
  */
 export class RewritingStream extends SAXParser {
-    /** Note: The `sourceCodeLocationInfo` is always enabled. */
-    constructor() {
-        super({ sourceCodeLocationInfo: true });
+    private rawHtml = new RawHtmlBuffer();
+    private elementHandlers: ElementHandlersDispatcher;
+
+    /**
+     * Note: The `sourceCodeLocationInfo` is always enabled.
+     *
+     * @param options Parsing options. Enable `textChunks` to receive text as soon as it is consumed, without
+     * buffering whole text nodes. Raw HTML of the text chunks is passed to the listeners as usual.
+     */
+    constructor(options: Omit<SAXParserOptions, 'sourceCodeLocationInfo'> = {}) {
+        super({ ...options, sourceCodeLocationInfo: true });
+
+        this.elementHandlers = new ElementHandlersDispatcher(
+            this.parserFeedbackSimulator,
+            (event, rawHtml) => this._emitEvent(event, rawHtml),
+            (html) => this.emitRaw(html)
+        );
+    }
+
+    /** Raised when the rewriter encounters a start tag. */
+    public override on(event: 'startTag', listener: (startTag: StartTag, rawHtml: string) => void): this;
+    /** Raised when the rewriter encounters an end tag. */
+    public override on(event: 'endTag', listener: (endTag: EndTag, rawHtml: string) => void): this;
+    /** Raised when the rewriter encounters a comment. */
+    public override on(event: 'comment', listener: (comment: Comment, rawHtml: string) => void): this;
+    /** Raised when the rewriter encounters text content. */
+    public override on(event: 'text', listener: (text: Text, rawHtml: string) => void): this;
+    /** Raised when the rewriter encounters a [document type declaration](https://en.wikipedia.org/wiki/Document_type_declaration) */
+    public override on(event: 'doctype', listener: (doctype: Doctype, rawHtml: string) => void): this;
+    /**
+     * Registers handlers for the elements matching the selector, similar to
+     * [HTMLRewriter](https://developers.cloudflare.com/workers/runtime-apis/html-rewriter/). The handlers
+     * are applied while streaming, without building a tree. Should be called before writing to the stream.
+     *
+     * Selectors that depend on the following siblings or the content of the element (`:has()`, `:empty`,
+     * `:last-child` etc.) are not supported.
+     */
+    public override on(selector: string, handlers: ElementHandlers): this;
+    /**
+     * Base event handler.
+     *
+     * @param event Name of the event
+     * @param listener Event listener
+     */
+    public override on(event: string, listener: (...args: never[]) => void): this;
+    public override on(event: string, listener: ((...args: never[]) => void) | ElementHandlers): this {
+        if (typeof listener === 'function') {
+            return super.on(event, listener as (...args: unknown[]) => void);
+        }
+
+        this.elementHandlers.add(event, listener);
+        return this;
     }
 
     override _transformChunk(chunk: string): string {
         // NOTE: ignore upstream return value as we want to push to
         // the Writable part of Transform stream ourselves.
+        this.rawHtml.write(chunk);
         super._transformChunk(chunk);
         return '';
     }
 
-    private _getRawHtml(location: Location): string {
-        const { droppedBufferSize, html } = this.tokenizer.preprocessor;
-        const start = location.startOffset - droppedBufferSize;
-        const end = location.endOffset - droppedBufferSize;
-
-        return html.slice(start, end);
-    }
-
     // Events
-    protected override _handleToken(token: Token): boolean {
-        if (!super._handleToken(token)) {
-            this.emitRaw(this._getRawHtml(token.location!));
+    protected override _handleToken(token: Token, lastInTextNode?: boolean): boolean {
+        const event = getSaxEvent(token, lastInTextNode);
+
+        if (event) {
+            this.elementHandlers.handleEvent(event, this.rawHtml.getRawHtml(token.location!));
+        } else if (token.type === TokenType.EOF) {
+            this.elementHandlers.end();
         }
 
         // NOTE: don't skip new lines after <pre> and other tags,
@@ -84,53 +160,39 @@ export class RewritingStream extends SAXParser {
         return true;
     }
 
-    // Emitter API
-    protected override _emitToken(eventName: string, token: SaxToken): void {
-        this.emit(eventName, token, this._getRawHtml(token.sourceCodeLocation!));
+    private _emitEvent(event: SaxEvent, rawHtml: string): void {
+        if (this.listenerCount(event.type) > 0) {
+            this.emit(event.type, event.token, rawHtml);
+        } else {
+            this.emitRaw(rawHtml);
+        }
     }
 
+    // Emitter API
+
     /** Emits serialized document type token into the output stream. */
     public emitDoctype(token: Doctype): void {
-        let res = `<!DOCTYPE ${token.name}`;
-
-        if (token.publicId !== null) {
-            res += ` PUBLIC "${token.publicId}"`;
-        } else if (token.systemId !== null) {
-            res += ' SYSTEM';
-        }
-
-        if (token.systemId !== null) {
-            res += ` "${token.systemId}"`;
-        }
-
-        res += '>';
-
-        this.push(res);
+        this.push(serializeDoctype(token));
     }
 
     /** Emits serialized start tag token into the output stream. */
     public emitStartTag(token: StartTag): void {
-        const res = token.attrs.reduce(
-            (res, attr) => `${res} ${attr.name}="${escapeString(attr.value, true)}"`,
-            `<${token.tagName}`
-        );
-
-        this.push(res + (token.selfClosing ? '/>' : '>'));
+        this.push(serializeStartTag(token));
     }
 
     /** Emits serialized end tag token into the output stream. */
     public emitEndTag(token: EndTag): void {
-        this.push(`</${token.tagName}>`);
+        this.push(serializeEndTag(token));
     }
 
     /** Emits serialized text token into the output stream. */
-    public emitText({ text }: Text): void {
-        this.push(escapeString(text, false));
+    public emitText(token: Text): void {
+        this.push(serializeText(token));
     }
 
     /** Emits serialized comment token into the output stream. */
     public emitComment(token: Comment): void {
-        this.push(`<!--${token.text}-->`);
+        this.push(serializeComment(token));
     }
 
     /** Emits raw HTML string into the output stream. */
@@ -0,0 +1,67 @@
+import type { Location } from 'parse5/dist/common/token.js';
+import type { EndTag, StartTag, Doctype, Text, Comment } from 'parse5-sax-parser';
+import { escapeString } from 'parse5/dist/serializer/index.js';
+
+const BUFFER_WATERLINE = 1 << 16;
+
+//NOTE: the tokenizer drops the parsed part of its buffer even if it contains the beginning of a pending text token.
+//So, we keep our own copy of the source and drop only the parts that precede the already handled tokens.
+export class RawHtmlBuffer {
+    private html = '';
+    private droppedBufferSize = 0;
+
+    public write(chunk: string): void {
+        this.html += chunk;
+    }
+
+    /** Returns the raw HTML of the token. Tokens should be requested in the source order. */
+    public getRawHtml(location: Location): string {
+        const start = location.startOffset - this.droppedBufferSize;
+        const end = location.endOffset - this.droppedBufferSize;
+        const rawHtml = this.html.slice(start, end);
+
+        if (end > BUFFER_WATERLINE) {
+            this.html = this.html.slice(end);
+            this.droppedBufferSize += end;
+        }
+
+        return rawHtml;
+    }
+}
+
+export function serializeDoctype(token: Doctype): string {
+    let res = `<!DOCTYPE ${token.name}`;
+
+    if (token.publicId !== null) {
+        res += ` PUBLIC "${token.publicId}"`;
+    } else if (token.systemId !== null) {
+        res += ' SYSTEM';
+    }
+
+    if (token.systemId !== null) {
+        res += ` "${token.systemId}"`;
+    }
+
+    return `${res}>`;
+}
+
+export function serializeStartTag(token: StartTag): string {
+    const res = token.attrs.reduce(
+        (res, attr) => `${res} ${attr.name}="${escapeString(attr.value, true)}"`,
+        `<${token.tagName}`
+    );
+
+    return res + (token.selfClosing ? '/>' : '>');
+}
+
+export function serializeEndTag(token: EndTag): string {
+    return `</${token.tagName}>`;
+}
+
+export function serializeText({ text }: Text): string {
+    return escapeString(text, false);
+}
+
+export function serializeComment(token: Comment): string {
+    return `<!--${token.text}-->`;
+}
@@ -0,0 +1,210 @@
+import { TokenType, Token } from 'parse5/dist/common/token.js';
+import {
+    SAXParserCore,
+    SAXParserOptions,
+    SaxEvent,
+    EndTag,
+    StartTag,
+    Doctype,
+    Text,
+    Comment,
+    getSaxEvent,
+} from 'parse5-sax-parser';
+import {
+    RawHtmlBuffer,
+    serializeDoctype,
+    serializeStartTag,
+    serializeEndTag,
+    serializeText,
+    serializeComment,
+} from './serialize.js';
+import { ElementHandlersDispatcher, ElementHandlers } from './element-handlers.js';
+
+type Listener = (token: SaxEvent['token'], rawHtml: string) => void;
+
+/**
+ * Streaming [SAX](https://en.wikipedia.org/wiki/Simple_API_for_XML)-style HTML rewriter implemented as a
+ * [WHATWG transform stream](https://streams.spec.whatwg.org/#ts-model). Has the same event model and emitter API
+ * as `RewritingStream`, but works in any runtime that supports web streams (eg. service workers or edge workers).
+ *
+ * Tokens without event listeners are emitted using their raw source representation. Tokens split between chunks are
+ * reported once the chunk containing their end is written.
+ *
+ * @example
+ *
+ * ```js
+ * const { RewritingTransformStream } = require('parse5-html-rewriting-stream');
+ *
+ * const rewriter = new RewritingTransformStream();
+ *
+ * // Replace divs with spans
+ * rewriter.on('startTag', (startTag) => {
+ *     if (startTag.tagName === 'div') {
+ *         startTag.tagName = 'span';
+ *     }
+ *
+ *     rewriter.emitStartTag(startTag);
+ * });
+ *
+ * rewriter.on('endTag', (endTag) => {
+ *     if (endTag.tagName === 'div') {
+ *         endTag.tagName = 'span';
+ *     }
+ *
+ *     rewriter.emitEndTag(endTag);
+ * });
+ *
+ * addEventListener('fetch', (event) => {
+ *     event.respondWith(
+ *         fetch(event.request).then((response) => {
+ *             const body = response.body
+ *                 .pipeThrough(new TextDecoderStream())
+ *                 .pipeThrough(rewriter)
+ *                 .pipeThrough(new TextEncoderStream());
+ *
+ *             return new Response(body, response);
+ *         })
+ *     );
+ * });
+ * ```
+ */
+export class RewritingTransformStream implements ReadableWritablePair<string, string> {
+    public readonly readable: ReadableStream<string>;
+    public readonly writable: WritableStream<string>;
+    protected core: SAXParserCore;
+    private rawHtml = new RawHtmlBuffer();
+    private controller!: TransformStreamDefaultController<string>;
+    private listeners = new Map<string, Listener[]>();
+    private elementHandlers: ElementHandlersDispatcher;
+
+    /**
+     * Note: The `sourceCodeLocationInfo` is always enabled.
+     *
+     * @param options Parsing options. Enable `textChunks` to receive text as soon as it is consumed, without
+     * buffering whole text nodes. Raw HTML of the text chunks is passed to the listeners as usual.
+     */
+    constructor(options: Omit<SAXParserOptions, 'sourceCodeLocationInfo'> = {}) {
+        this.core = new SAXParserCore({ ...options, sourceCodeLocationInfo: true }, (token, lastInTextNode) =>
+            this._handleToken(token, lastInTextNode)
+        );
+        this.elementHandlers = new ElementHandlersDispatcher(
+            this.core.parserFeedbackSimulator,
+            (event, rawHtml) => this._emitEvent(event, rawHtml),
+            (html) => this.emitRaw(html)
+        );
+
+        const { readable, writable } = new TransformStream<string, string>({
+            start: (controller): void => {
+                this.controller = controller;
+            },
+            transform: (chunk): void => {
+                if (typeof chunk !== 'string') {
+                    throw new TypeError('Parser can work only with string streams.');
+                }
+
+                this.rawHtml.write(chunk);
+                this.core.write(chunk, false);
+            },
+            flush: (): void => {
+                this.core.write('', true);
+            },
+        });
+
+        this.readable = readable;
+        this.writable = writable;
+    }
+
+    /** Raised when the rewriter encounters a start tag. */
+    public on(event: 'startTag', listener: (startTag: StartTag, rawHtml: string) => void): this;
+    /** Raised when the rewriter encounters an end tag. */
+    public on(event: 'endTag', listener: (endTag: EndTag, rawHtml: string) => void): this;
+    /** Raised when the rewriter encounters a comment. */
+    public on(event: 'comment', listener: (comment: Comment, rawHtml: string) => void): this;
+    /** Raised when the rewriter encounters text content. */
+    public on(event: 'text', listener: (text: Text, rawHtml: string) => void): this;
+    /** Raised when the rewriter encounters a [document type declaration](https://en.wikipedia.org/wiki/Document_type_declaration) */
+    public on(event: 'doctype', listener: (doctype: Doctype, rawHtml: string) => void): this;
+    /**
+     * Registers handlers for the elements matching the selector, similar to
+     * [HTMLRewriter](https://developers.cloudflare.com/workers/runtime-apis/html-rewriter/). The handlers
+     * are applied while streaming, without building a tree. Should be called before writing to the stream.
+     *
+     * Selectors that depend on the following siblings or the content of the element (`:has()`, `:empty`,
+     * `:last-child` etc.) are not supported.
+     */
+    public on(selector: string, handlers: ElementHandlers): this;
+    public on(event: string, listener: ((token: never, rawHtml: string) => void) | ElementHandlers): this {
+        if (typeof listener !== 'function') {
+            this.elementHandlers.add(event, listener);
+            return this;
+        }
+
+        const listeners = this.listeners.get(event);
+
+        if (listeners) {
+            listeners.push(listener as Listener);
+        } else {
+            this.listeners.set(event, [listener as Listener]);
+        }
+
+        return this;
+    }
+
+    // Events
+    private _handleToken(token: Token, lastInTextNode?: boolean): void {
+        const event = getSaxEvent(token, lastInTextNode);
+
+        if (event && token.location) {
+            this.elementHandlers.handleEvent(event, this.rawHtml.getRawHtml(token.location));
+        } else if (token.type === TokenType.EOF) {
+            this.elementHandlers.end();
+        }
+
+        // NOTE: don't skip new lines after <pre> and other tags,
+        // otherwise we'll have incorrect raw data.
+        this.core.parserFeedbackSimulator.skipNextNewLine = false;
+    }
+
+    private _emitEvent(event: SaxEvent, rawHtml: string): void {
+        const listeners = this.listeners.get(event.type);
+
+        if (listeners) {
+            for (const listener of listeners) {
+                listener(event.token, rawHtml);
+            }
+        } else {
+            this.emitRaw(rawHtml);
+        }
+    }
+
+    // Emitter API
+    /** Emits serialized document type token into the output stream. */
+    public emitDoctype(token: Doctype): void {
+        this.emitRaw(serializeDoctype(token));
+    }
+
+    /** Emits serialized start tag token into the output stream. */
+    public emitStartTag(token: StartTag): void {
+        this.emitRaw(serializeStartTag(token));
+    }
+
+    /** Emits serialized end tag token into the output stream. */
+    public emitEndTag(token: EndTag): void {
+        this.emitRaw(serializeEndTag(token));
+    }
+
+    /** Emits serialized text token into the output stream. */
+    public emitText(token: Text): void {
+        this.emitRaw(serializeText(token));
+    }
+
+    /** Emits serialized comment token into the output stream. */
+    public emitComment(token: Comment): void {
+        this.emitRaw(serializeComment(token));
+    }
+
+    /** Emits raw HTML string into the output stream. */
+    public emitRaw(html: string): void {
+        this.controller.enqueue(html);
+    }
+}
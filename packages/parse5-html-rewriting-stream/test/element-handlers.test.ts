@@ -0,0 +1,211 @@
+import * as assert from 'node:assert';
+import { RewritingStream } from '../lib/index.js';
+import { SelectorSyntaxError } from 'parse5/dist/selector/parser.js';
+import { writeChunkedToStream, WritableStreamStub } from 'parse5-test-utils/utils/common.js';
+
+function rewrite(src: string, assignHandlers: (rewriter: RewritingStream) => void): Promise<string> {
+    return new Promise((resolve) => {
+        const rewriter = new RewritingStream();
+        const writable = new WritableStreamStub();
+
+        writable.once('finish', () => resolve(writable.writtenData));
+        rewriter.pipe(writable);
+
+        assignHandlers(rewriter);
+        writeChunkedToStream(src, rewriter);
+    });
+}
+
+function removeTablesInParagraphs(rewriter: RewritingStream): void {
+    rewriter.on('p > table', { element: (element) => element.remove() });
+}
+
+describe('RewritingStream element handlers', () => {
+    it('Modifies attributes and tag names of matching elements', async () => {
+        const actual = await rewrite(
+            '<div><a href="/a" target=_blank>a</a><a>b</a><p class=x>c</p></div>',
+            (rewriter) => {
+                rewriter.on('a[href]', {
+                    element: (element) => {
+                        element.setAttribute('href', `https://example.com${element.getAttribute('href')}`);
+                        element.removeAttribute('target');
+                    },
+                });
+
+                rewriter.on('div > .x', {
+                    element: (element) => {
+                        element.tagName = 'section';
+                    },
+                });
+            }
+        );
+
+        assert.strictEqual(
+            actual,
+            '<div><a href="https://example.com/a">a</a><a>b</a><section class="x">c</section></div>'
+        );
+    });
+
+    it('Inserts content around and inside elements', async () => {
+        const actual = await rewrite('<ul><li>1</li><li>2</li></ul>', (rewriter) => {
+            rewriter.on('li:first-child', {
+                element: (element) => {
+                    element.before('<b>', { html: true });
+                    element.after('</b>', { html: true });
+                    element.prepend('[').append(']');
+                },
+            });
+
+            rewriter.on('li:nth-child(2)', {
+                element: (element) => element.setInnerContent('<&>'),
+            });
+        });
+
+        assert.strictEqual(actual, '<ul><b><li>[1]</li></b><li>&lt;&amp;&gt;</li></ul>');
+    });
+
+    it('Removes and replaces elements with their content', async () => {
+        const actual = await rewrite(
+            '<p>a<script>alert(1)</script>b<span id=s>c<i>d</i></span>e<img src=x>f</p>',
+            (rewriter) => {
+                rewriter.on('script', { element: (element) => element.remove() });
+                rewriter.on('#s', { element: (element) => element.replace('<hr>', { html: true }) });
+                rewriter.on('img', { element: (element) => element.replace('[image]').after('!') });
+                rewriter.on('i', { element: (element) => element.setAttribute('unreachable', '') });
+            }
+        );
+
+        assert.strictEqual(actual, '<p>ab<hr>e[image]!f</p>');
+    });
+
+    it('Calls text and comment handlers for the content of matching elements', async () => {
+        const texts: [string, string, boolean][] = [];
+        const actual = await rewrite('a<div>b&amp;<!--c--><span>d</span></div>e<!--f-->', (rewriter) => {
+            rewriter.on('div', {
+                text: (text) => {
+                    texts.push([text.text, text.raw, text.lastInTextNode]);
+                    text.replace(text.text.toUpperCase());
+                },
+                comments: (comment) => {
+                    comment.text = comment.text.toUpperCase();
+                },
+            });
+        });
+
+        assert.deepStrictEqual(texts, [
+            ['b&', 'b&amp;', true],
+            ['d', 'd', true],
+        ]);
+        assert.strictEqual(actual, 'a<div>B&amp;<!--C--><span>D</span></div>e<!--f-->');
+    });
+
+    it('Closes elements by the end tags of their ancestors and at the end of the input', async () => {
+        const actual = await rewrite('<div><p>a<i>b</div><p>c', (rewriter) => {
+            rewriter.on('div > p', { element: (element) => element.append('!') });
+            rewriter.on('p > i', { element: (element) => element.after('.') });
+            rewriter.on('div ~ p', { element: (element) => element.append('?') });
+        });
+
+        assert.strictEqual(actual, '<div><p>a<i>b.!</div><p>c?');
+    });
+
+    it('Closes elements with omitted end tags', async () => {
+        const actual = await rewrite('<ul><li>a<li class=r>b<li>c</ul><p>d<div>e</div>', (rewriter) => {
+            rewriter.on('li.r', { element: (element) => element.remove() });
+            rewriter.on('ul > li', { element: (element) => element.setAttribute('title', 'item') });
+            rewriter.on('p div', { element: (element) => element.setAttribute('unreachable', '') });
+        });
+
+        assert.strictEqual(actual, '<ul><li title="item">a<li title="item">c</ul><p>d<div>e</div>');
+    });
+
+    it('Closes table cells, rows and sections with omitted end tags', async () => {
+        const actual = await rewrite('<table><thead><tr><th>h<tbody><tr><td>1<td>2<tr><td>3</table>', (rewriter) => {
+            rewriter.on('tr > td', { element: (element) => element.append('!') });
+            rewriter.on('td + td', { element: (element) => element.setAttribute('class', 'second') });
+            rewriter.on('thead td, tbody th', { element: (element) => element.remove() });
+        });
+
+        assert.strictEqual(actual, '<table><thead><tr><th>h<tbody><tr><td>1!<td class="second">2!<tr><td>3!</table>');
+    });
+
+    it('Closes definition list items and options with omitted end tags', async () => {
+        const actual = await rewrite(
+            '<dl><dt>a<dd>b<dt>c</dl><select><option>1<optgroup><option>2<option>3</select>',
+            (rewriter) => {
+                rewriter.on('dt + dd, dd + dt', { element: (element) => element.prepend('+') });
+                rewriter.on('select > option', { element: (element) => element.append('!') });
+                rewriter.on('optgroup > option ~ option', { element: (element) => element.append('?') });
+            }
+        );
+
+        assert.strictEqual(
+            actual,
+            '<dl><dt>a<dd>+b<dt>+c</dl><select><option>1!<optgroup><option>2<option>3?</select>'
+        );
+    });
+
+    it('Closes paragraphs before tables unless the document is in the quirks mode', async () => {
+        assert.strictEqual(await rewrite('<p>a<table></table>', removeTablesInParagraphs), '<p>a');
+        assert.strictEqual(
+            await rewrite('<!DOCTYPE html><p>a<table></table>', removeTablesInParagraphs),
+            '<!DOCTYPE html><p>a<table></table>'
+        );
+    });
+
+    it('Ignores end tags of elements that are out of scope', async () => {
+        const actual = await rewrite('<li>a<ul><li>b</li></li></ul><p><button><p>c</p></button>d</p>', (rewriter) => {
+            rewriter.on('ul > li', { element: (element) => element.append('!') });
+            rewriter.on('button > p', { element: (element) => element.append('?') });
+            rewriter.on('p > button', { element: (element) => element.after('.') });
+        });
+
+        assert.strictEqual(actual, '<li>a<ul><li>b!</li></li></ul><p><button><p>c?</p></button>.d</p>');
+    });
+
+    it('Matches the previous siblings of elements and their ancestors', async () => {
+        const actual = await rewrite(
+            '<ul><li>1<li class=a>2<li>3<li>4</ul><h1>a</h1><div><p>b<p>c</div>',
+            (rewriter) => {
+                rewriter.on('li:first-child, .a + li', { element: (element) => element.append('!') });
+                rewriter.on(':is(h1 + div) > p + p', { element: (element) => element.append('?') });
+            }
+        );
+
+        assert.strictEqual(actual, '<ul><li>1!<li class=a>2<li>3!<li>4</ul><h1>a</h1><div><p>b<p>c?</div>');
+    });
+
+    it('Matches all the previous siblings of elements', async () => {
+        const actual = await rewrite('<ul><li>1<li class=a>2<li>3<li>4</ul><p>a<p>b<div><p>c</div>', (rewriter) => {
+            rewriter.on('.a ~ li, ul ~ :nth-child(odd)', { element: (element) => element.append('!') });
+        });
+
+        assert.strictEqual(actual, '<ul><li>1<li class=a>2<li>3!<li>4!</ul><p>a<p>b!<div><p>c</div>');
+    });
+
+    it('Matches foreign elements', async () => {
+        const actual = await rewrite('<svg><a href=x /><circle r=1></circle></svg><a href=y>', (rewriter) => {
+            rewriter.on('svg|a', { element: (element) => element.remove() });
+            rewriter.on('svg|*', { element: (element) => element.setAttribute('fill', 'red') });
+        });
+
+        assert.strictEqual(actual, '<svg fill="red"><circle r="1" fill="red"></circle></svg><a href=y>');
+    });
+
+    it('Passes modified tokens to the token listeners', async () => {
+        const actual = await rewrite('<div>a</div>', (rewriter) => {
+            rewriter.on('div', { element: (element) => element.setAttribute('id', 'x') });
+            rewriter.on('startTag', (_: unknown, raw: string) => rewriter.emitRaw(raw.toUpperCase()));
+        });
+
+        assert.strictEqual(actual, '<DIV ID="X">a</div>');
+    });
+
+    it('Throws on selectors that can not be matched while streaming', () => {
+        const rewriter = new RewritingStream();
+
+        for (const selector of [':has(a)', 'div:empty', 'li:last-child', ':not(:nth-last-of-type(2))', 'a[']) {
+            assert.throws(() => rewriter.on(selector, {}), SelectorSyntaxError);
+        }
+    });
+});
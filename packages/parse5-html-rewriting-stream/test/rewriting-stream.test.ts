@@ -1,9 +1,12 @@
 import * as assert from 'node:assert';
+import * as fs from 'node:fs';
 import { outdent } from 'outdent';
 import { RewritingStream } from '../lib/index.js';
 import { loadSAXParserTestData } from 'parse5-test-utils/utils/load-sax-parser-test-data.js';
 import { getStringDiffMsg, writeChunkedToStream, WritableStreamStub } from 'parse5-test-utils/utils/common.js';
 
+const hugePage = new URL('../../../test/data/huge-page/huge-page.html', import.meta.url);
+
 const srcHtml = outdent`
   <!DOCTYPE html "">
   <html>
@@ -305,4 +308,64 @@ describe('RewritingStream', () => {
 
         assert.throws(() => stream.write(buf), TypeError);
     });
+
+    it('Raw token serialization of text split by the dropped part of the buffer', (done) => {
+        const rewriter = new RewritingStream();
+        const writable = new WritableStreamStub();
+
+        rewriter.on('startTag', (_: unknown, raw: string) => rewriter.emitRaw(raw));
+
+        writable.once('finish', () => {
+            const expected = fs.readFileSync(hugePage).toString();
+
+            assert.ok(writable.writtenData === expected, getStringDiffMsg(writable.writtenData, expected));
+            done();
+        });
+
+        fs.createReadStream(hugePage, 'utf8').pipe(rewriter).pipe(writable);
+    });
+
+    it('Raw token serialization of text chunks', (done) => {
+        const rewriter = new RewritingStream({ textChunks: true });
+        const writable = new WritableStreamStub();
+        const expected = fs.readFileSync(hugePage).toString();
+
+        rewriter.on('text', (_: unknown, raw: string) => rewriter.emitRaw(raw));
+
+        writable.once('finish', () => {
+            assert.ok(writable.writtenData === expected, getStringDiffMsg(writable.writtenData, expected));
+            done();
+        });
+
+        rewriter.pipe(writable);
+        writeChunkedToStream(expected, rewriter);
+    });
+
+    it('Text replacement across text chunks', (done) => {
+        const rewriter = new RewritingStream({ textChunks: true });
+        const writable = new WritableStreamStub();
+        let text = '';
+
+        rewriter.on('text', ({ text: chunk, lastInTextNode }) => {
+            text += chunk;
+
+            if (lastInTextNode) {
+                rewriter.emitText({ text: text.replace(/Hello world/g, 'Bye & bye') });
+                text = '';
+            }
+        });
+
+        writable.once('finish', () => {
+            assert.strictEqual(writable.writtenData, '<p>Bye &amp; bye</p>\n<b>Bye &amp; bye, Hello</b>');
+            done();
+        });
+
+        rewriter.pipe(writable);
+
+        for (const chunk of ['<p>Hel', 'lo w', 'orld</p>\n<b>Hello ', 'world, Hel', 'lo</b>']) {
+            rewriter.write(chunk);
+        }
+
+        rewriter.end();
+    });
 });
@@ -0,0 +1,88 @@
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as webStreams from 'node:stream/web';
+import { RewritingTransformStream } from '../lib/index.js';
+import { loadSAXParserTestData } from 'parse5-test-utils/utils/load-sax-parser-test-data.js';
+import { getStringDiffMsg, makeChunks } from 'parse5-test-utils/utils/common.js';
+
+//NOTE: Jest's Node.js environment doesn't expose the web streams globals.
+globalThis.TransformStream ??= webStreams.TransformStream as typeof TransformStream;
+
+const hugePage = new URL('../../../test/data/huge-page/huge-page.html', import.meta.url);
+
+async function rewrite(rewriter: RewritingTransformStream, chunks: string[]): Promise<string> {
+    const source = new webStreams.ReadableStream<string>({
+        start(controller): void {
+            for (const chunk of chunks) {
+                controller.enqueue(chunk);
+            }
+
+            controller.close();
+        },
+    }) as ReadableStream<string>;
+    const output = source.pipeThrough(rewriter) as unknown as AsyncIterable<string>;
+    let result = '';
+
+    for await (const chunk of output) {
+        result += chunk;
+    }
+
+    return result;
+}
+
+describe('RewritingTransformStream', () => {
+    for (const [idx, data] of loadSAXParserTestData().entries()) {
+        it(`Raw token serialization - ${idx + 1}.${data.name}`, async () => {
+            const actual = await rewrite(new RewritingTransformStream(), makeChunks(data.src));
+
+            assert.ok(actual === data.src, getStringDiffMsg(actual, data.src));
+        });
+    }
+
+    it('Rewrites tokens', async () => {
+        const rewriter = new RewritingTransformStream();
+
+        rewriter.on('startTag', (startTag) => {
+            startTag.attrs.push({ name: 'data-tag', value: startTag.tagName });
+            rewriter.emitStartTag(startTag);
+        });
+
+        rewriter.on('text', (_, raw) => {
+            rewriter.emitRaw(raw.toUpperCase());
+        });
+
+        rewriter.on('comment', (comment) => {
+            comment.text = comment.text.trim();
+            rewriter.emitComment(comment);
+            rewriter.emitText({ text: '&' });
+        });
+
+        const actual = await rewrite(rewriter, ['<!DOCTYPE html><di', 'v a=&quot;>a&amp;b', '</div><!-- c -->']);
+
+        assert.strictEqual(actual, '<!DOCTYPE html><div a="&quot;" data-tag="div">A&AMP;B</div><!--c-->&amp;');
+    });
+
+    it('Handles chunk boundaries after the parsed part of the buffer is dropped', async () => {
+        const html = fs.readFileSync(hugePage, 'utf8');
+        const rewriter = new RewritingTransformStream();
+
+        rewriter.on('startTag', (_, raw) => rewriter.emitRaw(raw));
+        rewriter.on('endTag', (_, raw) => rewriter.emitRaw(raw));
+
+        const actual = await rewrite(rewriter, makeChunks(html, 1000, 3000));
+
+        assert.ok(actual === html, getStringDiffMsg(actual, html));
+    });
+
+    it('Applies element handlers', async () => {
+        const rewriter = new RewritingTransformStream();
+
+        rewriter.on('a', { element: (element) => element.setAttribute('rel', 'noopener') });
+        rewriter.on('.ad', { element: (element) => element.remove() });
+        rewriter.on('p', { text: (text) => text.after('!') });
+
+        const actual = await rewrite(rewriter, ['<p>a<a hr', 'ef=x>b</a><div cl', 'ass=ad>c</div>']);
+
+        assert.strictEqual(actual, '<p>a!<a href="x" rel="noopener">b!</a>');
+    });
+});
@@ -2,6 +2,7 @@ import { Writable } from 'node:stream';
 import { Parser, ParserOptions } from 'parse5/dist/parser/index.js';
 import type { TreeAdapterTypeMap } from 'parse5/dist/tree-adapters/interface.js';
 import type { DefaultTreeAdapterMap } from 'parse5/dist/tree-adapters/default.js';
+import { ENCODING_CONFIDENCE, PRESCAN_LENGTH, sniffEncoding, createDecoder } from 'parse5/dist/common/encoding.js';
 
 /**
  * Streaming HTML parser with scripting support.
@@ -25,6 +26,10 @@ import type { DefaultTreeAdapterMap } from 'parse5/dist/tree-adapters/default.js
  * });
  * ```
  *
+ * If `Buffer`s are written to the stream, the encoding of the input is determined using the
+ * [encoding sniffing algorithm](https://html.spec.whatwg.org/multipage/parsing.html#encoding-sniffing-algorithm).
+ * The `encoding` option can be used to pass the encoding specified by the transport layer (eg. the `charset`
+ * parameter of the `Content-Type` header).
  */
 export class ParserStream<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap> extends Writable {
     private lastChunkWritten = false;
@@ -36,6 +41,13 @@ export class ParserStream<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>
     /** The resulting document node. */
     public document: T['document'];
 
+    //NOTE: byte input state. Bytes are kept while the encoding confidence is tentative,
+    //as we might need to reparse the input with a different encoding.
+    private stringMode = false;
+    private bytesMode = false;
+    private bytes: Uint8Array[] = [];
+    private decoder: TextDecoder | null = null;
+
     /**
      * @param options Parsing options.
      */
@@ -43,20 +55,38 @@ export class ParserStream<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>
         super({ decodeStrings: false });
 
         this.parser = new Parser(options);
+        this.parser.scriptHandler = this._scriptHandler;
 
         this.document = this.parser.treeAdapter.createDocument();
         this.parser._bootstrap(this.document, null);
     }
 
     //WritableStream implementation
-    override _write(chunk: string, _encoding: string, callback: () => void): void {
-        if (typeof chunk !== 'string') {
-            throw new TypeError('Parser can work only with string streams.');
+    override _write(chunk: string | Uint8Array, _encoding: string, callback: () => void): void {
+        //NOTE: the empty chunk written by `end()` is treated as a byte chunk in the byte mode.
+        if (typeof chunk === 'string' && this.bytesMode && chunk.length === 0) {
+            chunk = new Uint8Array(0);
         }
 
-        this.writeCallback = callback;
-        this.parser.tokenizer.write(chunk, this.lastChunkWritten);
-        this._runParsingLoop();
+        if (typeof chunk === 'string') {
+            if (this.bytesMode) {
+                throw new TypeError('Parser can not mix string and byte chunks.');
+            }
+
+            this.stringMode = true;
+            this.writeCallback = callback;
+            this.parser.tokenizer.write(chunk, this.lastChunkWritten, this._onChunkParsed);
+        } else if (chunk instanceof Uint8Array) {
+            if (this.stringMode) {
+                throw new TypeError('Parser can not mix string and byte chunks.');
+            }
+
+            this.bytesMode = true;
+            this.writeCallback = callback;
+            this._writeBytes(chunk);
+        } else {
+            throw new TypeError('Parser can work only with string or byte streams.');
+        }
     }
 
     // TODO [engine:node@>=16]: Due to issues with Node < 16, we are overriding `end` instead of `_final`.
@@ -67,11 +97,87 @@ export class ParserStream<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>
         super.end(chunk || '', encoding, callback);
     }
 
-    //Scriptable parser implementation
-    private _runParsingLoop(): void {
-        this.parser.runParsingLoopForCurrentChunk(this.writeCallback, this._scriptHandler);
+    //Byte input
+    private _writeBytes(chunk: Uint8Array): void {
+        if (this.decoder === null) {
+            this.bytes.push(chunk);
+
+            const buffered = concatBytes(this.bytes);
+
+            //NOTE: wait for enough bytes to be able to prescan the input.
+            if (buffered.length < PRESCAN_LENGTH && !this.lastChunkWritten) {
+                this.writeCallback?.();
+                return;
+            }
+
+            this.bytes = [buffered];
+
+            const { encoding, confidence } = sniffEncoding(buffered, this.parser.options);
+
+            this._startDecoding(encoding, confidence);
+            return;
+        }
+
+        if (this.parser.encodingConfidence === ENCODING_CONFIDENCE.TENTATIVE) {
+            this.bytes.push(chunk);
+        }
+
+        this.parser.tokenizer.write(this._decode(this.decoder, chunk), this.lastChunkWritten, this._onChunkParsed);
+    }
+
+    private _decode(decoder: TextDecoder, chunk: Uint8Array): string {
+        return decoder.decode(chunk, { stream: !this.lastChunkWritten });
+    }
+
+    private _startDecoding(encoding: string, confidence: ENCODING_CONFIDENCE): void {
+        const decoder = createDecoder(encoding);
+
+        this.decoder = decoder;
+        this.parser.encoding = encoding;
+        this.parser.encodingConfidence = confidence;
+
+        const chunk = this._decode(decoder, concatBytes(this.bytes));
+
+        if (confidence !== ENCODING_CONFIDENCE.TENTATIVE) {
+            this.bytes = [];
+        }
+
+        this.parser.tokenizer.write(chunk, this.lastChunkWritten, this._onChunkParsed);
+    }
+
+    private _restartWithEncoding(encoding: string): void {
+        this.document = this.parser.treeAdapter.createDocument();
+        this.parser._bootstrap(this.document, null);
+        this.pendingHtmlInsertions.length = 0;
+        this._startDecoding(encoding, ENCODING_CONFIDENCE.CERTAIN);
     }
 
+    //Scriptable parser implementation
+    private _onChunkParsed = (): void => {
+        const { pendingEncodingChange } = this.parser;
+
+        if (pendingEncodingChange !== null) {
+            this._restartWithEncoding(pendingEncodingChange);
+            return;
+        }
+
+        if (this.bytesMode) {
+            if (this.parser.encodingConfidence !== ENCODING_CONFIDENCE.TENTATIVE) {
+                this.bytes = [];
+            }
+
+            if (this.lastChunkWritten && this.parser.encoding !== null) {
+                this.parser.treeAdapter.setDocumentEncoding?.(
+                    this.document,
+                    this.parser.encoding,
+                    this.parser.encodingConfidence
+                );
+            }
+        }
+
+        this.writeCallback?.();
+    };
+
     private _resume = (): void => {
         if (!this.pausedByScript) {
             throw new Error('Parser was already resumed');
@@ -84,11 +190,7 @@ export class ParserStream<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>
         }
 
         this.pausedByScript = false;
-
-        //NOTE: keep parsing if we don't wait for the next input chunk
-        if (this.parser.tokenizer.active) {
-            this._runParsingLoop();
-        }
+        this.parser.tokenizer.resume(this._onChunkParsed);
     };
 
     private _documentWrite = (html: string): void => {
@@ -100,13 +202,34 @@ export class ParserStream<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>
     private _scriptHandler = (scriptElement: T['element']): void => {
         if (this.listenerCount('script') > 0) {
             this.pausedByScript = true;
+            this.parser.tokenizer.pause();
             this.emit('script', scriptElement, this._documentWrite, this._resume);
-        } else {
-            this._runParsingLoop();
         }
     };
 }
 
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+    if (chunks.length === 1) {
+        return chunks[0];
+    }
+
+    let length = 0;
+
+    for (const chunk of chunks) {
+        length += chunk.length;
+    }
+
+    const result = new Uint8Array(length);
+    let offset = 0;
+
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+
+    return result;
+}
+
 export interface ParserStream<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap> {
     /**
      * Raised when parser encounters a `<script>` element. If this event has listeners, parsing will be suspended once
@@ -0,0 +1,59 @@
+import * as assert from 'node:assert';
+import { ParserStream } from '../lib/index.js';
+import { ENCODING_CONFIDENCE, PRESCAN_LENGTH } from 'parse5/dist/common/encoding.js';
+import type { Element, TextNode } from 'parse5/dist/tree-adapters/default.js';
+
+function parseBytes(bytes: Buffer, chunkSize: number, encoding?: string): ParserStream {
+    const parser = new ParserStream({ encoding });
+
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        parser.write(bytes.subarray(i, i + chunkSize));
+    }
+
+    parser.end();
+
+    return parser;
+}
+
+function getParagraphText(parser: ParserStream): string {
+    const html = parser.document.childNodes[parser.document.childNodes.length - 1] as Element;
+    const body = html.childNodes[1] as Element;
+    const p = body.childNodes[0] as Element;
+
+    return (p.childNodes[0] as TextNode).value;
+}
+
+describe('ParserStream encoding', () => {
+    it('Uses the default encoding', () => {
+        const parser = parseBytes(Buffer.from('<p>café', 'latin1'), 1);
+
+        assert.strictEqual(getParagraphText(parser), 'café');
+        assert.strictEqual(parser.document.encoding, 'windows-1252');
+        assert.strictEqual(parser.document.encodingConfidence, ENCODING_CONFIDENCE.TENTATIVE);
+    });
+
+    it('Decodes multi-byte characters split across chunks', () => {
+        const parser = parseBytes(Buffer.from('<p>Привет 😀'), 1, 'utf-8');
+
+        assert.strictEqual(getParagraphText(parser), 'Привет 😀');
+        assert.strictEqual(parser.document.encoding, 'utf-8');
+        assert.strictEqual(parser.document.encodingConfidence, ENCODING_CONFIDENCE.CERTAIN);
+    });
+
+    it('Reparses the document if a late <meta> changes the encoding', () => {
+        const padding = `<!--${' '.repeat(PRESCAN_LENGTH)}-->`;
+        const parser = parseBytes(Buffer.from(`${padding}<meta charset="utf-8"><p>café`), 64);
+
+        assert.strictEqual(getParagraphText(parser), 'café');
+        assert.strictEqual(parser.document.encoding, 'utf-8');
+        assert.strictEqual(parser.document.encodingConfidence, ENCODING_CONFIDENCE.CERTAIN);
+    });
+
+    it('Should not mix string and byte chunks', () => {
+        const parser = new ParserStream();
+
+        parser.write('test');
+
+        assert.throws(() => parser.write(Buffer.from('test')), TypeError);
+    });
+});
@@ -36,4 +36,12 @@ export class PlainTextConversionStream<T extends TreeAdapterTypeMap> extends Par
         this.parser.treeAdapter.insertText(this.parser.openElements.current, '\n');
         this.parser.switchToPlaintextParsing();
     }
+
+    override _write(chunk: string, encoding: string, callback: () => void): void {
+        if (typeof chunk !== 'string') {
+            throw new TypeError('Parser can work only with string streams.');
+        }
+
+        super._write(chunk, encoding, callback);
+    }
 }
@@ -0,0 +1,341 @@
+import type { Tokenizer, TokenHandler } from 'parse5/dist/tokenizer/index.js';
+import {
+    TokenType,
+    Token,
+    CharacterToken,
+    CommentToken,
+    DoctypeToken,
+    EOFToken,
+    InterpolationToken,
+    TagToken,
+    Attribute,
+    Location,
+    LocationWithAttributes,
+} from 'parse5/dist/common/token.js';
+import { ParserFeedbackSimulator } from './parser-feedback-simulator.js';
+
+export interface SAXParserOptions {
+    /**
+     * Enables source code location information for the tokens.
+     * When enabled, each token will have `sourceCodeLocation` property.
+     */
+    sourceCodeLocationInfo?: boolean;
+    /**
+     * Adds the locations of the attribute names, `=` signs and values to the attribute locations of start tags.
+     * Requires the `sourceCodeLocationInfo` option.
+     *
+     * @default `false`
+     */
+    attributeLocationInfo?: boolean;
+    /**
+     * Reports text content in chunks as soon as it is consumed, instead of buffering the whole text node until
+     * the next token. Each chunk has the `lastInTextNode` property. Note that the trailing run of characters of
+     * the same kind (e.g. a word or whitespace) is reported once the next characters are consumed.
+     *
+     * @default `false`
+     */
+    textChunks?: boolean;
+}
+
+export interface SaxToken {
+    /** Source code location info. Available if location info is enabled via {@link SAXParserOptions}. */
+    sourceCodeLocation?: Location | null;
+}
+
+export interface StartTag extends SaxToken {
+    /** Tag name */
+    tagName: string;
+    /** List of attributes */
+    attrs: Attribute[];
+    /** Indicates if the tag is self-closing */
+    selfClosing: boolean;
+    /**
+     * Source code location info, with the locations of the attributes.
+     * Available if location info is enabled via {@link SAXParserOptions}.
+     */
+    sourceCodeLocation?: LocationWithAttributes | null;
+}
+
+export interface EndTag extends SaxToken {
+    /** Tag name */
+    tagName: string;
+}
+
+export interface Text extends SaxToken {
+    /** Text content. */
+    text: string;
+    /**
+     * Indicates that the chunk is the last one in its text node, i.e. the text node ends with the chunk.
+     * Available if text chunks are enabled via {@link SAXParserOptions}.
+     */
+    lastInTextNode?: boolean;
+}
+
+export interface Comment extends SaxToken {
+    /** Comment text. */
+    text: string;
+}
+
+export interface Doctype extends SaxToken {
+    /** Document type name. */
+    name: string | null;
+    /** Document type public identifier. */
+    publicId: string | null;
+    /** Document type system identifier. */
+    systemId: string | null;
+}
+
+/**
+ * SAX event record. The `type` is the name of the corresponding `SAXParser` event.
+ */
+export type SaxEvent =
+    | { type: 'startTag'; token: StartTag }
+    | { type: 'endTag'; token: EndTag }
+    | { type: 'text'; token: Text }
+    | { type: 'comment'; token: Comment }
+    | { type: 'doctype'; token: Doctype };
+
+/**
+ * Converts a tokenizer token to a SAX event record. Returns `null` for tokens that don't produce events.
+ *
+ * @param token Tokenizer token.
+ * @param lastInTextNode For character tokens reported as text chunks, indicates that the chunk ends the text node.
+ */
+export function getSaxEvent(token: Token, lastInTextNode?: boolean): SaxEvent | null {
+    switch (token.type) {
+        case TokenType.START_TAG: {
+            return {
+                type: 'startTag',
+                token: {
+                    tagName: token.tagName,
+                    attrs: token.attrs,
+                    selfClosing: token.selfClosing,
+                    sourceCodeLocation: token.location,
+                },
+            };
+        }
+        case TokenType.END_TAG: {
+            return { type: 'endTag', token: { tagName: token.tagName, sourceCodeLocation: token.location } };
+        }
+        case TokenType.COMMENT: {
+            return { type: 'comment', token: { text: token.data, sourceCodeLocation: token.location } };
+        }
+        case TokenType.DOCTYPE: {
+            return {
+                type: 'doctype',
+                token: {
+                    name: token.name,
+                    publicId: token.publicId,
+                    systemId: token.systemId,
+                    sourceCodeLocation: token.location,
+                },
+            };
+        }
+        case TokenType.CHARACTER:
+        case TokenType.NULL_CHARACTER:
+        case TokenType.WHITESPACE_CHARACTER: {
+            const text: Text = { text: token.chars, sourceCodeLocation: token.location };
+
+            if (lastInTextNode !== undefined) {
+                text.lastInTextNode = lastInTextNode;
+            }
+
+            return { type: 'text', token: text };
+        }
+        default: {
+            return null;
+        }
+    }
+}
+
+/**
+ * Runtime-neutral core of the SAX parser. Tokenizes written chunks and passes the tokens to the handler
+ * synchronously. Consecutive character tokens are merged into a single text token.
+ *
+ * The Node.js `SAXParser` stream, the WHATWG `SAXTransformStream` and the {@link iterateSAXEvents} async
+ * iterator are built on top of it.
+ */
+export class SAXParserCore implements TokenHandler {
+    public readonly tokenizer: Tokenizer;
+    public readonly parserFeedbackSimulator: ParserFeedbackSimulator;
+    private pendingText: CharacterToken | null = null;
+    private textChunks: boolean;
+    private stopped = false;
+
+    /**
+     * @param options Parsing options.
+     * @param handleToken Token handler. Receives the `EOF` token once the last chunk is processed. In the text
+     * chunks mode, character tokens are reported with the `lastInTextNode` flag.
+     */
+    constructor(options: SAXParserOptions, private handleToken: (token: Token, lastInTextNode?: boolean) => void) {
+        this.parserFeedbackSimulator = new ParserFeedbackSimulator({ sourceCodeLocationInfo: false, ...options }, this);
+        this.tokenizer = this.parserFeedbackSimulator.tokenizer;
+        this.textChunks = !!options.textChunks;
+    }
+
+    /**
+     * Tokenizes the chunk. Tokens that can be affected by the following chunks are retained
+     * until the next chunk is written.
+     *
+     * @param chunk Input chunk.
+     * @param isLastChunk Indicates that no more chunks follow.
+     */
+    public write(chunk: string, isLastChunk: boolean): void {
+        if (!this.stopped) {
+            this.tokenizer.write(chunk, isLastChunk);
+
+            //NOTE: in the text chunks mode, the text consumed so far is reported once the chunk is tokenized.
+            if (this.textChunks && this.pendingText !== null && !this.stopped) {
+                this.handleToken(this.pendingText, false);
+                this.pendingText = null;
+            }
+        }
+    }
+
+    /** Stops parsing. Written chunks are ignored afterwards. */
+    public stop(): void {
+        this.stopped = true;
+        this.tokenizer.pause();
+    }
+
+    //TokenHandler implementation
+    onCharacter(token: CharacterToken): void {
+        this._handleCharacterToken(token);
+    }
+
+    onNullCharacter(token: CharacterToken): void {
+        this._handleCharacterToken(token);
+    }
+
+    onWhitespaceCharacter(token: CharacterToken): void {
+        this._handleCharacterToken(token);
+    }
+
+    onStartTag(token: TagToken): void {
+        this._handleToken(token);
+    }
+
+    onEndTag(token: TagToken): void {
+        this._handleToken(token);
+    }
+
+    onComment(token: CommentToken): void {
+        this._handleToken(token);
+    }
+
+    onDoctype(token: DoctypeToken): void {
+        this._handleToken(token);
+    }
+
+    onEof(token: EOFToken): void {
+        this._handleToken(token);
+    }
+
+    onInterpolation(token: InterpolationToken): void {
+        //NOTE: interpolations are reported as text.
+        this._handleCharacterToken({ type: TokenType.CHARACTER, chars: token.data, location: token.location });
+    }
+
+    private _handleCharacterToken(token: CharacterToken): void {
+        //NOTE: the tokenizer can emit a few more tokens after it is paused.
+        if (this.stopped) {
+            return;
+        }
+
+        if (this.pendingText === null) {
+            //NOTE: the tokenizer reuses character tokens, so the pending text is a copy.
+            this.pendingText = { ...token, type: TokenType.CHARACTER };
+        } else {
+            this.pendingText.chars += token.chars;
+
+            if (token.location && this.pendingText.location) {
+                const { endLine, endCol, endOffset } = token.location;
+                this.pendingText.location = {
+                    ...this.pendingText.location,
+                    endLine,
+                    endCol,
+                    endOffset,
+                };
+            }
+        }
+    }
+
+    private _handleToken(token: Token): void {
+        if (!this.stopped) {
+            this._emitPendingText();
+            this.handleToken(token);
+        }
+    }
+
+    private _emitPendingText(): void {
+        if (this.pendingText !== null) {
+            //NOTE: in the text chunks mode, the pending text is the last chunk of the text node, as the text
+            //node ends with the next token.
+            this.handleToken(this.pendingText, this.textChunks ? true : undefined);
+            this.pendingText = null;
+        }
+    }
+}
+
+async function* readStream(stream: ReadableStream<string>): AsyncGenerator<string> {
+    const reader = stream.getReader();
+
+    try {
+        for (let result = await reader.read(); !result.done; result = await reader.read()) {
+            yield result.value;
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Parses a sequence of string chunks and yields the SAX events. Events are produced as chunks are consumed, so
+ * the whole input is never buffered. Works in any JavaScript runtime.
+ *
+ * @example
+ *
+ * ```js
+ * const { iterateSAXEvents } = require('parse5-sax-parser');
+ *
+ * const response = await fetch('https://example.com');
+ * const chunks = response.body.pipeThrough(new TextDecoderStream());
+ *
+ * for await (const event of iterateSAXEvents(chunks)) {
+ *     if (event.type === 'startTag' && event.token.tagName === 'title') {
+ *         // Stops reading the response.
+ *         break;
+ *     }
+ * }
+ * ```
+ *
+ * @param source Input chunks: an iterable, an async iterable or a WHATWG `ReadableStream` of strings.
+ * @param options Parsing options.
+ */
+export async function* iterateSAXEvents(
+    source: Iterable<string> | AsyncIterable<string> | ReadableStream<string>,
+    options: SAXParserOptions = {}
+): AsyncGenerator<SaxEvent, void, undefined> {
+    let events: SaxEvent[] = [];
+    const core = new SAXParserCore(options, (token, lastInTextNode) => {
+        const event = getSaxEvent(token, lastInTextNode);
+
+        if (event) {
+            events.push(event);
+        }
+    });
+    const chunks = 'getReader' in source ? readStream(source) : source;
+
+    for await (const chunk of chunks) {
+        if (typeof chunk !== 'string') {
+            throw new TypeError('Parser can work only with string streams.');
+        }
+
+        core.write(chunk, false);
+        yield* events;
+        events = [];
+    }
+
+    core.write('', true);
+    yield* events;
+}
@@ -1,21 +1,42 @@
 import { Transform } from 'node:stream';
-import { Tokenizer } from 'parse5/dist/tokenizer/index.js';
-import { TokenType, Token, CharacterToken, Attribute, Location } from 'parse5/dist/common/token.js';
+import type { Tokenizer } from 'parse5/dist/tokenizer/index.js';
+import type { Token } from 'parse5/dist/common/token.js';
 import { DevNullStream } from './dev-null-stream.js';
-import { ParserFeedbackSimulator } from './parser-feedback-simulator.js';
-
-export interface SAXParserOptions {
-    /**
-     * Enables source code location information for the tokens.
-     * When enabled, each token will have `sourceCodeLocation` property.
-     */
-    sourceCodeLocationInfo?: boolean;
-}
+import type { ParserFeedbackSimulator } from './parser-feedback-simulator.js';
+import {
+    SAXParserCore,
+    SAXParserOptions,
+    SaxToken,
+    StartTag,
+    EndTag,
+    Text,
+    Comment,
+    Doctype,
+    getSaxEvent,
+} from './core.js';
+
+export {
+    SAXParserCore,
+    SAXParserOptions,
+    SaxEvent,
+    SaxToken,
+    StartTag,
+    EndTag,
+    Text,
+    Comment,
+    Doctype,
+    getSaxEvent,
+    iterateSAXEvents,
+} from './core.js';
+export { SAXTransformStream } from './transform-stream.js';
 
 /**
  * Streaming [SAX](https://en.wikipedia.org/wiki/Simple_API_for_XML)-style HTML parser.
  * A [transform stream](https://nodejs.org/api/stream.html#stream_class_stream_transform) (which means you can pipe _through_ it, see example).
  *
+ * This is a Node.js adapter over {@link SAXParserCore}. Use {@link SAXTransformStream} or {@link iterateSAXEvents}
+ * in runtimes that only support web streams.
+ *
  * @example
  *
  * ```js
@@ -41,11 +62,10 @@ export interface SAXParserOptions {
  */
 export class SAXParser extends Transform {
     protected options: SAXParserOptions;
+    protected core: SAXParserCore;
     protected tokenizer: Tokenizer;
     protected parserFeedbackSimulator: ParserFeedbackSimulator;
-    private pendingText: CharacterToken | null = null;
     private lastChunkWritten = false;
-    private stopped = false;
 
     /**
      * @param options Parsing options.
@@ -58,8 +78,11 @@ export class SAXParser extends Transform {
             ...options,
         };
 
-        this.tokenizer = new Tokenizer(this.options);
-        this.parserFeedbackSimulator = new ParserFeedbackSimulator(this.tokenizer);
+        this.core = new SAXParserCore(this.options, (token, lastInTextNode) =>
+            this._handleToken(token, lastInTextNode)
+        );
+        this.tokenizer = this.core.tokenizer;
+        this.parserFeedbackSimulator = this.core.parserFeedbackSimulator;
 
         // NOTE: always pipe stream to the /dev/null stream to avoid
         // `highWaterMark` hit even if we don't have consumers.
@@ -114,106 +137,20 @@ export class SAXParser extends Transform {
      * ```
      */
     public stop(): void {
-        this.stopped = true;
+        this.core.stop();
     }
 
     //Internals
     protected _transformChunk(chunk: string): string {
-        if (!this.stopped) {
-            this.tokenizer.write(chunk, this.lastChunkWritten);
-            this._runParsingLoop();
-        }
+        this.core.write(chunk, this.lastChunkWritten);
         return chunk;
     }
 
-    private _runParsingLoop(): void {
-        let token = null;
-
-        do {
-            token = this.parserFeedbackSimulator.getNextToken();
+    protected _handleToken(token: Token, lastInTextNode?: boolean): boolean {
+        const event = getSaxEvent(token, lastInTextNode);
 
-            if (token.type === TokenType.HIBERNATION) {
-                break;
-            }
-
-            if (
-                token.type === TokenType.CHARACTER ||
-                token.type === TokenType.WHITESPACE_CHARACTER ||
-                token.type === TokenType.NULL_CHARACTER
-            ) {
-                if (this.pendingText === null) {
-                    token.type = TokenType.CHARACTER;
-                    this.pendingText = token;
-                } else {
-                    this.pendingText.chars += token.chars;
-
-                    if (token.location && this.pendingText.location) {
-                        const { endLine, endCol, endOffset } = token.location;
-                        this.pendingText.location = {
-                            ...this.pendingText.location,
-                            endLine,
-                            endCol,
-                            endOffset,
-                        };
-                    }
-                }
-            } else {
-                this._emitPendingText();
-                this._handleToken(token);
-            }
-        } while (!this.stopped && token.type !== TokenType.EOF);
-    }
-
-    protected _handleToken(token: Token): boolean {
-        switch (token.type) {
-            case TokenType.EOF: {
-                return true;
-            }
-            case TokenType.START_TAG: {
-                const startTag: StartTag = {
-                    tagName: token.tagName,
-                    attrs: token.attrs,
-                    selfClosing: token.selfClosing,
-                    sourceCodeLocation: token.location,
-                };
-                return this._emitIfListenerExists('startTag', startTag);
-            }
-            case TokenType.END_TAG: {
-                const endTag: EndTag = {
-                    tagName: token.tagName,
-                    sourceCodeLocation: token.location,
-                };
-                return this._emitIfListenerExists('endTag', endTag);
-            }
-            case TokenType.COMMENT: {
-                const comment: Comment = {
-                    text: token.data,
-                    sourceCodeLocation: token.location,
-                };
-                return this._emitIfListenerExists('comment', comment);
-            }
-            case TokenType.DOCTYPE: {
-                const doctype: Doctype = {
-                    name: token.name,
-                    publicId: token.publicId,
-                    systemId: token.systemId,
-                    sourceCodeLocation: token.location,
-                };
-                return this._emitIfListenerExists('doctype', doctype);
-            }
-            case TokenType.CHARACTER:
-            case TokenType.NULL_CHARACTER:
-            case TokenType.WHITESPACE_CHARACTER: {
-                const text: Text = {
-                    text: token.chars,
-                    sourceCodeLocation: token.location,
-                };
-                return this._emitIfListenerExists('text', text);
-            }
-            case TokenType.HIBERNATION: {
-                return this._emitIfListenerExists('hibernation', {});
-            }
-        }
+        //NOTE: tokens that don't produce events (i.e. EOF) are considered handled.
+        return event === null || this._emitIfListenerExists(event.type, event.token);
     }
 
     private _emitIfListenerExists(eventName: string, token: SaxToken): boolean {
@@ -229,51 +166,6 @@ export class SAXParser extends Transform {
     protected _emitToken(eventName: string, token: SaxToken): void {
         this.emit(eventName, token);
     }
-
-    private _emitPendingText(): void {
-        if (this.pendingText !== null) {
-            this._handleToken(this.pendingText);
-            this.pendingText = null;
-        }
-    }
-}
-
-export interface SaxToken {
-    /** Source code location info. Available if location info is enabled via {@link SAXParserOptions}. */
-    sourceCodeLocation?: Location | null;
-}
-
-export interface StartTag extends SaxToken {
-    /** Tag name */
-    tagName: string;
-    /** List of attributes */
-    attrs: Attribute[];
-    /** Indicates if the tag is self-closing */
-    selfClosing: boolean;
-}
-
-export interface EndTag extends SaxToken {
-    /** Tag name */
-    tagName: string;
-}
-
-export interface Text extends SaxToken {
-    /** Text content. */
-    text: string;
-}
-
-export interface Comment extends SaxToken {
-    /** Comment text. */
-    text: string;
-}
-
-export interface Doctype extends SaxToken {
-    /** Document type name. */
-    name: string | null;
-    /** Document type public identifier. */
-    publicId: string | null;
-    /** Document type system identifier. */
-    systemId: string | null;
 }
 
 export interface SAXParser {
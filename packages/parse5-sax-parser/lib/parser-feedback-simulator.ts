@@ -1,63 +1,93 @@
-import { Tokenizer, TokenizerMode } from 'parse5/dist/tokenizer/index.js';
-import { TokenType, Token, TagToken } from 'parse5/dist/common/token.js';
+import { Tokenizer, TokenizerMode, TokenizerOptions, TokenHandler } from 'parse5/dist/tokenizer/index.js';
+import {
+    TokenType,
+    TagToken,
+    CharacterToken,
+    CommentToken,
+    DoctypeToken,
+    EOFToken,
+    InterpolationToken,
+} from 'parse5/dist/common/token.js';
 import * as foreignContent from 'parse5/dist/common/foreign-content.js';
 import * as unicode from 'parse5/dist/common/unicode.js';
 import { TAG_ID as $, TAG_NAMES as TN, NAMESPACES as NS, getTagID } from 'parse5/dist/common/html.js';
 
 //ParserFeedbackSimulator
 //Simulates adjustment of the Tokenizer which performed by standard parser during tree construction.
-export class ParserFeedbackSimulator {
+//Passes the adjusted tokens to the handler.
+export class ParserFeedbackSimulator implements TokenHandler {
     private namespaceStack: NS[] = [];
     private inForeignContent = false;
     public skipNextNewLine = false;
+    /** Namespace of the element created for the last start tag token. */
+    public elementNamespace = NS.HTML;
+    public readonly tokenizer: Tokenizer;
 
-    constructor(private tokenizer: Tokenizer) {
+    constructor(options: TokenizerOptions, private handler: TokenHandler) {
+        this.tokenizer = new Tokenizer(options, this);
         this._enterNamespace(NS.HTML);
     }
 
-    public getNextToken(): Token {
-        const token = this.tokenizer.getNextToken();
+    //TokenHandler implementation
+    onStartTag(token: TagToken): void {
+        this._handleStartTagToken(token);
+        this.handler.onStartTag(token);
+    }
 
-        switch (token.type) {
-            case TokenType.START_TAG: {
-                this._handleStartTagToken(token);
-                break;
-            }
-            case TokenType.END_TAG: {
-                this._handleEndTagToken(token);
-                break;
-            }
+    onEndTag(token: TagToken): void {
+        this._handleEndTagToken(token);
+        this.handler.onEndTag(token);
+    }
 
-            case TokenType.NULL_CHARACTER: {
-                this.skipNextNewLine = false;
-                if (this.inForeignContent) {
-                    token.type = TokenType.CHARACTER;
-                    token.chars = unicode.REPLACEMENT_CHARACTER;
-                }
-                break;
-            }
-            case TokenType.WHITESPACE_CHARACTER: {
-                if (this.skipNextNewLine && token.chars.charCodeAt(0) === unicode.CODE_POINTS.LINE_FEED) {
-                    this.skipNextNewLine = false;
+    onNullCharacter(token: CharacterToken): void {
+        this.skipNextNewLine = false;
 
-                    if (token.chars.length === 1) {
-                        return this.getNextToken();
-                    }
+        if (this.inForeignContent) {
+            token.type = TokenType.CHARACTER;
+            token.chars = unicode.REPLACEMENT_CHARACTER;
+            this.handler.onCharacter(token);
+        } else {
+            this.handler.onNullCharacter(token);
+        }
+    }
 
-                    token.chars = token.chars.substr(1);
-                }
-                break;
-            }
-            case TokenType.HIBERNATION: {
-                // Ignore
-                break;
-            }
-            default: {
-                this.skipNextNewLine = false;
+    onWhitespaceCharacter(token: CharacterToken): void {
+        if (this.skipNextNewLine && token.chars.charCodeAt(0) === unicode.CODE_POINTS.LINE_FEED) {
+            this.skipNextNewLine = false;
+
+            if (token.chars.length === 1) {
+                return;
             }
+
+            token.chars = token.chars.substr(1);
         }
 
-        return token;
+        this.handler.onWhitespaceCharacter(token);
+    }
+
+    onCharacter(token: CharacterToken): void {
+        this.skipNextNewLine = false;
+        this.handler.onCharacter(token);
+    }
+
+    onComment(token: CommentToken): void {
+        this.skipNextNewLine = false;
+        this.handler.onComment(token);
+    }
+
+    onDoctype(token: DoctypeToken): void {
+        this.skipNextNewLine = false;
+        this.handler.onDoctype(token);
+    }
+
+    onEof(token: EOFToken): void {
+        this.skipNextNewLine = false;
+        this.handler.onEof(token);
+    }
+
+    onInterpolation(token: InterpolationToken): void {
+        this.skipNextNewLine = false;
+        this.handler.onInterpolation(token);
     }
 
     //Namespace stack mutations
@@ -122,11 +152,14 @@ export class ParserFeedbackSimulator {
         if (this.inForeignContent) {
             if (foreignContent.causesExit(token)) {
                 this._leaveCurrentNamespace();
+                this.elementNamespace = NS.HTML;
                 return;
             }
 
             const currentNs = this.namespaceStack[0];
 
+            this.elementNamespace = currentNs;
+
             if (currentNs === NS.MATHML) {
                 foreignContent.adjustTokenMathMLAttrs(token);
             } else if (currentNs === NS.SVG) {
@@ -142,6 +175,8 @@ export class ParserFeedbackSimulator {
                 this._enterNamespace(NS.HTML);
             }
         } else {
+            this.elementNamespace = NS.HTML;
+
             switch (tn) {
                 case $.PRE:
                 case $.TEXTAREA:
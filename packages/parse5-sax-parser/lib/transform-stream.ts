@@ -0,0 +1,69 @@
+import { SAXParserCore, SAXParserOptions, SaxEvent, getSaxEvent } from './core.js';
+
+/**
+ * Streaming SAX-style HTML parser implemented as a [WHATWG transform stream](https://streams.spec.whatwg.org/#ts-model).
+ * Consumes string chunks and produces SAX event records, so it can be used in any runtime that supports
+ * web streams (browsers, Deno, edge workers and Node.js).
+ *
+ * @example
+ *
+ * ```js
+ * const { SAXTransformStream } = require('parse5-sax-parser');
+ *
+ * const response = await fetch('https://example.com');
+ * const events = response.body.pipeThrough(new TextDecoderStream()).pipeThrough(new SAXTransformStream());
+ *
+ * for await (const { type, token } of events) {
+ *     if (type === 'text') {
+ *         // Handle page text content
+ *         ...
+ *     }
+ * }
+ * ```
+ */
+export class SAXTransformStream implements ReadableWritablePair<SaxEvent, string> {
+    public readonly readable: ReadableStream<SaxEvent>;
+    public readonly writable: WritableStream<string>;
+    protected core: SAXParserCore;
+
+    /**
+     * @param options Parsing options.
+     */
+    constructor(options: SAXParserOptions = {}) {
+        let controller: TransformStreamDefaultController<SaxEvent>;
+
+        this.core = new SAXParserCore(options, (token, lastInTextNode) => {
+            const event = getSaxEvent(token, lastInTextNode);
+
+            if (event) {
+                controller.enqueue(event);
+            }
+        });
+
+        const { readable, writable } = new TransformStream<string, SaxEvent>({
+            start: (streamController): void => {
+                controller = streamController;
+            },
+            transform: (chunk): void => {
+                if (typeof chunk !== 'string') {
+                    throw new TypeError('Parser can work only with string streams.');
+                }
+
+                this.core.write(chunk, false);
+            },
+            flush: (): void => {
+                this.core.write('', true);
+            },
+        });
+
+        this.readable = readable;
+        this.writable = writable;
+    }
+
+    /**
+     * Stops parsing. Written chunks are consumed without producing events.
+     */
+    public stop(): void {
+        this.core.stop();
+    }
+}
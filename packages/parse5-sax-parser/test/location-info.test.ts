@@ -46,4 +46,34 @@ describe('location-info', () => {
 
         parser.end(html);
     });
+
+    it('Attribute locations', () => {
+        const html = '<a href="x" title = \'y\' hidden>';
+        const parser = new SAXParser({ sourceCodeLocationInfo: true, attributeLocationInfo: true });
+        const getSource = (loc: Location | null | undefined): string | null =>
+            loc ? html.slice(loc.startOffset, loc.endOffset) : null;
+        let attrs: (string | null | undefined)[][] = [];
+
+        parser.on('startTag', ({ sourceCodeLocation }) => {
+            attrs = Object.values(sourceCodeLocation?.attrs ?? {}).map((attr) => [
+                getSource(attr.name),
+                getSource(attr.equalsSign),
+                getSource(attr.value),
+                getSource(attr.quotedValue),
+                attr.quote,
+            ]);
+        });
+
+        for (const chunk of ['<a hr', 'ef=', '"x" title =', " 'y' hid", 'den>']) {
+            parser.write(chunk);
+        }
+
+        parser.end();
+
+        assert.deepStrictEqual(attrs, [
+            ['href', '=', 'x', '"x"', '"'],
+            ['title', '=', 'y', "'y'", "'"],
+            ['hidden', null, null, null, null],
+        ]);
+    });
 });
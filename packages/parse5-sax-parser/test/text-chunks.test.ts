@@ -0,0 +1,67 @@
+import * as assert from 'node:assert';
+import { SaxEvent, iterateSAXEvents } from '../lib/index.js';
+import { loadSAXParserTestData } from 'parse5-test-utils/utils/load-sax-parser-test-data.js';
+import { makeChunks } from 'parse5-test-utils/utils/common.js';
+
+async function collect(events: AsyncIterable<SaxEvent>): Promise<SaxEvent[]> {
+    const result: SaxEvent[] = [];
+
+    for await (const event of events) {
+        result.push(event);
+    }
+
+    return result;
+}
+
+//NOTE: join text chunks, so that the events can be compared with the ones produced without text chunks.
+function joinTextChunks(events: SaxEvent[]): SaxEvent[] {
+    const result: SaxEvent[] = [];
+    let text = '';
+
+    for (const event of events) {
+        if (event.type !== 'text') {
+            assert.strictEqual(text, '', 'The text node should end before the next token');
+            result.push(event);
+        } else if (event.token.lastInTextNode) {
+            result.push({ type: 'text', token: { text: text + event.token.text, sourceCodeLocation: null } });
+            text = '';
+        } else {
+            assert.notStrictEqual(event.token.lastInTextNode, undefined);
+            text += event.token.text;
+        }
+    }
+
+    return result;
+}
+
+describe('SAX parser text chunks', () => {
+    for (const [idx, data] of loadSAXParserTestData().entries()) {
+        it(`${idx + 1}.${data.name}`, async () => {
+            const chunks = makeChunks(data.src);
+            const expected = await collect(iterateSAXEvents(chunks));
+            const actual = await collect(iterateSAXEvents(chunks, { textChunks: true }));
+
+            assert.deepStrictEqual(joinTextChunks(actual), expected);
+        });
+    }
+
+    it('Reports text as chunks are consumed', async () => {
+        const events = await collect(
+            iterateSAXEvents(['<p>Hello, ', 'wor', 'ld</p><p>a</p>'], {
+                textChunks: true,
+                sourceCodeLocationInfo: true,
+            })
+        );
+        const texts = events.flatMap(({ type, token }) =>
+            type === 'text' ? [[token.text, token.lastInTextNode, token.sourceCodeLocation?.startOffset]] : []
+        );
+
+        //NOTE: the trailing run of characters is retained until the next characters are consumed.
+        assert.deepStrictEqual(texts, [
+            ['Hello,', false, 3],
+            [' ', false, 9],
+            ['world', true, 10],
+            ['a', true, 22],
+        ]);
+    });
+});
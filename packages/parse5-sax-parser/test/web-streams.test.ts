@@ -0,0 +1,121 @@
+import * as assert from 'node:assert';
+import * as webStreams from 'node:stream/web';
+import { SAXParser, SaxEvent, SAXTransformStream, iterateSAXEvents } from '../lib/index.js';
+import { loadSAXParserTestData } from 'parse5-test-utils/utils/load-sax-parser-test-data.js';
+import { makeChunks } from 'parse5-test-utils/utils/common.js';
+
+//NOTE: Jest's Node.js environment doesn't expose the web streams globals.
+globalThis.TransformStream ??= webStreams.TransformStream as typeof TransformStream;
+
+function createReadableStream(chunks: string[]): ReadableStream<string> {
+    return new webStreams.ReadableStream<string>({
+        start(controller): void {
+            for (const chunk of chunks) {
+                controller.enqueue(chunk);
+            }
+
+            controller.close();
+        },
+    }) as ReadableStream<string>;
+}
+
+async function collect(events: AsyncIterable<SaxEvent>): Promise<SaxEvent[]> {
+    const result: SaxEvent[] = [];
+
+    for await (const event of events) {
+        result.push(event);
+    }
+
+    return result;
+}
+
+function getNodeStreamEvents(chunks: string[]): SaxEvent[] {
+    const events: SaxEvent[] = [];
+    const parser = new SAXParser();
+
+    parser.on('startTag', (token) => events.push({ type: 'startTag', token }));
+    parser.on('endTag', (token) => events.push({ type: 'endTag', token }));
+    parser.on('text', (token) => events.push({ type: 'text', token }));
+    parser.on('comment', (token) => events.push({ type: 'comment', token }));
+    parser.on('doctype', (token) => events.push({ type: 'doctype', token }));
+
+    for (const chunk of chunks) {
+        parser.write(chunk);
+    }
+
+    parser.end();
+
+    return events;
+}
+
+async function* generateChunks(): AsyncGenerator<string> {
+    yield '<div>a';
+    yield 'b</div>';
+    throw new Error('Unreachable');
+}
+
+describe('SAX parser web streams API', () => {
+    for (const [idx, data] of loadSAXParserTestData().entries()) {
+        it(`${idx + 1}.${data.name}`, async () => {
+            const chunks = makeChunks(data.src);
+            const expected = getNodeStreamEvents(chunks);
+
+            assert.deepStrictEqual(await collect(iterateSAXEvents(chunks)), expected);
+            assert.deepStrictEqual(
+                await collect(
+                    createReadableStream(chunks).pipeThrough(
+                        new SAXTransformStream()
+                    ) as unknown as AsyncIterable<SaxEvent>
+                ),
+                expected
+            );
+        });
+    }
+
+    it('Yields events as chunks are consumed', async () => {
+        const iterator = iterateSAXEvents(generateChunks());
+        const first = await iterator.next();
+
+        assert.deepStrictEqual(first.value, {
+            type: 'startTag',
+            token: { tagName: 'div', attrs: [], selfClosing: false, sourceCodeLocation: null },
+        });
+
+        const second = await iterator.next();
+
+        assert.deepStrictEqual(second.value, { type: 'text', token: { text: 'ab', sourceCodeLocation: null } });
+
+        await iterator.return();
+    });
+
+    it('Reads WHATWG readable streams', async () => {
+        const events = await collect(iterateSAXEvents(createReadableStream(['<!--a', '-->b'])));
+
+        assert.deepStrictEqual(events, [
+            { type: 'comment', token: { text: 'a', sourceCodeLocation: null } },
+            { type: 'text', token: { text: 'b', sourceCodeLocation: null } },
+        ]);
+    });
+
+    it('.stop()', async () => {
+        const stream = new SAXTransformStream();
+        const writer = stream.writable.getWriter();
+        const reader = stream.readable.getReader();
+
+        void writer.write('<a><b>');
+
+        const first = await reader.read();
+
+        assert.strictEqual(first.value?.type, 'startTag');
+
+        stream.stop();
+        void writer.write('<c>');
+        void writer.close();
+
+        const second = await reader.read();
+        const last = await reader.read();
+
+        assert.strictEqual(second.value?.type, 'startTag');
+        assert.ok(last.done);
+    });
+});
@@ -1,7 +1,22 @@
 import { Readable } from 'node:stream';
-import { Serializer, SerializerOptions } from 'parse5/dist/serializer/index.js';
+import {
+    Serializer,
+    SerializerOptions,
+    SourceMap,
+    SourceMapOptions,
+    SourceMapGenerator,
+} from 'parse5/dist/serializer/index.js';
 import type { TreeAdapterTypeMap } from 'parse5/dist/tree-adapters/interface.js';
 
+export interface SerializerStreamInput<T extends TreeAdapterTypeMap> {
+    /** Node to serialize. */
+    node: T['parentNode'];
+    /** Name of the source file the node was parsed from. Overrides the `source` of the `sourceMap` option. */
+    source?: string;
+    /** Content of the source file. Overrides the `sourceContent` of the `sourceMap` option. */
+    sourceContent?: string;
+}
+
 /**
  * Streaming AST node to an HTML serializer. A [readable stream](https://nodejs.org/api/stream.html#stream_class_stream_readable).
  *
@@ -19,35 +34,83 @@ import type { TreeAdapterTypeMap } from 'parse5/dist/tree-adapters/interface.js'
  * const serializer = new SerializerStream(document);
  *
  * serializer.pipe(file);
+ *
+ * // Concatenates the fragments parsed from different files. The source map maps the output to both files.
+ * const header = parse5.parseFragment(headerHtml, { sourceCodeLocationInfo: true });
+ * const content = parse5.parseFragment(contentHtml, { sourceCodeLocationInfo: true });
+ * const pageSerializer = new SerializerStream(
+ *     [
+ *         { node: header, source: 'header.html' },
+ *         { node: content, source: 'content.html' },
+ *     ],
+ *     { sourceMap: { file: 'page.html' } }
+ * );
+ *
+ * pageSerializer.on('end', () => console.log(pageSerializer.getSourceMap()));
  * ```
  */
 export class SerializerStream<T extends TreeAdapterTypeMap> extends Readable {
-    private serializer: Serializer<T>;
+    private serializers: Serializer<T>[];
+    private sourceMapGenerator: SourceMapGenerator | null = null;
 
     /**
      * Streaming AST node to an HTML serializer. A readable stream.
      *
-     * @param node Node to serialize.
-     * @param options Serialization options.
+     * @param input Node to serialize, or a list of nodes which are serialized one after another.
+     * @param options Serialization options. If the `sourceMap` option is enabled, all nodes share a single source map.
      */
-    constructor(node: T['parentNode'], options: SerializerOptions<T>) {
+    constructor(input: T['parentNode'] | SerializerStreamInput<T>[], options: SerializerOptions<T>) {
         super({ encoding: 'utf8' });
 
-        this.serializer = new Serializer(node, options);
+        const inputs = Array.isArray(input) ? input : [{ node: input }];
+        const sourceMapOptions: SourceMapOptions | undefined =
+            options.sourceMap === true ? {} : options.sourceMap || undefined;
+        const generator =
+            sourceMapOptions && (sourceMapOptions.generator ?? new SourceMapGenerator(sourceMapOptions.file));
+
+        this.sourceMapGenerator = generator ?? null;
+        this.serializers = inputs.map(({ node, source, sourceContent }) => {
+            const serializer = new Serializer(node, {
+                ...options,
+                sourceMap: sourceMapOptions && {
+                    ...sourceMapOptions,
+                    source: source ?? sourceMapOptions.source,
+                    sourceContent: sourceContent ?? sourceMapOptions.sourceContent,
+                    generator,
+                },
+            });
+
+            Object.defineProperty(serializer, 'html', {
+                //NOTE: To make `+=` concat operator work properly we define
+                //getter which always returns empty string. As the serializer
+                //doesn't retain the output, we advance the source map generator here.
+                get() {
+                    return '';
+                },
+                set: (data: string) => {
+                    this.sourceMapGenerator?.advance(data);
+                    this.push(data);
+                },
+            });
 
-        Object.defineProperty(this.serializer, 'html', {
-            //NOTE: To make `+=` concat operator work properly we define
-            //getter which always returns empty string
-            get() {
-                return '';
-            },
-            set: (data: string) => this.push(data),
+            return serializer;
         });
     }
 
+    /**
+     * Returns the source map of the output, if the `sourceMap` option is enabled.
+     * Should be called after the stream has ended.
+     */
+    getSourceMap(): SourceMap | null {
+        return this.serializers.length > 0 ? this.serializers[0].getSourceMap() : null;
+    }
+
     //Readable stream implementation
     override _read(): void {
-        this.serializer.serialize();
+        for (const serializer of this.serializers) {
+            serializer.serialize();
+        }
+
         this.push(null);
     }
 }
@@ -1,9 +1,12 @@
+import * as assert from 'node:assert';
+import * as parse5 from 'parse5';
 import { SerializerStream } from '../lib/index.js';
 import { generateSerializerTests } from 'parse5-test-utils/utils/generate-serializer-tests.js';
 import { WritableStreamStub } from 'parse5-test-utils/utils/common.js';
+import type { TreeAdapterTypeMap } from 'parse5/dist/tree-adapters/interface.js';
+import { getMappedSnippets } from 'parse5-test-utils/utils/source-map.js';
 
-generateSerializerTests('SerializerStream', 'SerializerStream', (document, opts) => {
-    const stream = new SerializerStream(document, opts);
+function readStream<T extends TreeAdapterTypeMap>(stream: SerializerStream<T>): Promise<string> {
     const writable = new WritableStreamStub();
 
     stream.pipe(writable);
@@ -11,4 +14,57 @@ generateSerializerTests('SerializerStream', 'SerializerStream', (document, opts)
     return new Promise((resolve) => {
         writable.once('finish', () => resolve(writable.writtenData));
     });
+}
+
+generateSerializerTests('SerializerStream', 'SerializerStream', (document, opts) =>
+    readStream(new SerializerStream(document, opts))
+);
+
+describe('SerializerStream', () => {
+    it('Serializes several nodes and composes their source maps', async () => {
+        const sources = ['<!DOCTYPE html>\n<title>a</title>', '<p>b\nc</p>', '<p>d</p>'];
+        const stream = new SerializerStream(
+            [
+                { node: parse5.parse(sources[0], { sourceCodeLocationInfo: true }), source: 'index.html' },
+                {
+                    node: parse5.parseFragment(sources[1], { sourceCodeLocationInfo: true }),
+                    source: 'b.html',
+                    sourceContent: sources[1],
+                },
+                { node: parse5.parseFragment(sources[2], { sourceCodeLocationInfo: true }) },
+            ],
+            { sourceMap: { file: 'out.html', source: 'd.html' } }
+        );
+        const output = await readStream(stream);
+        const sourceMap = stream.getSourceMap();
+
+        assert.strictEqual(
+            output,
+            '<!DOCTYPE html><html><head><title>a</title></head><body></body></html><p>b\nc</p><p>d</p>'
+        );
+        assert.ok(sourceMap);
+        assert.strictEqual(sourceMap.file, 'out.html');
+        assert.deepStrictEqual(sourceMap.sources, ['index.html', 'b.html', 'd.html']);
+        assert.deepStrictEqual(sourceMap.sourcesContent, [null, sources[1], null]);
+        assert.deepStrictEqual(getMappedSnippets(sourceMap, output, sources), [
+            ['<!DOCTYPE html><html><head>', 'index.html', '<!DOCTYPE html>'],
+            ['<title>', 'index.html', '<title>'],
+            ['a', 'index.html', 'a'],
+            ['</title></head><body></body></html>', 'index.html', '</title>'],
+            ['<p>', 'b.html', '<p>'],
+            ['b', 'b.html', 'b'],
+            ['c', 'b.html', 'c'],
+            ['</p>', 'b.html', '</p>'],
+            ['<p>', 'd.html', '<p>'],
+            ['d', 'd.html', 'd'],
+            ['</p>', 'd.html', '</p>'],
+        ]);
+    });
+
+    it('Has no source map if the option is disabled', async () => {
+        const stream = new SerializerStream(parse5.parseFragment('<p>a</p>'), {});
+
+        assert.strictEqual(await readStream(stream), '<p>a</p>');
+        assert.strictEqual(stream.getSourceMap(), null);
+    });
 });
@@ -0,0 +1,109 @@
+import * as assert from 'node:assert';
+import * as parse5 from 'parse5';
+import type { ConformanceError } from 'parse5';
+import * as defaultTreeAdapter from '../tree-adapters/default.js';
+
+function check(html: string): ConformanceError[] {
+    return parse5.checkConformance(parse5.parse(html, { sourceCodeLocationInfo: true }));
+}
+
+function getMessages(html: string): string[] {
+    return check(`<!DOCTYPE html>${html}`).map(({ message }) => message);
+}
+
+describe('conformance checker', () => {
+    it('Reports non-conforming doctypes', () => {
+        assert.deepStrictEqual(check('<!DOCTYPE html>'), []);
+        assert.deepStrictEqual(check('<!DOCTYPE html SYSTEM "about:legacy-compat">'), []);
+        assert.deepStrictEqual(check('<!DOCTYPE html PUBLIC "-//W3C//DTD HTML 4.01//EN">\n<p>'), [
+            {
+                code: parse5.ConformanceErrorCodes.nonConformingDoctype,
+                message: 'Non-conforming DOCTYPE. Use `<!DOCTYPE html>`.',
+                startLine: 1,
+                startCol: 1,
+                startOffset: 0,
+                endLine: 1,
+                endCol: 51,
+                endOffset: 50,
+            },
+        ]);
+    });
+
+    it('Reports obsolete elements', () => {
+        assert.deepStrictEqual(getMessages('<center><font>a</font><acronym>b</acronym><blink-x></blink-x></center>'), [
+            'The `<center>` element is obsolete.',
+            'The `<font>` element is obsolete.',
+            'The `<acronym>` element is obsolete.',
+        ]);
+
+        const [error] = check('<!DOCTYPE html>\n<p><basefont size=3></p>');
+
+        assert.strictEqual(error.code, parse5.ConformanceErrorCodes.obsoleteElement);
+        assert.deepStrictEqual([error.startLine, error.startCol, error.endLine, error.endCol], [2, 4, 2, 21]);
+    });
+
+    it('Reports disallowed children', () => {
+        assert.deepStrictEqual(
+            getMessages('<ul>\n  <li>a</li>\n  <div>b</div>\n  c\n</ul><li>d</li><span><a><div>e</div></a></span>'),
+            [
+                'The `<div>` element is not allowed in `<ul>`.',
+                'Text is not allowed in `<ul>`.',
+                'The `<li>` element is not allowed in `<body>`.',
+                'The `<div>` element is not allowed in `<span>`.',
+            ]
+        );
+        assert.deepStrictEqual(getMessages('<table><tr><td><p>a</td></tr></table><dl><dt>b<dd>c</dl>'), []);
+        assert.deepStrictEqual(getMessages('<svg><foreignObject><figcaption>a</figcaption></foreignObject></svg>'), [
+            'The `<figcaption>` element is not allowed in `<foreignObject>`.',
+        ]);
+    });
+
+    it('Reports missing required attributes', () => {
+        assert.deepStrictEqual(getMessages('<img src=a.png alt=""><img alt=""><bdo>a</bdo>'), [
+            'The `<img>` element requires the `src` attribute.',
+            'The `<bdo>` element requires the `dir` attribute.',
+        ]);
+    });
+
+    it('Reports invalid values of enumerated attributes', () => {
+        const html = '<!DOCTYPE html><input TYPE=Email><button type=send dir=up>a</button>';
+        const errors = check(html);
+
+        assert.deepStrictEqual(
+            errors.map(({ message }) => message),
+            [
+                'Invalid value `send` of the `type` attribute. Expected one of: `submit`, `reset`, `button`.',
+                'Invalid value `up` of the `dir` attribute. Expected one of: `ltr`, `rtl`, `auto`.',
+            ]
+        );
+        assert.strictEqual(html.slice(errors[0].startOffset, errors[0].endOffset), 'type=send');
+        assert.deepStrictEqual(getMessages('<div constructor=a toString=b></div>'), []);
+    });
+
+    it('Reports duplicate IDs', () => {
+        const html = '<!DOCTYPE html><p id=a></p><p id=b></p><p id=a></p><template><p id=a></p></template>';
+        const errors = check(html);
+
+        assert.deepStrictEqual(
+            errors.map(({ code, message }) => [code, message]),
+            [[parse5.ConformanceErrorCodes.duplicateId, 'Duplicate ID `a`.']]
+        );
+        assert.strictEqual(errors[0].startOffset, html.lastIndexOf('id=a', html.indexOf('<template>')));
+    });
+
+    it('Checks fragments and elements', () => {
+        const fragment = parse5.parseFragment('<li>a</li><ol><p>b</p></ol>');
+        const [, list] = fragment.childNodes;
+
+        assert.ok(defaultTreeAdapter.isElementNode(list));
+
+        assert.deepStrictEqual(
+            parse5.checkConformance(fragment).map(({ message, startOffset }) => [message, startOffset]),
+            [['The `<p>` element is not allowed in `<ol>`.', -1]]
+        );
+        assert.deepStrictEqual(
+            parse5.checkConformance(list).map(({ message }) => message),
+            ['The `<p>` element is not allowed in `<ol>`.']
+        );
+    });
+});
@@ -0,0 +1,535 @@
+import { TAG_ID as $, TAG_NAMES as TN, NAMESPACES as NS, getTagID } from '../common/html.js';
+import { TokenType, Location } from '../common/token.js';
+import { isConforming } from '../common/doctype.js';
+import * as defaultTreeAdapter from '../tree-adapters/default.js';
+import type { DefaultTreeAdapterMap } from '../tree-adapters/default.js';
+import type { TreeAdapter, TreeAdapterTypeMap } from '../tree-adapters/interface.js';
+
+export enum CONFORMANCE_ERR {
+    nonConformingDoctype = 'non-conforming-doctype',
+    obsoleteElement = 'obsolete-element',
+    disallowedChild = 'disallowed-child',
+    missingRequiredAttribute = 'missing-required-attribute',
+    invalidAttributeValue = 'invalid-attribute-value',
+    duplicateId = 'duplicate-id',
+}
+
+export interface ConformanceError extends Location {
+    code: CONFORMANCE_ERR;
+    message: string;
+}
+
+export interface ConformanceCheckerOptions<T extends TreeAdapterTypeMap> {
+    /**
+     * Specifies the tree adapter of the checked tree.
+     *
+     * @default `treeAdapters.default`
+     */
+    treeAdapter?: TreeAdapter<T>;
+}
+
+//NOTE: used for nodes without location info, same as the location of parse errors without a position.
+const NO_LOCATION: Location = {
+    startLine: -1,
+    startCol: -1,
+    startOffset: -1,
+    endLine: -1,
+    endCol: -1,
+    endOffset: -1,
+};
+
+//NOTE: see https://html.spec.whatwg.org/multipage/obsolete.html#non-conforming-features
+const OBSOLETE_ELEMENTS = new Set<$>([
+    $.APPLET,
+    $.BASEFONT,
+    $.BGSOUND,
+    $.BIG,
+    $.CENTER,
+    $.DIR,
+    $.FONT,
+    $.FRAME,
+    $.FRAMESET,
+    $.KEYGEN,
+    $.LISTING,
+    $.MARQUEE,
+    $.NOBR,
+    $.NOEMBED,
+    $.NOFRAMES,
+    $.PARAM,
+    $.PLAINTEXT,
+    $.RB,
+    $.RTC,
+    $.STRIKE,
+    $.TT,
+    $.XMP,
+]);
+
+//NOTE: obsolete elements the tree builder doesn't treat specially, so they have no tag ID.
+const OBSOLETE_UNKNOWN_ELEMENTS = new Set(['acronym', 'blink', 'isindex', 'menuitem', 'multicol', 'nextid', 'spacer']);
+
+//NOTE: elements which only allow phrasing content. Their constraint applies to the content of
+//transparent descendants as well.
+const PHRASING_CONTAINERS = new Set<string>([
+    TN.B,
+    TN.BUTTON,
+    TN.CODE,
+    TN.EM,
+    TN.H1,
+    TN.H2,
+    TN.H3,
+    TN.H4,
+    TN.H5,
+    TN.H6,
+    TN.I,
+    TN.LABEL,
+    TN.P,
+    TN.PRE,
+    TN.RT,
+    TN.S,
+    TN.SMALL,
+    TN.SPAN,
+    TN.STRONG,
+    TN.SUB,
+    TN.SUP,
+    TN.U,
+    TN.VAR,
+    'abbr',
+    'bdi',
+    'cite',
+    'data',
+    'dfn',
+    'kbd',
+    'mark',
+    'output',
+    'q',
+    'samp',
+    'time',
+]);
+
+const TRANSPARENT_ELEMENTS = new Set<string>([
+    TN.A,
+    TN.NOSCRIPT,
+    TN.OBJECT,
+    'audio',
+    'canvas',
+    'del',
+    'ins',
+    'map',
+    'slot',
+    'video',
+]);
+
+//NOTE: flow content elements which are not phrasing content.
+const NON_PHRASING_ELEMENTS = new Set<string>([
+    TN.ADDRESS,
+    TN.ARTICLE,
+    TN.ASIDE,
+    TN.BLOCKQUOTE,
+    TN.DETAILS,
+    TN.DIALOG,
+    TN.DIV,
+    TN.DL,
+    TN.FIELDSET,
+    TN.FIGURE,
+    TN.FOOTER,
+    TN.FORM,
+    TN.H1,
+    TN.H2,
+    TN.H3,
+    TN.H4,
+    TN.H5,
+    TN.H6,
+    TN.HEADER,
+    TN.HGROUP,
+    TN.HR,
+    TN.MAIN,
+    TN.MENU,
+    TN.NAV,
+    TN.OL,
+    TN.P,
+    TN.PRE,
+    TN.SECTION,
+    TN.TABLE,
+    TN.UL,
+    'search',
+]);
+
+const LIST_CHILDREN = [TN.LI, TN.SCRIPT, TN.TEMPLATE];
+const TABLE_SECTION_CHILDREN = [TN.TR, TN.SCRIPT, TN.TEMPLATE];
+
+//NOTE: elements which only allow the listed child elements and inter-element whitespace.
+const ALLOWED_CHILDREN = new Map<string, Set<string>>([
+    [TN.HTML, new Set([TN.HEAD, TN.BODY, TN.FRAMESET])],
+    [TN.HEAD, new Set([TN.BASE, TN.LINK, TN.META, TN.NOSCRIPT, TN.SCRIPT, TN.STYLE, TN.TEMPLATE, TN.TITLE])],
+    [TN.UL, new Set(LIST_CHILDREN)],
+    [TN.OL, new Set(LIST_CHILDREN)],
+    [TN.MENU, new Set(LIST_CHILDREN)],
+    [TN.DL, new Set([TN.DT, TN.DD, TN.DIV, TN.SCRIPT, TN.TEMPLATE])],
+    [TN.TABLE, new Set([TN.CAPTION, TN.COLGROUP, TN.THEAD, TN.TBODY, TN.TFOOT, TN.TR, TN.SCRIPT, TN.TEMPLATE])],
+    [TN.THEAD, new Set(TABLE_SECTION_CHILDREN)],
+    [TN.TBODY, new Set(TABLE_SECTION_CHILDREN)],
+    [TN.TFOOT, new Set(TABLE_SECTION_CHILDREN)],
+    [TN.TR, new Set([TN.TD, TN.TH, TN.SCRIPT, TN.TEMPLATE])],
+    [TN.COLGROUP, new Set([TN.COL, TN.TEMPLATE])],
+    [TN.SELECT, new Set([TN.OPTION, TN.OPTGROUP, TN.HR, TN.SCRIPT, TN.TEMPLATE])],
+    [TN.OPTGROUP, new Set([TN.OPTION, TN.SCRIPT, TN.TEMPLATE])],
+]);
+
+//NOTE: elements which can only be children of the listed elements.
+const ALLOWED_PARENTS = new Map<string, Set<string>>([
+    [TN.HEAD, new Set([TN.HTML])],
+    [TN.BODY, new Set([TN.HTML])],
+    [TN.LI, new Set([TN.UL, TN.OL, TN.MENU])],
+    [TN.DT, new Set([TN.DL, TN.DIV])],
+    [TN.DD, new Set([TN.DL, TN.DIV])],
+    [TN.CAPTION, new Set([TN.TABLE])],
+    [TN.COLGROUP, new Set([TN.TABLE])],
+    [TN.COL, new Set([TN.COLGROUP])],
+    [TN.THEAD, new Set([TN.TABLE])],
+    [TN.TBODY, new Set([TN.TABLE])],
+    [TN.TFOOT, new Set([TN.TABLE])],
+    [TN.TR, new Set([TN.TABLE, TN.THEAD, TN.TBODY, TN.TFOOT])],
+    [TN.TD, new Set([TN.TR])],
+    [TN.TH, new Set([TN.TR])],
+    [TN.OPTION, new Set([TN.SELECT, TN.OPTGROUP, 'datalist'])],
+    [TN.OPTGROUP, new Set([TN.SELECT])],
+    [TN.FIGCAPTION, new Set([TN.FIGURE])],
+    [TN.SUMMARY, new Set([TN.DETAILS])],
+    [TN.RT, new Set([TN.RUBY])],
+    [TN.RP, new Set([TN.RUBY])],
+    [TN.SOURCE, new Set(['audio', 'picture', 'video'])],
+    [TN.TRACK, new Set(['audio', 'video'])],
+    ['legend', new Set([TN.FIELDSET])],
+]);
+
+const REQUIRED_ATTRIBUTES = new Map<string, string[]>([
+    [TN.IMG, ['src', 'alt']],
+    [TN.OPTGROUP, ['label']],
+    [TN.LINK, ['href']],
+    [TN.TRACK, ['src']],
+    ['bdo', ['dir']],
+    ['map', ['name']],
+]);
+
+const CROSSORIGIN_VALUES = ['', 'anonymous', 'use-credentials'];
+const LOADING_VALUES = ['lazy', 'eager'];
+const PRELOAD_VALUES = ['', 'none', 'metadata', 'auto'];
+
+//NOTE: keywords of enumerated attributes, matched ASCII case-insensitively.
+const GLOBAL_ENUMERATED_ATTRIBUTES: Record<string, string[]> = {
+    autocapitalize: ['off', 'none', 'on', 'sentences', 'words', 'characters'],
+    contenteditable: ['', 'true', 'false', 'plaintext-only'],
+    dir: ['ltr', 'rtl', 'auto'],
+    draggable: ['true', 'false'],
+    enterkeyhint: ['enter', 'done', 'go', 'next', 'previous', 'search', 'send'],
+    hidden: ['', 'hidden', 'until-found'],
+    inputmode: ['none', 'text', 'decimal', 'numeric', 'tel', 'search', 'email', 'url'],
+    spellcheck: ['', 'true', 'false'],
+    translate: ['', 'yes', 'no'],
+};
+
+const ENUMERATED_ATTRIBUTES = new Map<string, Record<string, string[]>>([
+    [TN.AREA, { shape: ['circle', 'default', 'poly', 'rect'] }],
+    [TN.BUTTON, { type: ['submit', 'reset', 'button'] }],
+    [
+        TN.FORM,
+        {
+            autocomplete: ['on', 'off'],
+            enctype: ['application/x-www-form-urlencoded', 'multipart/form-data', 'text/plain'],
+            method: ['get', 'post', 'dialog'],
+        },
+    ],
+    [TN.IFRAME, { loading: LOADING_VALUES }],
+    [TN.IMG, { crossorigin: CROSSORIGIN_VALUES, decoding: ['sync', 'async', 'auto'], loading: LOADING_VALUES }],
+    [
+        TN.INPUT,
+        {
+            type: [
+                'hidden',
+                'text',
+                'search',
+                'tel',
+                'url',
+                'email',
+                'password',
+                'date',
+                'month',
+                'week',
+                'time',
+                'datetime-local',
+                'number',
+                'range',
+                'color',
+                'checkbox',
+                'radio',
+                'file',
+                'submit',
+                'image',
+                'reset',
+                'button',
+            ],
+        },
+    ],
+    [TN.LINK, { crossorigin: CROSSORIGIN_VALUES }],
+    [TN.SCRIPT, { crossorigin: CROSSORIGIN_VALUES }],
+    [TN.TEXTAREA, { wrap: ['soft', 'hard'] }],
+    [TN.TH, { scope: ['row', 'col', 'rowgroup', 'colgroup'] }],
+    [TN.TRACK, { kind: ['subtitles', 'captions', 'descriptions', 'chapters', 'metadata'] }],
+    ['audio', { crossorigin: CROSSORIGIN_VALUES, preload: PRELOAD_VALUES }],
+    ['video', { crossorigin: CROSSORIGIN_VALUES, preload: PRELOAD_VALUES }],
+]);
+
+const WHITESPACE_ONLY = /^[\t\n\f\r ]*$/;
+
+function toLocation(location: Location | null | undefined): Location {
+    if (!location) {
+        return { ...NO_LOCATION };
+    }
+
+    const { startLine, startCol, startOffset, endLine, endCol, endOffset } = location;
+
+    return { startLine, startCol, startOffset, endLine, endCol, endOffset };
+}
+
+function getEnumeratedValues(tagName: string, attrName: string): string[] | undefined {
+    const values = ENUMERATED_ATTRIBUTES.get(tagName)?.[attrName] ?? GLOBAL_ENUMERATED_ATTRIBUTES[attrName];
+
+    //NOTE: the records are indexed with arbitrary attribute names, so inherited properties are excluded.
+    return Array.isArray(values) ? values : undefined;
+}
+
+function getPhrasingContainer(tagName: string | null, parentContainer: string | null): string | null {
+    if (tagName !== null && TRANSPARENT_ELEMENTS.has(tagName)) {
+        return parentContainer;
+    }
+
+    return tagName !== null && PHRASING_CONTAINERS.has(tagName) ? tagName : null;
+}
+
+interface ParentContext<T extends TreeAdapterTypeMap> {
+    /** Parent element. `null` for the children of a document, a document fragment or a template content. */
+    element: T['element'] | null;
+    /** Tag name of the parent, `null` if it's not an HTML element. */
+    tagName: string | null;
+    /** Tag name of the closest element which only allows phrasing content, if the content is limited by it. */
+    phrasingContainer: string | null;
+    /** IDs found so far in the current document or template content. */
+    ids: Set<string>;
+}
+
+class ConformanceChecker<T extends TreeAdapterTypeMap> {
+    private treeAdapter: TreeAdapter<T>;
+    private errors: ConformanceError[] = [];
+
+    constructor({ treeAdapter = defaultTreeAdapter as TreeAdapter<T> }: ConformanceCheckerOptions<T>) {
+        this.treeAdapter = treeAdapter;
+    }
+
+    check(node: T['parentNode']): ConformanceError[] {
+        const root: ParentContext<T> = { element: null, tagName: null, phrasingContainer: null, ids: new Set() };
+
+        if (this.treeAdapter.isElementNode(node)) {
+            this._checkElement(node, root);
+        } else {
+            this._checkChildNodes(node, root);
+        }
+
+        return this.errors;
+    }
+
+    private _err(code: CONFORMANCE_ERR, message: string, location: Location | null | undefined): void {
+        this.errors.push({ code, message, ...toLocation(location) });
+    }
+
+    private _getTagLocation(element: T['element']): Location | null | undefined {
+        const location = this.treeAdapter.getNodeSourceCodeLocation(element);
+
+        return location?.startTag ?? location;
+    }
+
+    private _checkChildNodes(node: T['parentNode'], parent: ParentContext<T>): void {
+        for (const child of this.treeAdapter.getChildNodes(node)) {
+            if (this.treeAdapter.isElementNode(child)) {
+                this._checkElement(child, parent);
+            } else if (this.treeAdapter.isTextNode(child)) {
+                this._checkText(child, parent);
+            } else if (this.treeAdapter.isDocumentTypeNode(child)) {
+                this._checkDoctype(child);
+            }
+        }
+    }
+
+    private _checkDoctype(doctype: T['documentType']): void {
+        const token = {
+            type: TokenType.DOCTYPE as const,
+            name: this.treeAdapter.getDocumentTypeNodeName(doctype),
+            forceQuirks: false,
+            //NOTE: tree adapters store missing identifiers as empty strings.
+            publicId: this.treeAdapter.getDocumentTypeNodePublicId(doctype) || null,
+            systemId: this.treeAdapter.getDocumentTypeNodeSystemId(doctype) || null,
+            location: null,
+        };
+
+        if (!isConforming(token)) {
+            this._err(
+                CONFORMANCE_ERR.nonConformingDoctype,
+                'Non-conforming DOCTYPE. Use `<!DOCTYPE html>`.',
+                this.treeAdapter.getNodeSourceCodeLocation(doctype)
+            );
+        }
+    }
+
+    private _checkText(textNode: T['textNode'], parent: ParentContext<T>): void {
+        if (
+            parent.tagName !== null &&
+            ALLOWED_CHILDREN.has(parent.tagName) &&
+            !WHITESPACE_ONLY.test(this.treeAdapter.getTextNodeContent(textNode))
+        ) {
+            this._err(
+                CONFORMANCE_ERR.disallowedChild,
+                `Text is not allowed in \`<${parent.tagName}>\`.`,
+                this.treeAdapter.getNodeSourceCodeLocation(textNode)
+            );
+        }
+    }
+
+    private _checkElement(element: T['element'], parent: ParentContext<T>): void {
+        const rawTagName = this.treeAdapter.getTagName(element);
+        const isHtml = this.treeAdapter.getNamespaceURI(element) === NS.HTML;
+        const tagName = isHtml ? rawTagName : null;
+
+        if (tagName !== null) {
+            this._checkObsolete(element, tagName);
+            this._checkPlacement(element, tagName, parent);
+            this._checkAttrs(element, tagName, parent.ids);
+        }
+
+        if (tagName === TN.TEMPLATE) {
+            //NOTE: template contents is a separate document fragment, with its own IDs.
+            const content = this.treeAdapter.getTemplateContent(element);
+
+            this._checkChildNodes(content, { element: null, tagName: null, phrasingContainer: null, ids: new Set() });
+
+            return;
+        }
+
+        const phrasingContainer = getPhrasingContainer(tagName, parent.phrasingContainer);
+
+        this._checkChildNodes(element, { element, tagName, phrasingContainer, ids: parent.ids });
+    }
+
+    private _checkObsolete(element: T['element'], tagName: string): void {
+        const tagID = getTagID(tagName);
+
+        if (tagID === $.UNKNOWN ? OBSOLETE_UNKNOWN_ELEMENTS.has(tagName) : OBSOLETE_ELEMENTS.has(tagID)) {
+            this._err(
+                CONFORMANCE_ERR.obsoleteElement,
+                `The \`<${tagName}>\` element is obsolete.`,
+                this._getTagLocation(element)
+            );
+        }
+    }
+
+    //NOTE: an element is reported at most once, even if it breaks several content model rules.
+    private _checkPlacement(element: T['element'], tagName: string, parent: ParentContext<T>): void {
+        if (parent.element === null) {
+            return;
+        }
+
+        const allowedChildren = parent.tagName === null ? undefined : ALLOWED_CHILDREN.get(parent.tagName);
+        const allowedParents = ALLOWED_PARENTS.get(tagName);
+        let isAllowed = true;
+        let parentTagName = parent.tagName ?? this.treeAdapter.getTagName(parent.element);
+
+        if (allowedChildren) {
+            isAllowed = allowedChildren.has(tagName);
+        } else if (parent.phrasingContainer !== null && NON_PHRASING_ELEMENTS.has(tagName)) {
+            isAllowed = false;
+            parentTagName = parent.phrasingContainer;
+        } else if (allowedParents) {
+            isAllowed = parent.tagName !== null && allowedParents.has(parent.tagName);
+        }
+
+        if (!isAllowed) {
+            this._err(
+                CONFORMANCE_ERR.disallowedChild,
+                `The \`<${tagName}>\` element is not allowed in \`<${parentTagName}>\`.`,
+                this._getTagLocation(element)
+            );
+        }
+    }
+
+    private _checkAttrs(element: T['element'], tagName: string, ids: Set<string>): void {
+        const attrs = this.treeAdapter.getAttrList(element);
+        const location = this.treeAdapter.getNodeSourceCodeLocation(element);
+        const getAttrLocation = (name: string): Location | null | undefined =>
+            location?.attrs?.[name] ?? this._getTagLocation(element);
+
+        for (const requiredAttr of REQUIRED_ATTRIBUTES.get(tagName) ?? []) {
+            if (!attrs.some(({ name, namespace }) => !namespace && name === requiredAttr)) {
+                this._err(
+                    CONFORMANCE_ERR.missingRequiredAttribute,
+                    `The \`<${tagName}>\` element requires the \`${requiredAttr}\` attribute.`,
+                    this._getTagLocation(element)
+                );
+            }
+        }
+
+        for (const { name, namespace, value } of attrs) {
+            if (namespace) {
+                continue;
+            }
+
+            const values = getEnumeratedValues(tagName, name);
+
+            if (values && !values.includes(value.toLowerCase())) {
+                this._err(
+                    CONFORMANCE_ERR.invalidAttributeValue,
+                    `Invalid value \`${value}\` of the \`${name}\` attribute. Expected one of: ${values
+                        .map((keyword) => `\`${keyword}\``)
+                        .join(', ')}.`,
+                    getAttrLocation(name)
+                );
+            }
+
+            if (name === 'id') {
+                if (ids.has(value)) {
+                    this._err(CONFORMANCE_ERR.duplicateId, `Duplicate ID \`${value}\`.`, getAttrLocation(name));
+                } else {
+                    ids.add(value);
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Checks a parsed tree against the HTML content models and reports the violations: disallowed children,
+ * missing required attributes, invalid values of enumerated attributes, duplicate IDs, obsolete elements and
+ * a non-conforming DOCTYPE. Only HTML elements are checked. The errors have the same location info as
+ * parse errors, so the tree should be parsed with `sourceCodeLocationInfo` enabled.
+ *
+ * This is not a complete conformance checker: it only covers the rules that can be checked reliably without
+ * knowing the context of the tree (e.g. the base URL or the rendering).
+ *
+ * @param node Document, document fragment or element to check.
+ * @param options Checker options.
+ * @returns Conformance errors in tree order.
+ *
+ * @example
+ *
+ * ```js
+ * const parse5 = require('parse5');
+ *
+ * const document = parse5.parse('<!DOCTYPE html><ul><p>Hi there!</ul>', { sourceCodeLocationInfo: true });
+ * const errors = parse5.checkConformance(document);
+ *
+ * console.log(errors[0].code); //> 'disallowed-child'
+ * ```
+ */
+export function checkConformance<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
+    node: T['parentNode'],
+    options: ConformanceCheckerOptions<T> = {}
+): ConformanceError[] {
+    return new ConformanceChecker(options).check(node);
+}
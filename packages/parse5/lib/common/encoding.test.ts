@@ -0,0 +1,162 @@
+import * as assert from 'node:assert';
+import * as parse5 from 'parse5';
+import {
+    ENCODING_CONFIDENCE,
+    PRESCAN_LENGTH,
+    extractEncodingFromContent,
+    getMetaElementEncoding,
+    prescanForEncoding,
+    sniffEncoding,
+} from './encoding.js';
+import type { Document, Element, TextNode } from '../tree-adapters/default.js';
+
+function bytes(str: string): Uint8Array {
+    return Buffer.from(str, 'latin1');
+}
+
+function getText(document: Document): string {
+    const html = document.childNodes[document.childNodes.length - 1] as Element;
+    const body = html.childNodes[1] as Element;
+    const text = body.childNodes[0] as TextNode;
+
+    return text.value;
+}
+
+describe('encoding', () => {
+    describe('extractEncodingFromContent', () => {
+        it('Extracts charset', () => {
+            assert.strictEqual(extractEncodingFromContent('text/html; charset=utf-8'), 'utf-8');
+            assert.strictEqual(extractEncodingFromContent('text/html;charset = "latin1"'), 'windows-1252');
+            assert.strictEqual(extractEncodingFromContent("charset='koi8-r'; foo"), 'koi8-r');
+        });
+
+        it('Handles malformed values', () => {
+            assert.strictEqual(extractEncodingFromContent('text/html'), null);
+            assert.strictEqual(extractEncodingFromContent('charset="utf-8'), null);
+            assert.strictEqual(extractEncodingFromContent('charset=unknown'), null);
+        });
+    });
+
+    describe('getMetaElementEncoding', () => {
+        const contentType = [
+            { name: 'http-equiv', value: 'Content-Type' },
+            { name: 'content', value: 'text/html; charset=windows-1251' },
+        ];
+
+        it('Prefers the charset attribute', () => {
+            assert.strictEqual(getMetaElementEncoding([{ name: 'charset', value: 'utf-8' }, ...contentType]), 'utf-8');
+        });
+
+        it('Falls back to the http-equiv pragma if the charset is not an encoding', () => {
+            assert.strictEqual(
+                getMetaElementEncoding([{ name: 'charset', value: 'foo' }, ...contentType]),
+                'windows-1251'
+            );
+            assert.strictEqual(getMetaElementEncoding([{ name: 'charset', value: 'foo' }]), null);
+        });
+    });
+
+    describe('prescanForEncoding', () => {
+        it('Finds <meta charset>', () => {
+            assert.strictEqual(prescanForEncoding(bytes('<!DOCTYPE html><meta charset="iso-8859-2">')), 'iso-8859-2');
+        });
+
+        it('Finds <meta http-equiv content>', () => {
+            const html = '<meta http-equiv="Content-Type" content="text/html; charset=windows-1251">';
+
+            assert.strictEqual(prescanForEncoding(bytes(html)), 'windows-1251');
+        });
+
+        it('Ignores <meta content> without http-equiv', () => {
+            assert.strictEqual(prescanForEncoding(bytes('<meta content="charset=windows-1251">')), null);
+        });
+
+        it('Skips comments and other tags', () => {
+            const html =
+                '<!-- <meta charset="koi8-r"> --><title a="<meta charset=koi8-r>"></title><meta charset=utf-8>';
+
+            assert.strictEqual(prescanForEncoding(bytes(html)), 'utf-8');
+        });
+
+        it('Replaces UTF-16 with UTF-8', () => {
+            assert.strictEqual(prescanForEncoding(bytes('<meta charset="utf-16le">')), 'utf-8');
+        });
+
+        it('Stops after the prescan length', () => {
+            const html = `${' '.repeat(PRESCAN_LENGTH)}<meta charset="utf-8">`;
+
+            assert.strictEqual(prescanForEncoding(bytes(html)), null);
+        });
+    });
+
+    describe('sniffEncoding', () => {
+        it('BOM', () => {
+            const result = sniffEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x3c]), { encoding: 'windows-1251' });
+
+            assert.deepStrictEqual(result, { encoding: 'utf-8', confidence: ENCODING_CONFIDENCE.CERTAIN });
+        });
+
+        it('Transport layer encoding takes precedence over the prescan', () => {
+            const result = sniffEncoding(bytes('<meta charset="utf-8">'), { encoding: 'latin2' });
+
+            assert.deepStrictEqual(result, { encoding: 'iso-8859-2', confidence: ENCODING_CONFIDENCE.CERTAIN });
+        });
+
+        it('Invalid transport layer encoding is ignored', () => {
+            const result = sniffEncoding(bytes('<meta charset="utf-8">'), { encoding: 'foo' });
+
+            assert.deepStrictEqual(result, { encoding: 'utf-8', confidence: ENCODING_CONFIDENCE.TENTATIVE });
+        });
+
+        it('Default encoding', () => {
+            assert.deepStrictEqual(sniffEncoding(bytes('<p>')), {
+                encoding: 'windows-1252',
+                confidence: ENCODING_CONFIDENCE.TENTATIVE,
+            });
+            assert.deepStrictEqual(sniffEncoding(bytes('<p>'), { defaultEncoding: 'utf-8' }), {
+                encoding: 'utf-8',
+                confidence: ENCODING_CONFIDENCE.TENTATIVE,
+            });
+        });
+    });
+
+    describe('Parsing bytes', () => {
+        it('Uses the default encoding', () => {
+            const document = parse5.parse(new Uint8Array([0x63, 0x61, 0x66, 0xe9]));
+
+            assert.strictEqual(getText(document), 'café');
+            assert.strictEqual(document.encoding, 'windows-1252');
+            assert.strictEqual(document.encodingConfidence, ENCODING_CONFIDENCE.TENTATIVE);
+        });
+
+        it('Uses the prescanned encoding', () => {
+            const document = parse5.parse(Buffer.from('<meta charset="utf-8">café'));
+
+            assert.strictEqual(getText(document), 'café');
+            assert.strictEqual(document.encoding, 'utf-8');
+            assert.strictEqual(document.encodingConfidence, ENCODING_CONFIDENCE.CERTAIN);
+        });
+
+        it('Reparses the document if a late <meta> changes the encoding', () => {
+            const padding = `<!--${' '.repeat(PRESCAN_LENGTH)}-->`;
+            const document = parse5.parse(Buffer.from(`${padding}<meta charset="utf-8">café`));
+
+            assert.strictEqual(getText(document), 'café');
+            assert.strictEqual(document.encoding, 'utf-8');
+            assert.strictEqual(document.encodingConfidence, ENCODING_CONFIDENCE.CERTAIN);
+        });
+
+        it('Ignores <meta> if the encoding is certain', () => {
+            const document = parse5.parse(Buffer.from('<meta charset="windows-1251">café'), { encoding: 'utf-8' });
+
+            assert.strictEqual(getText(document), 'café');
+            assert.strictEqual(document.encoding, 'utf-8');
+        });
+
+        it('Does not set the encoding for string input', () => {
+            const document = parse5.parse('café');
+
+            assert.strictEqual(document.encoding, undefined);
+        });
+    });
+});
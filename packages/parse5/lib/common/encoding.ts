@@ -0,0 +1,545 @@
+import { CODE_POINTS as $ } from './unicode.js';
+import type { Attribute } from './token.js';
+
+//Const
+const DEFAULT_ENCODING = 'windows-1252';
+const UTF_8 = 'utf-8';
+const UTF_16BE = 'utf-16be';
+const UTF_16LE = 'utf-16le';
+const X_USER_DEFINED = 'x-user-defined';
+
+/**
+ * Number of bytes the [prescan](https://html.spec.whatwg.org/multipage/parsing.html#prescan-a-byte-stream-to-determine-its-encoding)
+ * looks at. Byte streams should be buffered up to this size before sniffing.
+ */
+export const PRESCAN_LENGTH = 1024;
+
+const META_SEQUENCE = [0x6d, 0x65, 0x74, 0x61]; // 'meta'
+const CHARSET_SEQUENCE = 'charset';
+
+/**
+ * The [confidence](https://html.spec.whatwg.org/multipage/parsing.html#concept-encoding-confidence) of the parser
+ * in the detected encoding.
+ */
+export enum ENCODING_CONFIDENCE {
+    TENTATIVE = 'tentative',
+    CERTAIN = 'certain',
+    IRRELEVANT = 'irrelevant',
+}
+
+export interface EncodingSniffingOptions {
+    /**
+     * Encoding label supplied by the transport layer, eg. the `charset` parameter of the `Content-Type` header.
+     * If it is a valid label, it takes precedence over everything but the byte order mark.
+     */
+    encoding?: string | undefined;
+
+    /**
+     * Encoding used if nothing else could be detected.
+     *
+     * @default `'windows-1252'`
+     */
+    defaultEncoding?: string | undefined;
+}
+
+export interface SniffingResult {
+    /** Canonical name of the detected encoding, as used by `TextDecoder`. */
+    encoding: string;
+    /** Confidence of the detection. */
+    confidence: ENCODING_CONFIDENCE;
+}
+
+//Utils
+function isWhitespaceByte(byte: number): boolean {
+    return (
+        byte === $.TABULATION ||
+        byte === $.LINE_FEED ||
+        byte === $.FORM_FEED ||
+        byte === $.CARRIAGE_RETURN ||
+        byte === $.SPACE
+    );
+}
+
+function isAsciiUpperByte(byte: number): boolean {
+    return byte >= $.LATIN_CAPITAL_A && byte <= $.LATIN_CAPITAL_Z;
+}
+
+function isAsciiLetterByte(byte: number): boolean {
+    return isAsciiUpperByte(byte) || (byte >= $.LATIN_SMALL_A && byte <= $.LATIN_SMALL_Z);
+}
+
+function isUTF16(encoding: string): boolean {
+    return encoding === UTF_16BE || encoding === UTF_16LE;
+}
+
+/**
+ * Resolves an encoding label to the canonical encoding name
+ * (see: https://encoding.spec.whatwg.org/#concept-encoding-get).
+ *
+ * Labels of encodings not supported by the runtime's `TextDecoder` are treated as unknown.
+ *
+ * @param label Encoding label.
+ * @returns Canonical encoding name or `null`, if the label is unknown.
+ */
+export function getEncoding(label: string): string | null {
+    const trimmed = label.trim().toLowerCase();
+
+    if (trimmed === X_USER_DEFINED) {
+        return X_USER_DEFINED;
+    }
+
+    try {
+        return new TextDecoder(trimmed).encoding;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Applies the [BOM sniffing](https://encoding.spec.whatwg.org/#bom-sniff) algorithm.
+ *
+ * @param bytes Input bytes.
+ * @returns Encoding specified by the byte order mark or `null`.
+ */
+export function sniffBOM(bytes: Uint8Array): string | null {
+    if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+        return UTF_8;
+    }
+
+    if (bytes.length >= 2) {
+        if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+            return UTF_16BE;
+        }
+
+        if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+            return UTF_16LE;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * [Extracts a character encoding from a `meta` element](https://html.spec.whatwg.org/multipage/urls-and-fetching.html#algorithm-for-extracting-a-character-encoding-from-a-meta-element)'s
+ * `content` attribute value.
+ *
+ * @param content Value of the `content` attribute.
+ * @returns Canonical encoding name or `null`.
+ */
+export function extractEncodingFromContent(content: string): string | null {
+    const lowerCased = content.toLowerCase();
+    let pos = 0;
+
+    for (;;) {
+        const charsetIdx = lowerCased.indexOf(CHARSET_SEQUENCE, pos);
+
+        if (charsetIdx < 0) {
+            return null;
+        }
+
+        pos = charsetIdx + CHARSET_SEQUENCE.length;
+
+        while (pos < content.length && isWhitespaceByte(content.charCodeAt(pos))) {
+            pos++;
+        }
+
+        if (content.charCodeAt(pos) === $.EQUALS_SIGN) {
+            break;
+        }
+    }
+
+    pos++;
+
+    while (pos < content.length && isWhitespaceByte(content.charCodeAt(pos))) {
+        pos++;
+    }
+
+    if (pos >= content.length) {
+        return null;
+    }
+
+    const cp = content.charCodeAt(pos);
+
+    if (cp === $.QUOTATION_MARK || cp === $.APOSTROPHE) {
+        const endIdx = content.indexOf(content[pos], pos + 1);
+
+        return endIdx < 0 ? null : getEncoding(content.slice(pos + 1, endIdx));
+    }
+
+    let end = pos;
+
+    while (end < content.length && !isWhitespaceByte(content.charCodeAt(end)) && content[end] !== ';') {
+        end++;
+    }
+
+    return getEncoding(content.slice(pos, end));
+}
+
+/**
+ * Determines the encoding declared by a `<meta>` element with the given attributes, as done by the tree builder
+ * when it inserts the element (see: https://html.spec.whatwg.org/multipage/parsing.html#parsing-main-inhead).
+ *
+ * @param attrs Attributes of the `<meta>` element.
+ * @returns Canonical encoding name or `null`.
+ */
+export function getMetaElementEncoding(attrs: Attribute[]): string | null {
+    let httpEquiv: string | null = null;
+    let content: string | null = null;
+
+    for (const attr of attrs) {
+        switch (attr.name) {
+            case 'charset': {
+                //NOTE: if the charset is not a known encoding, the http-equiv pragma is used instead.
+                const encoding = getEncoding(attr.value);
+
+                if (encoding !== null) {
+                    return encoding;
+                }
+
+                break;
+            }
+            case 'http-equiv': {
+                httpEquiv = attr.value;
+                break;
+            }
+            case 'content': {
+                content = attr.value;
+                break;
+            }
+            default:
+            // Do nothing
+        }
+    }
+
+    return httpEquiv !== null && content !== null && httpEquiv.toLowerCase() === 'content-type'
+        ? extractEncodingFromContent(content)
+        : null;
+}
+
+//Prescan
+interface PrescannedAttribute {
+    name: string;
+    value: string;
+}
+
+class Prescanner {
+    private pos = 0;
+    private end: number;
+
+    constructor(private bytes: Uint8Array) {
+        this.end = Math.min(bytes.length, PRESCAN_LENGTH);
+    }
+
+    private get isEnd(): boolean {
+        return this.pos >= this.end;
+    }
+
+    private get byte(): number {
+        return this.bytes[this.pos];
+    }
+
+    private _startsWith(sequence: number[], offset: number): boolean {
+        for (let i = 0; i < sequence.length; i++) {
+            const byte = this.bytes[this.pos + offset + i];
+
+            if (byte === undefined || (byte | 0x20) !== sequence[i]) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    private _skipTo(predicate: (byte: number) => boolean): void {
+        while (!this.isEnd && !predicate(this.byte)) {
+            this.pos++;
+        }
+    }
+
+    private _skipComment(): void {
+        // NOTE: the dashes of `-->` may be the same as the ones of `<!--`.
+        this.pos += 2;
+
+        while (
+            !this.isEnd &&
+            !(
+                this.byte === $.GREATER_THAN_SIGN &&
+                this.bytes[this.pos - 1] === 0x2d &&
+                this.bytes[this.pos - 2] === 0x2d
+            )
+        ) {
+            this.pos++;
+        }
+    }
+
+    private _appendLowerCased(str: string): string {
+        return str + String.fromCharCode(isAsciiUpperByte(this.byte) ? this.byte | 0x20 : this.byte);
+    }
+
+    private _getAttribute(): PrescannedAttribute | null {
+        this._skipTo((byte) => !isWhitespaceByte(byte) && byte !== $.SOLIDUS);
+
+        if (this.isEnd || this.byte === $.GREATER_THAN_SIGN) {
+            return null;
+        }
+
+        const attr = { name: '', value: '' };
+
+        for (;;) {
+            if (this.isEnd) {
+                return null;
+            }
+
+            if (this.byte === $.EQUALS_SIGN && attr.name.length > 0) {
+                this.pos++;
+                return this._getAttributeValue(attr);
+            }
+
+            if (isWhitespaceByte(this.byte)) {
+                break;
+            }
+
+            if (this.byte === $.SOLIDUS || this.byte === $.GREATER_THAN_SIGN) {
+                return attr;
+            }
+
+            attr.name = this._appendLowerCased(attr.name);
+            this.pos++;
+        }
+
+        this._skipTo((byte) => !isWhitespaceByte(byte));
+
+        if (this.isEnd || this.byte !== $.EQUALS_SIGN) {
+            return attr;
+        }
+
+        this.pos++;
+
+        return this._getAttributeValue(attr);
+    }
+
+    private _getAttributeValue(attr: PrescannedAttribute): PrescannedAttribute | null {
+        this._skipTo((byte) => !isWhitespaceByte(byte));
+
+        if (this.isEnd) {
+            return null;
+        }
+
+        if (this.byte === $.QUOTATION_MARK || this.byte === $.APOSTROPHE) {
+            const quote = this.byte;
+
+            for (this.pos++; !this.isEnd; this.pos++) {
+                if (this.byte === quote) {
+                    this.pos++;
+                    return attr;
+                }
+
+                attr.value = this._appendLowerCased(attr.value);
+            }
+
+            return null;
+        }
+
+        if (this.byte === $.GREATER_THAN_SIGN) {
+            return attr;
+        }
+
+        for (; !this.isEnd; this.pos++) {
+            if (isWhitespaceByte(this.byte) || this.byte === $.GREATER_THAN_SIGN) {
+                return attr;
+            }
+
+            attr.value = this._appendLowerCased(attr.value);
+        }
+
+        return null;
+    }
+
+    private _processMeta(): string | null {
+        // NOTE: point at the whitespace or solidus after `<meta`.
+        this.pos += 5;
+
+        const attributeNames = new Set<string>();
+        let gotPragma = false;
+        let needPragma: boolean | null = null;
+        let charset: string | null = null;
+
+        for (let attr = this._getAttribute(); attr; attr = this._getAttribute()) {
+            if (attributeNames.has(attr.name)) {
+                continue;
+            }
+
+            attributeNames.add(attr.name);
+
+            switch (attr.name) {
+                case 'http-equiv': {
+                    gotPragma ||= attr.value === 'content-type';
+                    break;
+                }
+                case 'content': {
+                    const encoding = extractEncodingFromContent(attr.value);
+
+                    if (encoding !== null && charset === null) {
+                        charset = encoding;
+                        needPragma = true;
+                    }
+                    break;
+                }
+                case 'charset': {
+                    charset = getEncoding(attr.value);
+                    needPragma = false;
+                    break;
+                }
+                default:
+                // Do nothing
+            }
+        }
+
+        if (needPragma === null || (needPragma && !gotPragma) || charset === null) {
+            return null;
+        }
+
+        if (isUTF16(charset)) {
+            return UTF_8;
+        }
+
+        return charset === X_USER_DEFINED ? DEFAULT_ENCODING : charset;
+    }
+
+    private _skipTag(): void {
+        this._skipTo((byte) => isWhitespaceByte(byte) || byte === $.GREATER_THAN_SIGN);
+
+        while (this._getAttribute() !== null) {
+            // Ignore attribute
+        }
+    }
+
+    public run(): string | null {
+        for (; !this.isEnd; this.pos++) {
+            if (this.byte !== $.LESS_THAN_SIGN) {
+                continue;
+            }
+
+            const next = this.bytes[this.pos + 1];
+
+            if (next === $.EXCLAMATION_MARK && this.bytes[this.pos + 2] === 0x2d && this.bytes[this.pos + 3] === 0x2d) {
+                this._skipComment();
+            } else if (this._startsWith(META_SEQUENCE, 1) && this._isMetaTerminator(this.bytes[this.pos + 5])) {
+                const encoding = this._processMeta();
+
+                if (encoding !== null) {
+                    return encoding;
+                }
+            } else if (isAsciiLetterByte(next) || (next === $.SOLIDUS && isAsciiLetterByte(this.bytes[this.pos + 2]))) {
+                this._skipTag();
+            } else if (next === $.EXCLAMATION_MARK || next === $.SOLIDUS || next === $.QUESTION_MARK) {
+                this._skipTo((byte) => byte === $.GREATER_THAN_SIGN);
+            }
+        }
+
+        return null;
+    }
+
+    private _isMetaTerminator(byte: number | undefined): boolean {
+        return byte !== undefined && (isWhitespaceByte(byte) || byte === $.SOLIDUS);
+    }
+}
+
+/**
+ * [Prescans a byte stream to determine its encoding](https://html.spec.whatwg.org/multipage/parsing.html#prescan-a-byte-stream-to-determine-its-encoding).
+ * Only the first {@link PRESCAN_LENGTH} bytes are examined.
+ *
+ * @param bytes Input bytes.
+ * @returns Canonical encoding name or `null`.
+ */
+export function prescanForEncoding(bytes: Uint8Array): string | null {
+    const encoding = new Prescanner(bytes).run();
+
+    if (encoding !== null) {
+        return encoding;
+    }
+
+    // NOTE: XML declaration fallback for UTF-16 documents without the BOM.
+    if (bytes.length >= 4) {
+        if (bytes[0] === 0x3c && bytes[1] === 0x00 && bytes[2] === 0x3f && bytes[3] === 0x00) {
+            return UTF_16LE;
+        }
+
+        if (bytes[0] === 0x00 && bytes[1] === 0x3c && bytes[2] === 0x00 && bytes[3] === 0x3f) {
+            return UTF_16BE;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Runs the [encoding sniffing algorithm](https://html.spec.whatwg.org/multipage/parsing.html#encoding-sniffing-algorithm).
+ * Frequency analysis and user overrides are not supported.
+ *
+ * @param bytes Input bytes. Should contain at least {@link PRESCAN_LENGTH} bytes, unless the input is shorter.
+ * @param options Sniffing options.
+ */
+export function sniffEncoding(bytes: Uint8Array, options: EncodingSniffingOptions = {}): SniffingResult {
+    const bomEncoding = sniffBOM(bytes);
+
+    if (bomEncoding !== null) {
+        return { encoding: bomEncoding, confidence: ENCODING_CONFIDENCE.CERTAIN };
+    }
+
+    const transportEncoding = options.encoding ? getEncoding(options.encoding) : null;
+
+    if (transportEncoding !== null) {
+        return {
+            encoding: transportEncoding === X_USER_DEFINED ? DEFAULT_ENCODING : transportEncoding,
+            confidence: ENCODING_CONFIDENCE.CERTAIN,
+        };
+    }
+
+    const prescannedEncoding = prescanForEncoding(bytes);
+
+    if (prescannedEncoding !== null) {
+        return { encoding: prescannedEncoding, confidence: ENCODING_CONFIDENCE.TENTATIVE };
+    }
+
+    const defaultEncoding = (options.defaultEncoding && getEncoding(options.defaultEncoding)) || DEFAULT_ENCODING;
+
+    return {
+        encoding: defaultEncoding === X_USER_DEFINED ? DEFAULT_ENCODING : defaultEncoding,
+        confidence: ENCODING_CONFIDENCE.TENTATIVE,
+    };
+}
+
+/**
+ * Implements the first steps of [changing the encoding](https://html.spec.whatwg.org/multipage/parsing.html#changing-the-encoding-while-parsing)
+ * while parsing.
+ *
+ * @param current The encoding currently in use.
+ * @param requested The encoding declared by a `<meta>` element.
+ * @returns The encoding the document has to be reparsed with, or `null` if the current encoding has to be kept.
+ *  In both cases, the confidence becomes {@link ENCODING_CONFIDENCE.CERTAIN}.
+ */
+export function getChangedEncoding(current: string, requested: string): string | null {
+    if (isUTF16(current)) {
+        return null;
+    }
+
+    let encoding = requested;
+
+    if (isUTF16(encoding)) {
+        encoding = UTF_8;
+    } else if (encoding === X_USER_DEFINED) {
+        encoding = DEFAULT_ENCODING;
+    }
+
+    return encoding === current ? null : encoding;
+}
+
+/**
+ * Creates a `TextDecoder` for the given canonical encoding name.
+ *
+ * @param encoding Canonical encoding name.
+ */
+export function createDecoder(encoding: string): TextDecoder {
+    return new TextDecoder(encoding === X_USER_DEFINED ? DEFAULT_ENCODING : encoding);
+}
@@ -18,6 +18,10 @@ export enum ATTRS {
     COLOR = 'color',
     FACE = 'face',
     SIZE = 'size',
+    SHADOWROOTMODE = 'shadowrootmode',
+    SHADOWROOTCLONABLE = 'shadowrootclonable',
+    SHADOWROOTSERIALIZABLE = 'shadowrootserializable',
+    SHADOWROOTDELEGATESFOCUS = 'shadowrootdelegatesfocus',
 }
 
 /**
@@ -555,3 +559,42 @@ export const SPECIAL_ELEMENTS: Record<NAMESPACES, Set<TAG_ID>> = {
 export function isNumberedHeader(tn: TAG_ID): boolean {
     return tn === $.H1 || tn === $.H2 || tn === $.H3 || tn === $.H4 || tn === $.H5 || tn === $.H6;
 }
+
+//NOTE: see https://dom.spec.whatwg.org/#dom-element-attachshadow
+const SHADOW_HOST_NAMES = new Set<string>([
+    TAG_NAMES.ARTICLE,
+    TAG_NAMES.ASIDE,
+    TAG_NAMES.BLOCKQUOTE,
+    TAG_NAMES.BODY,
+    TAG_NAMES.DIV,
+    TAG_NAMES.FOOTER,
+    TAG_NAMES.H1,
+    TAG_NAMES.H2,
+    TAG_NAMES.H3,
+    TAG_NAMES.H4,
+    TAG_NAMES.H5,
+    TAG_NAMES.H6,
+    TAG_NAMES.HEADER,
+    TAG_NAMES.MAIN,
+    TAG_NAMES.NAV,
+    TAG_NAMES.P,
+    TAG_NAMES.SECTION,
+    TAG_NAMES.SPAN,
+]);
+const RESERVED_CUSTOM_ELEMENT_NAMES = new Set<string>([
+    'annotation-xml',
+    'color-profile',
+    'font-face',
+    'font-face-src',
+    'font-face-uri',
+    'font-face-format',
+    'font-face-name',
+    'missing-glyph',
+]);
+
+export function isValidShadowHostName(tagName: string): boolean {
+    return (
+        SHADOW_HOST_NAMES.has(tagName) ||
+        (/^[a-z][^\t\n\f\r />A-Z]*-[^\t\n\f\r />A-Z]*$/.test(tagName) && !RESERVED_CUSTOM_ELEMENT_NAMES.has(tagName))
+    );
+}
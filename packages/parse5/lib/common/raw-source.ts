@@ -0,0 +1,159 @@
+import { TAG_NAMES as $, NAMESPACES as NS } from './html.js';
+import type { TreeAdapter, TreeAdapterTypeMap } from '../tree-adapters/interface.js';
+
+//NOTE: the text in these elements is tokenized differently, or can start with a newline ignored by the parser.
+const TEXT_CONTEXT_ELEMENTS = new Set<string>([
+    $.IFRAME,
+    $.LISTING,
+    $.NOEMBED,
+    $.NOFRAMES,
+    $.NOSCRIPT,
+    $.PLAINTEXT,
+    $.PRE,
+    $.SCRIPT,
+    $.STYLE,
+    $.TEXTAREA,
+    $.TITLE,
+    $.XMP,
+]);
+
+/**
+ * Original source of a node, recorded by the parser in the lossless mode. Used by the serializer
+ * to emit the original source of the nodes that weren't modified after parsing.
+ */
+export interface RawSource {
+    /**
+     * Raw source of the node. For elements, it's the raw start tag, which is empty if the element was implied.
+     * For documents and fragments, it's the source at the end of the input, which was ignored by the parser.
+     */
+    raw: string;
+    /** Raw end tag of the element. Empty if the end tag was omitted. */
+    rawEndTag: string;
+    /**
+     * State of the node the raw source corresponds to (see {@link getRawSourceSnapshot}). The raw source
+     * is only used if the node is still in this state.
+     */
+    snapshot: string;
+    /** Source offset of the raw source. */
+    startOffset: number;
+    /**
+     * Source offset of the end of the raw source. The raw source of a text node can consist of several parts
+     * of the source (e.g. characters foster parented out of a table), so it can be shorter than this range.
+     */
+    endOffset: number;
+    /** Source offset of the raw end tag. */
+    endTagStartOffset: number;
+    /**
+     * Indicates that the element was cloned by the adoption agency algorithm. Its tags are implied only
+     * by the source of the enclosing element (see `rawOuterHtml`), so they are emitted otherwise.
+     */
+    cloned: boolean;
+    /**
+     * Raw source of the element along with its content. Recorded if the parser inserted the descendants of the element
+     * out of the source order (e.g. by foster parenting or the adoption agency algorithm), as emitting the raw source
+     * of each node in the tree order would change the source.
+     */
+    rawOuterHtml?: string;
+    /**
+     * State of the content of the element `rawOuterHtml` corresponds to (see {@link getRawContentSnapshot}).
+     * `rawOuterHtml` is only used if the content is still in this state.
+     */
+    contentSnapshot?: string;
+}
+
+/**
+ * Returns the string that represents the state of the node, which is reflected in its raw source:
+ * the tag name and attributes of elements, the content of text, comment and interpolation nodes, and the document type
+ * properties.
+ * For text nodes, the namespace of the parent element and the elements which change the meaning of the raw text
+ * (e.g. `<script>` or `<pre>`) are taken into account. Text can be moved between other elements.
+ */
+export function getRawSourceSnapshot<T extends TreeAdapterTypeMap>(
+    treeAdapter: TreeAdapter<T>,
+    node: T['node']
+): string {
+    if (treeAdapter.isElementNode(node)) {
+        return JSON.stringify([
+            treeAdapter.getNamespaceURI(node),
+            treeAdapter.getTagName(node),
+            treeAdapter.getAttrList(node).map(({ namespace, prefix, name, value }) => [namespace, prefix, name, value]),
+        ]);
+    }
+
+    if (treeAdapter.isTextNode(node)) {
+        const parent = treeAdapter.getParentNode(node);
+        //NOTE: the content of fragments is parsed as the content of an HTML element.
+        const ns = parent && treeAdapter.isElementNode(parent) ? treeAdapter.getNamespaceURI(parent) : NS.HTML;
+        const tn = parent && treeAdapter.isElementNode(parent) ? treeAdapter.getTagName(parent) : null;
+
+        return JSON.stringify([
+            ns,
+            ns === NS.HTML && tn !== null && TEXT_CONTEXT_ELEMENTS.has(tn) ? tn : null,
+            treeAdapter.getTextNodeContent(node),
+        ]);
+    }
+
+    if (treeAdapter.isCommentNode(node)) {
+        return JSON.stringify([treeAdapter.getCommentNodeContent(node)]);
+    }
+
+    if (treeAdapter.isInterpolationNode?.(node)) {
+        return JSON.stringify([treeAdapter.getInterpolationNodeContent?.(node)]);
+    }
+
+    if (treeAdapter.isDocumentTypeNode(node)) {
+        return JSON.stringify([
+            treeAdapter.getDocumentTypeNodeName(node),
+            treeAdapter.getDocumentTypeNodePublicId(node),
+            treeAdapter.getDocumentTypeNodeSystemId(node),
+        ]);
+    }
+
+    return '';
+}
+
+/**
+ * Returns the string that represents the structure of the content of the element or fragment: the source offsets
+ * of the descendants along with their children. Returns `null` if a descendant was modified after parsing
+ * or has a shadow root, whose source can't be reproduced by the raw source.
+ */
+export function getRawContentSnapshot<T extends TreeAdapterTypeMap>(
+    treeAdapter: TreeAdapter<T>,
+    node: T['parentNode']
+): string | null {
+    if (treeAdapter.isElementNode(node) && treeAdapter.getShadowRoot?.(node)) {
+        return null;
+    }
+
+    const childNodesHolder =
+        treeAdapter.isElementNode(node) &&
+        treeAdapter.getTagName(node) === $.TEMPLATE &&
+        treeAdapter.getNamespaceURI(node) === NS.HTML
+            ? treeAdapter.getTemplateContent(node)
+            : node;
+    let snapshot = '';
+
+    for (const child of treeAdapter.getChildNodes(childNodesHolder)) {
+        const rawSource = treeAdapter.getNodeRawSource?.(child);
+
+        if (!rawSource || rawSource.snapshot !== getRawSourceSnapshot(treeAdapter, child)) {
+            return null;
+        }
+
+        snapshot += `${rawSource.startOffset}`;
+
+        if (treeAdapter.isElementNode(child)) {
+            const contentSnapshot = getRawContentSnapshot(treeAdapter, child);
+
+            if (contentSnapshot === null) {
+                return null;
+            }
+
+            snapshot += `(${contentSnapshot})`;
+        }
+
+        snapshot += ' ';
+    }
+
+    return snapshot;
+}
@@ -9,7 +9,7 @@ export enum TokenType {
     COMMENT,
     DOCTYPE,
     EOF,
-    HIBERNATION,
+    INTERPOLATION,
 }
 
 export interface Location {
@@ -27,9 +27,46 @@ export interface Location {
     endOffset: number;
 }
 
+/**
+ * Location of an attribute. The locations of its parts are available if the `attributeLocationInfo` option
+ * is enabled.
+ */
+export interface AttributeLocation extends Location {
+    /** Location of the attribute name. */
+    name?: Location;
+    /** Location of the `=` sign. `null` if the attribute has no value. */
+    equalsSign?: Location | null;
+    /** Location of the attribute value, without quotes. `null` if the value is missing. */
+    value?: Location | null;
+    /** Location of the attribute value, including quotes. `null` if the value is missing. */
+    quotedValue?: Location | null;
+    /** Quote character of the value. `null` if the value is unquoted or missing. */
+    quote?: '"' | "'" | null;
+}
+
 export interface LocationWithAttributes extends Location {
     /** Start tag attributes' location info. */
-    attrs?: Record<string, Location>;
+    attrs?: Record<string, AttributeLocation>;
+}
+
+export interface TextLocation extends Location {
+    /**
+     * Locations of the source parts the text node was created from. A text node can be made of characters
+     * which are not adjacent in the source, e.g. if they are separated by ignored tags or moved out of a table.
+     * Available if the `nodeOriginInfo` parser option is enabled.
+     */
+    segments?: Location[];
+}
+
+export interface NodeOrigin {
+    /**
+     * How the node was created: `explicit` nodes correspond to the source, `implied` elements were created by
+     * the parser without a start tag (e.g. `<tbody>` in a table without it), and `cloned` elements are copies of
+     * formatting elements created by the parser (e.g. by the adoption agency algorithm).
+     */
+    type: 'explicit' | 'implied' | 'cloned';
+    /** Location of the token which caused the creation of the node. */
+    location: Location | null;
 }
 
 export interface ElementLocation extends LocationWithAttributes {
@@ -45,6 +82,8 @@ export interface ElementLocation extends LocationWithAttributes {
 interface TokenBase {
     readonly type: TokenType;
     location: Location | null;
+    /** Raw source of the token. Available in the lossless mode. */
+    raw?: string;
 }
 
 export interface DoctypeToken extends TokenBase {
@@ -64,6 +103,16 @@ export interface Attribute {
     prefix?: string;
     /** The value of the attribute. */
     value: string;
+    /**
+     * Set for interpolations in the place of attributes, e.g. `{{ attrs }}` in `<div {{ attrs }}>`. The name of such
+     * an attribute is the source of the interpolation, and the value is empty.
+     */
+    interpolation?: boolean;
+    /**
+     * Start and end indices of the interpolations in the value, e.g. `{{ u }}` in `<a href="/{{ u }}">`.
+     * The serializer emits these parts of the value verbatim, so they have to be updated if the value is modified.
+     */
+    valueInterpolations?: [start: number, end: number][];
 }
 
 export interface TagToken extends TokenBase {
@@ -96,13 +145,17 @@ export interface EOFToken extends TokenBase {
     readonly type: TokenType.EOF;
 }
 
-interface HibernationToken extends TokenBase {
-    readonly type: TokenType.HIBERNATION;
-}
-
 export interface CharacterToken extends TokenBase {
     type: TokenType.CHARACTER | TokenType.NULL_CHARACTER | TokenType.WHITESPACE_CHARACTER;
     chars: string;
+    /** Set if the characters are the source of an interpolation, which the parser inserts as an interpolation node. */
+    interpolation?: boolean;
+}
+
+export interface InterpolationToken extends TokenBase {
+    readonly type: TokenType.INTERPOLATION;
+    /** Source of the interpolation, including the delimiters. */
+    data: string;
 }
 
-export type Token = DoctypeToken | TagToken | CommentToken | EOFToken | HibernationToken | CharacterToken;
+export type Token = DoctypeToken | TagToken | CommentToken | EOFToken | CharacterToken | InterpolationToken;
@@ -0,0 +1,143 @@
+import * as assert from 'node:assert';
+import * as parse5 from 'parse5';
+import type { ParserError } from 'parse5';
+
+const HTML = '<!DOCTYPE html>\n<div>\n\t<p id=a id=b>x&ampy</p>\n</div>\n<!-- a <!-- b -->';
+
+function getErrors(html: string): ParserError[] {
+    const errors: ParserError[] = [];
+
+    parse5.parse(html, { onParseError: (error) => errors.push(error) });
+
+    return errors;
+}
+
+describe('diagnostics', () => {
+    it('Provides the severity, the message and the specification URL of each error code', () => {
+        assert.deepStrictEqual(parse5.getErrorCodeInfo(parse5.ErrorCodes.eofInTag), {
+            severity: 'error',
+            message: 'Unexpected end of file in a tag. The tag is ignored.',
+            specUrl: 'https://html.spec.whatwg.org/multipage/parsing.html#parse-error-eof-in-tag',
+        });
+        assert.deepStrictEqual(parse5.getErrorCodeInfo(parse5.ErrorCodes.missingDoctype), {
+            severity: 'error',
+            message: 'Missing DOCTYPE. The document is rendered in quirks mode.',
+            specUrl: 'https://html.spec.whatwg.org/multipage/parsing.html#the-initial-insertion-mode',
+        });
+        assert.strictEqual(
+            parse5.getErrorCodeInfo(parse5.ErrorCodes.missingSemicolonAfterCharacterReference).severity,
+            'warning'
+        );
+
+        for (const code of Object.values(parse5.ErrorCodes)) {
+            assert.ok(parse5.getErrorCodeInfo(code).message, code);
+        }
+    });
+
+    it('Sorts diagnostics by their position', () => {
+        const diagnostics = parse5.getDiagnostics(getErrors('<p id=a id=b>'));
+
+        assert.deepStrictEqual(
+            diagnostics.map(({ code, startOffset }) => [code, startOffset]),
+            [
+                ['missing-doctype', 0],
+                ['duplicate-attribute', 10],
+            ]
+        );
+    });
+
+    it('Renders code frames', () => {
+        const output = parse5.formatDiagnostics(getErrors(HTML), HTML, { fileName: 'index.html', contextLines: 1 });
+
+        assert.strictEqual(
+            output,
+            [
+                'error: Duplicate attribute. It is ignored. (duplicate-attribute)',
+                '  at index.html:3:12',
+                '  see https://html.spec.whatwg.org/multipage/parsing.html#parse-error-duplicate-attribute',
+                '',
+                '  2 | <div>',
+                '> 3 | \t<p id=a id=b>x&ampy</p>',
+                '    | \t          ^',
+                '  4 | </div>',
+                '',
+                'warning: Missing `;` after a character reference. (missing-semicolon-after-character-reference)',
+                '  at index.html:3:20',
+                '  see https://html.spec.whatwg.org/multipage/parsing.html#parse-error-missing-semicolon-after-character-reference',
+                '',
+                '  2 | <div>',
+                '> 3 | \t<p id=a id=b>x&ampy</p>',
+                '    | \t                  ^',
+                '  4 | </div>',
+                '',
+                'error: Nested comment. Comments can not be nested. (nested-comment)',
+                '  at index.html:5:12',
+                '  see https://html.spec.whatwg.org/multipage/parsing.html#parse-error-nested-comment',
+                '',
+                '  4 | </div>',
+                '> 5 | <!-- a <!-- b -->',
+                '    |            ^',
+                '',
+            ].join('\n')
+        );
+    });
+
+    it('Renders carets under the whole location', () => {
+        const location = { startLine: 2, startCol: 3, startOffset: 4, endLine: 2, endCol: 6, endOffset: 7 };
+
+        assert.strictEqual(
+            parse5.renderCodeFrame('a\r\nb <p>\r\nc', location, 0),
+            ['> 2 | b <p>', '    |   ^^^', ''].join('\n')
+        );
+    });
+
+    it('Renders compact and JSON output', () => {
+        const errors = getErrors(HTML);
+
+        assert.strictEqual(
+            parse5.formatDiagnostics(errors, HTML, { format: 'compact' }),
+            '<input>:3:12: error: Duplicate attribute. It is ignored. [duplicate-attribute]\n' +
+                '<input>:3:20: warning: Missing `;` after a character reference. [missing-semicolon-after-character-reference]\n' +
+                '<input>:5:12: error: Nested comment. Comments can not be nested. [nested-comment]\n'
+        );
+        assert.deepStrictEqual(
+            JSON.parse(parse5.formatDiagnostics(errors, HTML, { format: 'json' })),
+            parse5.getDiagnostics(errors)
+        );
+    });
+
+    it('Renders SARIF log', () => {
+        const html = '<p id=a id=b><b id=c id=d>';
+        const log = JSON.parse(
+            parse5.formatDiagnostics(getErrors(html), html, { format: 'sarif', fileName: 'a.html' })
+        );
+        const [run] = log.runs;
+
+        assert.strictEqual(log.version, '2.1.0');
+        assert.deepStrictEqual(
+            run.tool.driver.rules.map(({ id }: { id: string }) => id),
+            ['missing-doctype', 'duplicate-attribute']
+        );
+        assert.deepStrictEqual(run.results[2], {
+            ruleId: 'duplicate-attribute',
+            ruleIndex: 1,
+            level: 'error',
+            message: { text: 'Duplicate attribute. It is ignored.' },
+            locations: [
+                {
+                    physicalLocation: {
+                        artifactLocation: { uri: 'a.html' },
+                        region: {
+                            startLine: 1,
+                            startColumn: 24,
+                            endLine: 1,
+                            endColumn: 24,
+                            charOffset: 23,
+                            charLength: 0,
+                        },
+                    },
+                },
+            ],
+        });
+    });
+});
@@ -0,0 +1,343 @@
+import { ERR, ParserError } from '../common/error-codes.js';
+import type { Location } from '../common/token.js';
+
+const SPEC_URL = 'https://html.spec.whatwg.org/multipage/parsing.html';
+const LINE_BREAK_REGEX = /\r\n?|\n/;
+
+/**
+ * Severity of a parse error. All parse errors make the document non-conforming, but `warning`s are the ones
+ * which are handled by the parser without losing or moving content (e.g. a missing semicolon after a character
+ * reference), while `error`s can change the meaning of the markup.
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface ErrorCodeInfo {
+    /** Severity of the error. */
+    severity: DiagnosticSeverity;
+    /** Short description of the error. */
+    message: string;
+    /** URL of the specification section which describes the error. */
+    specUrl: string;
+}
+
+export interface Diagnostic extends ParserError, ErrorCodeInfo {}
+
+export type DiagnosticsFormat = 'codeframe' | 'compact' | 'json' | 'sarif';
+
+export interface DiagnosticsFormatterOptions {
+    /**
+     * Output format:
+     * - `codeframe` renders each error along with the source lines around it.
+     * - `compact` renders each error on a single line.
+     * - `json` renders an array of {@link Diagnostic}s.
+     * - `sarif` renders a [SARIF 2.1.0](https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html) log.
+     *
+     * @default `'codeframe'`
+     */
+    format?: DiagnosticsFormat;
+
+    /**
+     * Name of the parsed file.
+     *
+     * @default `'<input>'`
+     */
+    fileName?: string;
+
+    /**
+     * Number of source lines rendered above and below the line of the error in the `codeframe` format.
+     *
+     * @default `2`
+     */
+    contextLines?: number;
+}
+
+const ERROR_MESSAGES: Record<ERR, string> = {
+    [ERR.controlCharacterInInputStream]: 'Control character in the input stream.',
+    [ERR.noncharacterInInputStream]: 'Noncharacter code point in the input stream.',
+    [ERR.surrogateInInputStream]: 'Surrogate code point in the input stream.',
+    [ERR.nonVoidHtmlElementStartTagWithTrailingSolidus]:
+        'Self-closing syntax is used for a non-void HTML element. The `/` is ignored and the element is left open.',
+    [ERR.endTagWithAttributes]: 'End tag has attributes. They are ignored.',
+    [ERR.endTagWithTrailingSolidus]: 'End tag has a trailing `/`. It is ignored.',
+    [ERR.unexpectedSolidusInTag]: 'Unexpected `/` in a tag. It is treated as whitespace.',
+    [ERR.unexpectedNullCharacter]: 'Unexpected U+0000 NULL character. It is ignored or replaced with U+FFFD.',
+    [ERR.unexpectedQuestionMarkInsteadOfTagName]: 'Unexpected `?` instead of a tag name. It starts a bogus comment.',
+    [ERR.invalidFirstCharacterOfTagName]: 'Invalid first character of a tag name. The `<` is treated as text.',
+    [ERR.unexpectedEqualsSignBeforeAttributeName]: 'Unexpected `=` before an attribute name.',
+    [ERR.missingEndTagName]: 'End tag has no name. The `</>` is ignored.',
+    [ERR.unexpectedCharacterInAttributeName]: 'Unexpected `"`, `\'` or `<` in an attribute name.',
+    [ERR.unknownNamedCharacterReference]: 'Unknown named character reference.',
+    [ERR.missingSemicolonAfterCharacterReference]: 'Missing `;` after a character reference.',
+    [ERR.unexpectedCharacterAfterDoctypeSystemIdentifier]:
+        'Unexpected character after the DOCTYPE system identifier. It is ignored.',
+    [ERR.unexpectedCharacterInUnquotedAttributeValue]:
+        'Unexpected `"`, `\'`, `<`, `=` or `` ` `` in an unquoted attribute value.',
+    [ERR.eofBeforeTagName]: 'Unexpected end of file instead of a tag name. The `<` is treated as text.',
+    [ERR.eofInTag]: 'Unexpected end of file in a tag. The tag is ignored.',
+    [ERR.missingAttributeValue]: 'Attribute value is missing after `=`.',
+    [ERR.missingWhitespaceBetweenAttributes]: 'Missing whitespace between attributes.',
+    [ERR.missingWhitespaceAfterDoctypePublicKeyword]: 'Missing whitespace after the DOCTYPE `PUBLIC` keyword.',
+    [ERR.missingWhitespaceBetweenDoctypePublicAndSystemIdentifiers]:
+        'Missing whitespace between the DOCTYPE public and system identifiers.',
+    [ERR.missingWhitespaceAfterDoctypeSystemKeyword]: 'Missing whitespace after the DOCTYPE `SYSTEM` keyword.',
+    [ERR.missingQuoteBeforeDoctypePublicIdentifier]:
+        'DOCTYPE public identifier is not quoted. The document is rendered in quirks mode.',
+    [ERR.missingQuoteBeforeDoctypeSystemIdentifier]:
+        'DOCTYPE system identifier is not quoted. The document is rendered in quirks mode.',
+    [ERR.missingDoctypePublicIdentifier]:
+        'DOCTYPE public identifier is missing. The document is rendered in quirks mode.',
+    [ERR.missingDoctypeSystemIdentifier]:
+        'DOCTYPE system identifier is missing. The document is rendered in quirks mode.',
+    [ERR.abruptDoctypePublicIdentifier]:
+        'DOCTYPE public identifier is closed by `>`. The document is rendered in quirks mode.',
+    [ERR.abruptDoctypeSystemIdentifier]:
+        'DOCTYPE system identifier is closed by `>`. The document is rendered in quirks mode.',
+    [ERR.cdataInHtmlContent]: 'CDATA section outside of foreign content. It is treated as a bogus comment.',
+    [ERR.incorrectlyOpenedComment]: 'Incorrectly opened comment. It is treated as a bogus comment.',
+    [ERR.eofInScriptHtmlCommentLikeText]: 'Unexpected end of file in HTML comment-like text in a script.',
+    [ERR.eofInDoctype]: 'Unexpected end of file in a DOCTYPE.',
+    [ERR.nestedComment]: 'Nested comment. Comments can not be nested.',
+    [ERR.abruptClosingOfEmptyComment]: 'Empty comment is closed by `<!-->` or `<!--->`.',
+    [ERR.eofInComment]: 'Unexpected end of file in a comment.',
+    [ERR.incorrectlyClosedComment]: 'Comment is closed by `--!>` instead of `-->`.',
+    [ERR.eofInCdata]: 'Unexpected end of file in a CDATA section.',
+    [ERR.absenceOfDigitsInNumericCharacterReference]:
+        'Numeric character reference has no digits. It is treated as text.',
+    [ERR.nullCharacterReference]: 'Numeric character reference refers to U+0000 NULL.',
+    [ERR.surrogateCharacterReference]: 'Numeric character reference refers to a surrogate.',
+    [ERR.characterReferenceOutsideUnicodeRange]: 'Numeric character reference is outside of the Unicode range.',
+    [ERR.controlCharacterReference]: 'Numeric character reference refers to a control character.',
+    [ERR.noncharacterCharacterReference]: 'Numeric character reference refers to a noncharacter.',
+    [ERR.missingWhitespaceBeforeDoctypeName]: 'Missing whitespace before the DOCTYPE name.',
+    [ERR.missingDoctypeName]: 'DOCTYPE name is missing. The document is rendered in quirks mode.',
+    [ERR.invalidCharacterSequenceAfterDoctypeName]:
+        'Invalid character sequence after the DOCTYPE name. The document is rendered in quirks mode.',
+    [ERR.duplicateAttribute]: 'Duplicate attribute. It is ignored.',
+    [ERR.nonConformingDoctype]: 'Non-conforming DOCTYPE. Use `<!DOCTYPE html>`.',
+    [ERR.missingDoctype]: 'Missing DOCTYPE. The document is rendered in quirks mode.',
+    [ERR.misplacedDoctype]: 'DOCTYPE is not at the start of the document. It is ignored.',
+    [ERR.endTagWithoutMatchingOpenElement]: 'End tag has no matching open element. It is ignored.',
+    [ERR.closingOfElementWithOpenChildElements]: 'Element is closed while some of its child elements are still open.',
+    [ERR.disallowedContentInNoscriptInHead]: 'Disallowed content in a `<noscript>` element in the `<head>`.',
+    [ERR.openElementsLeftAfterEof]: 'Some elements are still open at the end of the file.',
+    [ERR.abandonedHeadElementChild]: 'Element which belongs in the `<head>` is placed after it.',
+    [ERR.misplacedStartTagForHeadElement]: 'Misplaced `<head>` start tag. It is ignored.',
+    [ERR.nestedNoscriptInHead]: 'Nested `<noscript>` element in the `<head>`. It is ignored.',
+    [ERR.eofInElementThatCanContainOnlyText]:
+        'Unexpected end of file in an element which can contain only text (e.g. `<script>` or `<title>`).',
+};
+
+const WARNINGS = new Set<ERR>([
+    ERR.controlCharacterInInputStream,
+    ERR.noncharacterInInputStream,
+    ERR.nonVoidHtmlElementStartTagWithTrailingSolidus,
+    ERR.endTagWithTrailingSolidus,
+    ERR.unexpectedSolidusInTag,
+    ERR.unknownNamedCharacterReference,
+    ERR.missingSemicolonAfterCharacterReference,
+    ERR.missingWhitespaceBetweenAttributes,
+    ERR.missingWhitespaceAfterDoctypePublicKeyword,
+    ERR.missingWhitespaceBetweenDoctypePublicAndSystemIdentifiers,
+    ERR.missingWhitespaceAfterDoctypeSystemKeyword,
+    ERR.missingWhitespaceBeforeDoctypeName,
+    ERR.controlCharacterReference,
+    ERR.noncharacterCharacterReference,
+    ERR.nonConformingDoctype,
+    ERR.misplacedDoctype,
+    ERR.endTagWithoutMatchingOpenElement,
+    ERR.closingOfElementWithOpenChildElements,
+    ERR.openElementsLeftAfterEof,
+    ERR.abandonedHeadElementChild,
+    ERR.misplacedStartTagForHeadElement,
+]);
+
+//NOTE: the tokenizer errors are listed in the spec. Tree construction errors are specific to parse5,
+//so we link to the insertion modes which produce them.
+const TREE_CONSTRUCTION_ERROR_SECTIONS = new Map<ERR, string>([
+    [ERR.nonConformingDoctype, 'the-initial-insertion-mode'],
+    [ERR.missingDoctype, 'the-initial-insertion-mode'],
+    [ERR.misplacedDoctype, 'parsing-main-inbody'],
+    [ERR.endTagWithoutMatchingOpenElement, 'parsing-main-inbody'],
+    [ERR.closingOfElementWithOpenChildElements, 'parsing-main-inbody'],
+    [ERR.disallowedContentInNoscriptInHead, 'parsing-main-inheadnoscript'],
+    [ERR.openElementsLeftAfterEof, 'parsing-main-inbody'],
+    [ERR.abandonedHeadElementChild, 'parsing-main-afterhead'],
+    [ERR.misplacedStartTagForHeadElement, 'parsing-main-afterhead'],
+    [ERR.nestedNoscriptInHead, 'parsing-main-inheadnoscript'],
+    [ERR.eofInElementThatCanContainOnlyText, 'parsing-main-incdata'],
+]);
+
+/**
+ * Returns the severity, the message and the specification URL of the parse error code.
+ */
+export function getErrorCodeInfo(code: ERR): ErrorCodeInfo {
+    return {
+        severity: WARNINGS.has(code) ? 'warning' : 'error',
+        message: ERROR_MESSAGES[code],
+        specUrl: `${SPEC_URL}#${TREE_CONSTRUCTION_ERROR_SECTIONS.get(code) ?? `parse-error-${code}`}`,
+    };
+}
+
+/**
+ * Adds the severity, the message and the specification URL to the parse errors. The diagnostics are sorted
+ * by their position in the source, as the tokenizer reports errors before the tree construction stage does.
+ */
+export function getDiagnostics(errors: ParserError[]): Diagnostic[] {
+    return errors
+        .map((error) => ({ ...error, ...getErrorCodeInfo(error.code) }))
+        .sort((a, b) => a.startOffset - b.startOffset);
+}
+
+/**
+ * Renders the source lines around the location, with carets under the location.
+ *
+ * @example
+ *
+ * ```
+ *   1 | <!DOCTYPE html>
+ * > 2 | <p id=a id=b>
+ *     |         ^^^^
+ *   3 | </p>
+ * ```
+ */
+export function renderCodeFrame(source: string, location: Location, contextLines = 2): string {
+    const lines = source.split(LINE_BREAK_REGEX);
+    const firstLine = Math.max(location.startLine - contextLines, 1);
+    const lastLine = Math.min(location.startLine + contextLines, lines.length);
+    const gutterWidth = String(lastLine).length;
+    const caretCount = location.endLine === location.startLine ? Math.max(location.endCol - location.startCol, 1) : 1;
+    let frame = '';
+
+    for (let line = firstLine; line <= lastLine; line++) {
+        const marker = line === location.startLine ? '>' : ' ';
+        const content = lines[line - 1];
+
+        frame += `${marker} ${String(line).padStart(gutterWidth)} |${content ? ` ${content}` : ''}\n`;
+
+        if (line === location.startLine) {
+            //NOTE: tabs are kept, so that the carets are aligned with the source in any tab width.
+            const padding = content.slice(0, location.startCol - 1).replace(/[^\t]/g, ' ');
+
+            frame += `  ${' '.repeat(gutterWidth)} | ${padding}${'^'.repeat(caretCount)}\n`;
+        }
+    }
+
+    return frame;
+}
+
+function formatCodeFrames(diagnostics: Diagnostic[], source: string, fileName: string, contextLines: number): string {
+    return diagnostics
+        .map((diagnostic) => {
+            const { severity, message, code, startLine, startCol, specUrl } = diagnostic;
+            const header = `${severity}: ${message} (${code})\n  at ${fileName}:${startLine}:${startCol}\n`;
+
+            return `${header}  see ${specUrl}\n\n${renderCodeFrame(source, diagnostic, contextLines)}`;
+        })
+        .join('\n');
+}
+
+function formatCompact(diagnostics: Diagnostic[], fileName: string): string {
+    return diagnostics
+        .map(
+            ({ startLine, startCol, severity, message, code }) =>
+                `${fileName}:${startLine}:${startCol}: ${severity}: ${message} [${code}]\n`
+        )
+        .join('');
+}
+
+function formatSarif(diagnostics: Diagnostic[], fileName: string): string {
+    const ruleIndices = new Map<ERR, number>();
+    const rules = [];
+
+    for (const { code, severity, message, specUrl } of diagnostics) {
+        if (!ruleIndices.has(code)) {
+            ruleIndices.set(code, rules.length);
+            rules.push({
+                id: code,
+                shortDescription: { text: message },
+                helpUri: specUrl,
+                defaultConfiguration: { level: severity },
+            });
+        }
+    }
+
+    const results = diagnostics.map((diagnostic) => ({
+        ruleId: diagnostic.code,
+        ruleIndex: ruleIndices.get(diagnostic.code),
+        level: diagnostic.severity,
+        message: { text: diagnostic.message },
+        locations: [
+            {
+                physicalLocation: {
+                    artifactLocation: { uri: fileName },
+                    region: {
+                        startLine: diagnostic.startLine,
+                        startColumn: diagnostic.startCol,
+                        endLine: diagnostic.endLine,
+                        endColumn: diagnostic.endCol,
+                        charOffset: diagnostic.startOffset,
+                        charLength: diagnostic.endOffset - diagnostic.startOffset,
+                    },
+                },
+            },
+        ],
+    }));
+
+    const log = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [
+            {
+                tool: { driver: { name: 'parse5', informationUri: 'https://github.com/inikulin/parse5', rules } },
+                results,
+            },
+        ],
+    };
+
+    return JSON.stringify(log, null, 2);
+}
+
+/**
+ * Formats the parse errors reported by the parser's `onParseError` callback for humans or tools.
+ *
+ * @example
+ *
+ * ```js
+ * const parse5 = require('parse5');
+ *
+ * const html = '<p id=a id=b>';
+ * const errors = [];
+ *
+ * parse5.parse(html, { onParseError: (error) => errors.push(error) });
+ *
+ * console.log(parse5.formatDiagnostics(errors, html, { fileName: 'index.html', format: 'compact' }));
+ * //> index.html:1:1: error: Missing DOCTYPE. The document is rendered in quirks mode. [missing-doctype]
+ * //> index.html:1:11: error: Duplicate attribute. It is ignored. [duplicate-attribute]
+ * ```
+ *
+ * @param errors Parse errors.
+ * @param source Source text of the parsed document.
+ * @param options Formatting options.
+ */
+export function formatDiagnostics(
+    errors: ParserError[],
+    source: string,
+    { format = 'codeframe', fileName = '<input>', contextLines = 2 }: DiagnosticsFormatterOptions = {}
+): string {
+    const diagnostics = getDiagnostics(errors);
+
+    switch (format) {
+        case 'codeframe': {
+            return formatCodeFrames(diagnostics, source, fileName, contextLines);
+        }
+        case 'compact': {
+            return formatCompact(diagnostics, fileName);
+        }
+        case 'json': {
+            return JSON.stringify(diagnostics, null, 2);
+        }
+        case 'sarif': {
+            return formatSarif(diagnostics, fileName);
+        }
+    }
+}
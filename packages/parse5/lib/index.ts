@@ -1,17 +1,95 @@
-import { Parser, ParserOptions } from './parser/index.js';
-import { Serializer, SerializerOptions } from './serializer/index.js';
+import { Parser, ParserOptions, FragmentContext } from './parser/index.js';
+import { Serializer, SerializerOptions, SourceMap } from './serializer/index.js';
+import type { TextEdit, ReparseResult } from './parser/incremental.js';
 import type { DefaultTreeAdapterMap } from './tree-adapters/default.js';
 import type { TreeAdapterTypeMap } from './tree-adapters/interface.js';
 
-export { ParserOptions } from './parser/index.js';
-export { SerializerOptions } from './serializer/index.js';
+export { ParserOptions, InsertionMode, FragmentContext, FragmentContextDescriptor } from './parser/index.js';
+export {
+    TraceEventType,
+    TraceEvent,
+    TokenTraceEvent,
+    InsertionModeTraceEvent,
+    OpenElementTraceEvent,
+    FormattingEntryTraceEvent,
+    AdoptionAgencyTraceEvent,
+    FosterParentingTraceEvent,
+    ParserTraceHandler,
+} from './parser/trace.js';
+export { TextEdit, ChangedRange, ReparseResult } from './parser/incremental.js';
+export {
+    SerializerOptions,
+    FormattingOptions,
+    MinifyOptions,
+    XmlSerializationError,
+    SourceMap,
+    SourceMapOptions,
+    SourceMapGenerator,
+} from './serializer/index.js';
+export {
+    Tokenizer,
+    TokenizerMode,
+    TokenizerOptions,
+    TokenHandler,
+    CharacterReference,
+    CharacterReferenceHandler,
+    InterpolationDelimiters,
+    tokenize,
+} from './tokenizer/index.js';
+export { createDecodeTree } from './tokenizer/decode-tree.js';
+export {
+    TokenType,
+    Location,
+    LocationWithAttributes,
+    AttributeLocation,
+    Attribute,
+    TagToken,
+    CharacterToken,
+    CommentToken,
+    DoctypeToken,
+    EOFToken,
+    InterpolationToken,
+    Token,
+} from './common/token.js';
+export { NAMESPACES } from './common/html.js';
+export { ENCODING_CONFIDENCE } from './common/encoding.js';
+export { ERR as ErrorCodes, ParserError, ParserErrorHandler } from './common/error-codes.js';
+export {
+    DiagnosticSeverity,
+    Diagnostic,
+    DiagnosticsFormat,
+    DiagnosticsFormatterOptions,
+    ErrorCodeInfo,
+    getErrorCodeInfo,
+    getDiagnostics,
+    renderCodeFrame,
+    formatDiagnostics,
+} from './diagnostics/index.js';
+export { RawSource, getRawSourceSnapshot, getRawContentSnapshot } from './common/raw-source.js';
+export {
+    SelectorOptions,
+    SelectorSyntaxError,
+    querySelector,
+    querySelectorAll,
+    matches,
+    closest,
+    compileSelector,
+} from './selector/index.js';
+export { SanitizerOptions, sanitize } from './sanitizer/index.js';
+export {
+    CONFORMANCE_ERR as ConformanceErrorCodes,
+    ConformanceError,
+    ConformanceCheckerOptions,
+    checkConformance,
+} from './checker/index.js';
 
 // Shorthands
 
 /**
- * Parses an HTML string.
+ * Parses an HTML string or a byte stream. If bytes are given, the encoding is determined using the
+ * [encoding sniffing algorithm](https://html.spec.whatwg.org/multipage/parsing.html#encoding-sniffing-algorithm).
  *
- * @param html Input HTML string.
+ * @param html Input HTML string or bytes.
  * @param options Parsing options.
  * @returns Document
  *
@@ -23,15 +101,20 @@ export { SerializerOptions } from './serializer/index.js';
  * const document = parse5.parse('<!DOCTYPE html><html><head></head><body>Hi there!</body></html>');
  *
  * console.log(document.childNodes[1].tagName); //> 'html'
+ *
+ * const bytes = fs.readFileSync('index.html');
+ * const decodedDocument = parse5.parse(bytes);
+ *
+ * console.log(decodedDocument.encoding); //> 'windows-1252'
  *```
  */
 export function parse<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
-    html: string,
+    html: string | Uint8Array,
     options?: ParserOptions<T>
 ): T['document'] {
     const parser = new Parser(options);
 
-    return parser.parse(html);
+    return typeof html === 'string' ? parser.parse(html) : parser.parseBytes(html);
 }
 
 /**
@@ -50,36 +133,80 @@ export function parse<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
  * const trFragment = parser.parseFragment(documentFragment.childNodes[0], '<tr><td>Shake it, baby</td></tr>');
  *
  * console.log(trFragment.childNodes[0].childNodes[0].tagName); //> 'td'
+ *
+ * // Parses the html fragment in the context of an <svg> element, without creating it.
+ * const svgFragment = parse5.parseFragment({ tagName: 'svg', namespace: parse5.NAMESPACES.SVG }, '<path/>');
+ *
+ * console.log(svgFragment.childNodes[0].namespaceURI); //> 'http://www.w3.org/2000/svg'
  * ```
  *
- * @param fragmentContext Parsing context element. If specified, given fragment will be parsed as if it was set to the context element's `innerHTML` property.
+ * @param fragmentContext Parsing context element, the tag name of an HTML context element or a description of the
+ * context element. If specified, given fragment will be parsed as if it was set to the context element's `innerHTML` property.
  * @param html Input HTML fragment string.
  * @param options Parsing options.
  * @returns DocumentFragment
  */
 export function parseFragment<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
-    fragmentContext: T['parentNode'] | null,
+    fragmentContext: FragmentContext<T> | null,
     html: string,
-    options: ParserOptions<T>
+    options?: ParserOptions<T>
 ): T['documentFragment'];
 export function parseFragment<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
     html: string,
     options?: ParserOptions<T>
 ): T['documentFragment'];
 export function parseFragment<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
-    fragmentContext: T['parentNode'] | null | string,
+    fragmentContext: FragmentContext<T> | null,
     html?: string | ParserOptions<T>,
     options?: ParserOptions<T>
 ): T['documentFragment'] {
-    if (typeof fragmentContext === 'string') {
-        options = html as ParserOptions<T>;
-        html = fragmentContext;
+    if (typeof html !== 'string') {
+        options = html;
+        html = fragmentContext as string;
         fragmentContext = null;
     }
 
     const parser = new Parser(options);
 
-    return parser.parseFragment(html as string, fragmentContext);
+    return parser.parseFragment(html, fragmentContext);
+}
+
+/**
+ * Applies a text edit to the source text of a previously parsed document and updates the document. Only the content
+ * of the innermost element containing the edit is parsed again, unless the edit can change how the rest of the
+ * document is parsed. In this case, the new source text is parsed from scratch.
+ *
+ * @example
+ *
+ * ```js
+ * const parse5 = require('parse5');
+ *
+ * const html = '<!DOCTYPE html><html><head></head><body><div>Hi there!</div></body></html>';
+ * const document = parse5.parse(html, { sourceCodeLocationInfo: true });
+ *
+ * const result = parse5.reparse(document, html, { offset: 48, deleteLength: 5, insertText: 'everyone' }, {
+ *     sourceCodeLocationInfo: true,
+ * });
+ *
+ * console.log(result.incremental); //> true
+ * console.log(result.changedRanges[0].node.tagName); //> 'div'
+ * console.log(result.html); //> '<!DOCTYPE html><html><head></head><body><div>Hi everyone!</div></body></html>'
+ * ```
+ *
+ * @param document Document parsed from the source text with the `sourceCodeLocationInfo` option.
+ * @param html Source text of the document.
+ * @param edit Text edit.
+ * @param options Parsing options. Should be the same as the ones used to parse the document.
+ */
+export function reparse<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
+    document: T['document'],
+    html: string,
+    edit: TextEdit,
+    options?: ParserOptions<T>
+): ReparseResult<T> {
+    const parser = new Parser(options);
+
+    return parser.reparse(document, html, edit);
 }
 
 /**
@@ -112,3 +239,39 @@ export function serialize<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
 
     return serializer.serialize();
 }
+
+/**
+ * Serializes an AST node to an HTML string and generates a [Source Map v3](https://sourcemaps.info/spec.html),
+ * which maps the output to the locations of the nodes in the source. The node should be parsed with the
+ * `sourceCodeLocationInfo` option.
+ *
+ * @example
+ *
+ * ```js
+ * const parse5 = require('parse5');
+ *
+ * const document = parse5.parse('<div class=a>Hi there!</div>', { sourceCodeLocationInfo: true });
+ *
+ * document.childNodes[0].childNodes[1].childNodes[0].attrs[0].value = 'b';
+ *
+ * const { html, sourceMap } = parse5.serializeWithSourceMap(document, {
+ *     sourceMap: { file: 'index.out.html', source: 'index.html' },
+ * });
+ *
+ * console.log(html); //> '<html><head></head><body><div class="b">Hi there!</div></body></html>'
+ * console.log(sourceMap.sources); //> ['index.html']
+ * ```
+ *
+ * @param node Node to serialize.
+ * @param options Serialization options. The `sourceMap` option is enabled by default.
+ * @returns The output and its source map. The source map is `null` in the formatting and XML modes.
+ */
+export function serializeWithSourceMap<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
+    node: T['parentNode'],
+    options: SerializerOptions<T> = {}
+): { html: string; sourceMap: SourceMap | null } {
+    const serializer = new Serializer(node, { sourceMap: true, ...options });
+    const html = serializer.serialize();
+
+    return { html, sourceMap: serializer.getSourceMap() };
+}
@@ -28,7 +28,11 @@ export class FormattingElementList<T extends TreeAdapterTypeMap> {
     entries: Entry<T>[] = [];
     bookmark: Entry<T> | null = null;
 
-    constructor(private treeAdapter: TreeAdapter<T>) {}
+    constructor(
+        private treeAdapter: TreeAdapter<T>,
+        private onEntryAdd: ((entry: Entry<T>) => void) | null = null,
+        private onEntryRemove: ((entry: Entry<T>) => void) | null = null
+    ) {}
 
     //Noah Ark's condition
     //OPTIMIZATION: at first we try to find possible candidates for exclusion using
@@ -88,7 +92,9 @@ export class FormattingElementList<T extends TreeAdapterTypeMap> {
                 validCandidates += 1;
 
                 if (validCandidates >= NOAH_ARK_CAPACITY) {
-                    this.entries.splice(candidate.idx, 1);
+                    const [removed] = this.entries.splice(candidate.idx, 1);
+
+                    this.onEntryRemove?.(removed);
                 }
             }
         }
@@ -97,26 +103,32 @@ export class FormattingElementList<T extends TreeAdapterTypeMap> {
     //Mutations
     insertMarker(): void {
         this.entries.unshift(MARKER);
+        this.onEntryAdd?.(MARKER);
     }
 
     pushElement(element: T['element'], token: TagToken): void {
         this._ensureNoahArkCondition(element);
 
-        this.entries.unshift({
+        const entry: ElementEntry<T> = {
             type: EntryType.Element,
             element,
             token,
-        });
+        };
+
+        this.entries.unshift(entry);
+        this.onEntryAdd?.(entry);
     }
 
     insertElementAfterBookmark(element: T['element'], token: TagToken): void {
         const bookmarkIdx = this.entries.indexOf(this.bookmark!);
-
-        this.entries.splice(bookmarkIdx, 0, {
+        const entry: ElementEntry<T> = {
             type: EntryType.Element,
             element,
             token,
-        });
+        };
+
+        this.entries.splice(bookmarkIdx, 0, entry);
+        this.onEntryAdd?.(entry);
     }
 
     removeEntry(entry: Entry<T>): void {
@@ -124,16 +136,18 @@ export class FormattingElementList<T extends TreeAdapterTypeMap> {
 
         if (entryIndex >= 0) {
             this.entries.splice(entryIndex, 1);
+            this.onEntryRemove?.(entry);
         }
     }
 
     clearToLastMarker(): void {
         const markerIdx = this.entries.indexOf(MARKER);
+        const removed = markerIdx >= 0 ? this.entries.splice(0, markerIdx + 1) : this.entries.splice(0);
 
-        if (markerIdx >= 0) {
-            this.entries.splice(0, markerIdx + 1);
-        } else {
-            this.entries.length = 0;
+        if (this.onEntryRemove) {
+            for (const entry of removed) {
+                this.onEntryRemove(entry);
+            }
         }
     }
 
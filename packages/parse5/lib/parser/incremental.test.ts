@@ -0,0 +1,184 @@
+import * as assert from 'node:assert';
+import * as parse5 from 'parse5';
+import type { ParserError } from '../common/error-codes.js';
+import type { DefaultTreeAdapterMap, Element, Node, ParentNode } from 'parse5/dist/tree-adapters/default';
+
+const options = { sourceCodeLocationInfo: true };
+
+//NOTE: strips parent node references, so trees can be compared with `deepStrictEqual`.
+function toPlainTree(node: Node): unknown {
+    const { childNodes, content, ...rest } = node as ParentNode & { parentNode: unknown; content?: Node };
+
+    return {
+        ...rest,
+        parentNode: undefined,
+        childNodes: childNodes?.map(toPlainTree),
+        content: content && toPlainTree(content),
+    };
+}
+
+function assertReparse(
+    html: string,
+    edit: parse5.TextEdit,
+    incremental: boolean
+): parse5.ReparseResult<DefaultTreeAdapterMap> {
+    const result = parse5.reparse(parse5.parse(html, options), html, edit, options);
+
+    assert.strictEqual(result.incremental, incremental);
+    assert.deepStrictEqual(toPlainTree(result.document), toPlainTree(parse5.parse(result.html, options)));
+
+    return result;
+}
+
+const DOCUMENT = [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head><title>Title</title><style>p { color: red }</style></head>',
+    '<body>',
+    '<div id="main">',
+    '  <p>Some <b>bold</b> and <i>italic</i> text.</p>',
+    '  <ul><li>One</li><li>Two</li></ul>',
+    '  <table><tbody><tr><td>Cell</td></tr></tbody></table>',
+    '  <pre>',
+    'Preformatted</pre>',
+    '  <textarea>',
+    'Text</textarea>',
+    '  <svg><g><rect/></g></svg>',
+    '  <template><span>Template</span></template>',
+    '</div>',
+    '<script>if (a < b) {}</script>',
+    '</body>',
+    '</html>',
+].join('\r\n');
+
+describe('reparse', () => {
+    it('Rebuilds the innermost element content', () => {
+        const html = '<!DOCTYPE html><html><head></head><body><div><p>Hi there!</p></div></body></html>';
+        const offset = html.indexOf('there');
+        const result = assertReparse(html, { offset, deleteLength: 5, insertText: 'every\none' }, true);
+
+        assert.strictEqual(result.html, html.replace('there', 'every\none'));
+        assert.strictEqual(result.changedRanges.length, 1);
+        assert.strictEqual((result.changedRanges[0].node as Element).tagName, 'p');
+        assert.strictEqual(result.changedRanges[0].startOffset, html.indexOf('Hi'));
+        assert.strictEqual(result.changedRanges[0].endOffset, html.indexOf('</p>') + 4);
+    });
+
+    it('Updates the document in place', () => {
+        const html = '<div><span>a</span></div><p>b</p>';
+        const document = parse5.parse(html, options);
+        const result = parse5.reparse(document, html, { offset: 11, deleteLength: 1, insertText: '<i>c</i>' }, options);
+
+        assert.strictEqual(result.incremental, true);
+        assert.strictEqual(result.document, document);
+    });
+
+    it('Rebuilds text content', () => {
+        assertReparse(DOCUMENT, { offset: DOCUMENT.indexOf('Title'), deleteLength: 1, insertText: 't</b>' }, true);
+        assertReparse(DOCUMENT, { offset: DOCUMENT.indexOf('a < b'), deleteLength: 0, insertText: '</p><b>' }, true);
+        assertReparse(DOCUMENT, { offset: DOCUMENT.indexOf('Text<'), deleteLength: 0, insertText: '\n' }, true);
+        assertReparse(
+            DOCUMENT,
+            { offset: DOCUMENT.indexOf('Preformatted'), deleteLength: 0, insertText: '\r\n' },
+            true
+        );
+    });
+
+    it('Rebuilds table and foreign content', () => {
+        assertReparse(DOCUMENT, { offset: DOCUMENT.indexOf('Cell'), deleteLength: 4, insertText: '<b>x</b>' }, true);
+        assertReparse(
+            DOCUMENT,
+            { offset: DOCUMENT.indexOf('<rect/>'), deleteLength: 0, insertText: '<circle/>' },
+            true
+        );
+        assertReparse(DOCUMENT, { offset: DOCUMENT.indexOf('<td>'), deleteLength: 0, insertText: '<td>y</td>' }, true);
+    });
+
+    it('Falls back to a full parse if the parser state changes', () => {
+        //NOTE: unclosed formatting element.
+        assertReparse(DOCUMENT, { offset: DOCUMENT.indexOf('Some'), deleteLength: 0, insertText: '<b>' }, false);
+        //NOTE: foster parenting.
+        assertReparse(DOCUMENT, { offset: DOCUMENT.indexOf('<tbody>'), deleteLength: 0, insertText: 'x' }, false);
+        //NOTE: the end tag of the element is consumed.
+        assertReparse(DOCUMENT, { offset: DOCUMENT.indexOf('Two'), deleteLength: 0, insertText: '<!--' }, false);
+        //NOTE: the edit changes a start tag.
+        assertReparse(DOCUMENT, { offset: DOCUMENT.indexOf('id="main"'), deleteLength: 2, insertText: 'class' }, false);
+        assertReparse(DOCUMENT, { offset: DOCUMENT.indexOf('<div'), deleteLength: 4, insertText: '<frameset' }, false);
+    });
+
+    it('Falls back to a full parse if the tree is not in the source order', () => {
+        const html = '<div><b>1<p>2</b>3</p></div>';
+
+        assertReparse(html, { offset: html.indexOf('3'), deleteLength: 1, insertText: '4' }, false);
+    });
+
+    it('Does not rebuild template content on its own', () => {
+        const result = assertReparse(
+            DOCUMENT,
+            { offset: DOCUMENT.indexOf('Template'), deleteLength: 0, insertText: '<td>' },
+            true
+        );
+
+        assert.strictEqual((result.changedRanges[0].node as Element).tagName, 'div');
+    });
+
+    it('Falls back to a full parse without location info', () => {
+        const html = '<div>a</div>';
+        const result = parse5.reparse(parse5.parse(html), html, { offset: 5, deleteLength: 1, insertText: 'b' });
+
+        assert.strictEqual(result.incremental, false);
+        assert.strictEqual(result.changedRanges[0].node, result.document);
+    });
+
+    it('Reports errors in the reparsed content', () => {
+        const html = '<div>\n<p>a</p></div>';
+        const errors: ParserError[] = [];
+        const result = parse5.reparse(
+            parse5.parse(html, options),
+            html,
+            { offset: html.indexOf('a'), deleteLength: 1, insertText: '\n<!-->' },
+            { onParseError: (error): number => errors.push(error) }
+        );
+
+        assert.strictEqual(result.incremental, true);
+        assert.deepStrictEqual(errors, [
+            {
+                code: 'abrupt-closing-of-empty-comment',
+                startLine: 3,
+                startCol: 5,
+                startOffset: 14,
+                endLine: 3,
+                endCol: 5,
+                endOffset: 14,
+            },
+        ]);
+    });
+
+    it('Throws if the edit is out of bounds', () => {
+        const html = '<div></div>';
+
+        assert.throws(
+            () => parse5.reparse(parse5.parse(html, options), html, { offset: 5, deleteLength: 7, insertText: '' }),
+            RangeError
+        );
+    });
+
+    it('Produces the same tree as a full parse for every single character edit', () => {
+        for (let offset = 0; offset < DOCUMENT.length; offset++) {
+            for (const insertText of ['', '<', '>', '/', '\n', 'x']) {
+                const result = parse5.reparse(
+                    parse5.parse(DOCUMENT, options),
+                    DOCUMENT,
+                    { offset, deleteLength: insertText === '' ? 1 : 0, insertText },
+                    options
+                );
+
+                assert.deepStrictEqual(
+                    toPlainTree(result.document),
+                    toPlainTree(parse5.parse(result.html, options)),
+                    `Edit at ${offset}: ${JSON.stringify(insertText)}`
+                );
+            }
+        }
+    });
+});
@@ -0,0 +1,358 @@
+import { TAG_ID as $, TAG_NAMES as TN, NAMESPACES as NS, getTagID } from '../common/html.js';
+import { CODE_POINTS as $$ } from '../common/unicode.js';
+import type { ElementLocation, Location, AttributeLocation, TextLocation } from '../common/token.js';
+import type { TreeAdapter, TreeAdapterTypeMap } from '../tree-adapters/interface.js';
+
+/**
+ * A change of the source text of a document.
+ */
+export interface TextEdit {
+    /** Zero-based index of the first replaced character. */
+    offset: number;
+    /** Number of replaced characters. */
+    deleteLength: number;
+    /** Text that is inserted in place of the replaced characters. */
+    insertText: string;
+}
+
+/**
+ * A part of the tree that was rebuilt by {@link Parser.reparse}.
+ */
+export interface ChangedRange<T extends TreeAdapterTypeMap> {
+    /** Node whose children were rebuilt. If the document was parsed from scratch, it is the new document. */
+    node: T['parentNode'];
+    /** Zero-based index of the first character of the rebuilt content in the new source text. */
+    startOffset: number;
+    /** Zero-based index of the character after the rebuilt content in the new source text. */
+    endOffset: number;
+}
+
+export interface ReparseResult<T extends TreeAdapterTypeMap> {
+    /** The updated document. If the source text was parsed from scratch, it is a new document. */
+    document: T['document'];
+    /** The new source text. */
+    html: string;
+    /** `true` if only the part of the tree affected by the edit was rebuilt. */
+    incremental: boolean;
+    /** Parts of the tree that were rebuilt. */
+    changedRanges: ChangedRange<T>[];
+}
+
+export interface SourcePosition {
+    line: number;
+    col: number;
+    offset: number;
+}
+
+export type PositionShift = (position: SourcePosition, isEnd: boolean) => SourcePosition;
+
+//NOTE: elements which are tracked in the list of active formatting elements, and elements which insert markers into it.
+const FORMATTING_ELEMENTS = new Set([
+    $.A,
+    $.B,
+    $.BIG,
+    $.CODE,
+    $.EM,
+    $.FONT,
+    $.I,
+    $.NOBR,
+    $.S,
+    $.SMALL,
+    $.STRIKE,
+    $.STRONG,
+    $.TT,
+    $.U,
+]);
+const MARKER_ELEMENTS = new Set([$.APPLET, $.CAPTION, $.MARQUEE, $.OBJECT, $.TD, $.TH]);
+
+//NOTE: content of these elements depends on the parser state, which can't be restored from the tree.
+const NON_REPARSABLE_ELEMENTS = new Set([$.BODY, $.FRAMESET, $.HEAD, $.HTML, $.NOSCRIPT, $.PLAINTEXT, $.TEMPLATE]);
+
+export function isFormattingElement(tid: $, ns: NS): boolean {
+    return ns === NS.HTML && FORMATTING_ELEMENTS.has(tid);
+}
+
+export function isMarkerElement(tid: $, ns: NS): boolean {
+    return ns === NS.HTML && MARKER_ELEMENTS.has(tid);
+}
+
+export function applyTextEdit(html: string, edit: TextEdit): string {
+    const editEnd = edit.offset + edit.deleteLength;
+
+    if (edit.offset < 0 || edit.deleteLength < 0 || editEnd > html.length) {
+        throw new RangeError(`Text edit (${edit.offset}, ${edit.deleteLength}) is out of the source text bounds`);
+    }
+
+    return html.slice(0, edit.offset) + edit.insertText + html.slice(editEnd);
+}
+
+/**
+ * Calculates the position of the given offset, the same way as the preprocessor does. Lines are
+ * counted starting from the given position.
+ */
+export function getSourcePosition(html: string, start: SourcePosition, offset: number): SourcePosition {
+    let { line } = start;
+    let lineStart = start.offset - start.col + 1;
+
+    for (let i = start.offset; i < offset; i++) {
+        const cp = html.charCodeAt(i);
+
+        if (cp === $$.LINE_FEED || (cp === $$.CARRIAGE_RETURN && html.charCodeAt(i + 1) !== $$.LINE_FEED)) {
+            line++;
+            lineStart = i + 1;
+        }
+    }
+
+    return { line, col: offset - lineStart + 1, offset };
+}
+
+function shiftLocation<L extends Location>(location: L, shift: PositionShift): L {
+    const start = shift({ line: location.startLine, col: location.startCol, offset: location.startOffset }, false);
+    const end = shift({ line: location.endLine, col: location.endCol, offset: location.endOffset }, true);
+
+    return {
+        ...location,
+        startLine: start.line,
+        startCol: start.col,
+        startOffset: start.offset,
+        endLine: end.line,
+        endCol: end.col,
+        endOffset: end.offset,
+    };
+}
+
+export function shiftElementLocation<L extends ElementLocation>(location: L, shift: PositionShift): L {
+    const shifted = shiftLocation(location, shift);
+
+    if (location.startTag) {
+        shifted.startTag = shiftElementLocation(location.startTag, shift);
+    }
+
+    if (location.endTag) {
+        shifted.endTag = shiftElementLocation(location.endTag, shift);
+    }
+
+    if (location.attrs) {
+        //NOTE: the tokenizer creates attribute locations without a prototype.
+        const attrs: Record<string, AttributeLocation> = Object.create(null);
+
+        for (const name of Object.keys(location.attrs)) {
+            const attr = location.attrs[name];
+            const shiftedAttr = shiftLocation(attr, shift);
+
+            if (attr.name) {
+                shiftedAttr.name = shiftLocation(attr.name, shift);
+                shiftedAttr.equalsSign = attr.equalsSign && shiftLocation(attr.equalsSign, shift);
+                shiftedAttr.value = attr.value && shiftLocation(attr.value, shift);
+                shiftedAttr.quotedValue = attr.quotedValue && shiftLocation(attr.quotedValue, shift);
+            }
+
+            attrs[name] = shiftedAttr;
+        }
+
+        shifted.attrs = attrs;
+    }
+
+    const { segments } = location as L & TextLocation;
+
+    if (segments) {
+        (shifted as L & TextLocation).segments = segments.map((segment) => shiftLocation(segment, shift));
+    }
+
+    return shifted;
+}
+
+/**
+ * Shifts source code locations of the node and all its descendants.
+ */
+export function shiftNodeLocations<T extends TreeAdapterTypeMap>(
+    treeAdapter: TreeAdapter<T>,
+    node: T['childNode'],
+    shift: PositionShift
+): void {
+    const location = treeAdapter.getNodeSourceCodeLocation(node);
+
+    if (location) {
+        treeAdapter.setNodeSourceCodeLocation(node, shiftElementLocation(location, shift));
+    }
+
+    const origin = treeAdapter.getNodeOrigin?.(node);
+
+    if (origin?.location) {
+        treeAdapter.setNodeOrigin?.(node, { ...origin, location: shiftElementLocation(origin.location, shift) });
+    }
+
+    if (treeAdapter.isElementNode(node)) {
+        for (const child of getAllChildNodes(treeAdapter, node)) {
+            shiftNodeLocations(treeAdapter, child, shift);
+        }
+    }
+}
+
+/**
+ * Returns a shift, which converts positions relative to the given base position to absolute ones.
+ */
+export function getRelativePositionShift(base: SourcePosition): PositionShift {
+    return ({ line, col, offset }) => ({
+        line: line + base.line - 1,
+        col: line === 1 ? col + base.col - 1 : col,
+        offset: offset + base.offset,
+    });
+}
+
+/**
+ * Returns a shift, which moves positions after the replaced text.
+ *
+ * @param editStart Offset of the replaced text.
+ * @param oldEnd Position of the end of the replaced text.
+ * @param newEnd Position of the end of the inserted text.
+ */
+export function getEditPositionShift(editStart: number, oldEnd: SourcePosition, newEnd: SourcePosition): PositionShift {
+    return (position, isEnd) => {
+        //NOTE: nodes ending right before the inserted text stay in place, while nodes starting right after it move.
+        if (isEnd ? position.offset <= editStart : position.offset < oldEnd.offset) {
+            return position;
+        }
+
+        return {
+            line: position.line + newEnd.line - oldEnd.line,
+            col: position.line === oldEnd.line ? position.col + newEnd.col - oldEnd.col : position.col,
+            offset: position.offset + newEnd.offset - oldEnd.offset,
+        };
+    };
+}
+
+function getAllChildNodes<T extends TreeAdapterTypeMap>(
+    treeAdapter: TreeAdapter<T>,
+    node: T['parentNode']
+): T['childNode'][] {
+    const childNodes = treeAdapter.getChildNodes(node);
+
+    if (
+        treeAdapter.isElementNode(node) &&
+        treeAdapter.getTagName(node) === TN.TEMPLATE &&
+        treeAdapter.getNamespaceURI(node) === NS.HTML
+    ) {
+        return [...childNodes, ...treeAdapter.getChildNodes(treeAdapter.getTemplateContent(node))];
+    }
+
+    return childNodes;
+}
+
+function isReparsableElement<T extends TreeAdapterTypeMap>(
+    treeAdapter: TreeAdapter<T>,
+    element: T['element'],
+    editEnd: number
+): boolean {
+    const location = treeAdapter.getNodeSourceCodeLocation(element);
+
+    return (
+        location?.endTag !== undefined &&
+        editEnd <= location.endTag.startOffset &&
+        !(
+            treeAdapter.getNamespaceURI(element) === NS.HTML &&
+            NON_REPARSABLE_ELEMENTS.has(getTagID(treeAdapter.getTagName(element)))
+        )
+    );
+}
+
+/**
+ * Finds the innermost element whose content contains the replaced text, and which content can be parsed
+ * on its own. Such elements have both a start and an end tag, and the parser state at the start of their
+ * content can be restored from their ancestors.
+ */
+export function findReparsableElement<T extends TreeAdapterTypeMap>(
+    treeAdapter: TreeAdapter<T>,
+    parent: T['parentNode'],
+    editStart: number,
+    editEnd: number
+): T['element'] | null {
+    for (const child of treeAdapter.getChildNodes(parent)) {
+        if (!treeAdapter.isElementNode(child)) {
+            continue;
+        }
+
+        const location = treeAdapter.getNodeSourceCodeLocation(child);
+
+        //NOTE: elements implicitly created by the parser (e.g. <html> or <body>) don't have locations,
+        //so we look for the edit in all of them.
+        if (
+            location &&
+            !(
+                location.startTag &&
+                location.startTag.endOffset <= editStart &&
+                editEnd <= (location.endTag?.startOffset ?? location.endOffset)
+            )
+        ) {
+            continue;
+        }
+
+        //NOTE: template content is parsed in the template insertion modes, which can't be restored.
+        if (treeAdapter.getTagName(child) === TN.TEMPLATE && treeAdapter.getNamespaceURI(child) === NS.HTML) {
+            return null;
+        }
+
+        const descendant = findReparsableElement(treeAdapter, child, editStart, editEnd);
+
+        if (descendant !== null) {
+            return descendant;
+        }
+
+        if (location) {
+            return isReparsableElement(treeAdapter, child, editEnd) ? child : null;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Checks that the tree reflects the source text order and that the parsing of any node didn't leave
+ * the parser in a state, which affects the parsing of the following nodes. That is, the nodes don't
+ * overlap, formatting elements and forms are closed by their end tags, and there are no framesets.
+ *
+ * @param start Offset of the parent node content.
+ * @param end Offset of the end of the parent node content.
+ */
+export function isSourceOrderedTree<T extends TreeAdapterTypeMap>(
+    treeAdapter: TreeAdapter<T>,
+    parent: T['parentNode'],
+    start: number,
+    end: number
+): boolean {
+    let lastEnd = start;
+
+    for (const child of getAllChildNodes(treeAdapter, parent)) {
+        const location = treeAdapter.getNodeSourceCodeLocation(child);
+        let childStart = lastEnd;
+        let childEnd = end;
+
+        if (location) {
+            if (location.startOffset < lastEnd || location.endOffset > end) {
+                return false;
+            }
+
+            childStart = location.startOffset;
+            childEnd = location.endOffset;
+            lastEnd = location.endOffset;
+        }
+
+        if (treeAdapter.isElementNode(child)) {
+            const tid = getTagID(treeAdapter.getTagName(child));
+            const ns = treeAdapter.getNamespaceURI(child);
+
+            if (
+                ns === NS.HTML &&
+                (tid === $.FRAMESET || ((tid === $.FORM || FORMATTING_ELEMENTS.has(tid)) && !location?.endTag))
+            ) {
+                return false;
+            }
+
+            if (!isSourceOrderedTree(treeAdapter, child, childStart, childEnd)) {
+                return false;
+            }
+        }
+    }
+
+    return true;
+}
@@ -1,10 +1,14 @@
 import * as assert from 'node:assert';
 import * as parse5 from 'parse5';
-import { Parser, ParserOptions } from './index.js';
+import { Parser, ParserOptions, InsertionMode } from './index.js';
+import { TraceEventType } from './trace.js';
 import type { TreeAdapterTypeMap } from './../tree-adapters/interface.js';
 import { generateParsingTests } from 'parse5-test-utils/utils/generate-parsing-tests.js';
 import { treeAdapters } from 'parse5-test-utils/utils/common.js';
+import * as defaultTreeAdapter from '../tree-adapters/default.js';
 import { NAMESPACES as NS } from '../common/html.js';
+import { TokenType } from '../common/token.js';
+import type { DefaultTreeAdapterMap, Document, DocumentFragment, Element, TextNode } from '../tree-adapters/default.js';
 
 const origParseFragment = Parser.prototype.parseFragment;
 
@@ -99,3 +103,381 @@ describe('parser', () => {
         expect(doctype).toHaveProperty('systemId', '');
     });
 });
+
+function getBody(document: Document): Element {
+    const html = document.childNodes[0] as Element;
+
+    return html.childNodes[1] as Element;
+}
+
+describe('declarative shadow roots', () => {
+    it('Attaches shadow roots', () => {
+        const document = parse5.parse(
+            '<div><template shadowrootmode="open" shadowrootdelegatesfocus><slot></slot></template>a</div>',
+            { allowDeclarativeShadowRoots: true }
+        );
+        const host = getBody(document).childNodes[0] as Element;
+
+        assert.strictEqual(host.childNodes.length, 1);
+        assert.ok(host.shadowRoot);
+        assert.strictEqual(host.shadowRoot.host, host);
+        assert.strictEqual(host.shadowRoot.mode, 'open');
+        assert.strictEqual(host.shadowRoot.clonable, false);
+        assert.strictEqual(host.shadowRoot.serializable, false);
+        assert.strictEqual(host.shadowRoot.delegatesFocus, true);
+        assert.strictEqual((host.shadowRoot.childNodes[0] as Element).tagName, 'slot');
+    });
+
+    it('Inserts templates if declarative shadow roots are not allowed', () => {
+        const document = parse5.parse('<div><template shadowrootmode="open"></template></div>');
+        const host = getBody(document).childNodes[0] as Element;
+
+        assert.strictEqual(host.shadowRoot, undefined);
+        assert.strictEqual((host.childNodes[0] as Element).tagName, 'template');
+    });
+
+    it('Inserts templates if the parent can not host a shadow root', () => {
+        const document = parse5.parse(
+            '<div><template shadowrootmode="closed">a</template><template shadowrootmode="closed">b</template></div>' +
+                '<ul><template shadowrootmode="open"></template></ul>' +
+                '<x-foo><template shadowrootmode="foo"></template></x-foo>',
+            { allowDeclarativeShadowRoots: true }
+        );
+        const [div, ul, customElement] = getBody(document).childNodes as Element[];
+
+        assert.strictEqual(div.shadowRoot?.mode, 'closed');
+        assert.strictEqual((div.childNodes[0] as Element).tagName, 'template');
+        assert.strictEqual(ul.shadowRoot, undefined);
+        assert.strictEqual((ul.childNodes[0] as Element).tagName, 'template');
+        assert.strictEqual(customElement.shadowRoot, undefined);
+    });
+
+    it('Attaches shadow roots to the fragment context element', () => {
+        const context = treeAdapters.default.createElement('span', NS.HTML, []);
+        const fragment = parse5.parseFragment(context, '<template shadowrootmode="open">a</template>', {
+            allowDeclarativeShadowRoots: true,
+        });
+
+        assert.strictEqual(fragment.childNodes.length, 0);
+        assert.strictEqual((context.shadowRoot?.childNodes[0] as TextNode).value, 'a');
+    });
+});
+
+function getNamespaces(fragment: DocumentFragment): string[] {
+    return fragment.childNodes.map((node) => `${node.nodeName} ${(node as Element).namespaceURI}`);
+}
+
+//NOTE: a context element which only has prototype properties.
+class PrototypeElement {
+    get nodeName(): string {
+        return 'title';
+    }
+
+    get tagName(): string {
+        return 'title';
+    }
+
+    get namespaceURI(): NS {
+        return NS.SVG;
+    }
+
+    get attrs(): [] {
+        return [];
+    }
+
+    get parentNode(): null {
+        return null;
+    }
+}
+
+describe('fragment contexts', () => {
+    it('Parses fragments in the context of HTML elements given by tag names', () => {
+        assert.strictEqual(parse5.serialize(parse5.parseFragment('title', '<b>a</b>'), {}), '&lt;b&gt;a&lt;/b&gt;');
+        assert.strictEqual(parse5.serialize(parse5.parseFragment('tr', '<td>a<td>b'), {}), '<td>a</td><td>b</td>');
+        assert.strictEqual(
+            parse5.serialize(parse5.parseFragment('template', 'a<tr><td>b</td></tr>'), {}),
+            'a<tr><td>b</td></tr>'
+        );
+        assert.strictEqual(
+            parse5.serialize(parse5.parseFragment({ tagName: 'template' }, '<td>a</td>'), {}),
+            '<td>a</td>'
+        );
+    });
+
+    it('Lowercases the tag names of HTML context elements', () => {
+        assert.strictEqual(parse5.serialize(parse5.parseFragment('Table', '<tr>'), {}), '<tbody><tr></tr></tbody>');
+        assert.strictEqual(parse5.serialize(parse5.parseFragment('TEMPLATE', '<col>'), {}), '<col>');
+        assert.strictEqual(
+            parse5.serialize(parse5.parseFragment({ tagName: 'TR', namespace: NS.HTML }, '<td>a'), {}),
+            '<td>a</td>'
+        );
+    });
+
+    it('Parses fragments in the context of SVG <foreignObject>', () => {
+        const fragment = parse5.parseFragment(
+            { tagName: 'foreignobject', namespace: NS.SVG },
+            '<div><circle></circle></div><![CDATA[a]]>'
+        );
+
+        assert.deepStrictEqual(getNamespaces(fragment), [`div ${NS.HTML}`, '#comment undefined']);
+        assert.strictEqual(parse5.serialize(fragment, {}), '<div><circle></circle></div><!--[CDATA[a]]-->');
+
+        assert.deepStrictEqual(
+            getNamespaces(parse5.parseFragment({ tagName: 'svg', namespace: NS.SVG }, '<circle/><![CDATA[a]]>')),
+            [`circle ${NS.SVG}`, '#text undefined']
+        );
+    });
+
+    it('Parses fragments in the context of MathML <annotation-xml>', () => {
+        const html = '<div>a</div><mi>b</mi>';
+        const annotationXml = {
+            tagName: 'annotation-xml',
+            namespace: NS.MATHML,
+            attrs: [{ name: 'encoding', value: 'application/XHTML+xml' }],
+        };
+
+        assert.deepStrictEqual(getNamespaces(parse5.parseFragment(annotationXml, html)), [
+            `div ${NS.HTML}`,
+            `mi ${NS.HTML}`,
+        ]);
+        assert.deepStrictEqual(
+            getNamespaces(parse5.parseFragment({ tagName: 'annotation-xml', namespace: NS.MATHML }, html)),
+            [`div ${NS.MATHML}`, `mi ${NS.MATHML}`]
+        );
+        assert.deepStrictEqual(annotationXml.attrs, [{ name: 'encoding', value: 'application/XHTML+xml' }]);
+    });
+
+    it('Parses fragments in the context of foreign elements with the tag names of HTML elements', () => {
+        assert.deepStrictEqual(
+            getNamespaces(parse5.parseFragment({ tagName: 'template', namespace: NS.SVG }, '<tr></tr>')),
+            [`tr ${NS.SVG}`]
+        );
+        assert.strictEqual(
+            parse5.serialize(parse5.parseFragment({ tagName: 'title', namespace: NS.SVG }, '<b>a</b>'), {}),
+            '<b>a</b>'
+        );
+    });
+
+    it('Uses the nearest HTML <form> element as the form element pointer', () => {
+        assert.strictEqual(parse5.serialize(parse5.parseFragment('form', '<form><input></form>'), {}), '<input>');
+        assert.strictEqual(
+            parse5.serialize(parse5.parseFragment({ tagName: 'form', namespace: NS.SVG }, '<form><input></form>'), {}),
+            '<form><input></form>'
+        );
+
+        const document = parse5.parse('<form><div></div></form>');
+        const form = getBody(document).childNodes[0] as Element;
+        const context = form.childNodes[0] as Element;
+
+        assert.strictEqual(parse5.serialize(parse5.parseFragment(context, '<form><input></form>'), {}), '<input>');
+    });
+
+    it('Throws on invalid fragment context descriptors', () => {
+        assert.throws(() => parse5.parseFragment({} as Element, 'a'), TypeError);
+        assert.throws(() => parse5.parseFragment({ tagName: 1 } as unknown as Element, 'a'), TypeError);
+        assert.throws(() => parse5.parseFragment({ tagName: 'div', attrs: {} } as unknown as Element, 'a'), TypeError);
+        assert.throws(() => parse5.parseFragment({ tagName: 'div', foo: 1 } as unknown as Element, '<p>'), TypeError);
+    });
+
+    it('Does not mistake context elements with prototype properties for descriptors', () => {
+        const context = new PrototypeElement() as unknown as Element;
+
+        assert.strictEqual(parse5.serialize(parse5.parseFragment(context, '<b>a</b>'), {}), '<b>a</b>');
+    });
+});
+
+describe('interpolation', () => {
+    const interpolation = [
+        { start: '{{', end: '}}' },
+        { start: '{%', end: '%}' },
+    ];
+
+    it('Inserts interpolation nodes', () => {
+        const html =
+            '<ul {{ attrs }} title="{{ a > b }}">{% for x in xs %}<li>{{ x }}</li>{% endfor %}</ul>' +
+            '<table>{{ row }}<tr></table>';
+        const fragment = parse5.parseFragment(html, { interpolation, sourceCodeLocationInfo: true });
+        const [ul, row] = fragment.childNodes;
+
+        assert.ok(defaultTreeAdapter.isElementNode(ul));
+        assert.deepStrictEqual(
+            ul.childNodes.map((node) => node.nodeName),
+            ['#interpolation', 'li', '#interpolation']
+        );
+        assert.deepStrictEqual(ul.attrs, [
+            { name: '{{ attrs }}', value: '', interpolation: true },
+            { name: 'title', value: '{{ a > b }}', valueInterpolations: [[0, 11]] },
+        ]);
+
+        const attrLocation = ul.sourceCodeLocation?.attrs?.['{{ attrs }}'];
+
+        assert.ok(attrLocation);
+        assert.strictEqual(html.slice(attrLocation.startOffset, attrLocation.endOffset), '{{ attrs }}');
+
+        assert.ok(defaultTreeAdapter.isInterpolationNode(row));
+        assert.strictEqual(row.data, '{{ row }}');
+        assert.ok(row.sourceCodeLocation);
+        assert.strictEqual(html.slice(row.sourceCodeLocation.startOffset, row.sourceCodeLocation.endOffset), row.data);
+
+        assert.strictEqual(
+            parse5.serialize(fragment, {}),
+            '<ul {{ attrs }} title="{{ a > b }}">{% for x in xs %}<li>{{ x }}</li>{% endfor %}</ul>' +
+                '{{ row }}<table><tbody><tr></tr></tbody></table>'
+        );
+    });
+
+    it('Ends attribute names at interpolations', () => {
+        const html = '<input {% if a %} checked {% endif %}><input {% if a %}checked{% endif %} value=1>';
+        const fragment = parse5.parseFragment(html, { interpolation });
+
+        for (const input of fragment.childNodes) {
+            assert.ok(defaultTreeAdapter.isElementNode(input));
+            assert.deepStrictEqual(input.attrs.slice(0, 3), [
+                { name: '{% if a %}', value: '', interpolation: true },
+                { name: 'checked', value: '' },
+                { name: '{% endif %}', value: '', interpolation: true },
+            ]);
+        }
+
+        assert.strictEqual(
+            parse5.serialize(fragment, {}),
+            '<input {% if a %} checked="" {% endif %}><input {% if a %} checked="" {% endif %} value="1">'
+        );
+    });
+
+    it('Serializes interpolations in attribute values verbatim', () => {
+        const html = `<a href="{{ a && b }}&amp;c={% d %}" title='{{ "x" }}'></a>`;
+        const fragment = parse5.parseFragment(html, { interpolation });
+        const [a] = fragment.childNodes;
+
+        assert.ok(defaultTreeAdapter.isElementNode(a));
+        assert.deepStrictEqual(a.attrs[0].valueInterpolations, [
+            [0, 12],
+            [15, 22],
+        ]);
+        assert.strictEqual(
+            parse5.serialize(fragment, {}),
+            '<a href="{{ a && b }}&amp;c={% d %}" title="{{ "x" }}"></a>'
+        );
+    });
+
+    it('Inserts interpolations as text if the tree adapter does not support them', () => {
+        const treeAdapter = { ...treeAdapters.default, createInterpolationNode: undefined };
+        const fragment = parse5.parseFragment('a{{ b < c }}d', { interpolation, treeAdapter });
+
+        assert.deepStrictEqual(
+            fragment.childNodes.map((node) => node.nodeName),
+            ['#text']
+        );
+        assert.strictEqual(parse5.serialize(fragment, {}), 'a{{ b &lt; c }}d');
+    });
+});
+
+function ignore(): void {
+    /* Ignore */
+}
+
+function trace(html: string): parse5.TraceEvent<DefaultTreeAdapterMap>[] {
+    const events: parse5.TraceEvent<DefaultTreeAdapterMap>[] = [];
+
+    parse5.parse(html, { onTrace: (event) => events.push(event) });
+
+    return events;
+}
+
+describe('trace', () => {
+    it('Reports tokens and insertion mode switches', () => {
+        const events = trace('<p>a');
+        const tokenEvents = events.filter((event) => event.type === TraceEventType.TOKEN);
+
+        assert.deepStrictEqual(
+            tokenEvents.map((event) => event.type === TraceEventType.TOKEN && event.insertionMode),
+            [InsertionMode.INITIAL, InsertionMode.IN_BODY, InsertionMode.IN_BODY]
+        );
+        assert.deepStrictEqual(
+            events
+                .filter((event) => event.type === TraceEventType.INSERTION_MODE)
+                .map((event) => event.type === TraceEventType.INSERTION_MODE && event.insertionMode),
+            [
+                InsertionMode.BEFORE_HTML,
+                InsertionMode.BEFORE_HEAD,
+                InsertionMode.IN_HEAD,
+                InsertionMode.AFTER_HEAD,
+                InsertionMode.IN_BODY,
+            ]
+        );
+        assert.strictEqual(tokenEvents[1].location?.startOffset, 3);
+    });
+
+    it('Reports stack changes caused by implied end tags', () => {
+        const events = trace('<p>a<div>b</div>');
+        const divStartTag = events.findIndex(
+            (event) =>
+                event.type === TraceEventType.TOKEN &&
+                event.token.type === TokenType.START_TAG &&
+                event.token.tagName === 'div'
+        );
+        const pop = events[divStartTag + 1];
+
+        assert.strictEqual(pop.type, TraceEventType.POP);
+        assert.strictEqual((pop as parse5.OpenElementTraceEvent<DefaultTreeAdapterMap>).element.tagName, 'p');
+        assert.strictEqual(pop.location?.startOffset, 4);
+        assert.strictEqual(events[divStartTag + 2].type, TraceEventType.PUSH);
+    });
+
+    it('Reports the list of active formatting elements changes and adoption agency decisions', () => {
+        const events = trace('<b>1<p>2</b>3</p>');
+        const adoptionAgency = events.find(
+            (event): event is parse5.AdoptionAgencyTraceEvent<DefaultTreeAdapterMap> =>
+                event.type === TraceEventType.ADOPTION_AGENCY
+        );
+
+        assert.ok(adoptionAgency);
+        assert.strictEqual(adoptionAgency.formattingElement.tagName, 'b');
+        assert.strictEqual(adoptionAgency.furthestBlock?.tagName, 'p');
+        assert.strictEqual(adoptionAgency.location?.startOffset, 8);
+        assert.deepStrictEqual(
+            events
+                .filter(
+                    (event) =>
+                        event.type === TraceEventType.FORMATTING_ENTRY_ADD ||
+                        event.type === TraceEventType.FORMATTING_ENTRY_REMOVE
+                )
+                .map((event) => [
+                    event.type,
+                    (event as parse5.FormattingEntryTraceEvent<DefaultTreeAdapterMap>).element?.tagName,
+                ]),
+            [
+                [TraceEventType.FORMATTING_ENTRY_ADD, 'b'],
+                [TraceEventType.FORMATTING_ENTRY_ADD, 'b'],
+                [TraceEventType.FORMATTING_ENTRY_REMOVE, 'b'],
+                [TraceEventType.FORMATTING_ENTRY_REMOVE, 'b'],
+            ]
+        );
+    });
+
+    it('Reports foster parenting', () => {
+        const events = trace('<table>a<tr><td>b</td></tr><div></div></table>').filter(
+            (event): event is parse5.FosterParentingTraceEvent<DefaultTreeAdapterMap> =>
+                event.type === TraceEventType.FOSTER_PARENTING
+        );
+
+        assert.deepStrictEqual(
+            events.map((event) => [
+                event.node.nodeName,
+                (event.parent as Element).tagName,
+                event.beforeElement?.tagName,
+                event.location?.startOffset,
+            ]),
+            [
+                ['#text', 'body', 'table', 7],
+                ['div', 'body', 'table', 27],
+            ]
+        );
+    });
+
+    it('Enables location info if the callback is set', () => {
+        assert.strictEqual(new Parser({}).options.sourceCodeLocationInfo, false);
+        assert.strictEqual(new Parser({ onTrace: ignore }).options.sourceCodeLocationInfo, true);
+    });
+});
@@ -1,10 +1,25 @@
-import { Tokenizer, TokenizerMode } from '../tokenizer/index.js';
+import {
+    Tokenizer,
+    TokenizerMode,
+    TokenHandler,
+    CharacterReferenceHandler,
+    InterpolationDelimiters,
+} from '../tokenizer/index.js';
 import { OpenElementStack } from './open-element-stack.js';
-import { FormattingElementList, ElementEntry, EntryType } from './formatting-element-list.js';
+import { FormattingElementList, ElementEntry, Entry, EntryType } from './formatting-element-list.js';
+import { TraceEventType, ParserTraceHandler } from './trace.js';
 import * as defaultTreeAdapter from '../tree-adapters/default.js';
 import * as doctype from '../common/doctype.js';
 import * as foreignContent from '../common/foreign-content.js';
-import { ERR, ParserErrorHandler } from '../common/error-codes.js';
+import {
+    ENCODING_CONFIDENCE,
+    EncodingSniffingOptions,
+    sniffEncoding,
+    getMetaElementEncoding,
+    getChangedEncoding,
+    createDecoder,
+} from '../common/encoding.js';
+import { ERR, ParserError, ParserErrorHandler } from '../common/error-codes.js';
 import * as unicode from '../common/unicode.js';
 import {
     TAG_ID as $,
@@ -17,6 +32,7 @@ import {
     getTagID,
 } from '../common/html.js';
 import type { TreeAdapter, TreeAdapterTypeMap } from '../tree-adapters/interface.js';
+import { getRawSourceSnapshot, getRawContentSnapshot } from '../common/raw-source.js';
 import {
     TokenType,
     getTokenAttr,
@@ -26,9 +42,30 @@ import {
     TagToken,
     DoctypeToken,
     EOFToken,
+    InterpolationToken,
+    Attribute,
+    Location,
     LocationWithAttributes,
     ElementLocation,
+    TextLocation,
+    NodeOrigin,
 } from '../common/token.js';
+import {
+    TextEdit,
+    ChangedRange,
+    ReparseResult,
+    SourcePosition,
+    applyTextEdit,
+    findReparsableElement,
+    isSourceOrderedTree,
+    isFormattingElement,
+    isMarkerElement,
+    getSourcePosition,
+    getRelativePositionShift,
+    getEditPositionShift,
+    shiftElementLocation,
+    shiftNodeLocations,
+} from './incremental.js';
 
 //Misc constants
 const HIDDEN_INPUT_TYPE = 'hidden';
@@ -38,7 +75,7 @@ const AA_OUTER_LOOP_ITER = 8;
 const AA_INNER_LOOP_ITER = 3;
 
 //Insertion modes
-enum InsertionMode {
+export enum InsertionMode {
     INITIAL,
     BEFORE_HTML,
     BEFORE_HEAD,
@@ -75,7 +112,9 @@ const BASE_LOC = {
 
 const TABLE_STRUCTURE_TAGS = new Set([$.TABLE, $.TBODY, $.TFOOT, $.THEAD, $.TR]);
 
-export interface ParserOptions<T extends TreeAdapterTypeMap> {
+const FRAMESET_START_TAG_REGEX = /<frameset/i;
+
+export interface ParserOptions<T extends TreeAdapterTypeMap> extends EncodingSniffingOptions {
     /**
      * The [scripting flag](https://html.spec.whatwg.org/multipage/parsing.html#scripting-flag). If set
      * to `true`, `noscript` element content will be parsed as text.
@@ -96,6 +135,75 @@ export interface ParserOptions<T extends TreeAdapterTypeMap> {
      */
     sourceCodeLocationInfo?: boolean | undefined;
 
+    /**
+     * Adds the locations of the attribute names, `=` signs and values to the attribute locations of elements
+     * (see `AttributeLocation`). Requires the `sourceCodeLocationInfo` option.
+     *
+     * @default `false`
+     */
+    attributeLocationInfo?: boolean | undefined;
+
+    /**
+     * Records how each node was created (see `NodeOrigin`), and the source segments of the text nodes
+     * (see `TextLocation`). Requires the `sourceCodeLocationInfo` option. The tree adapter needs to implement
+     * `setNodeOrigin`.
+     *
+     * @default `false`
+     */
+    nodeOriginInfo?: boolean | undefined;
+
+    /**
+     * Enables the lossless mode, in which the parser records the raw source of each node: the raw start and end
+     * tags of elements, and the raw source of text, comment and document type nodes. The serializer can then emit
+     * the original source of the nodes that were not modified after parsing (see the `lossless` serializer option),
+     * preserving attribute quotes, casing, character references, whitespace inside tags and omitted tags.
+     * The tree adapter needs to implement `setNodeRawSource` and `getNodeRawSource`.
+     *
+     * Tokens ignored by the parser (e.g. stray end tags) are preserved as a part of the raw source of the following
+     * node, and are lost if this node is modified. Tokens ignored at the end of the input are not preserved.
+     * Enables source code location info.
+     *
+     * @default `false`
+     */
+    lossless?: boolean | undefined;
+
+    /**
+     * Enables [declarative shadow roots](https://html.spec.whatwg.org/multipage/scripting.html#attr-template-shadowrootmode).
+     * If set to `true`, a `<template>` element with the `shadowrootmode` attribute attaches a shadow root to its parent
+     * element instead of being inserted into the tree. The tree adapter needs to implement `attachShadowRoot`.
+     *
+     * @default `false`
+     */
+    allowDeclarativeShadowRoots?: boolean | undefined;
+
+    /**
+     * Decode tree of the named character references, in the format of the `entities` package. Named references
+     * missing in the tree are left undecoded. Use `createDecodeTree` to create a tree of custom references.
+     *
+     * @default The tree of the HTML named character references.
+     */
+    decodeTree?: Uint16Array | undefined;
+
+    /**
+     * Callback for the character references in text and attribute values. Returns the text that replaces
+     * the reference, e.g. `reference.source` to keep the reference undecoded. Locations of the references are
+     * only available if source code location info is enabled.
+     *
+     * @default `null`
+     */
+    onCharacterReference?: CharacterReferenceHandler | null;
+
+    /**
+     * Delimiters of template interpolations, e.g. `{ start: '{{', end: '}}' }`. Interpolations are recognized in text,
+     * in attribute values and in the place of attributes, and their source is kept as is. The tree construction
+     * handles interpolations in text as text, but inserts them as interpolation nodes if the tree adapter implements
+     * `createInterpolationNode`. Interpolations in the place of attributes become attributes with
+     * the `interpolation` flag.
+     *
+     * @default `[]`
+     */
+    interpolation?: InterpolationDelimiters[] | undefined;
+
     /**
      * Specifies the resulting tree format.
      *
@@ -109,13 +217,106 @@ export interface ParserOptions<T extends TreeAdapterTypeMap> {
      * @default `null`
      */
     onParseError?: ParserErrorHandler | null;
+
+    /**
+     * Callback for tree construction trace events. Reports processed tokens, insertion mode switches, changes of the
+     * stack of open elements and of the list of active formatting elements, as well as adoption agency and foster
+     * parenting decisions. Can be used to explain how the parser built a tree.
+     *
+     * @default `null`
+     */
+    onTrace?: ParserTraceHandler<T> | null;
+}
+
+//NOTE: adjacent segments of a text node are merged.
+function appendTextSegment(segments: Location[], location: Location): void {
+    const lastSegment = segments[segments.length - 1];
+
+    if (lastSegment?.endOffset === location.startOffset) {
+        lastSegment.endLine = location.endLine;
+        lastSegment.endCol = location.endCol;
+        lastSegment.endOffset = location.endOffset;
+    } else {
+        segments.push({ ...location });
+    }
+}
+
+//NOTE: tokenizer state for the content of elements, which is parsed as text.
+function getTextContentTokenizerState(tid: $): typeof TokenizerMode[keyof typeof TokenizerMode] | null {
+    switch (tid) {
+        case $.TITLE:
+        case $.TEXTAREA: {
+            return TokenizerMode.RCDATA;
+        }
+        case $.STYLE:
+        case $.XMP:
+        case $.IFRAME:
+        case $.NOEMBED:
+        case $.NOFRAMES:
+        case $.NOSCRIPT: {
+            return TokenizerMode.RAWTEXT;
+        }
+        case $.SCRIPT: {
+            return TokenizerMode.SCRIPT_DATA;
+        }
+        case $.PLAINTEXT: {
+            return TokenizerMode.PLAINTEXT;
+        }
+        default: {
+            return null;
+        }
+    }
+}
+
+/**
+ * Context element of a fragment, described by its tag name and namespace. Descriptors have to be plain objects,
+ * so they are not mistaken for nodes.
+ */
+export interface FragmentContextDescriptor {
+    /**
+     * Tag name of the context element. Tag names of HTML elements are lowercased, and tag names of SVG elements
+     * are adjusted, e.g. `foreignobject` becomes `foreignObject`.
+     */
+    tagName: string;
+    /**
+     * Namespace of the context element.
+     *
+     * @default `NAMESPACES.HTML`
+     */
+    namespace?: NS;
+    /**
+     * Attributes of the context element, e.g. the `encoding` attribute of the MathML `<annotation-xml>` element.
+     *
+     * @default `[]`
+     */
+    attrs?: Attribute[];
+}
+
+/**
+ * Context of a fragment: a context element, the tag name of an HTML context element or a description of the context
+ * element.
+ */
+export type FragmentContext<T extends TreeAdapterTypeMap> = T['parentNode'] | string | FragmentContextDescriptor;
+
+const FRAGMENT_CONTEXT_DESCRIPTOR_KEYS = new Set(['tagName', 'namespace', 'attrs']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    const proto = Object.getPrototypeOf(value);
+
+    return proto === Object.prototype || proto === null;
+}
+
+//NOTE: tag names of HTML elements are ASCII case-insensitive.
+function toAsciiLowerCase(str: string): string {
+    return str.replace(/[A-Z]+/g, (upper) => upper.toLowerCase());
 }
 
 //Parser
-export class Parser<T extends TreeAdapterTypeMap> {
+export class Parser<T extends TreeAdapterTypeMap> implements TokenHandler {
     options: ParserOptions<T>;
     treeAdapter: TreeAdapter<T>;
     private onParseError: ParserErrorHandler | null;
+    private onTrace: ParserTraceHandler<T> | null;
     private currentToken: Token | null = null;
 
     constructor(options?: ParserOptions<T>) {
@@ -127,9 +328,10 @@ export class Parser<T extends TreeAdapterTypeMap> {
 
         this.treeAdapter = this.options.treeAdapter ??= defaultTreeAdapter as TreeAdapter<T>;
         this.onParseError = this.options.onParseError ??= null;
+        this.onTrace = this.options.onTrace ??= null;
 
-        // Always enable location info if we report parse errors.
-        if (this.onParseError) {
+        // Always enable location info if we report parse errors or trace events, or record the raw source.
+        if (this.onParseError || this.onTrace || this.options.lossless) {
             this.options.sourceCodeLocationInfo = true;
         }
     }
@@ -140,24 +342,54 @@ export class Parser<T extends TreeAdapterTypeMap> {
 
         this._bootstrap(document, null);
         this.tokenizer.write(html, true);
-        this._runParsingLoop(null);
 
         return document;
     }
 
-    public parseFragment(html: string, fragmentContext?: T['parentNode'] | null): T['documentFragment'] {
-        //NOTE: use <template> element as a fragment context if context element was not provided,
-        //so we will parse in "forgiving" manner
-        fragmentContext ??= this.treeAdapter.createElement(TN.TEMPLATE, NS.HTML, []);
+    /**
+     * Parses a byte stream. The encoding is determined with the
+     * [encoding sniffing algorithm](https://html.spec.whatwg.org/multipage/parsing.html#encoding-sniffing-algorithm).
+     * If a `<meta>` element declares a different encoding while the confidence is tentative, the input is
+     * reparsed from scratch with the declared encoding.
+     */
+    public parseBytes(bytes: Uint8Array): T['document'] {
+        let { encoding, confidence } = sniffEncoding(bytes, this.options);
+
+        for (;;) {
+            const document = this.treeAdapter.createDocument();
+
+            this._bootstrap(document, null);
+            this.encoding = encoding;
+            this.encodingConfidence = confidence;
+            this.tokenizer.write(createDecoder(encoding).decode(bytes), true);
+
+            if (this.pendingEncodingChange === null) {
+                this.treeAdapter.setDocumentEncoding?.(document, this.encoding, this.encodingConfidence);
+
+                return document;
+            }
 
+            encoding = this.pendingEncodingChange;
+            confidence = ENCODING_CONFIDENCE.CERTAIN;
+        }
+    }
+
+    /**
+     * Parses an HTML fragment as if it was set to the `innerHTML` property of the context element.
+     *
+     * @param html Input HTML fragment string.
+     * @param fragmentContext Context element, the tag name of an HTML context element or a description of the context
+     * element. If not specified, the fragment is parsed in the context of a `<template>` element.
+     */
+    public parseFragment(html: string, fragmentContext?: FragmentContext<T> | null): T['documentFragment'] {
         //NOTE: create fake element which will be used as 'document' for fragment parsing.
         //This is important for jsdom there 'document' can't be recreated, therefore
         //fragment parsing causes messing of the main `document`.
         const documentMock = this.treeAdapter.createElement('documentmock', NS.HTML, []);
 
-        this._bootstrap(documentMock, fragmentContext);
+        this._bootstrap(documentMock, this._createFragmentContext(fragmentContext));
 
-        if (this.fragmentContextID === $.TEMPLATE) {
+        if (this.fragmentContextID === $.TEMPLATE && this._isHTMLFragmentContext()) {
             this.tmplInsertionModeStack.unshift(InsertionMode.IN_TEMPLATE);
         }
 
@@ -166,21 +398,271 @@ export class Parser<T extends TreeAdapterTypeMap> {
         this._resetInsertionMode();
         this._findFormInFragmentContext();
         this.tokenizer.write(html, true);
-        this._runParsingLoop(null);
 
         const rootElement = this.treeAdapter.getFirstChild(documentMock) as T['parentNode'];
         const fragment = this.treeAdapter.createDocumentFragment();
+        const rootRawSource = this.options.lossless ? this.treeAdapter.getNodeRawSource?.(rootElement) : null;
+        const trailingRawSource = this.options.lossless ? this.treeAdapter.getNodeRawSource?.(documentMock) : null;
 
         this._adoptNodes(rootElement, fragment);
 
+        //NOTE: the fragment takes over the content of the root element, along with its raw source,
+        //and the source ignored at the end of the input.
+        if (trailingRawSource) {
+            this.treeAdapter.setNodeRawSource?.(
+                fragment,
+                rootRawSource?.rawOuterHtml === undefined
+                    ? trailingRawSource
+                    : { ...rootRawSource, raw: trailingRawSource.raw }
+            );
+        }
+
         return fragment;
     }
 
+    /**
+     * Applies a text edit to the source text of a document and updates the document. The document must be parsed
+     * with the `sourceCodeLocationInfo` option. If the edit is located inside of an element content, which
+     * doesn't affect the parsing of the rest of the document, only this content is parsed again and the source code
+     * locations of the following nodes are shifted. Otherwise, the new source text is parsed from scratch.
+     *
+     * In the former case, `onParseError` is only called for the errors in the reparsed content.
+     */
+    public reparse(document: T['document'], html: string, edit: TextEdit): ReparseResult<T> {
+        const newHtml = applyTextEdit(html, edit);
+        const changedRange =
+            this.options.sourceCodeLocationInfo && !this.options.allowDeclarativeShadowRoots
+                ? this._reparseElementContent(document, html, newHtml, edit)
+                : null;
+
+        if (changedRange) {
+            return { document, html: newHtml, incremental: true, changedRanges: [changedRange] };
+        }
+
+        const newDocument = this.parse(newHtml);
+
+        return {
+            document: newDocument,
+            html: newHtml,
+            incremental: false,
+            changedRanges: [{ node: newDocument, startOffset: 0, endOffset: newHtml.length }],
+        };
+    }
+
+    private _reparseElementContent(
+        document: T['document'],
+        html: string,
+        newHtml: string,
+        edit: TextEdit
+    ): ChangedRange<T> | null {
+        const editEnd = edit.offset + edit.deleteLength;
+
+        //NOTE: if the edit splits or joins a CRLF pair, lines after the edit are counted differently.
+        if (
+            html.charCodeAt(edit.offset - 1) === unicode.CODE_POINTS.CARRIAGE_RETURN ||
+            html.charCodeAt(editEnd) === unicode.CODE_POINTS.LINE_FEED
+        ) {
+            return null;
+        }
+
+        const element = findReparsableElement(this.treeAdapter, document, edit.offset, editEnd);
+
+        if (element === null || !isSourceOrderedTree(this.treeAdapter, document, 0, html.length)) {
+            return null;
+        }
+
+        //NOTE: reparsable elements always have both tags.
+        const { startTag, endTag } = this.treeAdapter.getNodeSourceCodeLocation(element) as Required<ElementLocation>;
+        const contentStart: SourcePosition = {
+            line: startTag.endLine,
+            col: startTag.endCol,
+            offset: startTag.endOffset,
+        };
+        const contentEnd = endTag.startOffset + edit.insertText.length - edit.deleteLength;
+
+        //NOTE: a <frameset> start tag replaces <body> if nothing prevented it before, which we can't tell from the tree.
+        if (FRAMESET_START_TAG_REGEX.test(newHtml.slice(contentStart.offset, contentEnd))) {
+            return null;
+        }
+
+        const errors: ParserError[] = [];
+        const parsedElement = this._parseElementContent(
+            document,
+            element,
+            newHtml.slice(contentStart.offset, contentEnd + endTag.endOffset - endTag.startOffset),
+            contentEnd - contentStart.offset,
+            errors
+        );
+
+        if (parsedElement === null) {
+            return null;
+        }
+
+        const oldEditEnd = getSourcePosition(html, contentStart, editEnd);
+        const newEditEnd = getSourcePosition(newHtml, contentStart, edit.offset + edit.insertText.length);
+        const editShift = getEditPositionShift(edit.offset, oldEditEnd, newEditEnd);
+        const contentShift = getRelativePositionShift(contentStart);
+
+        for (
+            let child = this.treeAdapter.getFirstChild(element);
+            child;
+            child = this.treeAdapter.getFirstChild(element)
+        ) {
+            this.treeAdapter.detachNode(child);
+        }
+
+        for (const child of this.treeAdapter.getChildNodes(document)) {
+            shiftNodeLocations(this.treeAdapter, child, editShift);
+        }
+
+        for (const child of this.treeAdapter.getChildNodes(parsedElement)) {
+            shiftNodeLocations(this.treeAdapter, child, contentShift);
+        }
+
+        this._adoptNodes(parsedElement, element);
+
+        for (const error of errors) {
+            this.onParseError?.(shiftElementLocation(error, contentShift));
+        }
+
+        return { node: element, startOffset: contentStart.offset, endOffset: contentEnd };
+    }
+
+    /**
+     * Parses the new content of the element with a copy of the element and its ancestors on the stack of open
+     * elements. The copy is used, so the tree is left intact if the parsing results in a different parser state.
+     *
+     * @param html Content of the element, followed by its end tag.
+     * @param endTagOffset Offset of the end tag.
+     * @returns The copy of the element with the parsed content, or `null` if the parser state after the end
+     * tag differs from the state before the element.
+     */
+    private _parseElementContent(
+        document: T['document'],
+        element: T['element'],
+        html: string,
+        endTagOffset: number,
+        errors: ParserError[]
+    ): T['element'] | null {
+        const { onParseError } = this;
+        const documentMock = this.treeAdapter.createDocument();
+        const ancestors: T['element'][] = [];
+
+        for (let node = this.treeAdapter.getParentNode(element); node && node !== document; ) {
+            ancestors.unshift(node);
+            node = this.treeAdapter.getParentNode(node);
+        }
+
+        this.treeAdapter.setDocumentMode(documentMock, this.treeAdapter.getDocumentMode(document));
+        this._bootstrap(documentMock, null);
+        this.onParseError = onParseError && ((error): number => errors.push(error));
+        this.tokenizer = new Tokenizer({ ...this.options, onParseError: this.onParseError }, this);
+
+        try {
+            const ancestorCopies = ancestors.map((ancestor) => this._pushElementCopy(ancestor));
+
+            this._resetInsertionMode();
+
+            const { insertionMode, formElement } = this;
+            const formattingEntries = [...this.activeFormattingElements.entries];
+            const elementCopy = this._pushElementCopy(element);
+            const tagName = this.treeAdapter.getTagName(element);
+            const tagID = getTagID(tagName);
+            const isHTML = this.treeAdapter.getNamespaceURI(element) === NS.HTML;
+            const textState = isHTML ? getTextContentTokenizerState(tagID) : null;
+
+            if (textState === null) {
+                this._resetInsertionMode();
+            } else {
+                this.tokenizer.state = textState;
+                this.tokenizer.lastStartTagName = tagName;
+                this.originalInsertionMode = insertionMode;
+                this.insertionMode = InsertionMode.TEXT;
+            }
+
+            this.skipNextNewLine = isHTML && (tagID === $.PRE || tagID === $.LISTING || tagID === $.TEXTAREA);
+            this.treeAdapter.setNodeSourceCodeLocation(elementCopy, { ...BASE_LOC });
+            this.reparsedElement = elementCopy;
+            this.tokenizer.write(html, true);
+
+            const isStateRestored =
+                this.treeAdapter.getNodeSourceCodeLocation(elementCopy)?.endTag?.startOffset === endTagOffset &&
+                this.openElements.stackTop === ancestorCopies.length - 1 &&
+                ancestorCopies.every(
+                    (copy, i) =>
+                        this.openElements.items[i] === copy &&
+                        this.treeAdapter.getChildNodes(copy).length === 1 &&
+                        this.treeAdapter.getAttrList(copy).length === this.treeAdapter.getAttrList(ancestors[i]).length
+                ) &&
+                this.activeFormattingElements.entries.length === formattingEntries.length &&
+                formattingEntries.every((entry, i) => this.activeFormattingElements.entries[i] === entry) &&
+                this.insertionMode === insertionMode &&
+                this.formElement === formElement &&
+                this.treeAdapter.getChildNodes(documentMock).length === 1;
+
+            return isStateRestored && isSourceOrderedTree(this.treeAdapter, elementCopy, 0, endTagOffset)
+                ? elementCopy
+                : null;
+        } finally {
+            this.onParseError = onParseError;
+        }
+    }
+
+    private _pushElementCopy(element: T['element']): T['element'] {
+        const tagName = this.treeAdapter.getTagName(element);
+        const namespaceURI = this.treeAdapter.getNamespaceURI(element);
+        const attrs = this.treeAdapter.getAttrList(element).map((attr) => ({ ...attr }));
+        const copy = this.treeAdapter.createElement(tagName, namespaceURI, attrs);
+        const tagID = getTagID(tagName);
+
+        this.treeAdapter.appendChild(this.openElements.current, copy);
+        this.openElements.push(copy, tagID);
+
+        if (isFormattingElement(tagID, namespaceURI)) {
+            const token: TagToken = {
+                type: TokenType.START_TAG,
+                tagName,
+                tagID,
+                selfClosing: false,
+                ackSelfClosing: false,
+                attrs,
+                location: null,
+            };
+
+            this.activeFormattingElements.pushElement(copy, token);
+        } else if (isMarkerElement(tagID, namespaceURI)) {
+            this.activeFormattingElements.insertMarker();
+        } else if (namespaceURI === NS.HTML && tagID === $.FORM) {
+            this.formElement = copy;
+        } else if (namespaceURI === NS.HTML && tagID === $.HEAD) {
+            this.headElement = copy;
+        }
+
+        return copy;
+    }
+
     tokenizer!: Tokenizer;
     stopped = false;
-    insertionMode = InsertionMode.INITIAL;
+    private _insertionMode = InsertionMode.INITIAL;
     originalInsertionMode = InsertionMode.INITIAL;
 
+    get insertionMode(): InsertionMode {
+        return this._insertionMode;
+    }
+
+    set insertionMode(insertionMode: InsertionMode) {
+        if (insertionMode !== this._insertionMode) {
+            this.onTrace?.({
+                type: TraceEventType.INSERTION_MODE,
+                previousInsertionMode: this._insertionMode,
+                insertionMode,
+                location: this.currentToken?.location ?? null,
+            });
+        }
+
+        this._insertionMode = insertionMode;
+    }
+
     document!: T['document'];
     fragmentContext!: T['element'] | null;
     fragmentContextID = $.UNKNOWN;
@@ -188,6 +670,13 @@ export class Parser<T extends TreeAdapterTypeMap> {
     headElement: null | T['element'] = null;
     formElement: null | T['element'] = null;
     pendingScript: null | T['element'] = null;
+    /**
+     * Called with each `<script>` element once its end tag is processed. The handler can pause the tokenizer
+     * to execute the script before the rest of the input is parsed.
+     */
+    scriptHandler: null | ((scriptElement: T['element']) => void) = null;
+    /** Parsing stops once this element is popped from the stack of open elements. */
+    private reparsedElement: null | T['element'] = null;
 
     openElements!: OpenElementStack<T>;
     activeFormattingElements!: FormattingElementList<T>;
@@ -200,15 +689,28 @@ export class Parser<T extends TreeAdapterTypeMap> {
     tmplInsertionModeStack: InsertionMode[] = [];
 
     pendingCharacterTokens: CharacterToken[] = [];
+    /** Offset of the end of the source which was recorded as the raw source of nodes in the lossless mode. */
+    private rawSourceOffset = 0;
+    /** Elements and documents into which the parser inserted nodes out of the source order in the lossless mode. */
+    private reorderedParents = new Set<T['parentNode']>();
     hasNonWhitespacePendingCharacterToken = false;
 
     framesetOk = true;
     skipNextNewLine = false;
     fosterParentingEnabled = false;
 
+    /** Canonical name of the input encoding. `null` if the input is a string. */
+    encoding: string | null = null;
+    encodingConfidence = ENCODING_CONFIDENCE.IRRELEVANT;
+    /**
+     * Set if a `<meta>` element requested a change of the encoding. Parsing is stopped
+     * and has to be restarted with the new encoding.
+     */
+    pendingEncodingChange: string | null = null;
+
     //Bootstrap parser
     _bootstrap(document: T['document'], fragmentContext: T['element'] | null): void {
-        this.tokenizer = new Tokenizer(this.options);
+        this.tokenizer = new Tokenizer(this.options, this);
 
         this.stopped = false;
 
@@ -223,7 +725,10 @@ export class Parser<T extends TreeAdapterTypeMap> {
         this.headElement = null;
         this.formElement = null;
         this.pendingScript = null;
+        this.reparsedElement = null;
         this.currentToken = null;
+        this.rawSourceOffset = 0;
+        this.reorderedParents.clear();
 
         this.openElements = new OpenElementStack(
             this.document,
@@ -232,7 +737,11 @@ export class Parser<T extends TreeAdapterTypeMap> {
             this.onItemPop.bind(this)
         );
 
-        this.activeFormattingElements = new FormattingElementList(this.treeAdapter);
+        this.activeFormattingElements = new FormattingElementList(
+            this.treeAdapter,
+            this.onFormattingEntryAdd.bind(this),
+            this.onFormattingEntryRemove.bind(this)
+        );
 
         this.tmplInsertionModeStack.length = 0;
 
@@ -242,6 +751,10 @@ export class Parser<T extends TreeAdapterTypeMap> {
         this.framesetOk = true;
         this.skipNextNewLine = false;
         this.fosterParentingEnabled = false;
+
+        this.encoding = null;
+        this.encodingConfidence = ENCODING_CONFIDENCE.IRRELEVANT;
+        this.pendingEncodingChange = null;
     }
 
     //Errors
@@ -262,69 +775,112 @@ export class Parser<T extends TreeAdapterTypeMap> {
         this.onParseError(err);
     }
 
-    //Parsing loop
-    private _runParsingLoop(scriptHandler: null | ((scriptElement: T['element']) => void)): void {
-        while (!this.stopped) {
-            const token = this.tokenizer.getNextToken();
-
-            if (token.type === TokenType.HIBERNATION) {
-                break;
-            }
-
-            if (this.skipNextNewLine) {
-                this.skipNextNewLine = false;
+    //Token handling
+    private _processTokenizerToken(token: Token): void {
+        //NOTE: the tokenizer might emit a few more tokens before it stops.
+        if (this.stopped) {
+            return;
+        }
 
-                if (
-                    token.type === TokenType.WHITESPACE_CHARACTER &&
-                    token.chars.charCodeAt(0) === unicode.CODE_POINTS.LINE_FEED
-                ) {
-                    if (token.chars.length === 1) {
-                        continue;
-                    }
+        if (this.skipNextNewLine) {
+            this.skipNextNewLine = false;
 
-                    token.chars = token.chars.substr(1);
+            if (
+                token.type === TokenType.WHITESPACE_CHARACTER &&
+                token.chars.charCodeAt(0) === unicode.CODE_POINTS.LINE_FEED
+            ) {
+                if (token.chars.length === 1) {
+                    return;
                 }
+
+                token.chars = token.chars.substr(1);
             }
+        }
 
-            this.currentToken = token;
+        this.currentToken = token;
 
-            this._processInputToken(token);
+        this.onTrace?.({
+            type: TraceEventType.TOKEN,
+            token,
+            insertionMode: this.insertionMode,
+            location: token.location,
+        });
 
-            if (scriptHandler !== null && this.pendingScript) {
-                break;
-            }
+        this._processInputToken(token);
+
+        if (this.stopped) {
+            //NOTE: the rest of the input is not tokenized.
+            this.tokenizer.active = false;
+        } else if (this.pendingScript !== null && this.scriptHandler !== null) {
+            const script = this.pendingScript;
+
+            this.pendingScript = null;
+            this.scriptHandler(script);
         }
     }
 
-    public runParsingLoopForCurrentChunk(
-        writeCallback: null | (() => void),
-        scriptHandler: (scriptElement: T['element']) => void
-    ): void {
-        this._runParsingLoop(scriptHandler);
+    //TokenHandler implementation
+    onCharacter(token: CharacterToken): void {
+        this._processTokenizerToken(token);
+    }
 
-        if (scriptHandler && this.pendingScript) {
-            const script = this.pendingScript;
+    onNullCharacter(token: CharacterToken): void {
+        this._processTokenizerToken(token);
+    }
 
-            this.pendingScript = null;
+    onWhitespaceCharacter(token: CharacterToken): void {
+        this._processTokenizerToken(token);
+    }
 
-            scriptHandler(script);
+    onStartTag(token: TagToken): void {
+        this._processTokenizerToken(token);
+    }
 
-            return;
-        }
+    onEndTag(token: TagToken): void {
+        this._processTokenizerToken(token);
+    }
+
+    onComment(token: CommentToken): void {
+        this._processTokenizerToken(token);
+    }
+
+    onDoctype(token: DoctypeToken): void {
+        this._processTokenizerToken(token);
+    }
+
+    onEof(token: EOFToken): void {
+        this._processTokenizerToken(token);
+    }
 
-        writeCallback?.();
+    onInterpolation(token: InterpolationToken): void {
+        //NOTE: the tree construction handles interpolations as text.
+        this._processTokenizerToken({
+            type: TokenType.CHARACTER,
+            chars: token.data,
+            location: token.location,
+            raw: token.raw,
+            interpolation: true,
+        });
     }
 
     //Text parsing
     private onItemPush(node: T['parentNode'], tid: number, isTop: boolean): void {
+        this.onTrace?.({ type: TraceEventType.PUSH, element: node, location: this.currentToken?.location ?? null });
+
         if (isTop && this.openElements.stackTop > 0) this._setContextModes(node, tid);
     }
 
     private onItemPop(node: T['parentNode'], isTop: boolean): void {
+        this.onTrace?.({ type: TraceEventType.POP, element: node, location: this.currentToken?.location ?? null });
+
         if (this.options.sourceCodeLocationInfo) {
             this._setEndLocation(node, this.currentToken!);
         }
 
+        if (node === this.reparsedElement) {
+            this.stopped = true;
+        }
+
         if (isTop) {
             let current;
             let currentTagId;
@@ -340,6 +896,22 @@ export class Parser<T extends TreeAdapterTypeMap> {
         }
     }
 
+    private onFormattingEntryAdd(entry: Entry<T>): void {
+        this.onTrace?.({
+            type: TraceEventType.FORMATTING_ENTRY_ADD,
+            element: entry.type === EntryType.Element ? entry.element : null,
+            location: this.currentToken?.location ?? null,
+        });
+    }
+
+    private onFormattingEntryRemove(entry: Entry<T>): void {
+        this.onTrace?.({
+            type: TraceEventType.FORMATTING_ENTRY_REMOVE,
+            element: entry.type === EntryType.Element ? entry.element : null,
+            location: this.currentToken?.location ?? null,
+        });
+    }
+
     private _setContextModes(current: T['parentNode'], tid: number): void {
         const isHTML = current === this.document || this.treeAdapter.getNamespaceURI(current) === NS.HTML;
 
@@ -363,7 +935,84 @@ export class Parser<T extends TreeAdapterTypeMap> {
         this.tokenizer.state = TokenizerMode.PLAINTEXT;
     }
 
+    //Encoding
+    _changeEncoding(requested: string): void {
+        if (this.encoding === null || this.encodingConfidence !== ENCODING_CONFIDENCE.TENTATIVE) {
+            return;
+        }
+
+        const encoding = getChangedEncoding(this.encoding, requested);
+
+        this.encodingConfidence = ENCODING_CONFIDENCE.CERTAIN;
+
+        //NOTE: we don't attempt to switch the decoder on the fly, the input is always reparsed.
+        if (encoding !== null) {
+            this.pendingEncodingChange = encoding;
+            this.stopped = true;
+        }
+    }
+
     //Fragment parsing
+    private _createFragmentContext(fragmentContext: FragmentContext<T> | null | undefined): T['element'] {
+        //NOTE: use <template> element as a fragment context if context element was not provided,
+        //so we will parse in "forgiving" manner
+        if (fragmentContext == null) {
+            return this.treeAdapter.createElement(TN.TEMPLATE, NS.HTML, []);
+        }
+
+        if (typeof fragmentContext === 'string') {
+            return this.treeAdapter.createElement(toAsciiLowerCase(fragmentContext), NS.HTML, []);
+        }
+
+        if (this._isFragmentContextDescriptor(fragmentContext)) {
+            const { tagName, namespace = NS.HTML, attrs = [] } = fragmentContext;
+
+            for (const key of Object.keys(fragmentContext)) {
+                if (!FRAGMENT_CONTEXT_DESCRIPTOR_KEYS.has(key)) {
+                    throw new TypeError(`Fragment context descriptor has an unknown property: ${key}.`);
+                }
+            }
+
+            if (typeof tagName !== 'string') {
+                throw new TypeError('Fragment context descriptor should have a tag name.');
+            }
+
+            if (!Array.isArray(attrs)) {
+                throw new TypeError('Attributes of a fragment context descriptor should be an array.');
+            }
+
+            let adjustedTagName = tagName;
+
+            if (namespace === NS.HTML) {
+                adjustedTagName = toAsciiLowerCase(tagName);
+            } else if (namespace === NS.SVG) {
+                adjustedTagName = foreignContent.SVG_TAG_NAMES_ADJUSTMENT_MAP.get(tagName) ?? tagName;
+            }
+
+            return this.treeAdapter.createElement(
+                adjustedTagName,
+                namespace,
+                attrs.map((attr) => ({ ...attr }))
+            );
+        }
+
+        return fragmentContext;
+    }
+
+    //NOTE: descriptors are plain objects. Nodes created by tree adapters are either instances of classes,
+    //or elements with a namespace.
+    private _isFragmentContextDescriptor(
+        fragmentContext: T['parentNode'] | FragmentContextDescriptor
+    ): fragmentContext is FragmentContextDescriptor {
+        return (
+            isPlainObject(fragmentContext) &&
+            !(
+                this.treeAdapter.isElementNode(fragmentContext) &&
+                typeof this.treeAdapter.getNamespaceURI(fragmentContext) === 'string'
+            )
+        );
+    }
+
     _getAdjustedCurrentElement(): T['element'] {
         return this.openElements.stackTop === 0 && this.fragmentContext
             ? this.fragmentContext
@@ -374,7 +1023,11 @@ export class Parser<T extends TreeAdapterTypeMap> {
         let node = this.fragmentContext;
 
         while (node) {
-            if (this.treeAdapter.getTagName(node) === TN.FORM) {
+            if (
+                this.treeAdapter.isElementNode(node) &&
+                this.treeAdapter.getTagName(node) === TN.FORM &&
+                this.treeAdapter.getNamespaceURI(node) === NS.HTML
+            ) {
                 this.formElement = node;
                 break;
             }
@@ -383,36 +1036,19 @@ export class Parser<T extends TreeAdapterTypeMap> {
         }
     }
 
+    private _isHTMLFragmentContext(): boolean {
+        return !!this.fragmentContext && this.treeAdapter.getNamespaceURI(this.fragmentContext) === NS.HTML;
+    }
+
     private _initTokenizerForFragmentParsing(): void {
-        if (!this.fragmentContext || this.treeAdapter.getNamespaceURI(this.fragmentContext) !== NS.HTML) {
+        if (!this._isHTMLFragmentContext()) {
             return;
         }
 
-        switch (this.fragmentContextID) {
-            case $.TITLE:
-            case $.TEXTAREA: {
-                this.tokenizer.state = TokenizerMode.RCDATA;
-                break;
-            }
-            case $.STYLE:
-            case $.XMP:
-            case $.IFRAME:
-            case $.NOEMBED:
-            case $.NOFRAMES:
-            case $.NOSCRIPT: {
-                this.tokenizer.state = TokenizerMode.RAWTEXT;
-                break;
-            }
-            case $.SCRIPT: {
-                this.tokenizer.state = TokenizerMode.SCRIPT_DATA;
-                break;
-            }
-            case $.PLAINTEXT: {
-                this.tokenizer.state = TokenizerMode.PLAINTEXT;
-                break;
-            }
-            default:
-            // Do nothing
+        const state = getTextContentTokenizerState(this.fragmentContextID);
+
+        if (state !== null) {
+            this.tokenizer.state = state;
         }
     }
 
@@ -430,6 +1066,8 @@ export class Parser<T extends TreeAdapterTypeMap> {
 
             if (docTypeNode) {
                 this.treeAdapter.setNodeSourceCodeLocation(docTypeNode, token.location);
+                this._setNodeOrigin(docTypeNode, 'explicit', token.location);
+                this._setRawSource(docTypeNode, token);
             }
         }
     }
@@ -457,12 +1095,16 @@ export class Parser<T extends TreeAdapterTypeMap> {
         const element = this.treeAdapter.createElement(token.tagName, namespaceURI, token.attrs);
 
         this._attachElementToTree(element, token.location);
+        this._setNodeOrigin(element, 'explicit', token.location);
+        this._setRawSource(element, token);
     }
 
     _insertElement(token: TagToken, namespaceURI: NS): void {
         const element = this.treeAdapter.createElement(token.tagName, namespaceURI, token.attrs);
 
         this._attachElementToTree(element, token.location);
+        this._setNodeOrigin(element, 'explicit', token.location);
+        this._setRawSource(element, token);
         this.openElements.push(element, token.tagID);
     }
 
@@ -470,22 +1112,64 @@ export class Parser<T extends TreeAdapterTypeMap> {
         const element = this.treeAdapter.createElement(tagName, NS.HTML, []);
 
         this._attachElementToTree(element, null);
+        this._setNodeOrigin(element, 'implied');
+        this._setRawSource(element);
         this.openElements.push(element, tagID);
     }
 
     _insertTemplate(token: TagToken): void {
         const tmpl = this.treeAdapter.createElement(token.tagName, NS.HTML, token.attrs);
-        const content = this.treeAdapter.createDocumentFragment();
+        const shadowRoot = this._attachDeclarativeShadowRoot(token);
+        const content = shadowRoot ?? this.treeAdapter.createDocumentFragment();
 
         this.treeAdapter.setTemplateContent(tmpl, content);
-        this._attachElementToTree(tmpl, token.location);
+
+        //NOTE: the template of a declarative shadow root is only pushed to the stack of open elements,
+        //its content is inserted into the shadow root.
+        if (shadowRoot) {
+            if (this.options.sourceCodeLocationInfo) {
+                this.treeAdapter.setNodeSourceCodeLocation(
+                    tmpl,
+                    token.location && { ...token.location, startTag: token.location }
+                );
+            }
+        } else {
+            this._attachElementToTree(tmpl, token.location);
+        }
+
+        this._setNodeOrigin(tmpl, 'explicit', token.location);
+        this._setRawSource(tmpl, token);
+
         this.openElements.push(tmpl, token.tagID);
         if (this.options.sourceCodeLocationInfo) this.treeAdapter.setNodeSourceCodeLocation(content, null);
     }
 
+    private _attachDeclarativeShadowRoot(token: TagToken): T['documentFragment'] | null {
+        const mode = getTokenAttr(token, ATTRS.SHADOWROOTMODE)?.toLowerCase();
+        const host = this._getAdjustedCurrentElement();
+
+        if (
+            !this.options.allowDeclarativeShadowRoots ||
+            !this.treeAdapter.attachShadowRoot ||
+            (mode !== 'open' && mode !== 'closed') ||
+            host === this.openElements.items[0]
+        ) {
+            return null;
+        }
+
+        return this.treeAdapter.attachShadowRoot(host, {
+            mode,
+            clonable: getTokenAttr(token, ATTRS.SHADOWROOTCLONABLE) !== null,
+            serializable: getTokenAttr(token, ATTRS.SHADOWROOTSERIALIZABLE) !== null,
+            delegatesFocus: getTokenAttr(token, ATTRS.SHADOWROOTDELEGATESFOCUS) !== null,
+        });
+    }
+
     _insertFakeRootElement(): void {
         const element = this.treeAdapter.createElement(TN.HTML, NS.HTML, []);
         if (this.options.sourceCodeLocationInfo) this.treeAdapter.setNodeSourceCodeLocation(element, null);
+        this._setNodeOrigin(element, 'implied');
+        this._setRawSource(element);
 
         this.treeAdapter.appendChild(this.openElements.current, element);
         this.openElements.push(element, $.HTML);
@@ -498,13 +1182,307 @@ export class Parser<T extends TreeAdapterTypeMap> {
         if (this.options.sourceCodeLocationInfo) {
             this.treeAdapter.setNodeSourceCodeLocation(commentNode, token.location);
         }
+        this._setNodeOrigin(commentNode, 'explicit', token.location);
+        this._setRawSource(commentNode, token);
+    }
+
+    /**
+     * Records how the node was created, along with the location of the token which caused it
+     * (the current token by default). Used only if the `nodeOriginInfo` option is enabled.
+     */
+    _setNodeOrigin(
+        node: T['node'],
+        type: NodeOrigin['type'],
+        location: Location | null = this.currentToken?.location ?? null
+    ): void {
+        if (this.options.sourceCodeLocationInfo && this.options.nodeOriginInfo && this.treeAdapter.setNodeOrigin) {
+            this.treeAdapter.setNodeOrigin(node, { type, location });
+        }
+    }
+
+    /**
+     * Records the raw source of the node in the lossless mode. Nodes created by the parser
+     * (e.g. implied elements) have an empty raw source. Characters are appended to the raw
+     * source of the text node they were inserted into.
+     *
+     * Elements cloned by the adoption agency algorithm have an empty raw source as well, but their tags
+     * are implied only if their content is emitted in the source order.
+     */
+    _setRawSource(node: T['node'], token: Token | null = null, cloned = false): void {
+        if (!this.options.lossless || !this.treeAdapter.setNodeRawSource) {
+            return;
+        }
+
+        let startOffset = this.rawSourceOffset;
+        let raw = token ? this._consumeRawSource(token) : '';
+        let endOffset = this.rawSourceOffset;
+
+        //NOTE: `</body>` and `</html>` don't close their elements, so content can be inserted into
+        //them after their end tags. Such end tags precede the inserted node in the source. They are
+        //kept in place if the element is followed by other nodes (e.g. comments after `</body>`).
+        if (raw) {
+            let rawEndTags = '';
+            let ancestor = this.treeAdapter.getParentNode(node);
+
+            while (ancestor) {
+                const rawSource = this.treeAdapter.getNodeRawSource?.(ancestor);
+                const parent = this.treeAdapter.getParentNode(ancestor);
+                const siblings = parent ? this.treeAdapter.getChildNodes(parent) : [];
+
+                if (rawSource?.rawEndTag && siblings[siblings.length - 1] === ancestor) {
+                    rawEndTags += rawSource.rawEndTag;
+                    startOffset = Math.min(startOffset, rawSource.endTagStartOffset);
+                    this.treeAdapter.setNodeRawSource(ancestor, { ...rawSource, rawEndTag: '' });
+                } else if (parent && siblings[siblings.length - 1] !== ancestor) {
+                    //NOTE: the node is inserted before the following siblings of its ancestor, which precede it
+                    //in the source (e.g. elements inserted into `<head>` after `</head>` and a comment).
+                    this._recordReorderedContent(parent);
+                }
+
+                ancestor = parent;
+            }
+
+            raw = rawEndTags + raw;
+        }
+
+        const textRawSource = this.treeAdapter.isTextNode(node) ? this.treeAdapter.getNodeRawSource?.(node) : null;
+
+        if (textRawSource?.raw) {
+            ({ startOffset } = textRawSource);
+            endOffset = raw ? endOffset : textRawSource.endOffset;
+            raw = textRawSource.raw + raw;
+        }
+
+        this.treeAdapter.setNodeRawSource(node, {
+            raw,
+            rawEndTag: '',
+            snapshot: getRawSourceSnapshot(this.treeAdapter, node),
+            startOffset,
+            endOffset,
+            endTagStartOffset: endOffset,
+            cloned,
+        });
+    }
+
+    /**
+     * Updates the state of the element in its raw source in the lossless mode, after the parser added
+     * attributes to it (e.g. from a misplaced `<body>` tag). The tag itself is a part of the ignored source.
+     */
+    _updateRawSourceSnapshot(element: T['element']): void {
+        const rawSource = this.options.lossless ? this.treeAdapter.getNodeRawSource?.(element) : null;
+
+        if (rawSource) {
+            this.treeAdapter.setNodeRawSource?.(element, {
+                ...rawSource,
+                snapshot: getRawSourceSnapshot(this.treeAdapter, element),
+            });
+        }
+    }
+
+    /**
+     * Returns the source of the element removed by the parser (e.g. `<body>` replaced by `<frameset>`)
+     * to the ignored source in the lossless mode, so it's emitted along with the raw source of the next node.
+     */
+    _discardRawSource(element: T['element']): void {
+        const rawSource = this.options.lossless ? this.treeAdapter.getNodeRawSource?.(element) : null;
+
+        if (!rawSource) {
+            return;
+        }
+
+        this.rawSourceOffset = Math.min(this.rawSourceOffset, rawSource.startOffset);
+
+        //NOTE: end tags of the ancestors (e.g. `</html>`) might be recorded after the element was inserted.
+        for (let ancestor = this.treeAdapter.getParentNode(element); ancestor; ) {
+            const ancestorRawSource = this.treeAdapter.getNodeRawSource?.(ancestor);
+
+            if (ancestorRawSource?.rawEndTag && ancestorRawSource.endTagStartOffset >= this.rawSourceOffset) {
+                this.treeAdapter.setNodeRawSource?.(ancestor, { ...ancestorRawSource, rawEndTag: '' });
+            }
+
+            ancestor = this.treeAdapter.getParentNode(ancestor);
+        }
+    }
+
+    /**
+     * Records the source at the end of the input, which was ignored by the parser (e.g. end tags
+     * of elements which are not open), as the raw source of the document in the lossless mode.
+     */
+    _setTrailingRawSource(): void {
+        if (!this.options.lossless || !this.treeAdapter.setNodeRawSource) {
+            return;
+        }
+
+        const { html } = this.tokenizer.preprocessor;
+        const startOffset = this.rawSourceOffset;
+
+        this.rawSourceOffset = html.length;
+
+        this.treeAdapter.setNodeRawSource(this.document, {
+            raw: html.slice(startOffset),
+            rawEndTag: '',
+            snapshot: '',
+            startOffset,
+            endOffset: html.length,
+            endTagStartOffset: html.length,
+            cloned: false,
+        });
+    }
+
+    /**
+     * Records that the parser inserted nodes into the parent out of the source order in the lossless mode
+     * (e.g. by foster parenting). Once parsing is complete, the raw source of the parent along with its content
+     * is recorded (see {@link _setRawOuterHtml}).
+     */
+    _recordReorderedContent(parent: T['parentNode']): void {
+        if (!this.options.lossless) {
+            return;
+        }
+
+        if (this.treeAdapter.isElementNode(parent) || parent === this.document) {
+            this.reorderedParents.add(parent);
+            return;
+        }
+
+        //NOTE: nodes can be foster parented into the content of a template.
+        for (let i = this.openElements.stackTop; i >= 0; i--) {
+            const element = this.openElements.items[i];
+
+            if (
+                this.openElements.tagIDs[i] === $.TEMPLATE &&
+                this.treeAdapter.getNamespaceURI(element) === NS.HTML &&
+                this.treeAdapter.getTemplateContent(element) === parent
+            ) {
+                this.reorderedParents.add(element);
+                return;
+            }
+        }
+    }
+
+    /**
+     * Records the raw source along with the content of the elements and documents, into which the parser inserted
+     * nodes out of the source order. The content is skipped if the source of other nodes is interleaved with it,
+     * e.g. if some of its nodes were moved out of the element. The raw source of documents consists of their content.
+     */
+    _setRawOuterHtml(): void {
+        for (const parent of this.reorderedParents) {
+            const rawSource = this.treeAdapter.getNodeRawSource?.(parent);
+
+            if (!rawSource || rawSource.cloned) {
+                continue;
+            }
+
+            const contentSnapshot = getRawContentSnapshot(this.treeAdapter, parent);
+            const extent = { startOffset: Number.POSITIVE_INFINITY, endOffset: 0, length: 0 };
+
+            if (this.treeAdapter.isElementNode(parent)) {
+                this._measureRawSource(parent, extent);
+            } else {
+                for (const child of this.treeAdapter.getChildNodes(parent)) {
+                    this._measureRawSource(child, extent);
+                }
+            }
+
+            if (
+                contentSnapshot !== null &&
+                extent.length > 0 &&
+                extent.length === extent.endOffset - extent.startOffset
+            ) {
+                this.treeAdapter.setNodeRawSource?.(parent, {
+                    ...rawSource,
+                    rawOuterHtml: this.tokenizer.preprocessor.html.slice(extent.startOffset, extent.endOffset),
+                    contentSnapshot,
+                });
+            }
+        }
+
+        this.reorderedParents.clear();
+    }
+
+    /** Extends the extent with the parts of the source recorded as the raw source of the node and its descendants. */
+    private _measureRawSource(
+        node: T['node'],
+        extent: { startOffset: number; endOffset: number; length: number }
+    ): void {
+        const rawSource = this.treeAdapter.getNodeRawSource?.(node);
+
+        if (rawSource?.raw) {
+            extent.startOffset = Math.min(extent.startOffset, rawSource.startOffset);
+            extent.endOffset = Math.max(extent.endOffset, rawSource.endOffset);
+            extent.length += rawSource.raw.length;
+        }
+
+        if (rawSource?.rawEndTag) {
+            extent.startOffset = Math.min(extent.startOffset, rawSource.endTagStartOffset);
+            extent.endOffset = Math.max(extent.endOffset, rawSource.endTagStartOffset + rawSource.rawEndTag.length);
+            extent.length += rawSource.rawEndTag.length;
+        }
+
+        if (this.treeAdapter.isElementNode(node)) {
+            const childNodesHolder =
+                this.treeAdapter.getTagName(node) === TN.TEMPLATE && this.treeAdapter.getNamespaceURI(node) === NS.HTML
+                    ? this.treeAdapter.getTemplateContent(node)
+                    : node;
+
+            for (const child of this.treeAdapter.getChildNodes(childNodesHolder)) {
+                this._measureRawSource(child, extent);
+            }
+        }
+    }
+
+    /**
+     * Returns the raw source of the token, prefixed with the source of the preceding tokens
+     * which were ignored by the parser. Returns an empty string if the token was already consumed
+     * (e.g. by an element which was reconstructed from it).
+     */
+    private _consumeRawSource(token: Token): string {
+        if (!token.location || token.raw === undefined || token.location.endOffset <= this.rawSourceOffset) {
+            return '';
+        }
+
+        const { startOffset, endOffset } = token.location;
+        const ignoredSource = this.tokenizer.preprocessor.html.slice(this.rawSourceOffset, startOffset);
+
+        this.rawSourceOffset = endOffset;
+
+        return ignoredSource + token.raw;
+    }
+
+    _insertInterpolationNode(token: CharacterToken, node: T['childNode']): void {
+        if (this._shouldFosterParentOnInsertion()) {
+            const { parent, beforeElement } = this._findFosterParentingLocation();
+
+            if (beforeElement) {
+                this.treeAdapter.insertBefore(parent, node, beforeElement);
+            } else {
+                this.treeAdapter.appendChild(parent, node);
+            }
+
+            this._recordReorderedContent(parent);
+            this._traceFosterParenting(node, parent, beforeElement, token.location);
+        } else {
+            this.treeAdapter.appendChild(this.openElements.currentTmplContentOrNode, node);
+        }
+
+        if (this.options.sourceCodeLocationInfo) {
+            this.treeAdapter.setNodeSourceCodeLocation(node, token.location);
+        }
+
+        this._setNodeOrigin(node, 'explicit', token.location);
+        this._setRawSource(node, token);
     }
 
     _insertCharacters(token: CharacterToken): void {
+        if (token.interpolation && this.treeAdapter.createInterpolationNode) {
+            this._insertInterpolationNode(token, this.treeAdapter.createInterpolationNode(token.chars));
+            return;
+        }
+
+        const isFosterParented = this._shouldFosterParentOnInsertion();
         let parent;
         let beforeElement;
 
-        if (this._shouldFosterParentOnInsertion()) {
+        if (isFosterParented) {
             ({ parent, beforeElement } = this._findFosterParentingLocation());
 
             if (beforeElement) {
@@ -525,13 +1503,33 @@ export class Parser<T extends TreeAdapterTypeMap> {
         const textNode = siblings[textNodeIdx - 1];
 
         //NOTE: if we have location assigned by another token, then just update end position
-        const tnLoc = this.treeAdapter.getNodeSourceCodeLocation(textNode);
+        const tnLoc = this.treeAdapter.getNodeSourceCodeLocation(textNode) as TextLocation | null | undefined;
 
         if (tnLoc) {
             const { endLine, endCol, endOffset } = token.location;
-            this.treeAdapter.updateNodeSourceCodeLocation(textNode, { endLine, endCol, endOffset });
+            const endLocation: Partial<TextLocation> = { endLine, endCol, endOffset };
+
+            if (tnLoc.segments) {
+                appendTextSegment(tnLoc.segments, token.location);
+                endLocation.segments = tnLoc.segments;
+            }
+
+            this.treeAdapter.updateNodeSourceCodeLocation(textNode, endLocation);
         } else if (this.options.sourceCodeLocationInfo) {
-            this.treeAdapter.setNodeSourceCodeLocation(textNode, token.location);
+            const location: TextLocation = this.options.nodeOriginInfo
+                ? { ...token.location, segments: [{ ...token.location }] }
+                : { ...token.location };
+
+            this.treeAdapter.setNodeSourceCodeLocation(textNode, location);
+            this._setNodeOrigin(textNode, 'explicit', token.location);
+        }
+
+        this._setRawSource(textNode, token);
+
+        if (isFosterParented) {
+            this._recordReorderedContent(parent);
+            //NOTE: character tokens in tables are inserted later, so we report the location of the characters.
+            this._traceFosterParenting(textNode, parent, beforeElement ?? null, token.location);
         }
     }
 
@@ -543,13 +1541,13 @@ export class Parser<T extends TreeAdapterTypeMap> {
     }
 
     _setEndLocation(element: T['element'], closingToken: Token): void {
+        const tn = this.treeAdapter.getTagName(element);
+        // NOTE: For cases like <p> <p> </p> - First 'p' closes without a closing
+        // tag and for cases like <td> <p> </td> - 'p' closes without a closing tag.
+        const isClosingEndTag = closingToken.type === TokenType.END_TAG && tn === closingToken.tagName;
+
         if (this.treeAdapter.getNodeSourceCodeLocation(element) && closingToken.location) {
             const ctLoc = closingToken.location;
-            const tn = this.treeAdapter.getTagName(element);
-
-            // NOTE: For cases like <p> <p> </p> - First 'p' closes without a closing
-            // tag and for cases like <td> <p> </td> - 'p' closes without a closing tag.
-            const isClosingEndTag = closingToken.type === TokenType.END_TAG && tn === closingToken.tagName;
             const endLoc: Partial<ElementLocation> = {};
             if (isClosingEndTag) {
                 endLoc.endTag = { ...ctLoc };
@@ -564,6 +1562,20 @@ export class Parser<T extends TreeAdapterTypeMap> {
 
             this.treeAdapter.updateNodeSourceCodeLocation(element, endLoc);
         }
+
+        if (isClosingEndTag && this.options.lossless && this.treeAdapter.setNodeRawSource) {
+            const rawSource = this.treeAdapter.getNodeRawSource?.(element);
+
+            if (rawSource) {
+                const endTagStartOffset = this.rawSourceOffset;
+
+                this.treeAdapter.setNodeRawSource(element, {
+                    ...rawSource,
+                    rawEndTag: this._consumeRawSource(closingToken),
+                    endTagStartOffset,
+                });
+            }
+        }
     }
 
     //Token processing
@@ -778,6 +1790,7 @@ export class Parser<T extends TreeAdapterTypeMap> {
                 const entry = this.activeFormattingElements.entries[i] as ElementEntry<T>;
                 this._insertElement(entry.token, this.treeAdapter.getNamespaceURI(entry.element));
                 entry.element = this.openElements.current;
+                this._setNodeOrigin(entry.element, 'cloned');
             }
         }
     }
@@ -798,6 +1811,12 @@ export class Parser<T extends TreeAdapterTypeMap> {
     //Insertion modes
     _resetInsertionMode(): void {
         for (let i = this.openElements.stackTop; i >= 0; i--) {
+            //NOTE: a foreign context element doesn't determine the insertion mode, even if it has the same tag name as
+            //one of the HTML elements below.
+            if (i === 0 && this.fragmentContext && !this._isHTMLFragmentContext()) {
+                break;
+            }
+
             //Insertion mode reset map
             switch (i === 0 && this.fragmentContext ? this.fragmentContextID : this.openElements.tagIDs[i]) {
                 case $.TR:
@@ -912,6 +1931,32 @@ export class Parser<T extends TreeAdapterTypeMap> {
         } else {
             this.treeAdapter.appendChild(location.parent, element);
         }
+
+        this._recordReorderedContent(location.parent);
+        this._traceFosterParenting(
+            element,
+            location.parent,
+            location.beforeElement,
+            this.currentToken?.location ?? null
+        );
+    }
+
+    private _traceFosterParenting(
+        node: T['childNode'],
+        parent: T['parentNode'],
+        beforeElement: T['element'] | null,
+        location: Location | null
+    ): void {
+        this.onTrace?.({ type: TraceEventType.FOSTER_PARENTING, node, parent, beforeElement, location });
+    }
+
+    _traceAdoptionAgency(token: TagToken, formattingElement: T['element'], furthestBlock: T['element'] | null): void {
+        this.onTrace?.({
+            type: TraceEventType.ADOPTION_AGENCY,
+            formattingElement,
+            furthestBlock,
+            location: token.location,
+        });
     }
 
     //Special elements
@@ -1022,6 +2067,8 @@ function aaRecreateElementFromEntry<T extends TreeAdapterTypeMap>(
     const ns = p.treeAdapter.getNamespaceURI(elementEntry.element);
     const newElement = p.treeAdapter.createElement(elementEntry.token.tagName, ns, elementEntry.token.attrs);
 
+    p._setNodeOrigin(newElement, 'cloned');
+    p._setRawSource(newElement, null, true);
     p.openElements.replace(elementEntry.element, newElement);
     elementEntry.element = newElement;
 
@@ -1060,6 +2107,8 @@ function aaReplaceFormattingElement<T extends TreeAdapterTypeMap>(
     const { token } = formattingElementEntry;
     const newElement = p.treeAdapter.createElement(token.tagName, ns, token.attrs);
 
+    p._setNodeOrigin(newElement, 'cloned');
+    p._setRawSource(newElement, null, true);
     p._adoptNodes(furthestBlock, newElement);
     p.treeAdapter.appendChild(furthestBlock, newElement);
 
@@ -1081,6 +2130,8 @@ function callAdoptionAgency<T extends TreeAdapterTypeMap>(p: Parser<T>, token: T
 
         const furthestBlock = aaObtainFurthestBlock(p, formattingElementEntry);
 
+        p._traceAdoptionAgency(token, formattingElementEntry.element, furthestBlock);
+
         if (!furthestBlock) {
             break;
         }
@@ -1090,6 +2141,10 @@ function callAdoptionAgency<T extends TreeAdapterTypeMap>(p: Parser<T>, token: T
         const lastElement = aaInnerLoop(p, furthestBlock, formattingElementEntry.element);
         const commonAncestor = p.openElements.getCommonAncestor(formattingElementEntry.element);
 
+        if (commonAncestor) {
+            p._recordReorderedContent(commonAncestor);
+        }
+
         p.treeAdapter.detachNode(lastElement);
         if (commonAncestor) aaInsertLastNodeInCommonAncestor(p, commonAncestor, lastElement);
         aaReplaceFormattingElement(p, furthestBlock, formattingElementEntry);
@@ -1120,6 +2175,9 @@ function stopParsing<T extends TreeAdapterTypeMap>(p: Parser<T>, token: EOFToken
             p._setEndLocation(p.openElements.items[i], token);
         }
     }
+
+    p._setTrailingRawSource();
+    p._setRawOuterHtml();
 }
 
 // The "initial" insertion mode
@@ -1325,12 +2383,15 @@ function startTagInHead<T extends TreeAdapterTypeMap>(p: Parser<T>, token: TagTo
         case $.BASE:
         case $.BASEFONT:
         case $.BGSOUND:
-        case $.LINK:
-        case $.META: {
+        case $.LINK: {
             p._appendElement(token, NS.HTML);
             token.ackSelfClosing = true;
             break;
         }
+        case $.META: {
+            metaStartTagInHead(p, token);
+            break;
+        }
         case $.TITLE: {
             p._switchToTextParsing(token, TokenizerMode.RCDATA);
             break;
@@ -1371,6 +2432,19 @@ function startTagInHead<T extends TreeAdapterTypeMap>(p: Parser<T>, token: TagTo
     }
 }
 
+function metaStartTagInHead<T extends TreeAdapterTypeMap>(p: Parser<T>, token: TagToken): void {
+    p._appendElement(token, NS.HTML);
+    token.ackSelfClosing = true;
+
+    if (p.encodingConfidence === ENCODING_CONFIDENCE.TENTATIVE) {
+        const encoding = getMetaElementEncoding(token.attrs);
+
+        if (encoding !== null) {
+            p._changeEncoding(encoding);
+        }
+    }
+}
+
 function endTagInHead<T extends TreeAdapterTypeMap>(p: Parser<T>, token: TagToken): void {
     switch (token.tagID) {
         case $.HEAD: {
@@ -1649,6 +2723,7 @@ function characterInBody<T extends TreeAdapterTypeMap>(p: Parser<T>, token: Char
 function htmlStartTagInBody<T extends TreeAdapterTypeMap>(p: Parser<T>, token: TagToken): void {
     if (p.openElements.tmplCount === 0) {
         p.treeAdapter.adoptAttributes(p.openElements.items[0], token.attrs);
+        p._updateRawSourceSnapshot(p.openElements.items[0]);
     }
 }
 
@@ -1658,6 +2733,7 @@ function bodyStartTagInBody<T extends TreeAdapterTypeMap>(p: Parser<T>, token: T
     if (bodyElement && p.openElements.tmplCount === 0) {
         p.framesetOk = false;
         p.treeAdapter.adoptAttributes(bodyElement, token.attrs);
+        p._updateRawSourceSnapshot(bodyElement);
     }
 }
 
@@ -1665,6 +2741,7 @@ function framesetStartTagInBody<T extends TreeAdapterTypeMap>(p: Parser<T>, toke
     const bodyElement = p.openElements.tryPeekProperlyNestedBodyElement();
 
     if (p.framesetOk && bodyElement) {
+        p._discardRawSource(bodyElement);
         p.treeAdapter.detachNode(bodyElement);
         p.openElements.popAllUpToHtmlElement();
         p._insertElement(token, NS.HTML);
@@ -2283,9 +3360,11 @@ function appletEndTagInBody<T extends TreeAdapterTypeMap>(p: Parser<T>, token: T
     }
 }
 
-function brEndTagInBody<T extends TreeAdapterTypeMap>(p: Parser<T>): void {
+function brEndTagInBody<T extends TreeAdapterTypeMap>(p: Parser<T>, token: TagToken): void {
     p._reconstructActiveFormattingElements();
     p._insertFakeElement(TN.BR, $.BR);
+    //NOTE: the element has no end tag, so the end tag it was created from is its raw start tag.
+    p._setRawSource(p.openElements.current, token);
     p.openElements.pop();
     p.framesetOk = false;
 }
@@ -2381,7 +3460,7 @@ function endTagInBody<T extends TreeAdapterTypeMap>(p: Parser<T>, token: TagToke
             break;
         }
         case $.BR: {
-            brEndTagInBody(p);
+            brEndTagInBody(p, token);
             break;
         }
         case $.BODY: {
@@ -2675,12 +3754,13 @@ function modeInTableText<T extends TreeAdapterTypeMap>(p: Parser<T>, token: Toke
     }
 }
 
+//NOTE: the tokenizer reuses character tokens, so pending tokens are copied.
 function whitespaceCharacterInTableText<T extends TreeAdapterTypeMap>(p: Parser<T>, token: CharacterToken): void {
-    p.pendingCharacterTokens.push(token);
+    p.pendingCharacterTokens.push({ ...token });
 }
 
 function characterInTableText<T extends TreeAdapterTypeMap>(p: Parser<T>, token: CharacterToken): void {
-    p.pendingCharacterTokens.push(token);
+    p.pendingCharacterTokens.push({ ...token });
     p.hasNonWhitespacePendingCharacterToken = true;
 }
 
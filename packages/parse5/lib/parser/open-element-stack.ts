@@ -14,7 +14,7 @@ const IMPLICIT_END_TAG_REQUIRED_THOROUGHLY = new Set([
     $.THEAD,
     $.TR,
 ]);
-const SCOPING_ELEMENT_NS = new Map<$, NS>([
+export const SCOPING_ELEMENT_NS = new Map<$, NS>([
     [$.APPLET, NS.HTML],
     [$.CAPTION, NS.HTML],
     [$.HTML, NS.HTML],
@@ -128,7 +128,7 @@ export class OpenElementStack<T extends TreeAdapterTypeMap> {
             this._updateCurrentElement();
         }
 
-        this.onItemPush(this.current, this.currentTagId, insertionIdx === this.stackTop);
+        this.onItemPush(newElement, newElementID, insertionIdx === this.stackTop);
     }
 
     popUntilTagNamePopped(tagName: $): void {
@@ -8,6 +8,8 @@ import {
 } from 'parse5-test-utils/utils/generate-location-info-parser-tests.js';
 import { generateTestsForEachTreeAdapter, treeAdapters } from 'parse5-test-utils/utils/common.js';
 import { TreeAdapterTypeMap } from 'parse5/dist/tree-adapters/interface.js';
+import type { Location } from 'parse5/dist/common/token.js';
+import type { ParentNode, ChildNode, Element, TextNode } from 'parse5/dist/tree-adapters/default.js';
 
 generateLocationInfoParserTests(
     'location-info-parser',
@@ -132,6 +134,59 @@ generateTestsForEachTreeAdapter('location-info-parser', (treeAdapter) => {
 
         assert.ok(!location.endTag);
     });
+
+    test('Attribute name, `=` sign and value locations', () => {
+        const html = '<div a="1" b = \'2\'\nc=3 d e=>';
+        const fragment = parse5.parseFragment(html, {
+            treeAdapter,
+            sourceCodeLocationInfo: true,
+            attributeLocationInfo: true,
+        });
+        const location = treeAdapter.getNodeSourceCodeLocation(treeAdapter.getChildNodes(fragment)[0]);
+        const getSource = (loc: Location | null | undefined): string | null =>
+            loc ? html.slice(loc.startOffset, loc.endOffset) : null;
+
+        assert.ok(location?.attrs);
+
+        const attrs = Object.entries(location.attrs).map(([name, attr]) => [
+            name,
+            getSource(attr),
+            getSource(attr.name),
+            getSource(attr.equalsSign),
+            getSource(attr.value),
+            getSource(attr.quotedValue),
+            attr.quote,
+        ]);
+
+        assert.deepStrictEqual(attrs, [
+            ['a', 'a="1"', 'a', '=', '1', '"1"', '"'],
+            ['b', "b = '2'", 'b', '=', '2', "'2'", "'"],
+            ['c', 'c=3', 'c', '=', '3', '3', null],
+            ['d', 'd', 'd', null, null, null, null],
+            ['e', 'e', 'e', '=', null, null, null],
+        ]);
+
+        const { value } = location.attrs['c'];
+
+        assert.ok(value);
+        assert.deepStrictEqual([value.startLine, value.startCol, value.endLine, value.endCol], [2, 3, 2, 4]);
+    });
+
+    test('Attribute part locations are omitted by default', () => {
+        const fragment = parse5.parseFragment('<div a="1" b>', { treeAdapter, sourceCodeLocationInfo: true });
+        const location = treeAdapter.getNodeSourceCodeLocation(treeAdapter.getChildNodes(fragment)[0]);
+
+        assert.ok(location?.attrs);
+        assert.deepStrictEqual(Object.keys(location.attrs['a']), [
+            'startLine',
+            'startCol',
+            'startOffset',
+            'endLine',
+            'endCol',
+            'endOffset',
+        ]);
+        assert.strictEqual(location.attrs['b'].endOffset, 12);
+    });
 });
 
 describe('location-info-parser', () => {
@@ -191,4 +246,93 @@ describe('location-info-parser', () => {
             end: { line: 1, column: 33, offset: 32 },
         });
     });
+
+    it('Start offsets of text starting with a surrogate pair', () => {
+        const html = '<p>\u{1F600}a</p><b>\u{1F600}</b>';
+        const fragment = parse5.parseFragment(html, { sourceCodeLocationInfo: true });
+        const locations = fragment.childNodes.map((node) => (node as Element).childNodes[0].sourceCodeLocation);
+
+        assert.deepStrictEqual(
+            locations.map((loc) => loc && html.slice(loc.startOffset, loc.endOffset)),
+            ['\u{1F600}a', '\u{1F600}']
+        );
+        assert.deepStrictEqual(
+            locations.map((loc) => loc && [loc.startCol, loc.startOffset]),
+            [
+                [4, 3],
+                [14, 13],
+            ]
+        );
+    });
+
+    it('Node origins', () => {
+        const html = '<table><tr><td>a</table><p><b>b<p>c</b></p><i><div>d</i>';
+        const document = parse5.parse(html, { sourceCodeLocationInfo: true, nodeOriginInfo: true });
+        const origins: [string, string, string | null][] = [];
+        const getSource = (loc: Location | null): string | null => loc && html.slice(loc.startOffset, loc.endOffset);
+
+        const collectOrigins = (node: ParentNode): void => {
+            for (const child of node.childNodes) {
+                if (treeAdapters.default.isElementNode(child)) {
+                    assert.ok(child.origin);
+                    origins.push([child.tagName, child.origin.type, getSource(child.origin.location)]);
+                    collectOrigins(child);
+                }
+            }
+        };
+
+        collectOrigins(document);
+
+        assert.deepStrictEqual(origins, [
+            ['html', 'implied', '<table>'],
+            ['head', 'implied', '<table>'],
+            ['body', 'implied', '<table>'],
+            ['table', 'explicit', '<table>'],
+            ['tbody', 'implied', '<tr>'],
+            ['tr', 'explicit', '<tr>'],
+            ['td', 'explicit', '<td>'],
+            ['p', 'explicit', '<p>'],
+            ['b', 'explicit', '<b>'],
+            ['p', 'explicit', '<p>'],
+            ['b', 'cloned', 'c'],
+            ['i', 'explicit', '<i>'],
+            ['div', 'explicit', '<div>'],
+            ['i', 'cloned', '</i>'],
+        ]);
+    });
+
+    it('Text node segments', () => {
+        const html = '<p>a</x>b c</p><table>d<tr>e</table>';
+        const document = parse5.parse(html, { sourceCodeLocationInfo: true, nodeOriginInfo: true });
+        const body = parse5.querySelector(document, 'body');
+        const getSegments = (node: ChildNode | undefined): string[] | undefined =>
+            (node as TextNode).sourceCodeLocation?.segments?.map((loc) => html.slice(loc.startOffset, loc.endOffset));
+
+        assert.ok(body);
+        assert.deepStrictEqual(getSegments((body.childNodes[0] as Element).childNodes[0]), ['a', 'b c']);
+        assert.deepStrictEqual(getSegments(body.childNodes[1]), ['d', 'e']);
+        assert.strictEqual((body.childNodes[1] as TextNode).origin?.type, 'explicit');
+    });
+
+    it('Text node segments are appended in linear time', () => {
+        const document = parse5.parse(`<body>${'a</x>'.repeat(40_000)}`, {
+            sourceCodeLocationInfo: true,
+            nodeOriginInfo: true,
+        });
+        const body = parse5.querySelector(document, 'body');
+
+        assert.strictEqual((body?.childNodes[0] as TextNode).sourceCodeLocation?.segments?.length, 40_000);
+    });
+
+    it('Node origins and text node segments are omitted by default', () => {
+        const document = parse5.parse('<p>a</x>b<b>c<p>d</b>', { sourceCodeLocationInfo: true });
+        const p = parse5.querySelector(document, 'p');
+        const text = p?.childNodes[0] as TextNode;
+
+        assert.ok(p?.sourceCodeLocation);
+        assert.strictEqual(p.origin, undefined);
+        assert.strictEqual(text.origin, undefined);
+        assert.strictEqual(text.sourceCodeLocation?.segments, undefined);
+        assert.strictEqual(text.sourceCodeLocation?.endOffset, 9);
+    });
 });
@@ -0,0 +1,78 @@
+import type { Location, Token } from '../common/token.js';
+import type { TreeAdapterTypeMap } from '../tree-adapters/interface.js';
+import type { InsertionMode } from './index.js';
+
+export enum TraceEventType {
+    TOKEN,
+    INSERTION_MODE,
+    PUSH,
+    POP,
+    FORMATTING_ENTRY_ADD,
+    FORMATTING_ENTRY_REMOVE,
+    ADOPTION_AGENCY,
+    FOSTER_PARENTING,
+}
+
+interface TraceEventBase {
+    readonly type: TraceEventType;
+    /** Location of the token that caused the event. `null` for the events that happen before the first token. */
+    location: Location | null;
+}
+
+/** The parser starts processing a token. */
+export interface TokenTraceEvent extends TraceEventBase {
+    readonly type: TraceEventType.TOKEN;
+    token: Token;
+    /** The insertion mode the token is processed in. */
+    insertionMode: InsertionMode;
+}
+
+/** The parser switches the insertion mode. */
+export interface InsertionModeTraceEvent extends TraceEventBase {
+    readonly type: TraceEventType.INSERTION_MODE;
+    previousInsertionMode: InsertionMode;
+    insertionMode: InsertionMode;
+}
+
+/** An element is pushed to or popped from the stack of open elements. */
+export interface OpenElementTraceEvent<T extends TreeAdapterTypeMap> extends TraceEventBase {
+    readonly type: TraceEventType.PUSH | TraceEventType.POP;
+    element: T['element'];
+}
+
+/** An entry is added to or removed from the list of active formatting elements. */
+export interface FormattingEntryTraceEvent<T extends TreeAdapterTypeMap> extends TraceEventBase {
+    readonly type: TraceEventType.FORMATTING_ENTRY_ADD | TraceEventType.FORMATTING_ENTRY_REMOVE;
+    /** Element of the entry. `null` for markers. */
+    element: T['element'] | null;
+}
+
+/** The [adoption agency algorithm](https://html.spec.whatwg.org/multipage/parsing.html#adoption-agency-algorithm) runs its outer loop. */
+export interface AdoptionAgencyTraceEvent<T extends TreeAdapterTypeMap> extends TraceEventBase {
+    readonly type: TraceEventType.ADOPTION_AGENCY;
+    formattingElement: T['element'];
+    /**
+     * The element the content after the formatting element is moved into. If it is `null`, the formatting element
+     * and the elements after it are popped from the stack of open elements, and the tree stays intact.
+     */
+    furthestBlock: T['element'] | null;
+}
+
+/** A node is inserted at the [foster parenting](https://html.spec.whatwg.org/multipage/parsing.html#foster-parent) location. */
+export interface FosterParentingTraceEvent<T extends TreeAdapterTypeMap> extends TraceEventBase {
+    readonly type: TraceEventType.FOSTER_PARENTING;
+    node: T['childNode'];
+    parent: T['parentNode'];
+    /** The node is inserted before this element. If it is `null`, the node is appended to the parent. */
+    beforeElement: T['element'] | null;
+}
+
+export type TraceEvent<T extends TreeAdapterTypeMap> =
+    | TokenTraceEvent
+    | InsertionModeTraceEvent
+    | OpenElementTraceEvent<T>
+    | FormattingEntryTraceEvent<T>
+    | AdoptionAgencyTraceEvent<T>
+    | FosterParentingTraceEvent<T>;
+
+export type ParserTraceHandler<T extends TreeAdapterTypeMap> = (event: TraceEvent<T>) => void;
@@ -0,0 +1,118 @@
+import * as assert from 'node:assert';
+import * as parse5 from 'parse5';
+import type { SanitizerOptions } from 'parse5';
+import { TAG_NAMES as $, NAMESPACES as NS } from '../common/html.js';
+import * as defaultTreeAdapter from '../tree-adapters/default.js';
+import type { DefaultTreeAdapterMap } from '../tree-adapters/default.js';
+
+const MUTATION_XSS_VECTORS = [
+    '<svg><style><img src=x onerror=alert(1)></style></svg>',
+    '<svg></p><style><a id="</style><img src=1 onerror=alert(1)>">',
+    '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)></style></mglyph></table></mtext></math>',
+    '<form><math><mtext></form><form><mglyph><style></math><img src onerror=alert(1)>',
+    '<math><mi><mglyph><svg><mtext><style><a title="</style><img src onerror=alert(1)>">',
+    '<math><annotation-xml encoding="text/html"><style><img src=x onerror=alert(1)></style></annotation-xml></math>',
+    '<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>',
+    '<svg><foreignObject><p><style><img src=x onerror=alert(1)></style></p></foreignObject></svg>',
+    '<table><svg><desc><td></td><style><img src=x onerror=alert(1)></style></desc></svg></table>',
+];
+
+const FOREIGN_CONTENT_OPTIONS: SanitizerOptions<DefaultTreeAdapterMap> = {
+    elements: { a: ['id'], form: [], p: [], style: [], table: [], td: [], tr: [], tbody: [] },
+    svgElements: { svg: [], style: [], desc: [], foreignObject: [] },
+    mathElements: { math: [], mi: [], mtext: [], mglyph: [], 'annotation-xml': ['encoding'] },
+    removeContents: [],
+};
+
+describe('sanitizer', () => {
+    it('Removes disallowed elements and attributes', () => {
+        assert.strictEqual(
+            parse5.sanitize('<p onclick="alert(1)" title="t">Hi <blink>there</blink>!<script>alert(2)</script></p>'),
+            '<p title="t">Hi there!</p>'
+        );
+        assert.strictEqual(parse5.sanitize('<img src="a.png" srcset="b.png"><!--comment-->'), '<img src="a.png">');
+        assert.strictEqual(
+            parse5.sanitize('<b class="x">1</b><!--2-->', { elements: { b: ['class'] }, allowComments: true }),
+            '<b class="x">1</b><!--2-->'
+        );
+    });
+
+    it('Removes URLs with disallowed schemes', () => {
+        assert.strictEqual(
+            parse5.sanitize(
+                '<a href="javascript:alert(1)">1</a><a href=" JaVa&#x09;script&colon;alert(2)">2</a>' +
+                    '<a href="data:text/html,x">3</a><a href="/x?y:z">4</a><a href="HTTPS://x">5</a>'
+            ),
+            '<a>1</a><a>2</a><a>3</a><a href="/x?y:z">4</a><a href="HTTPS://x">5</a>'
+        );
+        assert.strictEqual(
+            parse5.sanitize('<a href="data:text/plain,x">1</a>', { urlSchemes: ['data'] }),
+            '<a href="data:text/plain,x">1</a>'
+        );
+    });
+
+    it('Filters class and style values', () => {
+        const options = { elements: { div: ['class', 'style'] }, classes: ['a', 'c'], styleProperties: ['color'] };
+
+        assert.strictEqual(
+            parse5.sanitize('<div class=" a b\tc" style="COLOR:red;width:1px">1</div>', options),
+            '<div class="a c" style="color: red">1</div>'
+        );
+        assert.strictEqual(
+            parse5.sanitize('<div class="b" style="color: url(x); color: \\72 ed">1</div>', options),
+            '<div>1</div>'
+        );
+    });
+
+    it('Parses the input in the context element', () => {
+        assert.strictEqual(
+            parse5.sanitize('<tr><td>1</td></tr>', { context: 'table' }),
+            '<tbody><tr><td>1</td></tr></tbody>'
+        );
+        assert.strictEqual(parse5.sanitize('<tr><td>1</td></tr>'), '1');
+        assert.strictEqual(parse5.sanitize('<b>1</b>', { context: 'textarea' }), '&lt;b&gt;1&lt;/b&gt;');
+    });
+
+    it('Keeps allowed foreign content', () => {
+        assert.strictEqual(
+            parse5.sanitize('<svg viewBox="0 0 1 1"><a xlink:href="javascript:x"><circle r=1></circle></a></svg>', {
+                svgElements: { svg: ['viewBox'], a: ['xlink:href'], circle: ['r'] },
+            }),
+            '<svg viewBox="0 0 1 1"><a><circle r="1"></circle></a></svg>'
+        );
+        assert.strictEqual(
+            parse5.sanitize('<math><mi>x</mi></math>', { mathElements: { math: [], mi: [] } }),
+            '<math><mi>x</mi></math>'
+        );
+    });
+
+    it('Removes elements that would change their namespace', () => {
+        //NOTE: without the <svg> parent, the SVG <style> element would be parsed as an HTML raw text element.
+        assert.strictEqual(
+            parse5.sanitize('<svg><style><b>1</b></style></svg>2', {
+                elements: { b: [], style: [] },
+                svgElements: { style: [] },
+            }),
+            '2'
+        );
+        assert.strictEqual(
+            parse5.sanitize('<math><annotation-xml encoding="text/html"><p>1</p></annotation-xml></math>', {
+                elements: { p: [] },
+                mathElements: { math: [], 'annotation-xml': [] },
+            }),
+            '<math><annotation-xml></annotation-xml></math>'
+        );
+    });
+
+    for (const html of MUTATION_XSS_VECTORS) {
+        it(`Output survives a round trip: ${JSON.stringify(html)}`, () => {
+            const sanitized = parse5.sanitize(html, FOREIGN_CONTENT_OPTIONS);
+            const context = defaultTreeAdapter.createElement($.BODY, NS.HTML, []);
+            const fragment = parse5.parseFragment(context, sanitized, {});
+
+            assert.strictEqual(parse5.serialize(fragment, {}), sanitized);
+            assert.strictEqual(parse5.querySelector(fragment, 'img'), null);
+            assert.strictEqual(parse5.sanitize(sanitized, FOREIGN_CONTENT_OPTIONS), sanitized);
+        });
+    }
+});
@@ -0,0 +1,519 @@
+import { TAG_ID as $, TAG_NAMES as TN, NAMESPACES as NS, getTagID } from '../common/html.js';
+import { causesExit, isIntegrationPoint } from '../common/foreign-content.js';
+import { TokenType, Attribute } from '../common/token.js';
+import { Parser } from '../parser/index.js';
+import { Serializer } from '../serializer/index.js';
+import * as defaultTreeAdapter from '../tree-adapters/default.js';
+import type { DefaultTreeAdapterMap } from '../tree-adapters/default.js';
+import type { TreeAdapter, TreeAdapterTypeMap } from '../tree-adapters/interface.js';
+
+export interface SanitizerOptions<T extends TreeAdapterTypeMap> {
+    /**
+     * Specifies the tree adapter used to parse the input and to build the sanitized tree.
+     *
+     * @default `treeAdapters.default`
+     */
+    treeAdapter?: TreeAdapter<T>;
+
+    /**
+     * Element in which the input is parsed, as if it was set to the element's `innerHTML` property.
+     * A tag name stands for an HTML element with this tag name. If `null`, the input is parsed
+     * as the content of a `<template>` element.
+     *
+     * @default `'body'`
+     */
+    context?: string | T['element'] | null;
+
+    /**
+     * Allowed HTML elements, mapped to the names of the attributes allowed on them.
+     * Disallowed elements are replaced with their sanitized content.
+     *
+     * @default Common text-level, grouping and table elements (eg. `p`, `a`, `img`, `ul`, `table`).
+     */
+    elements?: Record<string, string[]>;
+
+    /**
+     * Allowed SVG elements, mapped to the names of the attributes allowed on them. Tag names and attribute names
+     * are case-sensitive and namespaced attributes are specified with their prefix (eg. `xlink:href`).
+     *
+     * @default `{}`
+     */
+    svgElements?: Record<string, string[]>;
+
+    /**
+     * Allowed MathML elements, mapped to the names of the attributes allowed on them.
+     *
+     * @default `{}`
+     */
+    mathElements?: Record<string, string[]>;
+
+    /**
+     * Attributes allowed on all allowed elements.
+     *
+     * @default `['dir', 'lang', 'title']`
+     */
+    globalAttributes?: string[];
+
+    /**
+     * Attributes containing URLs. They are removed if the URL has a scheme that is not in `urlSchemes`.
+     *
+     * @default `['action', 'background', 'cite', 'formaction', 'href', 'longdesc', 'poster', 'src', 'xlink:href']`
+     */
+    urlAttributes?: string[];
+
+    /**
+     * Allowed URL schemes. Relative URLs are always allowed.
+     *
+     * @default `['http', 'https', 'mailto', 'tel']`
+     */
+    urlSchemes?: string[];
+
+    /**
+     * Allowed class names in the `class` attribute. If `null`, all class names are allowed.
+     *
+     * @default `null`
+     */
+    classes?: string[] | null;
+
+    /**
+     * Allowed CSS properties in the `style` attribute. Declarations with values that can load resources or
+     * contain escapes, comments or strings are removed regardless.
+     *
+     * @default `[]`
+     */
+    styleProperties?: string[];
+
+    /**
+     * Tag names of disallowed elements that are removed together with their content.
+     *
+     * @default Elements whose content is not meant to be rendered as markup (eg. `script`, `style`, `template`).
+     */
+    removeContents?: string[];
+
+    /**
+     * Keeps comments in the output.
+     *
+     * @default `false`
+     */
+    allowComments?: boolean;
+}
+
+const DEFAULT_ELEMENTS: Record<string, string[]> = {
+    a: ['href'],
+    abbr: [],
+    b: [],
+    blockquote: ['cite'],
+    br: [],
+    caption: [],
+    code: [],
+    dd: [],
+    del: ['cite'],
+    div: [],
+    dl: [],
+    dt: [],
+    em: [],
+    h1: [],
+    h2: [],
+    h3: [],
+    h4: [],
+    h5: [],
+    h6: [],
+    hr: [],
+    i: [],
+    img: ['alt', 'height', 'src', 'width'],
+    ins: ['cite'],
+    li: [],
+    ol: ['start'],
+    p: [],
+    pre: [],
+    q: ['cite'],
+    s: [],
+    small: [],
+    span: [],
+    strong: [],
+    sub: [],
+    sup: [],
+    table: [],
+    tbody: [],
+    td: ['colspan', 'rowspan'],
+    tfoot: [],
+    th: ['colspan', 'rowspan', 'scope'],
+    thead: [],
+    tr: [],
+    u: [],
+    ul: [],
+};
+
+const DEFAULT_URL_ATTRIBUTES = [
+    'action',
+    'background',
+    'cite',
+    'formaction',
+    'href',
+    'longdesc',
+    'poster',
+    'src',
+    'xlink:href',
+];
+
+const DEFAULT_REMOVE_CONTENTS = [
+    TN.IFRAME,
+    TN.NOEMBED,
+    TN.NOFRAMES,
+    TN.NOSCRIPT,
+    TN.OBJECT,
+    TN.PLAINTEXT,
+    TN.SCRIPT,
+    TN.STYLE,
+    TN.TEMPLATE,
+    TN.TEXTAREA,
+    TN.TITLE,
+    TN.XMP,
+];
+
+//NOTE: the URL parser removes leading C0 control characters and spaces, as well as tabs and newlines anywhere.
+const IGNORED_URL_CHARACTERS = /^[\0- ]+|[\t\n\r]+/g;
+const URL_SCHEME = /^([a-z][\d+.a-z-]*):/i;
+const UNSAFE_STYLE_VALUE = /["'<>@\\{}]|\/\*|url|expression|image|element|paint|binding|behavior/i;
+
+//NOTE: a sanitized tree that doesn't survive a round trip is sanitized again after being re-parsed.
+//Each pass removes the nodes that were moved by the parser, so the output stabilizes after a few passes.
+const MAX_PASSES = 4;
+
+interface ParentContext {
+    tagID: $;
+    namespace: NS;
+    attrs: Attribute[];
+}
+
+function getQualifiedName({ prefix, name }: Attribute): string {
+    return prefix ? `${prefix}:${name}` : name;
+}
+
+function isAllowedUrl(url: string, schemes: Set<string>): boolean {
+    const scheme = URL_SCHEME.exec(url.replace(IGNORED_URL_CHARACTERS, ''));
+
+    return !scheme || schemes.has(scheme[1].toLowerCase());
+}
+
+function sanitizeStyle(style: string, properties: Set<string>): string {
+    const declarations: string[] = [];
+
+    for (const declaration of style.split(';')) {
+        const colonIdx = declaration.indexOf(':');
+
+        if (colonIdx !== -1) {
+            const property = declaration.slice(0, colonIdx).trim().toLowerCase();
+            const value = declaration.slice(colonIdx + 1).trim();
+
+            if (properties.has(property) && value && !UNSAFE_STYLE_VALUE.test(value)) {
+                declarations.push(`${property}: ${value}`);
+            }
+        }
+    }
+
+    return declarations.join('; ');
+}
+
+class Sanitizer<T extends TreeAdapterTypeMap> {
+    private treeAdapter: TreeAdapter<T>;
+    private context: T['element'] | null;
+    private contextInfo: ParentContext;
+    private elements: Record<NS.HTML | NS.SVG | NS.MATHML, Map<string, Set<string>>>;
+    private globalAttributes: Set<string>;
+    private urlAttributes: Set<string>;
+    private urlSchemes: Set<string>;
+    private classes: Set<string> | null;
+    private styleProperties: Set<string>;
+    private removeContents: Set<string>;
+    private allowComments: boolean;
+
+    constructor({
+        treeAdapter = defaultTreeAdapter as TreeAdapter<T>,
+        context = TN.BODY,
+        elements = DEFAULT_ELEMENTS,
+        svgElements = {},
+        mathElements = {},
+        globalAttributes = ['dir', 'lang', 'title'],
+        urlAttributes = DEFAULT_URL_ATTRIBUTES,
+        urlSchemes = ['http', 'https', 'mailto', 'tel'],
+        classes = null,
+        styleProperties = [],
+        removeContents = DEFAULT_REMOVE_CONTENTS,
+        allowComments = false,
+    }: SanitizerOptions<T>) {
+        const toMap = (allowlist: Record<string, string[]>): Map<string, Set<string>> =>
+            new Map(Object.entries(allowlist).map(([tagName, attrs]) => [tagName, new Set(attrs)]));
+
+        this.treeAdapter = treeAdapter;
+        this.context = typeof context === 'string' ? treeAdapter.createElement(context, NS.HTML, []) : context;
+        this.contextInfo = this.context
+            ? {
+                  tagID: getTagID(treeAdapter.getTagName(this.context)),
+                  namespace: treeAdapter.getNamespaceURI(this.context),
+                  attrs: treeAdapter.getAttrList(this.context),
+              }
+            : { tagID: $.TEMPLATE, namespace: NS.HTML, attrs: [] };
+        this.elements = {
+            [NS.HTML]: toMap(elements),
+            [NS.SVG]: toMap(svgElements),
+            [NS.MATHML]: toMap(mathElements),
+        };
+        this.globalAttributes = new Set(globalAttributes);
+        this.urlAttributes = new Set(urlAttributes);
+        this.urlSchemes = new Set(urlSchemes.map((scheme) => scheme.toLowerCase()));
+        this.classes = classes && new Set(classes);
+        this.styleProperties = new Set(styleProperties.map((property) => property.toLowerCase()));
+        this.removeContents = new Set(removeContents.map((tagName) => tagName.toLowerCase()));
+        this.allowComments = allowComments;
+    }
+
+    sanitize(html: string): string {
+        let fragment = this._parse(html);
+
+        for (let pass = 0; pass < MAX_PASSES; pass++) {
+            const sanitized = this.treeAdapter.createDocumentFragment();
+
+            this._sanitizeChildNodes(fragment, sanitized, this.contextInfo);
+
+            const result = new Serializer(sanitized, { treeAdapter: this.treeAdapter }).serialize();
+
+            fragment = this._parse(result);
+
+            if (this._areChildNodesEqual(sanitized, fragment)) {
+                return result;
+            }
+        }
+
+        return '';
+    }
+
+    private _parse(html: string): T['documentFragment'] {
+        const parser = new Parser({ treeAdapter: this.treeAdapter });
+
+        return parser.parseFragment(html, this.context);
+    }
+
+    private _sanitizeChildNodes(source: T['parentNode'], target: T['parentNode'], parent: ParentContext): void {
+        for (const node of this.treeAdapter.getChildNodes(source)) {
+            if (this.treeAdapter.isTextNode(node)) {
+                this.treeAdapter.insertText(target, this.treeAdapter.getTextNodeContent(node));
+            } else if (this.treeAdapter.isCommentNode(node)) {
+                if (this.allowComments) {
+                    const comment = this.treeAdapter.createCommentNode(this.treeAdapter.getCommentNodeContent(node));
+
+                    this.treeAdapter.appendChild(target, comment);
+                }
+            } else if (this.treeAdapter.isElementNode(node)) {
+                this._sanitizeElement(node, target, parent);
+            }
+        }
+    }
+
+    private _sanitizeElement(element: T['element'], target: T['parentNode'], parent: ParentContext): void {
+        const tagName = this.treeAdapter.getTagName(element);
+        const tagID = getTagID(tagName);
+        const namespace = this.treeAdapter.getNamespaceURI(element);
+        const elementAttrs = this.treeAdapter.getAttrList(element);
+
+        //NOTE: elements that would end up in a different namespace after a round trip are removed with their
+        //content, since the content would be parsed differently as well.
+        if (!this._isValidNamespace(tagName, tagID, namespace, elementAttrs, parent)) {
+            return;
+        }
+
+        const isTemplate = tagID === $.TEMPLATE && namespace === NS.HTML;
+        const source = isTemplate ? this.treeAdapter.getTemplateContent(element) : element;
+        const allowedAttrs =
+            namespace === NS.HTML || namespace === NS.SVG || namespace === NS.MATHML
+                ? this.elements[namespace].get(tagName)
+                : undefined;
+
+        if (!allowedAttrs) {
+            if (!this.removeContents.has(tagName.toLowerCase())) {
+                this._sanitizeChildNodes(source, target, parent);
+            }
+
+            return;
+        }
+
+        const attrs = this._sanitizeAttrs(elementAttrs, allowedAttrs);
+        const copy = this.treeAdapter.createElement(tagName, namespace, attrs);
+        let content: T['parentNode'] = copy;
+
+        if (isTemplate) {
+            content = this.treeAdapter.createDocumentFragment();
+            this.treeAdapter.setTemplateContent(copy, content);
+        }
+
+        this.treeAdapter.appendChild(target, copy);
+        this._sanitizeChildNodes(source, content, { tagID, namespace, attrs });
+    }
+
+    //NOTE: see the rules for parsing tokens in foreign content:
+    //https://html.spec.whatwg.org/multipage/parsing.html#parsing-main-inforeign
+    private _isValidNamespace(
+        tagName: string,
+        tagID: $,
+        namespace: NS,
+        attrs: Attribute[],
+        parent: ParentContext
+    ): boolean {
+        if (parent.namespace === NS.HTML || isIntegrationPoint(parent.tagID, parent.namespace, parent.attrs)) {
+            //NOTE: <mglyph> and <malignmark> stay in the MathML namespace in MathML text integration points,
+            //everything else is parsed as HTML there.
+            if (
+                (tagID === $.MGLYPH || tagID === $.MALIGNMARK) &&
+                isIntegrationPoint(parent.tagID, parent.namespace, parent.attrs, NS.MATHML)
+            ) {
+                return namespace === NS.MATHML;
+            }
+
+            return (
+                namespace === NS.HTML ||
+                (namespace === NS.SVG && tagID === $.SVG) ||
+                (namespace === NS.MATHML && tagID === $.MATH)
+            );
+        }
+
+        //NOTE: <annotation-xml> can contain an <svg> element even if it is not an integration point.
+        if (namespace === NS.SVG && tagID === $.SVG && parent.namespace === NS.MATHML) {
+            return parent.tagID === $.ANNOTATION_XML;
+        }
+
+        const token = {
+            type: TokenType.START_TAG as const,
+            tagName,
+            tagID,
+            selfClosing: false,
+            ackSelfClosing: false,
+            attrs,
+            location: null,
+        };
+
+        return namespace === parent.namespace && !causesExit(token);
+    }
+
+    private _sanitizeAttrs(attrs: Attribute[], allowedAttrs: Set<string>): Attribute[] {
+        const sanitized: Attribute[] = [];
+
+        for (const attr of attrs) {
+            const name = getQualifiedName(attr);
+            let { value } = attr;
+
+            if (!allowedAttrs.has(name) && !this.globalAttributes.has(name)) {
+                continue;
+            }
+
+            if (this.urlAttributes.has(name) && !isAllowedUrl(value, this.urlSchemes)) {
+                continue;
+            }
+
+            if (name === 'class' && this.classes) {
+                value = value
+                    .split(/[\t\n\f\r ]+/)
+                    .filter((className) => this.classes?.has(className))
+                    .join(' ');
+            } else if (name === 'style') {
+                value = sanitizeStyle(value, this.styleProperties);
+            } else {
+                sanitized.push({ ...attr });
+                continue;
+            }
+
+            if (value) {
+                sanitized.push({ ...attr, value });
+            }
+        }
+
+        return sanitized;
+    }
+
+    private _areChildNodesEqual(expected: T['parentNode'], actual: T['parentNode']): boolean {
+        const expectedChildNodes = this.treeAdapter.getChildNodes(expected);
+        const actualChildNodes = this.treeAdapter.getChildNodes(actual);
+
+        return (
+            expectedChildNodes.length === actualChildNodes.length &&
+            expectedChildNodes.every((node, i) => this._areNodesEqual(node, actualChildNodes[i]))
+        );
+    }
+
+    private _areNodesEqual(expected: T['childNode'], actual: T['childNode']): boolean {
+        const { treeAdapter } = this;
+
+        if (treeAdapter.isTextNode(expected)) {
+            return (
+                treeAdapter.isTextNode(actual) &&
+                treeAdapter.getTextNodeContent(expected) === treeAdapter.getTextNodeContent(actual)
+            );
+        }
+
+        if (treeAdapter.isCommentNode(expected)) {
+            return (
+                treeAdapter.isCommentNode(actual) &&
+                treeAdapter.getCommentNodeContent(expected) === treeAdapter.getCommentNodeContent(actual)
+            );
+        }
+
+        if (!treeAdapter.isElementNode(expected) || !treeAdapter.isElementNode(actual)) {
+            return false;
+        }
+
+        const expectedAttrs = treeAdapter.getAttrList(expected);
+        const actualAttrs = treeAdapter.getAttrList(actual);
+        const isTemplate =
+            treeAdapter.getTagName(expected) === TN.TEMPLATE && treeAdapter.getNamespaceURI(expected) === NS.HTML;
+
+        return (
+            treeAdapter.getTagName(expected) === treeAdapter.getTagName(actual) &&
+            treeAdapter.getNamespaceURI(expected) === treeAdapter.getNamespaceURI(actual) &&
+            expectedAttrs.length === actualAttrs.length &&
+            expectedAttrs.every(
+                (attr, i) =>
+                    attr.name === actualAttrs[i].name &&
+                    attr.namespace === actualAttrs[i].namespace &&
+                    attr.value === actualAttrs[i].value
+            ) &&
+            (isTemplate
+                ? this._areChildNodesEqual(
+                      treeAdapter.getTemplateContent(expected),
+                      treeAdapter.getTemplateContent(actual)
+                  )
+                : this._areChildNodesEqual(expected, actual))
+        );
+    }
+}
+
+/**
+ * Sanitizes an HTML fragment. The fragment is parsed in the context element, and only the allowed elements and
+ * attributes are kept. Attributes with URLs that have a disallowed scheme are removed, and the values of the
+ * `class` and `style` attributes are filtered. Elements that would end up in a different namespace if the
+ * output was parsed again (eg. an SVG `<style>` element whose `<svg>` parent was removed) are removed
+ * with their content.
+ *
+ * The output is guaranteed to parse to the sanitized tree in the same context element, so it can't be turned
+ * into markup that wasn't allowed by the parser's error recovery (a.k.a. mutation XSS). If the sanitized tree
+ * doesn't survive a round trip even after being sanitized again, an empty string is returned.
+ *
+ * @example
+ *
+ * ```js
+ * const parse5 = require('parse5');
+ *
+ * const html = parse5.sanitize('<p onclick="alert(1)">Hi <a href="javascript:alert(2)">there</a>!<script></script>');
+ *
+ * console.log(html); //> '<p>Hi <a>there</a>!</p>'
+ * ```
+ *
+ * @param html Input HTML fragment string.
+ * @param options Sanitizer options.
+ */
+export function sanitize<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
+    html: string,
+    options: SanitizerOptions<T> = {}
+): string {
+    const sanitizer = new Sanitizer(options);
+
+    return sanitizer.sanitize(html);
+}
@@ -0,0 +1,191 @@
+import * as assert from 'node:assert';
+import * as parse5 from 'parse5';
+import { SelectorSyntaxError } from './parser.js';
+import { generateTestsForEachTreeAdapter } from 'parse5-test-utils/utils/common.js';
+import type { TreeAdapter, TreeAdapterTypeMap } from 'parse5/dist/tree-adapters/interface';
+import type { Element } from 'parse5/dist/tree-adapters/default';
+
+const DOCUMENT = `<!DOCTYPE html>
+<html id="html">
+<body id="body">
+    <ul id="list" class="items  main">
+        <li id="li1" class="item first" lang="en-US">One</li>
+        <li id="li2" class="item" data-value="Two words">Two</li>
+        <li id="li3" class="item special" data-value="three">Three<span id="span1"></span></li>
+        <li id="li4" class="item" type="A"><b id="b1">Four</b></li>
+    </ul>
+    <p id="p1"></p><!-- comment -->
+    <p id="p2"><!-- comment --></p>
+    <p id="p3"> </p>
+    <svg id="svg"><foreignObject id="fo"></foreignObject><a id="svg-a" xlink:href="#x" viewBox="0 0 1 1"></a></svg>
+    <math id="math"><mi id="mi">x</mi></math>
+    <template id="template"><li id="tmpl-li"></li></template>
+</body>
+</html>`;
+
+function getId<T extends TreeAdapterTypeMap>(treeAdapter: TreeAdapter<T>, element: T['element']): string | undefined {
+    return treeAdapter.getAttrList(element).find(({ name }) => name === 'id')?.value;
+}
+
+generateTestsForEachTreeAdapter('selector', (treeAdapter) => {
+    const document = parse5.parse(DOCUMENT, { treeAdapter });
+    const options = { treeAdapter };
+
+    function select(selector: string): (string | undefined)[] {
+        return parse5.querySelectorAll(document, selector, options).map((element) => getId(treeAdapter, element));
+    }
+
+    function getById(id: string): unknown {
+        const element = parse5.querySelector(document, `#${id}`, options);
+
+        assert.ok(element);
+
+        return element;
+    }
+
+    it('Type, ID, class and universal selectors', () => {
+        assert.deepStrictEqual(select('li'), ['li1', 'li2', 'li3', 'li4']);
+        assert.deepStrictEqual(select('LI.special'), ['li3']);
+        assert.deepStrictEqual(select('#li2, #li1'), ['li1', 'li2']);
+        assert.deepStrictEqual(select('.item.first'), ['li1']);
+        assert.deepStrictEqual(select('ul.main.items'), ['list']);
+        assert.deepStrictEqual(select('body > *'), ['list', 'p1', 'p2', 'p3', 'svg', 'math', 'template']);
+        assert.deepStrictEqual(select('#\\6c i1, #\\li2'), ['li1', 'li2']);
+    });
+
+    it('Combinators', () => {
+        assert.deepStrictEqual(select('ul b'), ['b1']);
+        assert.deepStrictEqual(select('ul > b'), []);
+        assert.deepStrictEqual(select('#li1 + li'), ['li2']);
+        assert.deepStrictEqual(select('#li2~li'), ['li3', 'li4']);
+        assert.deepStrictEqual(select('html  ul>li+li ~ li > *'), ['span1', 'b1']);
+    });
+
+    it('Attribute selectors', () => {
+        assert.deepStrictEqual(select('[data-value]'), ['li2', 'li3']);
+        assert.deepStrictEqual(select('[data-value="three"]'), ['li3']);
+        assert.deepStrictEqual(select('[data-value=THREE]'), []);
+        assert.deepStrictEqual(select('[data-value=THREE i]'), ['li3']);
+        assert.deepStrictEqual(select('[data-value~=words]'), ['li2']);
+        assert.deepStrictEqual(select('[lang|=en]'), ['li1']);
+        assert.deepStrictEqual(select('[data-value^=Tw]'), ['li2']);
+        assert.deepStrictEqual(select('[data-value$="ree"]'), ['li3']);
+        assert.deepStrictEqual(select('[data-value*="o w"]'), ['li2']);
+        assert.deepStrictEqual(select('[data-value^=""]'), []);
+        //NOTE: values of some HTML attributes are case-insensitive, unless the `s` flag is used.
+        assert.deepStrictEqual(select('[type=a]'), ['li4']);
+        assert.deepStrictEqual(select('[type=a s]'), []);
+        assert.deepStrictEqual(select('[ID=LI1]'), []);
+    });
+
+    it('Namespaces', () => {
+        assert.deepStrictEqual(select('svg|*'), ['svg', 'fo', 'svg-a']);
+        assert.deepStrictEqual(select('html|a, math|*'), ['math', 'mi']);
+        assert.deepStrictEqual(select('a'), ['svg-a']);
+        assert.deepStrictEqual(select('*|a'), ['svg-a']);
+        assert.deepStrictEqual(select('|a'), []);
+        assert.deepStrictEqual(select('foreignObject'), ['fo']);
+        assert.deepStrictEqual(select('foreignobject'), []);
+        assert.deepStrictEqual(select('[viewBox]'), ['svg-a']);
+        assert.deepStrictEqual(select('[viewbox]'), []);
+        assert.deepStrictEqual(select('[href]'), []);
+        assert.deepStrictEqual(select('[xlink|href="#x"]'), ['svg-a']);
+        assert.deepStrictEqual(select('[*|href]'), ['svg-a']);
+        assert.deepStrictEqual(
+            parse5
+                .querySelectorAll(document, 'x|a', { treeAdapter, namespaces: { x: 'http://www.w3.org/2000/svg' } })
+                .map((element) => getId(treeAdapter, element)),
+            ['svg-a']
+        );
+    });
+
+    it('Structural pseudo-classes', () => {
+        assert.deepStrictEqual(select('li:first-child, li:last-child'), ['li1', 'li4']);
+        assert.deepStrictEqual(select('li:nth-child(2n+1)'), ['li1', 'li3']);
+        assert.deepStrictEqual(select('li:nth-child(even)'), ['li2', 'li4']);
+        assert.deepStrictEqual(select('li:nth-child( -n + 2 )'), ['li1', 'li2']);
+        assert.deepStrictEqual(select('li:nth-last-child(1)'), ['li4']);
+        assert.deepStrictEqual(select('li:nth-child(2 of .special, [lang])'), ['li3']);
+        assert.deepStrictEqual(select('body > p:nth-of-type(2)'), ['p2']);
+        assert.deepStrictEqual(select('body > :last-of-type'), ['list', 'p3', 'svg', 'math', 'template']);
+        assert.deepStrictEqual(select('ul :only-child'), ['span1', 'b1']);
+        assert.deepStrictEqual(select('svg :only-of-type'), ['fo', 'svg-a']);
+        assert.deepStrictEqual(select('p:empty'), ['p1', 'p2']);
+        assert.deepStrictEqual(select(':root'), ['html']);
+        assert.deepStrictEqual(select(':scope > body'), ['body']);
+    });
+
+    it('Logical pseudo-classes', () => {
+        assert.deepStrictEqual(select('li:is(:first-child, .special)'), ['li1', 'li3']);
+        assert.deepStrictEqual(select(':where(ul, svg) > :not(li, [id^=svg])'), ['fo']);
+        assert.deepStrictEqual(select('li:has(b)'), ['li4']);
+        assert.deepStrictEqual(select('li:has(> span, + li > b)'), ['li3']);
+        assert.deepStrictEqual(select('li:has(~ .special)'), ['li1', 'li2']);
+        assert.deepStrictEqual(select('body > :has(b):not(:has(> b))'), ['list']);
+        assert.deepStrictEqual(select('li:NOT(:Nth-Child(ODD))'), ['li2', 'li4']);
+    });
+
+    it('Does not query template content', () => {
+        assert.deepStrictEqual(select('#tmpl-li'), []);
+    });
+
+    it('Uses the queried element as the scope', () => {
+        const list = getById('list');
+
+        assert.deepStrictEqual(
+            parse5.querySelectorAll(list, ':scope > :nth-child(3)', options).map((el) => getId(treeAdapter, el)),
+            ['li3']
+        );
+        //NOTE: the selector is matched against the whole tree, not only the queried subtree.
+        assert.deepStrictEqual(
+            parse5.querySelectorAll(list, 'body li b', options).map((el) => getId(treeAdapter, el)),
+            ['b1']
+        );
+        assert.strictEqual(parse5.querySelector(list, 'p', options), null);
+    });
+
+    it('matches() and closest()', () => {
+        const b = getById('b1');
+
+        assert.ok(parse5.matches(b, 'li > b:scope', options));
+        assert.ok(!parse5.matches(b, 'i', options));
+        assert.strictEqual(getId(treeAdapter, parse5.closest(b, 'li', options)), 'li4');
+        assert.strictEqual(getId(treeAdapter, parse5.closest(b, '*', options)), 'b1');
+        assert.strictEqual(getId(treeAdapter, parse5.closest(b, ':has(> #p1)', options)), 'body');
+        assert.strictEqual(parse5.closest(b, 'p', options), null);
+    });
+
+    it('compileSelector()', () => {
+        const isItem = parse5.compileSelector('ul > .item:scope:not(:first-child)', options);
+
+        assert.ok(isItem(getById('li2')));
+        assert.ok(!isItem(getById('li1')));
+        assert.ok(!isItem(getById('b1')));
+    });
+});
+
+describe('selector syntax errors', () => {
+    const fragment = parse5.parseFragment('<div></div>');
+    const div = fragment.childNodes[0] as Element;
+
+    for (const selector of [
+        '',
+        'div,',
+        'div >',
+        '> div',
+        '#1',
+        '[id',
+        '[id=]',
+        '[id="a" x]',
+        'div::before',
+        ':hover',
+        ':nth-child(x)',
+        ':not(div',
+        'foo|div',
+        'div | span',
+    ]) {
+        it(JSON.stringify(selector), () => {
+            assert.throws(() => parse5.matches(div, selector), SelectorSyntaxError);
+        });
+    }
+});
@@ -0,0 +1,544 @@
+import { NAMESPACES as NS } from '../common/html.js';
+import type { Attribute } from '../common/token.js';
+import * as defaultTreeAdapter from '../tree-adapters/default.js';
+import type { DefaultTreeAdapterMap } from '../tree-adapters/default.js';
+import type { TreeAdapter, TreeAdapterTypeMap } from '../tree-adapters/interface.js';
+import {
+    AttributeSelector,
+    Combinator,
+    ComplexSelector,
+    NthSelector,
+    parseSelector,
+    SelectorType,
+    SimpleSelector,
+    TypeSelector,
+} from './parser.js';
+
+export { SelectorSyntaxError } from './parser.js';
+
+export interface SelectorOptions<T extends TreeAdapterTypeMap> {
+    /**
+     * Specifies the tree adapter of the queried tree.
+     *
+     * @default `treeAdapters.default`
+     */
+    treeAdapter?: TreeAdapter<T>;
+
+    /**
+     * Namespace prefixes that can be used in type and attribute selectors, e.g. `svg|a` or `[xlink|href]`.
+     * Type selectors without a prefix match elements in any namespace.
+     *
+     * @default `{ html, svg, math, xlink, xml, xmlns }` prefixes of the corresponding namespaces.
+     */
+    namespaces?: Record<string, string>;
+}
+
+const DEFAULT_NAMESPACES: Record<string, string> = {
+    html: NS.HTML,
+    svg: NS.SVG,
+    math: NS.MATHML,
+    xlink: NS.XLINK,
+    xml: NS.XML,
+    xmlns: NS.XMLNS,
+};
+
+//NOTE: see https://html.spec.whatwg.org/multipage/semantics-other.html#case-sensitivity-of-selectors
+const CASE_INSENSITIVE_ATTRIBUTES = new Set([
+    'accept',
+    'accept-charset',
+    'align',
+    'alink',
+    'axis',
+    'bgcolor',
+    'charset',
+    'checked',
+    'clear',
+    'codetype',
+    'color',
+    'compact',
+    'declare',
+    'defer',
+    'dir',
+    'direction',
+    'disabled',
+    'enctype',
+    'face',
+    'frame',
+    'hreflang',
+    'http-equiv',
+    'lang',
+    'language',
+    'link',
+    'media',
+    'method',
+    'multiple',
+    'nohref',
+    'noresize',
+    'noshade',
+    'nowrap',
+    'readonly',
+    'rel',
+    'rev',
+    'rules',
+    'scope',
+    'scrolling',
+    'selected',
+    'shape',
+    'target',
+    'text',
+    'type',
+    'valign',
+    'valuetype',
+    'vlink',
+]);
+
+const WHITESPACE_REGEX = /[\t\n\f\r ]+/;
+
+function matchesNth(a: number, b: number, position: number): boolean {
+    return a === 0 ? position === b : (position - b) % a === 0 && (position - b) / a >= 0;
+}
+
+function compareAttributeValue(selector: AttributeSelector, value: string): boolean {
+    const expected = selector.value;
+
+    switch (selector.operator) {
+        case '=': {
+            return value === expected;
+        }
+        case '~=': {
+            return (
+                expected !== '' && !WHITESPACE_REGEX.test(expected) && value.split(WHITESPACE_REGEX).includes(expected)
+            );
+        }
+        case '|=': {
+            return value === expected || value.startsWith(`${expected}-`);
+        }
+        case '^=': {
+            return expected !== '' && value.startsWith(expected);
+        }
+        case '$=': {
+            return expected !== '' && value.endsWith(expected);
+        }
+        case '*=': {
+            return expected !== '' && value.includes(expected);
+        }
+        default: {
+            return true;
+        }
+    }
+}
+
+/**
+ * Matches elements of a tree against a parsed selector list. The tree is accessed only through the tree adapter.
+ */
+class SelectorMatcher<T extends TreeAdapterTypeMap> {
+    constructor(private treeAdapter: TreeAdapter<T>, private selectors: ComplexSelector[]) {}
+
+    /**
+     * @param scope Element matched by `:scope`. If it is `null`, `:scope` matches the same elements as `:root`.
+     */
+    matches(element: T['element'], scope: T['element'] | null): boolean {
+        return this._matchesSelectorList(element, this.selectors, scope);
+    }
+
+    //Tree traversing
+    private _getParentElement(element: T['element']): T['element'] | null {
+        const parent = this.treeAdapter.getParentNode(element);
+
+        return parent && this.treeAdapter.isElementNode(parent) ? parent : null;
+    }
+
+    //NOTE: elements without a parent are considered to be the only child.
+    private _getSiblings(element: T['element']): T['element'][] {
+        const parent = this.treeAdapter.getParentNode(element);
+
+        return parent
+            ? this.treeAdapter.getChildNodes(parent).filter((node) => this.treeAdapter.isElementNode(node))
+            : [element];
+    }
+
+    private _getPreviousSiblings(element: T['element']): T['element'][] {
+        const siblings = this._getSiblings(element);
+
+        return siblings.slice(0, siblings.indexOf(element)).reverse();
+    }
+
+    private _someDescendant(parent: T['parentNode'], predicate: (element: T['element']) => boolean): boolean {
+        for (const node of this.treeAdapter.getChildNodes(parent)) {
+            if (this.treeAdapter.isElementNode(node) && (predicate(node) || this._someDescendant(node, predicate))) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    //Matching
+    private _matchesSelectorList(
+        element: T['element'],
+        selectors: ComplexSelector[],
+        scope: T['element'] | null
+    ): boolean {
+        return selectors.some((selector) =>
+            this._matchesComplexSelector(element, selector, selector.length - 1, scope, null)
+        );
+    }
+
+    /**
+     * Matches the element against the part of the complex selector with the given index and the parts before it.
+     * Selectors are matched from right to left, so we go up the tree.
+     *
+     * @param anchor Element against which the relative selectors of `:has()` are matched.
+     */
+    private _matchesComplexSelector(
+        element: T['element'],
+        selector: ComplexSelector,
+        partIdx: number,
+        scope: T['element'] | null,
+        anchor: T['element'] | null
+    ): boolean {
+        const { combinator, compound } = selector[partIdx];
+
+        if (!compound.every((simpleSelector) => this._matchesSimpleSelector(element, simpleSelector, scope))) {
+            return false;
+        }
+
+        if (combinator === null) {
+            return true;
+        }
+
+        const matchesPreviousPart = (candidate: T['element']): boolean =>
+            partIdx === 0
+                ? candidate === anchor
+                : this._matchesComplexSelector(candidate, selector, partIdx - 1, scope, anchor);
+
+        switch (combinator) {
+            case Combinator.Child: {
+                const parent = this._getParentElement(element);
+
+                return parent !== null && matchesPreviousPart(parent);
+            }
+            case Combinator.Descendant: {
+                for (let parent = this._getParentElement(element); parent; parent = this._getParentElement(parent)) {
+                    if (matchesPreviousPart(parent)) {
+                        return true;
+                    }
+                }
+
+                return false;
+            }
+            case Combinator.NextSibling: {
+                const [previousSibling] = this._getPreviousSiblings(element);
+
+                return previousSibling !== undefined && matchesPreviousPart(previousSibling);
+            }
+            case Combinator.SubsequentSibling: {
+                return this._getPreviousSiblings(element).some((sibling) => matchesPreviousPart(sibling));
+            }
+        }
+    }
+
+    private _matchesSimpleSelector(
+        element: T['element'],
+        selector: SimpleSelector,
+        scope: T['element'] | null
+    ): boolean {
+        switch (selector.type) {
+            case SelectorType.Type: {
+                return this._matchesTypeSelector(element, selector);
+            }
+            case SelectorType.Id: {
+                return this._getAttributeValues(element, undefined, 'id').includes(selector.name);
+            }
+            case SelectorType.Class: {
+                return this._getAttributeValues(element, undefined, 'class').some((value) =>
+                    value.split(WHITESPACE_REGEX).includes(selector.name)
+                );
+            }
+            case SelectorType.Attribute: {
+                return this._matchesAttributeSelector(element, selector);
+            }
+            case SelectorType.Nth: {
+                return this._matchesNthSelector(element, selector, scope);
+            }
+            case SelectorType.Is: {
+                return this._matchesSelectorList(element, selector.selectors, scope);
+            }
+            case SelectorType.Not: {
+                return !this._matchesSelectorList(element, selector.selectors, scope);
+            }
+            case SelectorType.Has: {
+                return this._matchesHasSelector(element, selector.selectors, scope);
+            }
+            case SelectorType.Root: {
+                return this._isRoot(element);
+            }
+            case SelectorType.Empty: {
+                return this.treeAdapter
+                    .getChildNodes(element)
+                    .every((node) => !this.treeAdapter.isElementNode(node) && !this.treeAdapter.isTextNode(node));
+            }
+            case SelectorType.Scope: {
+                return scope === null ? this._isRoot(element) : element === scope;
+            }
+        }
+    }
+
+    //NOTE: we consider the top-level elements of a tree to be root elements, e.g. the `<html>` element of a document.
+    private _isRoot(element: T['element']): boolean {
+        const parent = this.treeAdapter.getParentNode(element);
+
+        return !!parent && !this.treeAdapter.isElementNode(parent) && !this.treeAdapter.getParentNode(parent);
+    }
+
+    private _isHtmlElement(element: T['element']): boolean {
+        return this.treeAdapter.getNamespaceURI(element) === NS.HTML;
+    }
+
+    private _matchesTypeSelector(element: T['element'], { namespace, name }: TypeSelector): boolean {
+        if (namespace !== undefined && this.treeAdapter.getNamespaceURI(element) !== namespace) {
+            return false;
+        }
+
+        //NOTE: names of HTML elements are case-insensitive, while names of foreign elements (e.g. SVG `foreignObject`) are not.
+        return (
+            name === null ||
+            this.treeAdapter.getTagName(element) === (this._isHtmlElement(element) ? name.toLowerCase() : name)
+        );
+    }
+
+    private _getAttributeValues(element: T['element'], namespace: string | null | undefined, name: string): string[] {
+        const attrName = this._isHtmlElement(element) ? name.toLowerCase() : name;
+
+        return this.treeAdapter
+            .getAttrList(element)
+            .filter(
+                (attr: Attribute) =>
+                    attr.name === attrName && (namespace === '*' || (attr.namespace || null) === (namespace ?? null))
+            )
+            .map((attr) => attr.value);
+    }
+
+    private _matchesAttributeSelector(element: T['element'], selector: AttributeSelector): boolean {
+        const caseSensitive =
+            selector.caseSensitive ??
+            !(
+                this._isHtmlElement(element) &&
+                selector.namespace === undefined &&
+                CASE_INSENSITIVE_ATTRIBUTES.has(selector.name.toLowerCase())
+            );
+        const values = this._getAttributeValues(element, selector.namespace, selector.name);
+
+        if (caseSensitive) {
+            return values.some((value) => compareAttributeValue(selector, value));
+        }
+
+        const caseInsensitiveSelector = { ...selector, value: selector.value.toLowerCase() };
+
+        return values.some((value) => compareAttributeValue(caseInsensitiveSelector, value.toLowerCase()));
+    }
+
+    private _matchesNthSelector(element: T['element'], selector: NthSelector, scope: T['element'] | null): boolean {
+        const { a, b, last, ofType, selectors } = selector;
+
+        if (selectors && !this._matchesSelectorList(element, selectors, scope)) {
+            return false;
+        }
+
+        const tagName = this.treeAdapter.getTagName(element);
+        const ns = this.treeAdapter.getNamespaceURI(element);
+        const siblings = this._getSiblings(element).filter((sibling) =>
+            ofType
+                ? this.treeAdapter.getTagName(sibling) === tagName && this.treeAdapter.getNamespaceURI(sibling) === ns
+                : !selectors || this._matchesSelectorList(sibling, selectors, scope)
+        );
+        const idx = siblings.indexOf(element);
+
+        return matchesNth(a, b, last ? siblings.length - idx : idx + 1);
+    }
+
+    private _matchesHasSelector(
+        element: T['element'],
+        selectors: ComplexSelector[],
+        scope: T['element'] | null
+    ): boolean {
+        return selectors.some((selector) => {
+            const matchesRelativeSelector = (candidate: T['element']): boolean =>
+                this._matchesComplexSelector(candidate, selector, selector.length - 1, scope, element);
+            const { combinator } = selector[0];
+
+            if (combinator === Combinator.Descendant || combinator === Combinator.Child) {
+                return this._someDescendant(element, matchesRelativeSelector);
+            }
+
+            //NOTE: elements matched by a relative selector starting with a sibling combinator are either
+            //the following siblings, or their descendants.
+            const siblings = this._getSiblings(element);
+
+            return siblings
+                .slice(siblings.indexOf(element) + 1)
+                .some(
+                    (sibling) =>
+                        matchesRelativeSelector(sibling) || this._someDescendant(sibling, matchesRelativeSelector)
+                );
+        });
+    }
+}
+
+function createMatcher<T extends TreeAdapterTypeMap>(
+    selector: string,
+    options: SelectorOptions<T>
+): { matcher: SelectorMatcher<T>; treeAdapter: TreeAdapter<T> } {
+    const { treeAdapter = defaultTreeAdapter as TreeAdapter<T>, namespaces = DEFAULT_NAMESPACES } = options;
+
+    return { matcher: new SelectorMatcher(treeAdapter, parseSelector(selector, namespaces)), treeAdapter };
+}
+
+/**
+ * Returns the descendant elements of the root node that match the selector, in the tree order.
+ *
+ * @param findFirst Stop at the first matching element.
+ */
+function findElements<T extends TreeAdapterTypeMap>(
+    root: T['parentNode'],
+    selector: string,
+    options: SelectorOptions<T>,
+    findFirst: boolean
+): T['element'][] {
+    const { matcher, treeAdapter } = createMatcher(selector, options);
+    const scope = treeAdapter.isElementNode(root) ? root : null;
+    const result: T['element'][] = [];
+    //NOTE: we use an explicit stack instead of recursion, as trees can be arbitrarily deep.
+    const stack: T['childNode'][] = [...treeAdapter.getChildNodes(root)].reverse();
+
+    for (let node = stack.pop(); node !== undefined; node = stack.pop()) {
+        if (treeAdapter.isElementNode(node)) {
+            if (matcher.matches(node, scope)) {
+                result.push(node);
+
+                if (findFirst) {
+                    break;
+                }
+            }
+
+            const childNodes = treeAdapter.getChildNodes(node);
+
+            for (let i = childNodes.length - 1; i >= 0; i--) {
+                stack.push(childNodes[i]);
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Returns the first descendant element of the root node that matches the selector, or `null` if there is no
+ * such element. Supports [Selectors Level 4](https://www.w3.org/TR/selectors-4/) combinators, attribute selectors
+ * with case sensitivity flags, namespace prefixes, and the `:is()`, `:where()`, `:not()`, `:has()`, `:root`,
+ * `:scope`, `:empty` and child-indexed pseudo-classes. Template contents are not queried.
+ *
+ * @example
+ *
+ * ```js
+ * const parse5 = require('parse5');
+ *
+ * const document = parse5.parse('<ul><li>One</li><li class="last">Two</li></ul><svg><a xlink:href="#x"/></svg>');
+ *
+ * console.log(parse5.querySelector(document, 'ul > li:nth-child(2).last').childNodes[0].value); //> 'Two'
+ * console.log(parse5.querySelector(document, 'svg|a[xlink|href^="#"]').tagName); //> 'a'
+ * ```
+ *
+ * @param root Node to query.
+ * @param selector Selector list.
+ * @param options Selector options.
+ */
+export function querySelector<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
+    root: T['parentNode'],
+    selector: string,
+    options: SelectorOptions<T> = {}
+): T['element'] | null {
+    return findElements(root, selector, options, true)[0] ?? null;
+}
+
+/**
+ * Returns all descendant elements of the root node that match the selector, in the tree order.
+ *
+ * @see {@link querySelector} for the supported selectors.
+ *
+ * @param root Node to query.
+ * @param selector Selector list.
+ * @param options Selector options.
+ */
+export function querySelectorAll<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
+    root: T['parentNode'],
+    selector: string,
+    options: SelectorOptions<T> = {}
+): T['element'][] {
+    return findElements(root, selector, options, false);
+}
+
+/**
+ * Checks if the element matches the selector. `:scope` matches the element itself.
+ *
+ * @see {@link querySelector} for the supported selectors.
+ *
+ * @param element Element to check.
+ * @param selector Selector list.
+ * @param options Selector options.
+ */
+export function matches<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
+    element: T['element'],
+    selector: string,
+    options: SelectorOptions<T> = {}
+): boolean {
+    return createMatcher(selector, options).matcher.matches(element, element);
+}
+
+/**
+ * Returns the closest inclusive ancestor of the element that matches the selector, or `null` if there is no
+ * such element. `:scope` matches the element itself.
+ *
+ * @see {@link querySelector} for the supported selectors.
+ *
+ * @param element Element to start with.
+ * @param selector Selector list.
+ * @param options Selector options.
+ */
+export function closest<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
+    element: T['element'],
+    selector: string,
+    options: SelectorOptions<T> = {}
+): T['element'] | null {
+    const { matcher, treeAdapter } = createMatcher(selector, options);
+
+    for (
+        let node: T['parentNode'] | null = element;
+        node && treeAdapter.isElementNode(node);
+        node = treeAdapter.getParentNode(node)
+    ) {
+        if (matcher.matches(node, element)) {
+            return node;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Parses the selector and returns a function that checks if an element matches it. Use it instead of {@link matches}
+ * to match the same selector against many elements. `:scope` matches the element itself.
+ *
+ * @see {@link querySelector} for the supported selectors.
+ *
+ * @param selector Selector list.
+ * @param options Selector options.
+ */
+export function compileSelector<T extends TreeAdapterTypeMap = DefaultTreeAdapterMap>(
+    selector: string,
+    options: SelectorOptions<T> = {}
+): (element: T['element']) => boolean {
+    const { matcher } = createMatcher(selector, options);
+
+    return (element) => matcher.matches(element, element);
+}
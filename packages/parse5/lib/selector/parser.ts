@@ -0,0 +1,499 @@
+import { REPLACEMENT_CHARACTER } from '../common/unicode.js';
+
+export enum SelectorType {
+    Type,
+    Id,
+    Class,
+    Attribute,
+    Nth,
+    Is,
+    Not,
+    Has,
+    Root,
+    Empty,
+    Scope,
+}
+
+export enum Combinator {
+    Descendant,
+    Child,
+    NextSibling,
+    SubsequentSibling,
+}
+
+export type AttributeOperator = '=' | '~=' | '|=' | '^=' | '$=' | '*=';
+
+/**
+ * Namespace of a type or an attribute selector. `undefined` means any namespace for type selectors
+ * and no namespace for attribute selectors, `null` means no namespace and `*` means any namespace.
+ */
+export type NamespaceConstraint = string | null | undefined;
+
+export interface TypeSelector {
+    type: SelectorType.Type;
+    namespace: NamespaceConstraint;
+    /** Tag name. `null` for the universal selector. */
+    name: string | null;
+}
+
+export interface IdSelector {
+    type: SelectorType.Id;
+    name: string;
+}
+
+export interface ClassSelector {
+    type: SelectorType.Class;
+    name: string;
+}
+
+export interface AttributeSelector {
+    type: SelectorType.Attribute;
+    namespace: NamespaceConstraint;
+    name: string;
+    /** `null` if the selector only checks the presence of the attribute. */
+    operator: AttributeOperator | null;
+    value: string;
+    /** `null` if the case sensitivity of the value is determined by the attribute, as there is no `i` or `s` flag. */
+    caseSensitive: boolean | null;
+}
+
+/**
+ * `:nth-child()`, `:nth-of-type()` and all the other structural pseudo-classes that are based on
+ * the position of an element among its siblings. Matches elements at `a*n + b` positions.
+ */
+export interface NthSelector {
+    type: SelectorType.Nth;
+    a: number;
+    b: number;
+    /** Positions are counted from the last sibling. */
+    last: boolean;
+    /** Only siblings with the same tag name and namespace are counted. */
+    ofType: boolean;
+    /** Only siblings that match these selectors are counted (the `of S` syntax). */
+    selectors: ComplexSelector[] | null;
+}
+
+export interface SelectorListPseudoClass {
+    type: SelectorType.Is | SelectorType.Not | SelectorType.Has;
+    /** For `:has()`, these are relative selectors whose first part has a combinator. */
+    selectors: ComplexSelector[];
+}
+
+export interface StatePseudoClass {
+    type: SelectorType.Root | SelectorType.Empty | SelectorType.Scope;
+}
+
+export type SimpleSelector =
+    | TypeSelector
+    | IdSelector
+    | ClassSelector
+    | AttributeSelector
+    | NthSelector
+    | SelectorListPseudoClass
+    | StatePseudoClass;
+
+export interface ComplexSelectorPart {
+    /** Combinator between the previous part and this part. `null` for the first part of a non-relative selector. */
+    combinator: Combinator | null;
+    /** Simple selectors, all of which the element must match. */
+    compound: SimpleSelector[];
+}
+
+export type ComplexSelector = ComplexSelectorPart[];
+
+/**
+ * Thrown if a selector is invalid or uses an unsupported syntax.
+ */
+export class SelectorSyntaxError extends SyntaxError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SelectorSyntaxError';
+    }
+}
+
+//NOTE: see https://www.w3.org/TR/css-syntax-3/#tokenization
+const ESCAPE = '\\\\(?:[\\dA-Fa-f]{1,6}[\\t\\n\\f\\r ]?|[^\\n\\f\\r\\dA-Fa-f])';
+const NAME_START = `(?:[A-Z_a-z]|[^\\0-\\x7F]|${ESCAPE})`;
+const NAME_CHAR = `(?:[\\w-]|[^\\0-\\x7F]|${ESCAPE})`;
+const IDENT_REGEX = new RegExp(`(?:--|-?${NAME_START})${NAME_CHAR}*`, 'y');
+const STRING_REGEX = /"(?:[^\n\f\r"\\]|\\[\S\s])*"|'(?:[^\n\f\r'\\]|\\[\S\s])*'/y;
+const ESCAPE_REGEX = /\\(?:([\dA-Fa-f]{1,6})[\t\n\f\r ]?|([\S\s]))/g;
+const WHITESPACE_REGEX = /[\t\n\f\r ]+/y;
+const NTH_REGEX = /(even)|(odd)|([+-]?)(\d*)n(?:[\t\n\f\r ]*([+-])[\t\n\f\r ]*(\d+))?|([+-]?\d+)/iy;
+
+const DEFAULT_NTH_SELECTORS: Record<string, Omit<NthSelector, 'type' | 'selectors'>[]> = {
+    'first-child': [{ a: 0, b: 1, last: false, ofType: false }],
+    'last-child': [{ a: 0, b: 1, last: true, ofType: false }],
+    'only-child': [
+        { a: 0, b: 1, last: false, ofType: false },
+        { a: 0, b: 1, last: true, ofType: false },
+    ],
+    'first-of-type': [{ a: 0, b: 1, last: false, ofType: true }],
+    'last-of-type': [{ a: 0, b: 1, last: true, ofType: true }],
+    'only-of-type': [
+        { a: 0, b: 1, last: false, ofType: true },
+        { a: 0, b: 1, last: true, ofType: true },
+    ],
+};
+
+function unescape(str: string): string {
+    return str.replace(ESCAPE_REGEX, (_match, hex: string | undefined, char: string | undefined) => {
+        if (hex === undefined) {
+            //NOTE: escaped newlines are removed from strings.
+            return char === '\n' ? '' : (char as string);
+        }
+
+        const cp = Number.parseInt(hex, 16);
+
+        return cp === 0 || cp > 0x10_ff_ff || (cp >= 0xd8_00 && cp <= 0xdf_ff)
+            ? REPLACEMENT_CHARACTER
+            : String.fromCodePoint(cp);
+    });
+}
+
+/**
+ * Parses a [selector list](https://www.w3.org/TR/selectors-4/#grouping).
+ *
+ * @param namespaces Namespace prefixes that can be used in the selector.
+ */
+export function parseSelector(source: string, namespaces: Record<string, string>): ComplexSelector[] {
+    return new SelectorParser(source, namespaces).parse();
+}
+
+class SelectorParser {
+    private pos = 0;
+
+    constructor(private source: string, private namespaces: Record<string, string>) {}
+
+    parse(): ComplexSelector[] {
+        const selectors = this._parseSelectorList(false);
+
+        if (this.pos < this.source.length) {
+            this._fail(`Unexpected "${this.source[this.pos]}"`);
+        }
+
+        return selectors;
+    }
+
+    private _fail(reason: string): never {
+        throw new SelectorSyntaxError(`${reason} at position ${this.pos} of the "${this.source}" selector`);
+    }
+
+    private _match(regex: RegExp): RegExpExecArray | null {
+        regex.lastIndex = this.pos;
+
+        const match = regex.exec(this.source);
+
+        if (match) {
+            this.pos = regex.lastIndex;
+        }
+
+        return match;
+    }
+
+    private _consume(str: string): boolean {
+        if (this.source.startsWith(str, this.pos)) {
+            this.pos += str.length;
+            return true;
+        }
+
+        return false;
+    }
+
+    private _expect(str: string): void {
+        if (!this._consume(str)) {
+            this._fail(this.pos < this.source.length ? `Expected "${str}"` : 'Unexpected end');
+        }
+    }
+
+    private _skipWhitespace(): boolean {
+        return this._match(WHITESPACE_REGEX) !== null;
+    }
+
+    private _parseIdentifier(): string | null {
+        const match = this._match(IDENT_REGEX);
+
+        return match && unescape(match[0]);
+    }
+
+    private _expectIdentifier(): string {
+        return this._parseIdentifier() ?? this._fail('Expected an identifier');
+    }
+
+    private _resolveNamespace(prefix: string): string | null {
+        if (prefix === '*' || prefix === '') {
+            return prefix === '*' ? '*' : null;
+        }
+
+        if (!Object.prototype.hasOwnProperty.call(this.namespaces, prefix)) {
+            this._fail(`Unknown namespace prefix "${prefix}"`);
+        }
+
+        return this.namespaces[prefix];
+    }
+
+    private _parseSelectorList(relative: boolean): ComplexSelector[] {
+        const selectors: ComplexSelector[] = [];
+
+        do {
+            this._skipWhitespace();
+            selectors.push(this._parseComplexSelector(relative));
+            this._skipWhitespace();
+        } while (this._consume(','));
+
+        return selectors;
+    }
+
+    private _parseCombinator(): Combinator | null {
+        let combinator: Combinator | null = null;
+
+        if (this._consume('>')) {
+            combinator = Combinator.Child;
+        } else if (this._consume('+')) {
+            combinator = Combinator.NextSibling;
+        } else if (this._consume('~')) {
+            combinator = Combinator.SubsequentSibling;
+        }
+
+        if (combinator !== null) {
+            this._skipWhitespace();
+        }
+
+        return combinator;
+    }
+
+    private _parseComplexSelector(relative: boolean): ComplexSelector {
+        const parts: ComplexSelector = [];
+        let combinator = relative ? this._parseCombinator() ?? Combinator.Descendant : null;
+
+        for (;;) {
+            parts.push({ combinator, compound: this._parseCompoundSelector() });
+
+            const hasWhitespace = this._skipWhitespace();
+            const nextCombinator = this._parseCombinator();
+
+            if (nextCombinator !== null) {
+                combinator = nextCombinator;
+            } else if (hasWhitespace && this.pos < this.source.length && !/[),]/.test(this.source[this.pos])) {
+                combinator = Combinator.Descendant;
+            } else {
+                return parts;
+            }
+        }
+    }
+
+    private _parseCompoundSelector(): SimpleSelector[] {
+        const compound: SimpleSelector[] = [];
+        const typeSelector = this._parseTypeSelector();
+
+        if (typeSelector) {
+            compound.push(typeSelector);
+        }
+
+        for (;;) {
+            if (this._consume('#')) {
+                compound.push({ type: SelectorType.Id, name: this._expectIdentifier() });
+            } else if (this._consume('.')) {
+                compound.push({ type: SelectorType.Class, name: this._expectIdentifier() });
+            } else if (this._consume('[')) {
+                compound.push(this._parseAttributeSelector());
+            } else if (this._consume(':')) {
+                compound.push(...this._parsePseudoClass());
+            } else {
+                break;
+            }
+        }
+
+        if (compound.length === 0) {
+            this._fail(this.pos < this.source.length ? `Unexpected "${this.source[this.pos]}"` : 'Unexpected end');
+        }
+
+        return compound;
+    }
+
+    //NOTE: parses `prefix|name`, `*|name`, `|name` and `name`, where `name` can be `*` if allowed.
+    private _parseQualifiedName(allowUniversal: boolean): { namespace: NamespaceConstraint; name: string } | null {
+        const start = this.pos;
+        let name = this._consume('*') ? '*' : this._parseIdentifier();
+
+        if (this.source[this.pos] === '|' && this.source[this.pos + 1] !== '=') {
+            this.pos++;
+
+            const namespace = this._resolveNamespace(name ?? '');
+
+            name = allowUniversal && this._consume('*') ? '*' : this._expectIdentifier();
+
+            return { namespace, name };
+        }
+
+        if (name === null || (name === '*' && !allowUniversal)) {
+            this.pos = start;
+            return null;
+        }
+
+        return { namespace: undefined, name };
+    }
+
+    private _parseTypeSelector(): TypeSelector | null {
+        const qualifiedName = this._parseQualifiedName(true);
+
+        if (!qualifiedName) {
+            return null;
+        }
+
+        const { namespace, name } = qualifiedName;
+
+        return {
+            type: SelectorType.Type,
+            namespace: namespace === '*' ? undefined : namespace,
+            name: name === '*' ? null : name,
+        };
+    }
+
+    private _parseAttributeSelector(): AttributeSelector {
+        this._skipWhitespace();
+
+        const qualifiedName = this._parseQualifiedName(false) ?? this._fail('Expected an attribute name');
+        const selector: AttributeSelector = {
+            type: SelectorType.Attribute,
+            namespace: qualifiedName.namespace,
+            name: qualifiedName.name,
+            operator: null,
+            value: '',
+            caseSensitive: null,
+        };
+
+        this._skipWhitespace();
+
+        if (this._consume(']')) {
+            return selector;
+        }
+
+        const operator = (['=', '~=', '|=', '^=', '$=', '*='] as const).find((op) => this._consume(op));
+
+        if (!operator) {
+            this._fail('Expected an attribute selector operator');
+        }
+
+        selector.operator = operator;
+        this._skipWhitespace();
+
+        const string = this._match(STRING_REGEX);
+
+        selector.value = string ? unescape(string[0].slice(1, -1)) : this._expectIdentifier();
+        this._skipWhitespace();
+
+        const flag = this._parseIdentifier()?.toLowerCase();
+
+        if (flag !== undefined) {
+            if (flag !== 'i' && flag !== 's') {
+                this._fail(`Unknown attribute selector flag "${flag}"`);
+            }
+
+            selector.caseSensitive = flag === 's';
+            this._skipWhitespace();
+        }
+
+        this._expect(']');
+
+        return selector;
+    }
+
+    private _parsePseudoClass(): SimpleSelector[] {
+        if (this.source[this.pos] === ':') {
+            this._fail('Pseudo-elements are not supported');
+        }
+
+        //NOTE: pseudo-class names are ASCII case-insensitive.
+        const name = this._expectIdentifier().toLowerCase();
+
+        if (!this._consume('(')) {
+            switch (name) {
+                case 'root': {
+                    return [{ type: SelectorType.Root }];
+                }
+                case 'empty': {
+                    return [{ type: SelectorType.Empty }];
+                }
+                case 'scope': {
+                    return [{ type: SelectorType.Scope }];
+                }
+                default: {
+                    if (Object.prototype.hasOwnProperty.call(DEFAULT_NTH_SELECTORS, name)) {
+                        return DEFAULT_NTH_SELECTORS[name].map((nth) => ({
+                            type: SelectorType.Nth,
+                            ...nth,
+                            selectors: null,
+                        }));
+                    }
+                }
+            }
+
+            this._fail(`Unknown pseudo-class ":${name}"`);
+        }
+
+        this._skipWhitespace();
+
+        let selector: SimpleSelector;
+
+        switch (name) {
+            case 'is':
+            case 'where': {
+                selector = { type: SelectorType.Is, selectors: this._parseSelectorList(false) };
+                break;
+            }
+            case 'not': {
+                selector = { type: SelectorType.Not, selectors: this._parseSelectorList(false) };
+                break;
+            }
+            case 'has': {
+                selector = { type: SelectorType.Has, selectors: this._parseSelectorList(true) };
+                break;
+            }
+            case 'nth-child':
+            case 'nth-last-child':
+            case 'nth-of-type':
+            case 'nth-last-of-type': {
+                selector = this._parseNth(name.includes('last'), name.endsWith('of-type'));
+                break;
+            }
+            default: {
+                this._fail(`Unknown pseudo-class ":${name}()"`);
+            }
+        }
+
+        this._expect(')');
+
+        return [selector];
+    }
+
+    private _parseNth(last: boolean, ofType: boolean): NthSelector {
+        const match = this._match(NTH_REGEX) ?? this._fail('Expected an An+B expression');
+        const [, even, odd, aSign, aDigits, bSign, bDigits, integer] = match;
+        const selector: NthSelector = { type: SelectorType.Nth, a: 0, b: 0, last, ofType, selectors: null };
+
+        if (even || odd) {
+            selector.a = 2;
+            selector.b = odd ? 1 : 0;
+        } else if (integer === undefined) {
+            selector.a = (aSign === '-' ? -1 : 1) * (aDigits ? Number.parseInt(aDigits, 10) : 1);
+            selector.b = bDigits ? (bSign === '-' ? -1 : 1) * Number.parseInt(bDigits, 10) : 0;
+        } else {
+            selector.b = Number.parseInt(integer, 10);
+        }
+
+        const hasWhitespace = this._skipWhitespace();
+
+        if (!ofType && hasWhitespace) {
+            const start = this.pos;
+
+            if (this._parseIdentifier()?.toLowerCase() === 'of' && this._skipWhitespace()) {
+                selector.selectors = this._parseSelectorList(false);
+            } else {
+                this.pos = start;
+            }
+        }
+
+        return selector;
+    }
+}
@@ -1,8 +1,15 @@
 import * as assert from 'node:assert';
+import * as fs from 'node:fs';
 import * as parse5 from 'parse5';
+import { XmlSerializationError } from './xml.js';
 import { generateSerializerTests } from 'parse5-test-utils/utils/generate-serializer-tests.js';
-import { treeAdapters } from 'parse5-test-utils/utils/common.js';
-import type { Element } from 'parse5/dist/tree-adapters/default';
+import { loadTreeConstructionTestData } from 'parse5-test-utils/utils/generate-parsing-tests.js';
+import { serializeToDatFileFormat } from 'parse5-test-utils/utils/serialize-to-dat-file-format.js';
+import { treeAdapters, generateTestsForEachTreeAdapter } from 'parse5-test-utils/utils/common.js';
+import { getMappedSnippets } from 'parse5-test-utils/utils/source-map.js';
+import { NAMESPACES as NS } from '../common/html.js';
+import type { Element, Document, CommentNode } from 'parse5/dist/tree-adapters/default';
+import type { TreeAdapter, TreeAdapterTypeMap } from 'parse5/dist/tree-adapters/interface';
 
 generateSerializerTests('serializer', 'Serializer', parse5.serialize);
 
@@ -23,3 +30,576 @@ describe('serializer', () => {
         });
     });
 });
+
+function getNormalizedTree<T extends TreeAdapterTypeMap>(
+    node: T['parentNode'],
+    treeAdapter: TreeAdapter<T>,
+    preserveWhitespace = false
+): string {
+    let str = '';
+
+    for (const child of treeAdapter.getChildNodes(node)) {
+        if (treeAdapter.isTextNode(child)) {
+            const content = treeAdapter.getTextNodeContent(child);
+
+            str += preserveWhitespace ? content : content.replace(/[\t\n\f\r ]+/g, ' ').trim();
+        } else if (treeAdapter.isElementNode(child)) {
+            const tn = treeAdapter.getTagName(child);
+            const attrs = treeAdapter.getAttrList(child).map(({ name, value }) => ` ${name}="${value}"`);
+            const holder = tn === 'template' ? treeAdapter.getTemplateContent(child) : child;
+            const isPreserving = preserveWhitespace || ['pre', 'textarea', 'script', 'style'].includes(tn);
+
+            str += `<${tn}${attrs.join('')}>${getNormalizedTree(holder, treeAdapter, isPreserving)}</${tn}>`;
+        } else if (treeAdapter.isCommentNode(child)) {
+            str += `<!--${treeAdapter.getCommentNodeContent(child)}-->`;
+        }
+    }
+
+    return str;
+}
+
+describe('serializer formatting', () => {
+    it('Indents block-level elements', () => {
+        const document = parse5.parse(
+            '<!DOCTYPE html><title>Test</title><div><p>Hi <b>there</b>!</p><ul><li>One<li>Two</ul></div>'
+        );
+
+        assert.strictEqual(
+            parse5.serialize(document, { format: true }),
+            [
+                '<!DOCTYPE html>',
+                '<html>',
+                '  <head>',
+                '    <title>Test</title>',
+                '  </head>',
+                '  <body>',
+                '    <div>',
+                '      <p>Hi <b>there</b>!</p>',
+                '      <ul>',
+                '        <li>One</li>',
+                '        <li>Two</li>',
+                '      </ul>',
+                '    </div>',
+                '  </body>',
+                '</html>',
+            ].join('\n')
+        );
+    });
+
+    it('Preserves whitespace in pre, textarea and raw text elements', () => {
+        const fragment = parse5.parseFragment(
+            '<div><pre>  a\n    b </pre><textarea> c  d\n</textarea><script>  if (a < b)\n  {}</script></div>'
+        );
+
+        assert.strictEqual(
+            parse5.serialize(fragment, { format: { indent: '\t' } }),
+            '<div>\n\t<pre>  a\n    b </pre>\n\t<textarea> c  d\n</textarea>\n\t<script>  if (a < b)\n  {}</script>\n</div>'
+        );
+    });
+
+    it('Wraps long lines of inline content', () => {
+        const fragment = parse5.parseFragment('<p>Lorem ipsum dolor sit <a href="#x y">amet consectetur</a> elit</p>');
+
+        assert.strictEqual(
+            parse5.serialize(fragment, { format: { lineWidth: 20 } }),
+            '<p>Lorem ipsum dolor\n  sit\n  <a href="#x y">amet\n  consectetur</a>\n  elit</p>'
+        );
+    });
+
+    it('Does not add whitespace between inline nodes', () => {
+        const fragment = parse5.parseFragment('<p><b>foo</b><i>bar</i>baz<!--qux--><svg><text> a  b </text></svg></p>');
+
+        assert.strictEqual(
+            parse5.serialize(fragment, { format: { lineWidth: 1 } }),
+            '<p><b>foo</b><i>bar</i>baz<!--qux--><svg><text> a  b </text></svg></p>'
+        );
+    });
+
+    it('Uses custom block elements', () => {
+        const fragment = parse5.parseFragment('<div><span>a</span><span>b</span></div>');
+
+        assert.strictEqual(
+            parse5.serialize(fragment, { format: { blockElements: ['div', 'span'] } }),
+            '<div>\n  <span>a</span>\n  <span>b</span>\n</div>'
+        );
+    });
+
+    generateTestsForEachTreeAdapter('serializer formatting', (treeAdapter) => {
+        const data = fs.readFileSync(new URL('../../../../test/data/serialization/tests.json', import.meta.url));
+        const tests = JSON.parse(data.toString('utf-8')) as { name: string; input: string }[];
+
+        for (const [idx, test] of tests.entries()) {
+            it(`Reparses to an equivalent tree - ${idx}.${test.name}`, () => {
+                const document = parse5.parse(test.input, { treeAdapter });
+                const formatted = parse5.serialize(document, { treeAdapter, format: { lineWidth: 20 } });
+                const compact = parse5.serialize(document, { treeAdapter });
+
+                //NOTE: compare with the reparsed compact output, as some trees don't survive the round trip anyway.
+                assert.strictEqual(
+                    getNormalizedTree(parse5.parse(formatted, { treeAdapter }), treeAdapter),
+                    getNormalizedTree(parse5.parse(compact, { treeAdapter }), treeAdapter)
+                );
+            });
+        }
+    });
+});
+
+describe('serializer minification', () => {
+    it('Omits optional tags', () => {
+        const document = parse5.parse(
+            '<!DOCTYPE html><title>x</title><p>a<p>b<ul><li>1<li>2</ul><dl><dt>x<dd>y</dl>' +
+                '<table><caption>c<col><tr><td>1<td>2<tr><td>3</table><select><option>a<option>b</select>'
+        );
+
+        assert.strictEqual(
+            parse5.serialize(document, { minify: true }),
+            '<!DOCTYPE html><title>x</title><p>a<p>b<ul><li>1<li>2</ul><dl><dt>x<dd>y</dl>' +
+                '<table><caption>c<col><tr><td>1<td>2<tr><td>3</table><select><option>a<option>b</select>'
+        );
+    });
+
+    it('Keeps tags which are required to reproduce the tree', () => {
+        const document = parse5.parse('<html lang="en"><head><!--c--></head><body> x<p>a<span>b</span></p><a>c</a>');
+
+        assert.strictEqual(
+            parse5.serialize(document, { minify: true }),
+            '<html lang=en><head><!--c--><body> x<p>a<span>b</span></p><a>c</a>'
+        );
+    });
+
+    it('Minifies attributes', () => {
+        const fragment = parse5.parseFragment(
+            '<input disabled value="a b" class="x" title=\'say "hi"\' data-a="it\'s &quot;q&quot;" alt="">'
+        );
+
+        assert.strictEqual(
+            parse5.serialize(fragment, { minify: true }),
+            '<input disabled value="a b" class=x title=\'say "hi"\' data-a="it\'s &quot;q&quot;" alt>'
+        );
+    });
+
+    it('Removes insignificant whitespace', () => {
+        const fragment = parse5.parseFragment('<table>\n  <tr>\n    <td> a </td>\n  </tr>\n</table>\n<p> b </p>');
+
+        assert.strictEqual(parse5.serialize(fragment, { minify: true }), '<table><tr><td> a </table>\n<p> b ');
+        assert.strictEqual(
+            parse5.serialize(fragment, { minify: { removeInsignificantWhitespace: false } }),
+            '<table>\n  <tr>\n    <td> a </td>\n  </tr>\n</table>\n<p> b '
+        );
+    });
+
+    it('Serializes tags as is if optional tags are not omitted', () => {
+        const fragment = parse5.parseFragment('<ul><li class="a b">1</li><li>2</li></ul>');
+
+        assert.strictEqual(
+            parse5.serialize(fragment, { minify: { omitOptionalTags: false, minifyAttributes: false } }),
+            '<ul><li class="a b">1</li><li>2</li></ul>'
+        );
+    });
+
+    generateTestsForEachTreeAdapter('serializer minification', (treeAdapter) => {
+        const data = fs.readFileSync(new URL('../../../../test/data/serialization/tests.json', import.meta.url));
+        const tests = JSON.parse(data.toString('utf-8')) as { name: string; input: string }[];
+
+        for (const [idx, test] of tests.entries()) {
+            it(`Reparses to an equivalent tree - ${idx}.${test.name}`, () => {
+                const document = parse5.parse(test.input, { treeAdapter });
+                const minified = parse5.serialize(document, {
+                    treeAdapter,
+                    minify: { removeInsignificantWhitespace: false },
+                });
+                const compact = parse5.serialize(document, { treeAdapter });
+                const expected = getNormalizedTree(document, treeAdapter, true);
+
+                //NOTE: the minified output should reproduce the tree whenever the compact one does.
+                if (getNormalizedTree(parse5.parse(compact, { treeAdapter }), treeAdapter, true) === expected) {
+                    assert.strictEqual(
+                        getNormalizedTree(parse5.parse(minified, { treeAdapter }), treeAdapter, true),
+                        expected
+                    );
+                }
+            });
+        }
+
+        const treeConstructionPaths = [
+            new URL('../../../../test/data/html5lib-tests/tree-construction', import.meta.url),
+            new URL('../../../../test/data/tree-construction-regression', import.meta.url),
+        ];
+
+        for (const test of loadTreeConstructionTestData(treeConstructionPaths, treeAdapter)) {
+            it(`Reparses tree construction data to an equivalent tree - ${test.idx}.${test.setName} (line ${test.lineNum})`, () => {
+                const options = { treeAdapter, scriptingEnabled: test.scriptingEnabled };
+                const parse = (html: string): TreeAdapterTypeMap['parentNode'] =>
+                    test.fragmentContext
+                        ? parse5.parseFragment(test.fragmentContext, html, options)
+                        : parse5.parse(html, options);
+                const node = parse(test.input);
+                const minified = parse5.serialize(node, {
+                    treeAdapter,
+                    minify: { removeInsignificantWhitespace: false },
+                });
+                const compact = parse5.serialize(node, { treeAdapter });
+                const expected = serializeToDatFileFormat(node, treeAdapter);
+
+                if (serializeToDatFileFormat(parse(compact), treeAdapter) === expected) {
+                    assert.strictEqual(serializeToDatFileFormat(parse(minified), treeAdapter), expected);
+                }
+            });
+        }
+    });
+});
+
+describe('serializer XML mode', () => {
+    it('Serializes a document', () => {
+        const document = parse5.parse('<!DOCTYPE html><title>a&nbsp;&amp;</title><br><p class="<&>">Hi<img alt></p>');
+
+        assert.strictEqual(
+            parse5.serialize(document, { xml: true }),
+            '<!DOCTYPE html><html xmlns="http://www.w3.org/1999/xhtml"><head><title>a &amp;</title></head>' +
+                '<body><br /><p class="&lt;&amp;&gt;">Hi<img alt="" /></p></body></html>'
+        );
+    });
+
+    it('Declares namespaces of foreign elements and attributes', () => {
+        const fragment = parse5.parseFragment(
+            '<svg xml:lang="en"><use xlink:href="#a"></use><foreignObject><div></div></foreignObject></svg><math><mi>x</mi></math>'
+        );
+
+        assert.strictEqual(
+            parse5.serialize(fragment, { xml: true }),
+            '<svg xmlns="http://www.w3.org/2000/svg" xml:lang="en">' +
+                '<use xmlns:xlink="http://www.w3.org/1999/xlink" xlink:href="#a"/>' +
+                '<foreignObject><div xmlns="http://www.w3.org/1999/xhtml"></div></foreignObject></svg>' +
+                '<math xmlns="http://www.w3.org/1998/Math/MathML"><mi>x</mi></math>'
+        );
+    });
+
+    it('Generates prefixes for namespaces which conflict with declared ones', () => {
+        const fragment = parse5.parseFragment('<svg xmlns:xlink="foo"><a xlink:href="#a"></a></svg>');
+
+        assert.strictEqual(
+            parse5.serialize(fragment, { xml: true }),
+            '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="foo">' +
+                '<a xmlns:ns1="http://www.w3.org/1999/xlink" ns1:href="#a"/></svg>'
+        );
+    });
+
+    it('Wraps script and style contents in CDATA sections', () => {
+        const fragment = parse5.parseFragment(
+            '<script>if (a < b) {}</script><script>a > b</script><style>a::after { content: "]]>" }</style>'
+        );
+
+        assert.strictEqual(
+            parse5.serialize(fragment, { xml: true }),
+            '<script xmlns="http://www.w3.org/1999/xhtml">//<![CDATA[\nif (a < b) {}\n//]]></script>' +
+                '<script xmlns="http://www.w3.org/1999/xhtml">a > b</script>' +
+                '<style xmlns="http://www.w3.org/1999/xhtml">/*<![CDATA[*/a::after { content: "]]]]><![CDATA[>" }/*]]>*/</style>'
+        );
+    });
+
+    it('Allows an `xmlns` attribute matching the element namespace', () => {
+        const document = parse5.parse('<html xmlns="http://www.w3.org/1999/xhtml"><body>');
+
+        assert.strictEqual(
+            parse5.serialize(document, { xml: true }),
+            '<html xmlns="http://www.w3.org/1999/xhtml"><head></head><body></body></html>'
+        );
+    });
+
+    it('Throws if the tree is not well-formed', () => {
+        const inputs = [
+            '<!--a--b-->',
+            '<!--a--->',
+            '<div xmlns="foo">',
+            '<div a:b="c">',
+            '<div a<b>',
+            '<p>\f</p>',
+            '<p title="\u0001">',
+        ];
+
+        for (const html of inputs) {
+            assert.throws(() => parse5.serialize(parse5.parseFragment(html), { xml: true }), XmlSerializationError);
+        }
+    });
+});
+
+describe('serializer shadow roots', () => {
+    const html =
+        '<div><template shadowrootmode="open" shadowrootserializable><p>a</template>b</div>' +
+        '<span><template shadowrootmode="closed" shadowrootclonable shadowrootdelegatesfocus>c</template></span>';
+
+    it('Serializes serializable shadow roots', () => {
+        const fragment = parse5.parseFragment(html, { allowDeclarativeShadowRoots: true });
+
+        assert.strictEqual(parse5.serialize(fragment, {}), '<div>b</div><span></span>');
+        assert.strictEqual(
+            parse5.serialize(fragment, { serializableShadowRoots: true }),
+            '<div><template shadowrootmode="open" shadowrootserializable=""><p>a</p></template>b</div><span></span>'
+        );
+    });
+
+    it('Serializes given shadow roots', () => {
+        const fragment = parse5.parseFragment(html, { allowDeclarativeShadowRoots: true });
+        const span = fragment.childNodes[1] as Element;
+
+        assert.ok(span.shadowRoot);
+        assert.strictEqual(
+            parse5.serialize(fragment, { shadowRoots: [span.shadowRoot] }),
+            '<div>b</div><span><template shadowrootmode="closed" shadowrootdelegatesfocus="" shadowrootclonable="">' +
+                'c</template></span>'
+        );
+    });
+
+    it('Keeps the start tag of a shadow host in the minification mode', () => {
+        const document = parse5.parse('<body><template shadowrootmode="open">a</template>', {
+            allowDeclarativeShadowRoots: true,
+        });
+        const body = (document.childNodes[0] as Element).childNodes[1] as Element;
+
+        assert.ok(body.shadowRoot);
+        assert.strictEqual(parse5.serialize(document, { minify: true }), '');
+        assert.strictEqual(
+            parse5.serialize(document, { shadowRoots: [body.shadowRoot], minify: true }),
+            '<body><template shadowrootmode="open">a</template>'
+        );
+    });
+});
+
+function parseLossless(html: string): Document {
+    return parse5.parse(html, { lossless: true });
+}
+
+function find(document: Document, selector: string): Element {
+    const element = parse5.querySelector(document, selector);
+
+    assert.ok(element);
+
+    return element;
+}
+
+describe('serializer lossless mode', () => {
+    const hugePage = new URL('../../../../test/data/huge-page/huge-page.html', import.meta.url);
+    const treeAdapter = treeAdapters.default;
+
+    it('Reproduces the source of an unmodified document', () => {
+        const html = fs.readFileSync(hugePage, 'utf8');
+
+        assert.strictEqual(parse5.serialize(parseLossless(html), { lossless: true }), html);
+    });
+
+    it('Reproduces quotes, casing, character references and omitted tags', () => {
+        const inputs = [
+            "<!DOCTYPE html PUBLIC '-//W3C//DTD HTML 4.01//EN'>\n<HTML lang=en><title>A &amp; B</title>\n" +
+                '<body CLASS=\'x\'  id = "y"><p>a&nbsp;b&#x41;&copy<p>c<ul><li>1<li>2</ul><BR/>' +
+                '<table><td>x</table><svg viewBox="0 0 1 1"><path d="M0 0"/></svg><!-- c --></BODY></HTML>\n',
+            '<p>a</b>c</p></div>d</i></body>\n</html>\n',
+            '<p>a\r\nb\rc&amp<',
+            '<textarea>\nx</textarea><script>a</script ><p><b>x<p>y</b>',
+        ];
+
+        for (const html of inputs) {
+            assert.strictEqual(parse5.serialize(parseLossless(html), { lossless: true }), html);
+        }
+    });
+
+    it('Reproduces the source ignored at the end of the input', () => {
+        const inputs = [
+            '<div></span>',
+            '<p>1</foo>',
+            '<body>\0',
+            '<!DOCTYPE html><!DOCTYPE html>',
+            '<head>',
+            '<html><body></body></html>',
+            '<frameset></frameset></html><!--a--><noframes>b</noframes>',
+        ];
+
+        for (const html of inputs) {
+            assert.strictEqual(parse5.serialize(parseLossless(html), { lossless: true }), html);
+            assert.strictEqual(
+                parse5.serialize(parse5.parseFragment(html, { lossless: true }), { lossless: true }),
+                html
+            );
+        }
+    });
+
+    it('Reproduces the source of nodes inserted out of the source order', () => {
+        const inputs = [
+            '<table>x<tr>y</table>',
+            '<b>1<p>2</b>3</p>',
+            '<p>a<table><div>b</div><tr><td>c</table>d',
+            '<table><b>1<tr><td>2</b>3</table>',
+            '<template><table>x</table></template>',
+            '<div><table>x</table></div></body>\n<!--c-->',
+        ];
+
+        for (const html of inputs) {
+            assert.strictEqual(parse5.serialize(parseLossless(html), { lossless: true }), html);
+            assert.strictEqual(
+                parse5.serialize(parse5.parseFragment(html, { lossless: true }), { lossless: true }),
+                html
+            );
+        }
+    });
+
+    it('Serializes modified content of nodes inserted out of the source order', () => {
+        const fostered = parseLossless('<div><table>x<tr>y</table></div><p>a');
+        const misnested = parseLossless('<b>1<p>2</b>3</p>');
+        const cloned = find(misnested, 'p > b');
+
+        find(fostered, 'p').attrs.push({ name: 'id', value: 'z' });
+        treeAdapter.detachNode(cloned);
+        treeAdapter.appendChild(find(misnested, 'p'), cloned);
+
+        assert.strictEqual(
+            parse5.serialize(fostered, { lossless: true }),
+            '<div><table>x<tr>y</table></div><p id="z">a</p>'
+        );
+        assert.strictEqual(parse5.serialize(misnested, { lossless: true }), '<b>1</b><p>3<b>2</b></p>');
+    });
+
+    it('Serializes modified nodes', () => {
+        const document = parseLossless("<div CLASS=a><p title='x'>a &amp; b</P><!-- c --><Br></div>");
+
+        find(document, 'p').attrs.push({ name: 'id', value: 'y' });
+        treeAdapter.insertText(find(document, 'p'), '!');
+        (find(document, 'div').childNodes[1] as CommentNode).data = 'd';
+        find(document, 'br').tagName = 'hr';
+
+        assert.strictEqual(
+            parse5.serialize(document, { lossless: true }),
+            '<div CLASS=a><p title="x" id="y">a &amp; b!</p><!--d--><hr></div>'
+        );
+    });
+
+    it('Emits omitted tags if they are no longer implied', () => {
+        const document = parseLossless('<!DOCTYPE html><ul><li>1<li>2</ul><p>a<table><tr><td>b</table>c<li>3<li>4');
+        const ul = find(document, 'ul');
+        const li = treeAdapter.createElement('li', NS.HTML, []);
+
+        treeAdapter.insertBefore(ul, li, ul.childNodes[1]);
+        treeAdapter.detachNode(find(document, 'tr'));
+        treeAdapter.detachNode(find(document, 'table'));
+        find(document, 'body > li:last-child').tagName = 'div';
+
+        assert.strictEqual(
+            parse5.serialize(document, { lossless: true }),
+            '<!DOCTYPE html><ul><li>1</li><li></li><li>2</ul><p>a</p>c<li>3</li><div>4</div>'
+        );
+    });
+
+    it('Has no effect in the formatting, minification and XML modes', () => {
+        const document = parseLossless('<P>a');
+
+        assert.strictEqual(parse5.serialize(document, { lossless: true, minify: true }), '<p>a');
+        assert.strictEqual(parse5.serialize(document, { lossless: false }), parse5.serialize(document, {}));
+    });
+
+    const feedbackDir = new URL('../../../../test/data/parser-feedback/', import.meta.url);
+
+    for (const fileName of fs.readdirSync(feedbackDir)) {
+        const data = fs.readFileSync(new URL(fileName, feedbackDir));
+        const { tests } = JSON.parse(data.toString('utf-8')) as { tests: { input: string }[] };
+
+        it(`Reproduces the source of parser feedback inputs - ${fileName}`, () => {
+            for (const { input } of tests) {
+                assert.strictEqual(parse5.serialize(parseLossless(input), { lossless: true }), input);
+                assert.strictEqual(
+                    parse5.serialize(parse5.parseFragment(input, { lossless: true }), { lossless: true }),
+                    input
+                );
+            }
+        });
+    }
+});
+
+describe('serializer source maps', () => {
+    it('Maps tags, attributes, text, comments and document types to the source', () => {
+        const html = '<!DOCTYPE html><div class=a ID="x">Hi &amp;\nthere</div>\n<!--c\nd--><svg viewBox="0 0 1 1"/>';
+        const document = parse5.parse(html, { sourceCodeLocationInfo: true });
+        const div = find(document, 'div');
+
+        div.attrs[0].value = 'b';
+        treeAdapters.default.appendChild(div, treeAdapters.default.createElement('br', NS.HTML, []));
+
+        const result = parse5.serializeWithSourceMap(document, {
+            sourceMap: { file: 'out.html', source: 'in.html', sourceContent: html },
+        });
+
+        assert.ok(result.sourceMap);
+        assert.deepStrictEqual(
+            { ...result.sourceMap, mappings: '' },
+            { version: 3, file: 'out.html', sources: ['in.html'], sourcesContent: [html], names: [], mappings: '' }
+        );
+        assert.deepStrictEqual(getMappedSnippets(result.sourceMap, result.html, [html]), [
+            ['<!DOCTYPE html><html><head></head><body>', 'in.html', '<!DOCTYPE html><div class=a ID="x">Hi &a'],
+            ['<div ', 'in.html', '<div '],
+            ['class="b" ', 'in.html', 'class=a ID'],
+            ['id="x">', 'in.html', 'ID="x">'],
+            ['Hi &amp;', 'in.html', 'Hi &amp;'],
+            ['there<br>', 'in.html', 'there</di'],
+            ['</div>', 'in.html', '</div>'],
+            ['', 'in.html', ''],
+            ['<!--c', 'in.html', '<!--c'],
+            ['d-->', 'in.html', 'd-->'],
+            ['<svg ', 'in.html', '<svg '],
+            ['viewBox="0 0 1 1"></svg></body></html>', 'in.html', 'viewBox="0 0 1 1"/>'],
+        ]);
+    });
+
+    it('Maps the raw source in the lossless mode', () => {
+        const html = '<P title=x\n  id=y>a\nb</x>c</P>\n<p>d';
+        const document = parse5.parse(html, { sourceCodeLocationInfo: true, lossless: true });
+        const { html: output, sourceMap } = parse5.serializeWithSourceMap(document, { lossless: true });
+
+        assert.strictEqual(output, html);
+        assert.ok(sourceMap);
+        assert.deepStrictEqual(getMappedSnippets(sourceMap, output, [html]), [
+            ['<P ', '', '<P '],
+            ['title=x', '', 'title=x'],
+            ['id=y>', '', 'id=y>'],
+            ['a', '', 'a'],
+            ['b</x>c', '', 'b</x>c'],
+            ['</P>', '', '</P>'],
+            ['', '', ''],
+            ['<p>', '', '<p>'],
+            ['d', '', 'd'],
+        ]);
+    });
+
+    it('Composes a source map for several serialized trees', () => {
+        const sources = ['<p>a</p>', '\n<b>b</b>'];
+        const generator = new parse5.SourceMapGenerator('out.html');
+        let output = '';
+
+        for (const [idx, html] of sources.entries()) {
+            const fragment = parse5.parseFragment(html, { sourceCodeLocationInfo: true });
+
+            output += parse5.serialize(fragment, { sourceMap: { source: `${idx}.html`, generator } });
+        }
+
+        const sourceMap = generator.toJSON();
+
+        assert.deepStrictEqual(sourceMap.sources, ['0.html', '1.html']);
+        assert.strictEqual(sourceMap.sourcesContent, undefined);
+        assert.deepStrictEqual(getMappedSnippets(sourceMap, output, sources), [
+            ['<p>', '0.html', '<p>'],
+            ['a', '0.html', 'a'],
+            ['</p>', '0.html', '</p>'],
+            ['', '1.html', ''],
+            ['<b>', '1.html', '<b>'],
+            ['b', '1.html', 'b'],
+            ['</b>', '1.html', '</b>'],
+        ]);
+    });
+
+    it('Has no effect in the formatting and XML modes', () => {
+        const document = parse5.parse('<p>a', { sourceCodeLocationInfo: true });
+
+        assert.strictEqual(parse5.serializeWithSourceMap(document, { format: true }).sourceMap, null);
+        assert.strictEqual(parse5.serializeWithSourceMap(document, { xml: true }).sourceMap, null);
+        assert.strictEqual(
+            parse5.serializeWithSourceMap(document, { sourceMap: false }).html,
+            parse5.serialize(document, {})
+        );
+    });
+});
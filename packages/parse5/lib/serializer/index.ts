@@ -1,7 +1,15 @@
 import * as defaultTreeAdapter from '../tree-adapters/default.js';
 import * as doctype from '../common/doctype.js';
-import { TAG_NAMES as $, NAMESPACES as NS } from '../common/html.js';
+import { TAG_NAMES as $, NAMESPACES as NS, ATTRS } from '../common/html.js';
 import type { TreeAdapter, TreeAdapterTypeMap } from '../tree-adapters/interface';
+import { OptionalTags } from './optional-tags.js';
+import { RawSource, getRawSourceSnapshot, getRawContentSnapshot } from '../common/raw-source.js';
+import { XmlSerializationError, hasInvalidXmlChars, isXmlName, isXmlPublicId, wrapInCData } from './xml.js';
+import { SourceMap, SourceMapOptions, SourceMapGenerator, countLineBreaks, splitLines } from './source-map.js';
+import type { Location, Attribute } from '../common/token.js';
+
+export { XmlSerializationError } from './xml.js';
+export { SourceMap, SourceMapOptions, SourceMapGenerator } from './source-map.js';
 
 //Escaping regexes
 const AMP_REGEX = /&/g;
@@ -9,9 +17,12 @@ const NBSP_REGEX = /\u00A0/g;
 const DOUBLE_QUOTE_REGEX = /"/g;
 const LT_REGEX = /</g;
 const GT_REGEX = />/g;
+const WHITESPACE_REGEX = /[\t\n\f\r ]+/;
+const WHITESPACE_ONLY_REGEX = /^[\t\n\f\r ]*$/;
+const UNQUOTED_ATTR_VALUE_REGEX = /^[^\t\n\f\r "'<=>`]+$/;
 
 // Sets
-const VOID_ELEMENTS = new Set<string>([
+export const VOID_ELEMENTS = new Set<string>([
     $.AREA,
     $.BASE,
     $.BASEFONT,
@@ -42,6 +53,140 @@ const UNESCAPED_TEXT = new Set<string>([
     $.NOSCRIPT,
 ]);
 
+//NOTE: whitespace in these elements is significant, so their content is never reformatted.
+const WHITESPACE_PRESERVING_ELEMENTS = new Set<string>([$.PRE, $.TEXTAREA, $.LISTING, ...UNESCAPED_TEXT]);
+const DEFAULT_BLOCK_ELEMENTS = [
+    $.ADDRESS,
+    $.ARTICLE,
+    $.ASIDE,
+    $.BASE,
+    $.BLOCKQUOTE,
+    $.BODY,
+    $.CAPTION,
+    $.CENTER,
+    $.COL,
+    $.COLGROUP,
+    $.DD,
+    $.DETAILS,
+    $.DIALOG,
+    $.DIR,
+    $.DIV,
+    $.DL,
+    $.DT,
+    $.FIELDSET,
+    $.FIGCAPTION,
+    $.FIGURE,
+    $.FOOTER,
+    $.FORM,
+    $.FRAME,
+    $.FRAMESET,
+    $.H1,
+    $.H2,
+    $.H3,
+    $.H4,
+    $.H5,
+    $.H6,
+    $.HEAD,
+    $.HEADER,
+    $.HGROUP,
+    $.HR,
+    $.HTML,
+    $.LI,
+    $.LINK,
+    $.LISTING,
+    $.MAIN,
+    $.MENU,
+    $.META,
+    $.NAV,
+    $.NOFRAMES,
+    $.NOSCRIPT,
+    $.OL,
+    $.OPTGROUP,
+    $.OPTION,
+    $.P,
+    $.PRE,
+    $.SCRIPT,
+    $.SECTION,
+    $.STYLE,
+    $.SUMMARY,
+    $.TABLE,
+    $.TBODY,
+    $.TD,
+    $.TEMPLATE,
+    $.TFOOT,
+    $.TH,
+    $.THEAD,
+    $.TITLE,
+    $.TR,
+    $.UL,
+];
+
+export interface FormattingOptions {
+    /**
+     * String used for a single level of indentation.
+     *
+     * @default `'  '`
+     */
+    indent?: string;
+
+    /**
+     * Maximum line width. Lines of inline content exceeding it are wrapped at whitespace.
+     * Lines can still exceed the width if they can't be wrapped.
+     *
+     * @default `80`
+     */
+    lineWidth?: number;
+
+    /**
+     * Tag names of HTML elements that are laid out as blocks: they are placed on their own lines and
+     * their block-level content is indented. All other elements, including SVG and MathML elements, are
+     * treated as inline and are never separated from the surrounding content by added whitespace.
+     *
+     * @default Block-level and metadata HTML elements (eg. `div`, `p`, `li`, `table`, `head`, `meta`).
+     */
+    blockElements?: Iterable<string>;
+}
+
+//NOTE: whitespace-only text in these elements is not rendered.
+const WHITESPACE_INSIGNIFICANT_ELEMENTS = new Set<string>([
+    $.COLGROUP,
+    $.FRAMESET,
+    $.HEAD,
+    $.HTML,
+    $.SELECT,
+    $.TABLE,
+    $.TBODY,
+    $.TFOOT,
+    $.THEAD,
+    $.TR,
+]);
+
+export interface MinifyOptions {
+    /**
+     * Omits start and end tags if they are implied by the surrounding markup, as allowed by the
+     * [optional tags](https://html.spec.whatwg.org/multipage/syntax.html#optional-tags) rules.
+     *
+     * @default `true`
+     */
+    omitOptionalTags?: boolean;
+
+    /**
+     * Serializes attribute values without quotes, or with single quotes if it saves escaping.
+     * Empty values are omitted.
+     *
+     * @default `true`
+     */
+    minifyAttributes?: boolean;
+
+    /**
+     * Removes whitespace-only text nodes from elements where whitespace is not rendered (eg. `<head>`, `<table>`
+     * or `<tr>`). Unlike other minifications, this one makes the output parse to a tree without these nodes.
+     *
+     * @default `true`
+     */
+    removeInsignificantWhitespace?: boolean;
+}
+
 export interface SerializerOptions<T extends TreeAdapterTypeMap> {
     /**
      * Specifies input tree format.
@@ -49,6 +194,84 @@ export interface SerializerOptions<T extends TreeAdapterTypeMap> {
      * @default `treeAdapters.default`
      */
     treeAdapter?: TreeAdapter<T>;
+
+    /**
+     * Enables the formatting mode. If enabled, the output is indented and long lines are wrapped.
+     *
+     * Whitespace between block-level elements is replaced with line breaks and indentation, and whitespace in
+     * inline content is collapsed. Content of `<pre>`, `<textarea>`, `<listing>` and raw text elements
+     * (eg. `<script>`) is serialized as is, and whitespace is never added between inline nodes, so the output
+     * parses to a tree that only differs from the original in insignificant whitespace.
+     *
+     * @default `false`
+     */
+    format?: boolean | FormattingOptions;
+
+    /**
+     * Enables the minification mode. The output parses to the same tree as the output produced without it.
+     * Has no effect if the formatting mode is enabled.
+     *
+     * @default `false`
+     */
+    minify?: boolean | MinifyOptions;
+
+    /**
+     * Serializes the tree using the XML syntax, as described in the
+     * [XML serialization](https://w3c.github.io/DOM-Parsing/#dfn-xml-serialization) algorithm.
+     * Throws {@link XmlSerializationError} if the tree can't be represented as a well-formed XML.
+     * The formatting and minification modes have no effect in this mode.
+     *
+     * @default `false`
+     */
+    xml?: boolean;
+
+    /**
+     * Serializes shadow roots which are marked as serializable as declarative shadow roots
+     * (`<template shadowrootmode>` elements), as the
+     * [`getHTML()`](https://html.spec.whatwg.org/multipage/dynamic-markup-insertion.html#dom-element-gethtml)
+     * method does. The tree adapter needs to implement `getShadowRoot` and `getShadowRootInit`.
+     * Shadow roots are not serialized in the XML mode.
+     *
+     * @default `false`
+     */
+    serializableShadowRoots?: boolean;
+
+    /**
+     * Shadow roots which are serialized regardless of being marked as serializable.
+     *
+     * @default `[]`
+     */
+    shadowRoots?: T['documentFragment'][];
+
+    /**
+     * Emits the original source of the nodes that were not modified after parsing, so that edits of the tree
+     * produce minimal changes of the source. Requires the tree to be parsed with the `lossless` parser option.
+     * Only the modified nodes are serialized: e.g. an element with a changed attribute gets new start and end tags,
+     * while its content is still emitted as is. The tree adapter needs to implement `getNodeRawSource`.
+     * If the parser inserted nodes out of the source order (e.g. text foster parented out of a table), the source
+     * of the enclosing element is emitted as a whole while its content is unmodified. Otherwise, the nodes are emitted
+     * in the tree order, which parses to the same tree.
+     * Has no effect in the formatting, minification and XML modes.
+     *
+     * @default `false`
+     */
+    lossless?: boolean;
+
+    /**
+     * Generates a [Source Map v3](https://sourcemaps.info/spec.html) for the output, which maps the emitted tags,
+     * attributes, text, comments and document types to their locations in the source (see
+     * {@link Serializer.getSourceMap}). Requires the tree to be parsed with the `sourceCodeLocationInfo`
+     * parser option. Nodes without location info, e.g. nodes created after parsing, are not mapped.
+     * Has no effect in the formatting and XML modes.
+     *
+     * @default `false`
+     */
+    sourceMap?: boolean | SourceMapOptions;
+}
+
+interface XmlNamespaceContext {
+    defaultNamespace: string | null;
+    prefixes: Map<string, string>;
 }
 
 //Serializer
@@ -56,88 +279,457 @@ export class Serializer<T extends TreeAdapterTypeMap> {
     html = '';
     treeAdapter: TreeAdapter<T>;
 
+    private formatting: Required<FormattingOptions> | null = null;
+    private blockElements = new Set<string>();
+    private column = 0;
+    //NOTE: everything after the <plaintext> start tag is parsed as text, so we can't add whitespace there.
+    private plaintextSerialized = false;
+
+    private minification: Required<MinifyOptions> | null = null;
+    private optionalTags: OptionalTags<T> | null = null;
+
+    private xml: boolean;
+    private xmlPrefixIndex = 1;
+
+    private serializableShadowRoots: boolean;
+    private shadowRoots: Set<T['documentFragment']>;
+
+    private lossless: boolean;
+
+    private sourceMap: SourceMapGenerator | null = null;
+    private sourceIndex = 0;
+    //NOTE: length of the output the source map generator was advanced past.
+    private sourceMapOutputLength = 0;
+
     constructor(
         private startNode: T['parentNode'],
-        { treeAdapter = defaultTreeAdapter as TreeAdapter<T> }: SerializerOptions<T>
+        {
+            treeAdapter = defaultTreeAdapter as TreeAdapter<T>,
+            format = false,
+            minify = false,
+            xml = false,
+            serializableShadowRoots = false,
+            shadowRoots = [],
+            lossless = false,
+            sourceMap = false,
+        }: SerializerOptions<T>
     ) {
         this.treeAdapter = treeAdapter;
+        this.xml = xml;
+        this.lossless = lossless && !format && !minify && !xml;
+        this.serializableShadowRoots = serializableShadowRoots;
+        this.shadowRoots = new Set(shadowRoots);
+
+        if (sourceMap && !format && !xml) {
+            const {
+                file,
+                source = '',
+                sourceContent,
+                generator = new SourceMapGenerator(file),
+            }: SourceMapOptions = sourceMap === true ? {} : sourceMap;
+
+            this.sourceMap = generator;
+            this.sourceIndex = generator.addSource(source, sourceContent);
+        }
+
+        if (minify) {
+            const {
+                omitOptionalTags = true,
+                minifyAttributes = true,
+                removeInsignificantWhitespace = true,
+            }: MinifyOptions = minify === true ? {} : minify;
+
+            this.minification = { omitOptionalTags, minifyAttributes, removeInsignificantWhitespace };
+
+            if (omitOptionalTags) {
+                this.optionalTags = new OptionalTags(treeAdapter, (element) =>
+                    this._getChildNodes(this._getChildNodesHolder(element), element)
+                );
+            }
+        }
+
+        if (format) {
+            const {
+                indent = '  ',
+                lineWidth = 80,
+                blockElements = DEFAULT_BLOCK_ELEMENTS,
+            }: FormattingOptions = format === true ? {} : format;
+
+            this.formatting = { indent, lineWidth, blockElements };
+            this.blockElements = new Set(blockElements);
+        }
     }
 
     //API
     serialize(): string {
-        this._serializeChildNodes(this.startNode);
+        const { formatting } = this;
+
+        if (this.xml) {
+            const parentNode = this.treeAdapter.isElementNode(this.startNode)
+                ? this._getChildNodesHolder(this.startNode)
+                : this.startNode;
+
+            this._serializeXmlChildNodes(parentNode, { defaultNamespace: null, prefixes: new Map() });
+        } else if (!formatting) {
+            this._serializeChildNodes(this.startNode);
+        } else if (!this.treeAdapter.isElementNode(this.startNode)) {
+            this._formatChildNodes(this.startNode, 0, true, formatting);
+        } else if (this._isReformattableElement(this.startNode)) {
+            this._formatChildNodes(this.startNode, 0, this._isBlockElement(this.startNode), formatting);
+        } else {
+            this._serializeChildNodes(this.startNode);
+        }
+
+        this._advanceSourceMap();
 
         return this.html;
     }
 
+    /**
+     * Returns the source map of the output, if the `sourceMap` option is enabled. If a generator is shared
+     * between several serializers, the source map contains the mappings of all of them.
+     */
+    getSourceMap(): SourceMap | null {
+        return this.sourceMap?.toJSON() ?? null;
+    }
+
     //Internals
-    private _serializeChildNodes(parentNode: T['parentNode']): void {
-        const childNodes = this.treeAdapter.getChildNodes(parentNode);
+    private _getChildNodes(parentNode: T['parentNode'], parentElement: T['element'] | null): T['childNode'][] {
+        const childNodes = this.treeAdapter.getChildNodes(parentNode) ?? [];
+
+        if (
+            !this.minification?.removeInsignificantWhitespace ||
+            !parentElement ||
+            this.treeAdapter.getNamespaceURI(parentElement) !== NS.HTML ||
+            !WHITESPACE_INSIGNIFICANT_ELEMENTS.has(this.treeAdapter.getTagName(parentElement))
+        ) {
+            return childNodes;
+        }
+
+        return childNodes.filter(
+            (node) =>
+                !this.treeAdapter.isTextNode(node) ||
+                !WHITESPACE_ONLY_REGEX.test(this.treeAdapter.getTextNodeContent(node))
+        );
+    }
+
+    private _serializeChildNodes(
+        parentNode: T['parentNode'],
+        parentElement: T['element'] | null = this.treeAdapter.isElementNode(parentNode) ? parentNode : null
+    ): void {
+        const childNodes = this._getChildNodes(parentNode, parentElement);
+        const isTopLevel = parentNode === this.startNode;
+        //NOTE: fragments have no tags, so their raw source consists of their content.
+        const rawContent = isTopLevel && !parentElement ? this._getRawOuterHtml(parentNode) : null;
+
+        if (rawContent !== null) {
+            this.html += rawContent + this._getRawTrailingSource(parentNode);
+            return;
+        }
+
+        for (let i = 0; i < childNodes.length; i++) {
+            const currentNode = childNodes[i];
+            const rawSource = this._getRawSource(currentNode);
 
-        if (childNodes) {
-            for (const currentNode of childNodes) {
+            if (rawSource) {
                 if (this.treeAdapter.isElementNode(currentNode)) {
-                    this._serializeElement(currentNode);
-                } else if (this.treeAdapter.isTextNode(currentNode)) {
-                    this._serializeTextNode(currentNode);
-                } else if (this.treeAdapter.isCommentNode(currentNode)) {
-                    this._serializeCommentNode(currentNode);
-                } else if (this.treeAdapter.isDocumentTypeNode(currentNode)) {
-                    this._serializeDocumentTypeNode(currentNode);
+                    this._serializeRawElement(currentNode, rawSource, parentElement, childNodes[i + 1] ?? null);
+                } else {
+                    this._writeRaw(rawSource.raw, this.treeAdapter.getNodeSourceCodeLocation(currentNode));
                 }
+            } else if (this.treeAdapter.isElementNode(currentNode)) {
+                const omitStartTag = this.optionalTags?.canOmitStartTag(
+                    currentNode,
+                    parentElement,
+                    childNodes[i - 1] ?? null
+                );
+                const omitEndTag = this.optionalTags?.canOmitEndTag(
+                    currentNode,
+                    parentElement,
+                    childNodes[i + 1] ?? null,
+                    isTopLevel
+                );
+
+                this._serializeElement(currentNode, omitStartTag, omitEndTag);
+            } else if (this.treeAdapter.isTextNode(currentNode)) {
+                this._serializeTextNode(currentNode);
+            } else if (this.treeAdapter.isCommentNode(currentNode)) {
+                this._serializeCommentNode(currentNode);
+            } else if (this.treeAdapter.isDocumentTypeNode(currentNode)) {
+                this._serializeDocumentTypeNode(currentNode);
+            } else if (this.treeAdapter.isInterpolationNode?.(currentNode)) {
+                this._serializeInterpolationNode(currentNode);
             }
         }
+
+        if (isTopLevel && !parentElement) {
+            this.html += this._getRawTrailingSource(parentNode);
+        }
     }
 
-    private _serializeElement(node: T['element']): void {
+    private _serializeElement(node: T['element'], omitStartTag = false, omitEndTag = false): void {
         const tn = this.treeAdapter.getTagName(node);
-        const ns = this.treeAdapter.getNamespaceURI(node);
+        const shadowRoot = this._getSerializedShadowRoot(node);
 
-        this.html += `<${tn}`;
+        //NOTE: the shadow root template needs the start tag of its host to be parsed into it.
+        if (!omitStartTag || shadowRoot) {
+            this._serializeStartTag(node);
+        }
+
+        if (!VOID_ELEMENTS.has(tn)) {
+            if (shadowRoot) {
+                this._serializeShadowRoot(shadowRoot);
+            }
+
+            this._serializeChildNodes(this._getChildNodesHolder(node), node);
+
+            if (!omitEndTag) {
+                this._addMapping(this.treeAdapter.getNodeSourceCodeLocation(node)?.endTag);
+                this.html += `</${tn}>`;
+            }
+        }
+    }
+
+    private _serializeStartTag(node: T['element']): void {
+        const location = this.treeAdapter.getNodeSourceCodeLocation(node);
+
+        this._addMapping(location?.startTag);
+        this.html += `<${this.treeAdapter.getTagName(node)}`;
         this._serializeAttributes(node);
         this.html += '>';
+    }
+
+    //Lossless mode
+    /**
+     * Returns the raw source of the node if the node was not modified after parsing. Elements cloned by the adoption
+     * agency algorithm are emitted, unless they are a part of the raw source of the enclosing element.
+     */
+    private _getRawSource(node: T['childNode']): RawSource | null {
+        const rawSource = this.lossless ? this.treeAdapter.getNodeRawSource?.(node) : null;
+
+        return rawSource && !rawSource.cloned && rawSource.snapshot === getRawSourceSnapshot(this.treeAdapter, node)
+            ? rawSource
+            : null;
+    }
+
+    /** Returns the raw source of the node along with its content, if the content was not modified after parsing. */
+    private _getRawOuterHtml(node: T['parentNode']): string | null {
+        const rawSource = this.lossless ? this.treeAdapter.getNodeRawSource?.(node) : null;
+
+        return rawSource?.rawOuterHtml !== undefined &&
+            rawSource.contentSnapshot === getRawContentSnapshot(this.treeAdapter, node)
+            ? rawSource.rawOuterHtml
+            : null;
+    }
+
+    /** Returns the source at the end of the input, which was ignored by the parser, of the document or fragment. */
+    private _getRawTrailingSource(node: T['parentNode']): string {
+        return (this.lossless && this.treeAdapter.getNodeRawSource?.(node)?.raw) || '';
+    }
+
+    private _serializeRawElement(
+        node: T['element'],
+        rawSource: RawSource,
+        parentElement: T['element'] | null,
+        nextSibling: T['childNode'] | null
+    ): void {
+        if (this._getSerializedShadowRoot(node)) {
+            this._serializeElement(node);
+            return;
+        }
+
+        const tn = this.treeAdapter.getTagName(node);
+        const childNodesHolder = this._getChildNodesHolder(node);
+        const location = this.treeAdapter.getNodeSourceCodeLocation(node);
+        const rawOuterHtml = this._getRawOuterHtml(node);
+
+        //NOTE: the content was inserted out of the source order, so the raw source of the whole element is emitted.
+        //The omitted end tag might be no longer implied, as with the raw end tag below.
+        if (rawOuterHtml !== null) {
+            const endOffset = rawSource.startOffset + rawOuterHtml.length;
+
+            this._writeRaw(rawOuterHtml, location);
+
+            if (rawSource.rawEndTag === '' && !this._isEndTagImplied(node, parentElement, nextSibling, endOffset)) {
+                this.html += `</${tn}>`;
+            }
+
+            return;
+        }
+
+        //NOTE: omitted tags are implied by the surrounding source. If it was modified,
+        //the tags might be no longer implied, so we emit them explicitly.
+        if (rawSource.raw === '' && !this._isStartTagImplied(node, rawSource, childNodesHolder)) {
+            this._serializeStartTag(node);
+        } else {
+            this._writeRaw(rawSource.raw, location?.startTag, Object.values(location?.attrs ?? {}));
+        }
 
         if (!VOID_ELEMENTS.has(tn)) {
-            const childNodesHolder =
-                tn === $.TEMPLATE && ns === NS.HTML ? this.treeAdapter.getTemplateContent(node) : node;
+            this._serializeChildNodes(childNodesHolder, node);
+
+            if (rawSource.rawEndTag === '' && !this._isEndTagImplied(node, parentElement, nextSibling)) {
+                this.html += `</${tn}>`;
+            } else {
+                this._writeRaw(rawSource.rawEndTag, location?.endTag);
+            }
+        }
+    }
+
+    /**
+     * Checks whether the omitted start tag of the element is still implied: the element starts with its original
+     * content, or it is implied by its end tag. `<html>`, `<head>` and `<body>` are always created by the parser.
+     */
+    private _isStartTagImplied(node: T['element'], rawSource: RawSource, childNodesHolder: T['parentNode']): boolean {
+        const firstChild = this.treeAdapter.getFirstChild(childNodesHolder);
+
+        if (firstChild) {
+            return this._getRawSource(firstChild) !== null;
+        }
+
+        const tn = this.treeAdapter.getTagName(node);
+
+        return rawSource.rawEndTag !== '' || tn === $.HTML || tn === $.HEAD || tn === $.BODY;
+    }
+
+    /**
+     * Checks whether the omitted end tag of the element is still implied: the element is followed by the node
+     * which followed it in the source, or it is the last child of an element whose end tag is emitted as is.
+     */
+    private _isEndTagImplied(
+        node: T['element'],
+        parentElement: T['element'] | null,
+        nextSibling: T['childNode'] | null,
+        endOffset: number | null = this.treeAdapter.getNodeSourceCodeLocation(node)?.endOffset ?? null
+    ): boolean {
+        if (!nextSibling) {
+            return !parentElement || parentElement === this.startNode || this._getRawSource(parentElement) !== null;
+        }
+
+        const location = this.treeAdapter.getNodeSourceCodeLocation(node);
+
+        //NOTE: implied elements don't have a location, and end tags of `<body>` and `<html>`
+        //can be a part of the raw source of their content.
+        if (endOffset === null || location?.endTag) {
+            return this._getRawSource(nextSibling) !== null;
+        }
+
+        //NOTE: elements closed at the end of the input can only be followed by the elements implied there.
+        return (
+            this._startsAt(nextSibling, endOffset) ||
+            (endOffset === this._getSourceEndOffset() && this._getRawSource(nextSibling) !== null)
+        );
+    }
+
+    /** Returns the end offset of the source of the serialized document or fragment. */
+    private _getSourceEndOffset(): number | null {
+        return this.treeAdapter.isElementNode(this.startNode)
+            ? null
+            : this.treeAdapter.getNodeRawSource?.(this.startNode)?.endOffset ?? null;
+    }
+
+    /**
+     * Checks whether the unmodified node starts at the offset. The raw source of the node can start with the source
+     * ignored by the parser, so any offset in it is accepted. Implied and reconstructed elements start where their
+     * content starts.
+     */
+    private _startsAt(node: T['childNode'], offset: number): boolean {
+        const rawSource = this._getRawSource(node);
+
+        if (!rawSource || offset < rawSource.startOffset) {
+            return false;
+        }
+
+        if (rawSource.raw !== '') {
+            const location = this.treeAdapter.getNodeSourceCodeLocation(node);
 
-            this._serializeChildNodes(childNodesHolder);
-            this.html += `</${tn}>`;
+            return !location || offset <= location.startOffset;
         }
+
+        const firstChild = this.treeAdapter.isElementNode(node)
+            ? this.treeAdapter.getFirstChild(this._getChildNodesHolder(node))
+            : null;
+
+        return firstChild ? this._startsAt(firstChild, offset) : offset === rawSource.startOffset;
+    }
+
+    private _getChildNodesHolder(node: T['element']): T['parentNode'] {
+        return this.treeAdapter.getTagName(node) === $.TEMPLATE && this.treeAdapter.getNamespaceURI(node) === NS.HTML
+            ? this.treeAdapter.getTemplateContent(node)
+            : node;
+    }
+
+    private _getSerializedShadowRoot(node: T['element']): T['documentFragment'] | null {
+        const shadowRoot = this.treeAdapter.getShadowRoot?.(node) ?? null;
+
+        if (
+            shadowRoot &&
+            this.treeAdapter.getShadowRootInit &&
+            (this.shadowRoots.has(shadowRoot) ||
+                (this.serializableShadowRoots && this.treeAdapter.getShadowRootInit(shadowRoot).serializable))
+        ) {
+            return shadowRoot;
+        }
+
+        return null;
+    }
+
+    private _serializeShadowRoot(shadowRoot: T['documentFragment']): void {
+        const shadowRootInit = this.treeAdapter.getShadowRootInit?.(shadowRoot);
+
+        //NOTE: shadow roots are only serialized if the tree adapter provides their init options.
+        if (!shadowRootInit) {
+            return;
+        }
+
+        const { mode, clonable, serializable, delegatesFocus } = shadowRootInit;
+
+        this.html += `<${$.TEMPLATE} ${ATTRS.SHADOWROOTMODE}="${mode}"`;
+
+        if (delegatesFocus) {
+            this.html += ` ${ATTRS.SHADOWROOTDELEGATESFOCUS}=""`;
+        }
+
+        if (serializable) {
+            this.html += ` ${ATTRS.SHADOWROOTSERIALIZABLE}=""`;
+        }
+
+        if (clonable) {
+            this.html += ` ${ATTRS.SHADOWROOTCLONABLE}=""`;
+        }
+
+        this.html += '>';
+        this._serializeChildNodes(shadowRoot, null);
+        this.html += `</${$.TEMPLATE}>`;
     }
 
     private _serializeAttributes(node: T['element']): void {
+        const attrLocations = this.sourceMap && this.treeAdapter.getNodeSourceCodeLocation(node)?.attrs;
+
         for (const attr of this.treeAdapter.getAttrList(node)) {
-            const value = escapeString(attr.value, true);
+            const name = getSerializedAttrName(attr);
 
             this.html += ' ';
 
-            if (!attr.namespace) {
-                this.html += attr.name;
-            } else
-                switch (attr.namespace) {
-                    case NS.XML: {
-                        this.html += `xml:${attr.name}`;
-                        break;
-                    }
-                    case NS.XMLNS: {
-                        if (attr.name !== 'xmlns') {
-                            this.html += 'xmlns:';
-                        }
+            //NOTE: interpolations in the place of attributes are emitted verbatim.
+            if (attr.interpolation) {
+                this._addMapping(attrLocations?.[name]);
+                this.html += name;
+                continue;
+            }
 
-                        this.html += attr.name;
-                        break;
-                    }
-                    case NS.XLINK: {
-                        this.html += `xlink:${attr.name}`;
-                        break;
-                    }
-                    default: {
-                        this.html += `${attr.prefix}:${attr.name}`;
-                    }
-                }
+            //NOTE: attribute locations are keyed by the attribute names in the source, which are lowercased.
+            this._addMapping(attrLocations?.[name.toLowerCase()]);
+            this.html += name;
 
-            this.html += `="${value}"`;
+            if (attr.valueInterpolations?.length) {
+                this.html += `="${serializeInterpolatedAttrValue(attr.value, attr.valueInterpolations)}"`;
+                continue;
+            }
+
+            this.html += this.minification?.minifyAttributes
+                ? serializeMinifiedAttrValue(attr.value)
+                : `="${escapeString(attr.value, true)}"`;
         }
     }
 
@@ -145,21 +737,548 @@ export class Serializer<T extends TreeAdapterTypeMap> {
         const content = this.treeAdapter.getTextNodeContent(node);
         const parent = this.treeAdapter.getParentNode(node);
 
-        this.html +=
+        this._writeMapped(
             parent && this.treeAdapter.isElementNode(parent) && UNESCAPED_TEXT.has(this.treeAdapter.getTagName(parent))
                 ? content
-                : escapeString(content, false);
+                : escapeString(content, false),
+            this.treeAdapter.getNodeSourceCodeLocation(node)
+        );
     }
 
     private _serializeCommentNode(node: T['commentNode']): void {
-        this.html += `<!--${this.treeAdapter.getCommentNodeContent(node)}-->`;
+        this._writeMapped(
+            `<!--${this.treeAdapter.getCommentNodeContent(node)}-->`,
+            this.treeAdapter.getNodeSourceCodeLocation(node)
+        );
+    }
+
+    private _serializeInterpolationNode(node: T['childNode']): void {
+        this._writeMapped(
+            this.treeAdapter.getInterpolationNodeContent?.(node) ?? '',
+            this.treeAdapter.getNodeSourceCodeLocation(node)
+        );
     }
 
     private _serializeDocumentTypeNode(node: T['documentType']): void {
         const name = this.treeAdapter.getDocumentTypeNodeName(node);
 
+        this._addMapping(this.treeAdapter.getNodeSourceCodeLocation(node));
         this.html += `<${doctype.serializeContent(name, null, null)}>`;
     }
+
+    //Source map
+    private _advanceSourceMap(): void {
+        //NOTE: SerializerStream doesn't retain the output, it advances the generator as the output is written.
+        this.sourceMap?.advance(this.html.slice(this.sourceMapOutputLength));
+        this.sourceMapOutputLength = this.html.length;
+    }
+
+    /** Maps the current output position to the start of the location. */
+    private _addMapping(location: Location | null | undefined): void {
+        if (location) {
+            this._addMappingTo(location.startLine, location.startCol);
+        }
+    }
+
+    private _addMappingTo(line: number, col: number): void {
+        if (this.sourceMap) {
+            this._advanceSourceMap();
+            this.sourceMap.addMapping(this.sourceIndex, line, col);
+        }
+    }
+
+    /**
+     * Writes the string and maps it to the start of the location. If the string has as many line breaks as
+     * the source, the starts of its lines are mapped to the starts of the source lines as well.
+     */
+    private _writeMapped(str: string, location: Location | null | undefined): void {
+        if (!this.sourceMap || !location || countLineBreaks(str) !== location.endLine - location.startLine) {
+            this._addMapping(location);
+            this.html += str;
+            return;
+        }
+
+        const lines = splitLines(str);
+
+        for (let i = 0; i < lines.length; i++) {
+            this._addMappingTo(location.startLine + i, i === 0 ? location.startCol : 1);
+            this.html += lines[i];
+        }
+    }
+
+    /**
+     * Writes the raw source which ends at the end of the location, mapping the location and the given inner
+     * locations. The raw source can start with the source of the preceding tokens which were ignored by the parser.
+     */
+    private _writeRaw(raw: string, location: Location | null | undefined, innerLocations: Location[] = []): void {
+        if (!this.sourceMap || !location) {
+            this.html += raw;
+            return;
+        }
+
+        const start = Math.max(raw.length - (location.endOffset - location.startOffset), 0);
+
+        this.html += raw.slice(0, start);
+
+        if (innerLocations.length === 0) {
+            this._writeMapped(raw.slice(start), location);
+            return;
+        }
+
+        let pos = start;
+
+        this._addMapping(location);
+
+        for (const innerLocation of innerLocations) {
+            const innerStart = start + innerLocation.startOffset - location.startOffset;
+
+            if (innerStart > pos && innerStart < raw.length) {
+                this.html += raw.slice(pos, innerStart);
+                this._addMapping(innerLocation);
+                pos = innerStart;
+            }
+        }
+
+        this.html += raw.slice(pos);
+    }
+
+    //XML
+    private _serializeXmlChildNodes(parentNode: T['parentNode'], context: XmlNamespaceContext): void {
+        for (const currentNode of this.treeAdapter.getChildNodes(parentNode) ?? []) {
+            if (this.treeAdapter.isElementNode(currentNode)) {
+                this._serializeXmlElement(currentNode, context);
+            } else if (this.treeAdapter.isTextNode(currentNode)) {
+                this._serializeXmlTextNode(currentNode);
+            } else if (this.treeAdapter.isCommentNode(currentNode)) {
+                this._serializeXmlCommentNode(currentNode);
+            } else if (this.treeAdapter.isDocumentTypeNode(currentNode)) {
+                this._serializeXmlDocumentTypeNode(currentNode);
+            } else if (this.treeAdapter.isInterpolationNode?.(currentNode)) {
+                throw new XmlSerializationError('Interpolations can not be serialized to XML.');
+            }
+        }
+    }
+
+    private _serializeXmlElement(node: T['element'], context: XmlNamespaceContext): void {
+        const tn = this.treeAdapter.getTagName(node);
+        const ns = this.treeAdapter.getNamespaceURI(node);
+        const childContext: XmlNamespaceContext = { defaultNamespace: ns, prefixes: new Map(context.prefixes) };
+
+        if (!isXmlName(tn)) {
+            throw new XmlSerializationError(`Element name "${tn}" is not a valid XML name.`);
+        }
+
+        this.html += `<${tn}`;
+
+        if (ns !== context.defaultNamespace) {
+            this.html += ` xmlns="${escapeXmlString(ns, true)}"`;
+        }
+
+        this._serializeXmlAttributes(node, childContext);
+
+        const childNodesHolder = this._getChildNodesHolder(node);
+        const childNodes = this.treeAdapter.getChildNodes(childNodesHolder) ?? [];
+
+        if (childNodes.length === 0 && (ns !== NS.HTML || VOID_ELEMENTS.has(tn))) {
+            this.html += ns === NS.HTML ? ' />' : '/>';
+            return;
+        }
+
+        this.html += '>';
+
+        if (
+            ns === NS.HTML &&
+            (tn === $.SCRIPT || tn === $.STYLE) &&
+            childNodes.every((childNode) => this.treeAdapter.isTextNode(childNode))
+        ) {
+            this._serializeXmlRawText(childNodes as T['textNode'][], tn === $.STYLE);
+        } else {
+            this._serializeXmlChildNodes(childNodesHolder, childContext);
+        }
+
+        this.html += `</${tn}>`;
+    }
+
+    private _serializeXmlAttributes(node: T['element'], context: XmlNamespaceContext): void {
+        const attrs = this.treeAdapter.getAttrList(node);
+
+        //NOTE: prefixes declared on the element can be used by any of its attributes.
+        for (const attr of attrs) {
+            if (attr.namespace === NS.XMLNS && attr.name !== 'xmlns') {
+                if (attr.value === '' || attr.value === NS.XMLNS) {
+                    throw new XmlSerializationError(`Namespace "${attr.value}" can't be bound to a prefix.`);
+                }
+
+                context.prefixes.set(attr.name, attr.value);
+            }
+        }
+
+        for (const attr of attrs) {
+            if (!isXmlName(attr.name)) {
+                throw new XmlSerializationError(`Attribute name "${attr.name}" is not a valid XML name.`);
+            }
+
+            if (hasInvalidXmlChars(attr.value)) {
+                throw new XmlSerializationError(`Value of the "${attr.name}" attribute contains invalid characters.`);
+            }
+
+            //NOTE: default namespace declarations are emitted along with the element name. An `xmlns` attribute
+            //in no namespace is allowed only if it doesn't contradict the actual namespace of the element.
+            if (attr.name === 'xmlns' && (!attr.namespace || attr.namespace === NS.XMLNS)) {
+                if (attr.value !== context.defaultNamespace) {
+                    throw new XmlSerializationError(`Element namespace doesn't match the "xmlns" attribute.`);
+                }
+
+                continue;
+            }
+
+            if (!attr.namespace) {
+                this.html += ` ${attr.name}`;
+            } else if (attr.namespace === NS.XMLNS) {
+                this.html += ` xmlns:${attr.name}`;
+            } else if (attr.namespace === NS.XML) {
+                this.html += ` xml:${attr.name}`;
+            } else {
+                //NOTE: the prefix declaration is emitted before the attribute, if necessary.
+                const prefix = this._getXmlAttributePrefix(attr.namespace, attr.prefix, context);
+
+                this.html += ` ${prefix}:${attr.name}`;
+            }
+
+            this.html += `="${escapeXmlString(attr.value, true)}"`;
+        }
+    }
+
+    private _getXmlAttributePrefix(
+        namespace: string,
+        prefix: string | undefined,
+        context: XmlNamespaceContext
+    ): string {
+        for (const [declaredPrefix, declaredNamespace] of context.prefixes) {
+            if (declaredNamespace === namespace) {
+                return declaredPrefix;
+            }
+        }
+
+        while (!prefix || context.prefixes.has(prefix)) {
+            prefix = `ns${this.xmlPrefixIndex++}`;
+        }
+
+        context.prefixes.set(prefix, namespace);
+        this.html += ` xmlns:${prefix}="${escapeXmlString(namespace, true)}"`;
+
+        return prefix;
+    }
+
+    private _serializeXmlRawText(textNodes: T['textNode'][], isStyle: boolean): void {
+        const content = textNodes.map((node) => this.treeAdapter.getTextNodeContent(node)).join('');
+
+        if (hasInvalidXmlChars(content)) {
+            throw new XmlSerializationError('Text contains invalid characters.');
+        }
+
+        this.html += /[&<]|]]>/.test(content) ? wrapInCData(content, isStyle) : content;
+    }
+
+    private _serializeXmlTextNode(node: T['textNode']): void {
+        const content = this.treeAdapter.getTextNodeContent(node);
+
+        if (hasInvalidXmlChars(content)) {
+            throw new XmlSerializationError('Text contains invalid characters.');
+        }
+
+        this.html += escapeXmlString(content, false);
+    }
+
+    private _serializeXmlCommentNode(node: T['commentNode']): void {
+        const content = this.treeAdapter.getCommentNodeContent(node);
+
+        if (hasInvalidXmlChars(content) || content.includes('--') || content.endsWith('-')) {
+            throw new XmlSerializationError(`Comment "${content}" can't be represented in XML.`);
+        }
+
+        this.html += `<!--${content}-->`;
+    }
+
+    private _serializeXmlDocumentTypeNode(node: T['documentType']): void {
+        const publicId = this.treeAdapter.getDocumentTypeNodePublicId(node);
+        const systemId = this.treeAdapter.getDocumentTypeNodeSystemId(node);
+
+        if (!isXmlPublicId(publicId)) {
+            throw new XmlSerializationError(`Public identifier "${publicId}" contains invalid characters.`);
+        }
+
+        if (systemId.includes('"') && systemId.includes("'")) {
+            throw new XmlSerializationError(`System identifier "${systemId}" contains both kinds of quotes.`);
+        }
+
+        const name = this.treeAdapter.getDocumentTypeNodeName(node);
+
+        this.html += `<${doctype.serializeContent(name, publicId || null, systemId || null)}>`;
+    }
+
+    //Formatting
+    private _write(str: string): void {
+        const lastNewLineIdx = str.lastIndexOf('\n');
+
+        this.column = lastNewLineIdx === -1 ? this.column + str.length : str.length - lastNewLineIdx - 1;
+        this.html += str;
+    }
+
+    private _writeNewLine(depth: number, formatting: Required<FormattingOptions>): void {
+        if (this.plaintextSerialized) {
+            return;
+        }
+
+        this._write(`\n${formatting.indent.repeat(depth)}`);
+    }
+
+    private _serializeNodeToString(node: T['childNode']): string {
+        const serializer = new Serializer<T>(node, {
+            treeAdapter: this.treeAdapter,
+            serializableShadowRoots: this.serializableShadowRoots,
+            shadowRoots: [...this.shadowRoots],
+        });
+
+        if (this.treeAdapter.isElementNode(node)) {
+            this.plaintextSerialized ||= this.treeAdapter.getTagName(node) === $.PLAINTEXT;
+            serializer._serializeElement(node);
+        } else if (this.treeAdapter.isCommentNode(node)) {
+            serializer._serializeCommentNode(node);
+        } else if (this.treeAdapter.isDocumentTypeNode(node)) {
+            serializer._serializeDocumentTypeNode(node);
+        } else if (this.treeAdapter.isInterpolationNode?.(node)) {
+            serializer._serializeInterpolationNode(node);
+        }
+
+        return serializer.html;
+    }
+
+    private _isBlockElement(node: T['childNode']): boolean {
+        return (
+            this.treeAdapter.isElementNode(node) &&
+            this.treeAdapter.getNamespaceURI(node) === NS.HTML &&
+            this.blockElements.has(this.treeAdapter.getTagName(node))
+        );
+    }
+
+    private _isReformattableElement(node: T['element']): boolean {
+        const tn = this.treeAdapter.getTagName(node);
+
+        //NOTE: shadow hosts are serialized as is, along with their shadow roots.
+        return (
+            this.treeAdapter.getNamespaceURI(node) === NS.HTML &&
+            !VOID_ELEMENTS.has(tn) &&
+            !WHITESPACE_PRESERVING_ELEMENTS.has(tn) &&
+            !this._getSerializedShadowRoot(node)
+        );
+    }
+
+    private _serializeStartTagToString(node: T['element']): string {
+        const serializer = new Serializer<T>(node, { treeAdapter: this.treeAdapter });
+
+        serializer._serializeAttributes(node);
+
+        return `<${this.treeAdapter.getTagName(node)}${serializer.html}>`;
+    }
+
+    //NOTE: if a block container has block-level children, each of them is placed on its own line. Runs of
+    //inline content between them are placed on their own lines as well, as whitespace adjacent to blocks
+    //is insignificant. Otherwise, the content is laid out inline right after the start tag.
+    private _formatChildNodes(
+        parentNode: T['parentNode'],
+        depth: number,
+        isBlockContainer: boolean,
+        formatting: Required<FormattingOptions>
+    ): void {
+        const childNodes = this.treeAdapter.getChildNodes(parentNode) ?? [];
+
+        if (!isBlockContainer || !childNodes.some((node) => this._isBlockElement(node))) {
+            this._writeInlineSegments(this._getInlineSegments(childNodes, []), depth, formatting);
+            return;
+        }
+
+        const isTopLevel = parentNode === this.startNode;
+        let isFirstLine = true;
+        let inlineRun: T['childNode'][] = [];
+
+        const startLine = (): void => {
+            if (!isTopLevel || !isFirstLine) {
+                this._writeNewLine(depth, formatting);
+            }
+
+            isFirstLine = false;
+        };
+
+        const flushInlineRun = (): void => {
+            const segments = this._getInlineSegments(inlineRun, []);
+
+            while (segments.length > 0 && segments[0] === null) {
+                segments.shift();
+            }
+
+            while (segments.length > 0 && segments[segments.length - 1] === null) {
+                segments.pop();
+            }
+
+            if (segments.length > 0) {
+                startLine();
+                this._writeInlineSegments(segments, depth, formatting);
+            }
+
+            inlineRun = [];
+        };
+
+        for (const node of childNodes) {
+            if (this._isBlockElement(node)) {
+                flushInlineRun();
+                startLine();
+
+                if (this._isReformattableElement(node)) {
+                    this._write(this._serializeStartTagToString(node));
+                    this._formatChildNodes(this._getChildNodesHolder(node), depth + 1, true, formatting);
+                    this._write(`</${this.treeAdapter.getTagName(node)}>`);
+                } else {
+                    this._write(this._serializeNodeToString(node));
+                }
+            } else {
+                inlineRun.push(node);
+            }
+        }
+
+        flushInlineRun();
+
+        if (!isTopLevel) {
+            this._writeNewLine(depth - 1, formatting);
+        }
+    }
+
+    //NOTE: inline content is split into words at whitespace, which is collapsed. Words are separated by
+    //a single space or, if the line becomes too long, by a line break. Tags and content of the elements
+    //that preserve whitespace are never split.
+    private _writeInlineSegments(
+        segments: (string | null)[],
+        depth: number,
+        formatting: Required<FormattingOptions>
+    ): void {
+        const { indent, lineWidth } = formatting;
+
+        for (let i = 0; i < segments.length; i++) {
+            const segment = segments[i];
+
+            if (segment !== null) {
+                this._write(segment);
+                continue;
+            }
+
+            const next = segments[i + 1];
+            const nextLineLength = next ? next.split('\n', 1)[0].length : 0;
+
+            if (
+                this.column + 1 + nextLineLength > lineWidth &&
+                this.column > indent.length * depth &&
+                !this.plaintextSerialized
+            ) {
+                this._writeNewLine(depth, formatting);
+            } else {
+                this._write(' ');
+            }
+        }
+    }
+
+    //NOTE: `null` designates collapsed whitespace.
+    private _getInlineSegments(childNodes: T['childNode'][], segments: (string | null)[]): (string | null)[] {
+        const addWord = (word: string): void => {
+            const lastIdx = segments.length - 1;
+
+            if (lastIdx >= 0 && segments[lastIdx] !== null) {
+                segments[lastIdx] += word;
+            } else {
+                segments.push(word);
+            }
+        };
+
+        for (const node of childNodes) {
+            if (this.treeAdapter.isTextNode(node)) {
+                const words = escapeString(this.treeAdapter.getTextNodeContent(node), false).split(WHITESPACE_REGEX);
+
+                for (let i = 0; i < words.length; i++) {
+                    if (i > 0 && segments[segments.length - 1] !== null) {
+                        segments.push(null);
+                    }
+
+                    if (words[i]) {
+                        addWord(words[i]);
+                    }
+                }
+            } else if (this.treeAdapter.isElementNode(node) && this._isReformattableElement(node)) {
+                addWord(this._serializeStartTagToString(node));
+                this._getInlineSegments(
+                    this.treeAdapter.getChildNodes(this._getChildNodesHolder(node)) ?? [],
+                    segments
+                );
+                addWord(`</${this.treeAdapter.getTagName(node)}>`);
+            } else {
+                addWord(this._serializeNodeToString(node));
+            }
+        }
+
+        return segments;
+    }
+}
+
+function getSerializedAttrName({ namespace, prefix, name }: Attribute): string {
+    if (!namespace) {
+        return name;
+    }
+
+    switch (namespace) {
+        case NS.XML: {
+            return `xml:${name}`;
+        }
+        case NS.XMLNS: {
+            return name === 'xmlns' ? name : `xmlns:${name}`;
+        }
+        case NS.XLINK: {
+            return `xlink:${name}`;
+        }
+        default: {
+            return `${prefix}:${name}`;
+        }
+    }
+}
+
+//NOTE: interpolations in attribute values are emitted verbatim, the rest of the value is escaped.
+function serializeInterpolatedAttrValue(value: string, interpolations: [start: number, end: number][]): string {
+    let serialized = '';
+    let pos = 0;
+
+    for (const [start, end] of interpolations) {
+        serialized += escapeString(value.slice(pos, start), true) + value.slice(start, end);
+        pos = end;
+    }
+
+    return serialized + escapeString(value.slice(pos), true);
+}
+
+function serializeMinifiedAttrValue(value: string): string {
+    if (value === '') {
+        return '';
+    }
+
+    if (UNQUOTED_ATTR_VALUE_REGEX.test(value)) {
+        return `=${escapeString(value, true)}`;
+    }
+
+    return value.includes('"') && !value.includes("'")
+        ? `='${value.replace(AMP_REGEX, '&amp;').replace(NBSP_REGEX, '&nbsp;')}'`
+        : `="${escapeString(value, true)}"`;
+}
+
+function escapeXmlString(str: string, attrMode: boolean): string {
+    str = str.replace(AMP_REGEX, '&amp;').replace(LT_REGEX, '&lt;').replace(GT_REGEX, '&gt;');
+
+    return attrMode ? str.replace(DOUBLE_QUOTE_REGEX, '&quot;') : str;
 }
 
 // NOTE: used in tests and by rewriting stream
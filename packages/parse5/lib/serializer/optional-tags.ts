@@ -0,0 +1,343 @@
+import { TAG_NAMES as $, NAMESPACES as NS } from '../common/html.js';
+import type { TreeAdapter, TreeAdapterTypeMap } from '../tree-adapters/interface.js';
+
+//NOTE: the rules below follow https://html.spec.whatwg.org/multipage/syntax.html#optional-tags, but are stricter.
+//The spec rules only hold for conforming documents, while we need an arbitrary tree produced by the parser to be
+//reproduced. Therefore, the conditions are based on how the parser actually closes elements.
+
+const OPTIONAL_END_TAG_ELEMENTS = new Set<string>([
+    $.BODY,
+    $.CAPTION,
+    $.COLGROUP,
+    $.DD,
+    $.DT,
+    $.HEAD,
+    $.HTML,
+    $.LI,
+    $.OPTGROUP,
+    $.OPTION,
+    $.P,
+    $.RP,
+    $.RT,
+    $.TBODY,
+    $.TD,
+    $.TFOOT,
+    $.TH,
+    $.THEAD,
+    $.TR,
+]);
+
+//Elements whose end tags generate implied end tags, so their last child can have an omitted end tag.
+const IMPLYING_END_TAG_PARENTS = new Set<string>([
+    $.ADDRESS,
+    $.APPLET,
+    $.ARTICLE,
+    $.ASIDE,
+    $.BLOCKQUOTE,
+    $.BODY,
+    $.CAPTION,
+    $.CENTER,
+    $.DD,
+    $.DETAILS,
+    $.DIALOG,
+    $.DIR,
+    $.DIV,
+    $.DL,
+    $.DT,
+    $.FIELDSET,
+    $.FIGCAPTION,
+    $.FIGURE,
+    $.FOOTER,
+    $.H1,
+    $.H2,
+    $.H3,
+    $.H4,
+    $.H5,
+    $.H6,
+    $.HEADER,
+    $.HGROUP,
+    $.HTML,
+    $.LI,
+    $.LISTING,
+    $.MAIN,
+    $.MARQUEE,
+    $.MENU,
+    $.NAV,
+    $.OBJECT,
+    $.OL,
+    $.P,
+    $.PRE,
+    $.SECTION,
+    $.SUMMARY,
+    $.TD,
+    $.TEMPLATE,
+    $.TH,
+    $.UL,
+]);
+
+//Start tags that close a <p> element. NOTE: <table> is not included, as it doesn't close
+//<p> in quirks mode. <form> is not included, as it might be ignored by the parser.
+const CLOSING_P_ELEMENTS = new Set<string>([
+    $.ADDRESS,
+    $.ARTICLE,
+    $.ASIDE,
+    $.BLOCKQUOTE,
+    $.CENTER,
+    $.DETAILS,
+    $.DIALOG,
+    $.DIR,
+    $.DIV,
+    $.DL,
+    $.FIELDSET,
+    $.FIGCAPTION,
+    $.FIGURE,
+    $.FOOTER,
+    $.H1,
+    $.H2,
+    $.H3,
+    $.H4,
+    $.H5,
+    $.H6,
+    $.HEADER,
+    $.HGROUP,
+    $.HR,
+    $.LISTING,
+    $.MAIN,
+    $.MENU,
+    $.NAV,
+    $.OL,
+    $.P,
+    $.PRE,
+    $.SECTION,
+    $.SUMMARY,
+    $.UL,
+]);
+
+//Elements which are inserted into <head> if they appear after it.
+const HEAD_CONTENT_ELEMENTS = new Set<string>([
+    $.BASE,
+    $.BASEFONT,
+    $.BGSOUND,
+    $.LINK,
+    $.META,
+    $.NOFRAMES,
+    $.NOSCRIPT,
+    $.SCRIPT,
+    $.STYLE,
+    $.TEMPLATE,
+    $.TITLE,
+]);
+
+const TABLE_SECTIONS = new Set<string>([$.TBODY, $.THEAD, $.TFOOT]);
+const CELLS = new Set<string>([$.TD, $.TH]);
+const CAPTION_CLOSING_ELEMENTS = new Set<string>([$.COL, $.COLGROUP, $.TBODY, $.TFOOT, $.THEAD, $.TR]);
+
+export class OptionalTags<T extends TreeAdapterTypeMap> {
+    /**
+     * @param treeAdapter Tree adapter.
+     * @param getChildNodes Returns child nodes of the element, as they are going to be serialized.
+     */
+    constructor(
+        private treeAdapter: TreeAdapter<T>,
+        private getChildNodes: (element: T['element']) => T['childNode'][]
+    ) {}
+
+    //Utils
+    private _getTagName(node: T['childNode'] | null): string | null {
+        return node && this.treeAdapter.isElementNode(node) && this.treeAdapter.getNamespaceURI(node) === NS.HTML
+            ? this.treeAdapter.getTagName(node)
+            : null;
+    }
+
+    private _startsWithWhitespace(node: T['childNode']): boolean {
+        return this.treeAdapter.isTextNode(node) && /^[\t\n\f\r ]/.test(this.treeAdapter.getTextNodeContent(node));
+    }
+
+    //NOTE: elements that are left open at the end of the element, because their end tags are omitted.
+    private _getOpenDescendants(element: T['element']): string[] {
+        const tagNames = [];
+
+        for (;;) {
+            const childNodes = this.getChildNodes(element);
+            const lastChild = childNodes[childNodes.length - 1];
+
+            if (
+                !lastChild ||
+                !this.treeAdapter.isElementNode(lastChild) ||
+                !this.canOmitEndTag(lastChild, element, null, false)
+            ) {
+                return tagNames;
+            }
+
+            tagNames.push(this.treeAdapter.getTagName(lastChild));
+            element = lastChild;
+        }
+    }
+
+    //NOTE: the end tag of an element is implied by the start tag of the next <li>, <dd> or <dt> element
+    //only if there are no other special elements left open.
+    private _isClosedByListItem(element: T['element']): boolean {
+        return this._getOpenDescendants(element).every((tn) => tn !== $.LI && tn !== $.DD && tn !== $.DT);
+    }
+
+    //API
+    /**
+     * Determines if the start tag of the element can be omitted.
+     *
+     * @param element The element.
+     * @param parent The parent element. `null` for top level nodes.
+     * @param prev The previous sibling.
+     */
+    canOmitStartTag(element: T['element'], parent: T['element'] | null, prev: T['childNode'] | null): boolean {
+        const tn = this._getTagName(element);
+
+        if (tn === null || this.treeAdapter.getAttrList(element).length > 0) {
+            return false;
+        }
+
+        const parentTn = parent && this._getTagName(parent);
+        const firstChild: T['childNode'] | undefined = this.getChildNodes(element)[0];
+
+        switch (tn) {
+            case $.HTML: {
+                return parent === null && !(firstChild && this.treeAdapter.isCommentNode(firstChild));
+            }
+            case $.HEAD: {
+                return parentTn === $.HTML && (!firstChild || this.treeAdapter.isElementNode(firstChild));
+            }
+            case $.BODY: {
+                return (
+                    parentTn === $.HTML &&
+                    (!firstChild ||
+                        (!this._startsWithWhitespace(firstChild) &&
+                            !this.treeAdapter.isCommentNode(firstChild) &&
+                            !HEAD_CONTENT_ELEMENTS.has(this._getTagName(firstChild) ?? '')))
+                );
+            }
+            case $.COLGROUP: {
+                return (
+                    parentTn === $.TABLE &&
+                    this._getTagName(firstChild) === $.COL &&
+                    !(
+                        prev !== null &&
+                        this.treeAdapter.isElementNode(prev) &&
+                        this._getTagName(prev) === $.COLGROUP &&
+                        this.canOmitEndTag(prev, parent, element, false)
+                    )
+                );
+            }
+            case $.TBODY: {
+                return (
+                    parentTn === $.TABLE &&
+                    this._getTagName(firstChild) === $.TR &&
+                    !(
+                        prev !== null &&
+                        this.treeAdapter.isElementNode(prev) &&
+                        TABLE_SECTIONS.has(this._getTagName(prev) ?? '') &&
+                        this.canOmitEndTag(prev, parent, element, false)
+                    )
+                );
+            }
+            default: {
+                return false;
+            }
+        }
+    }
+
+    /**
+     * Determines if the end tag of the element can be omitted.
+     *
+     * @param element The element.
+     * @param parent The parent element. `null` for top level nodes.
+     * @param next The next sibling.
+     * @param isLastInInput If `true`, nothing follows the element in the serialized output.
+     */
+    canOmitEndTag(
+        element: T['element'],
+        parent: T['element'] | null,
+        next: T['childNode'] | null,
+        isLastInInput: boolean
+    ): boolean {
+        const tn = this._getTagName(element);
+
+        if (tn === null) {
+            return false;
+        }
+
+        //NOTE: elements left open at the end of the input are closed by the parser anyway.
+        if (next === null && isLastInInput) {
+            return OPTIONAL_END_TAG_ELEMENTS.has(tn);
+        }
+
+        const parentTn = parent && this._getTagName(parent);
+        const nextTn = this._getTagName(next);
+        const isLastInParent = next === null && IMPLYING_END_TAG_PARENTS.has(parentTn ?? '');
+
+        switch (tn) {
+            case $.HTML:
+            case $.BODY: {
+                return next === null || !this.treeAdapter.isCommentNode(next);
+            }
+            case $.HEAD: {
+                return nextTn === $.BODY || nextTn === $.FRAMESET;
+            }
+            case $.LI: {
+                return (nextTn === $.LI && this._isClosedByListItem(element)) || isLastInParent;
+            }
+            case $.DT: {
+                return (nextTn === $.DT || nextTn === $.DD) && this._isClosedByListItem(element);
+            }
+            case $.DD: {
+                return ((nextTn === $.DT || nextTn === $.DD) && this._isClosedByListItem(element)) || isLastInParent;
+            }
+            case $.P: {
+                return CLOSING_P_ELEMENTS.has(nextTn ?? '') || isLastInParent;
+            }
+            case $.RT:
+            case $.RP: {
+                return parentTn === $.RUBY && (nextTn === $.RT || nextTn === $.RP || next === null);
+            }
+            case $.OPTGROUP: {
+                return parentTn === $.SELECT && (nextTn === $.OPTGROUP || next === null);
+            }
+            case $.OPTION: {
+                return (
+                    nextTn === $.OPTION ||
+                    nextTn === $.OPTGROUP ||
+                    (next === null && (parentTn === $.SELECT || parentTn === $.OPTGROUP))
+                );
+            }
+            case $.COLGROUP: {
+                //NOTE: <template> would be inserted into <colgroup>.
+                return next === null
+                    ? parentTn === $.TABLE || parentTn === $.TEMPLATE
+                    : nextTn !== null && nextTn !== $.TEMPLATE;
+            }
+            case $.CAPTION: {
+                return CAPTION_CLOSING_ELEMENTS.has(nextTn ?? '') || (next === null && parentTn === $.TABLE);
+            }
+            case $.THEAD: {
+                return nextTn === $.TBODY || nextTn === $.TFOOT;
+            }
+            case $.TBODY: {
+                return nextTn === $.TBODY || nextTn === $.TFOOT || (next === null && parentTn === $.TABLE);
+            }
+            case $.TFOOT: {
+                return next === null && parentTn === $.TABLE;
+            }
+            case $.TR: {
+                return (
+                    nextTn === $.TR ||
+                    (next === null && (TABLE_SECTIONS.has(parentTn ?? '') || parentTn === $.TEMPLATE))
+                );
+            }
+            case $.TD:
+            case $.TH: {
+                return CELLS.has(nextTn ?? '') || (next === null && (parentTn === $.TR || parentTn === $.TEMPLATE));
+            }
+            default: {
+                return false;
+            }
+        }
+    }
+}
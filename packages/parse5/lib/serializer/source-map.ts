@@ -0,0 +1,166 @@
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const LINE_BREAK_REGEX = /\r\n?|\n/g;
+const LINE_SPLIT_REGEX = /(?<=\n)|(?<=\r)(?!\n)/;
+
+/**
+ * Source map in the [Source Map v3](https://sourcemaps.info/spec.html) format.
+ */
+export interface SourceMap {
+    version: 3;
+    file?: string;
+    sources: string[];
+    sourcesContent?: (string | null)[];
+    names: string[];
+    mappings: string;
+}
+
+export interface SourceMapOptions {
+    /**
+     * Name of the generated file. Ignored if the `generator` is specified.
+     */
+    file?: string;
+
+    /**
+     * Name of the source file the serialized tree was parsed from.
+     *
+     * @default `''`
+     */
+    source?: string;
+
+    /**
+     * Content of the source file. If specified, it is included into the source map.
+     */
+    sourceContent?: string;
+
+    /**
+     * Generator to add the mappings to. Allows to compose a single source map for the concatenated output of
+     * several serializers, which can serialize trees parsed from different source files.
+     */
+    generator?: SourceMapGenerator;
+}
+
+function encodeVlq(value: number): string {
+    let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+    let result = '';
+
+    do {
+        const digit = vlq & 0x1f;
+
+        vlq >>>= 5;
+        result += BASE64_CHARS[vlq > 0 ? digit | 0x20 : digit];
+    } while (vlq > 0);
+
+    return result;
+}
+
+/** Returns the number of line breaks in the string. `\r\n` is counted as a single line break. */
+export function countLineBreaks(str: string): number {
+    return str.match(LINE_BREAK_REGEX)?.length ?? 0;
+}
+
+/** Splits the string into lines, which include their line breaks. */
+export function splitLines(str: string): string[] {
+    return str.split(LINE_SPLIT_REGEX);
+}
+
+/**
+ * Builds a source map while the output is generated. Generated positions are tracked by passing
+ * the output to the generator as it is written.
+ */
+export class SourceMapGenerator {
+    private sources: string[] = [];
+    private sourcesContent: (string | null)[] = [];
+    private mappings = '';
+
+    private column = 0;
+    private lastMappedColumn = -1;
+
+    //NOTE: all segment fields are relative to the previous segment. The generated column is reset on each line.
+    private prevColumn = 0;
+    private prevSourceIndex = 0;
+    private prevSourceLine = 0;
+    private prevSourceColumn = 0;
+
+    constructor(private file?: string) {}
+
+    /** Adds a source file and returns its index. Sources with the same name share the index. */
+    addSource(source: string, content: string | null = null): number {
+        const idx = this.sources.indexOf(source);
+
+        if (idx !== -1) {
+            this.sourcesContent[idx] ??= content;
+            return idx;
+        }
+
+        this.sources.push(source);
+        this.sourcesContent.push(content);
+
+        return this.sources.length - 1;
+    }
+
+    /** Moves the generated position past the given output. */
+    advance(output: string): void {
+        let lineStart = 0;
+
+        LINE_BREAK_REGEX.lastIndex = 0;
+
+        for (let match = LINE_BREAK_REGEX.exec(output); match; match = LINE_BREAK_REGEX.exec(output)) {
+            lineStart = match.index + match[0].length;
+            this.mappings += ';';
+            this.column = 0;
+            this.prevColumn = 0;
+            this.lastMappedColumn = -1;
+        }
+
+        this.column += output.length - lineStart;
+    }
+
+    /**
+     * Maps the current generated position to the source position. If the position is already mapped,
+     * the existing mapping is kept.
+     *
+     * @param sourceIndex Index of the source file.
+     * @param line One-based line index in the source file.
+     * @param col One-based column index in the source file.
+     */
+    addMapping(sourceIndex: number, line: number, col: number): void {
+        if (this.lastMappedColumn === this.column) {
+            return;
+        }
+
+        if (this.lastMappedColumn !== -1) {
+            this.mappings += ',';
+        }
+
+        this.mappings +=
+            encodeVlq(this.column - this.prevColumn) +
+            encodeVlq(sourceIndex - this.prevSourceIndex) +
+            encodeVlq(line - 1 - this.prevSourceLine) +
+            encodeVlq(col - 1 - this.prevSourceColumn);
+
+        this.prevColumn = this.column;
+        this.prevSourceIndex = sourceIndex;
+        this.prevSourceLine = line - 1;
+        this.prevSourceColumn = col - 1;
+        this.lastMappedColumn = this.column;
+    }
+
+    toJSON(): SourceMap {
+        const sourceMap: SourceMap = {
+            version: 3,
+            sources: [...this.sources],
+            names: [],
+            mappings: this.mappings,
+        };
+
+        if (this.file !== undefined) {
+            sourceMap.file = this.file;
+        }
+
+        if (this.sourcesContent.some((content) => content !== null)) {
+            sourceMap.sourcesContent = [...this.sourcesContent];
+        }
+
+        return sourceMap;
+    }
+}
@@ -0,0 +1,50 @@
+//NOTE: see https://www.w3.org/TR/xml/#NT-Name. Colons are excluded, as they separate prefixes from local names.
+const NAME_START_CHAR =
+    'A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C\\u200D' +
+    '\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD\\u{10000}-\\u{EFFFF}';
+const NAME_CHAR = `${NAME_START_CHAR}\\-.0-9\\u00B7\\u0300-\\u036F\\u203F\\u2040`;
+// eslint-disable-next-line no-misleading-character-class
+const NAME_REGEX = new RegExp(`^[${NAME_START_CHAR}][${NAME_CHAR}]*$`, 'u');
+
+//NOTE: see https://www.w3.org/TR/xml/#NT-Char
+const INVALID_CHAR_REGEX =
+    // eslint-disable-next-line no-control-regex
+    /[\0-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]|[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?:[^\uD800-\uDBFF]|^)[\uDC00-\uDFFF]/;
+
+//NOTE: see https://www.w3.org/TR/xml/#NT-PubidChar
+const PUBLIC_ID_REGEX = /^[\n\r !#-%'-;=?-Z_a-z]*$/;
+
+const CDATA_END_REGEX = /]]>/g;
+
+/**
+ * Thrown by the serializer in the XML mode if the tree can't be represented as a well-formed XML.
+ */
+export class XmlSerializationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'XmlSerializationError';
+    }
+}
+
+export function isXmlName(name: string): boolean {
+    return NAME_REGEX.test(name);
+}
+
+export function hasInvalidXmlChars(str: string): boolean {
+    return INVALID_CHAR_REGEX.test(str);
+}
+
+export function isXmlPublicId(publicId: string): boolean {
+    return PUBLIC_ID_REGEX.test(publicId);
+}
+
+/**
+ * Wraps script or style contents in a CDATA section. The section markers are commented out, so the
+ * result is still treated the same way if it is parsed as HTML.
+ */
+export function wrapInCData(content: string, isStyle: boolean): string {
+    const [open, close] = isStyle ? ['/*<![CDATA[*/', '/*]]>*/'] : ['//<![CDATA[\n', '\n//]]>'];
+
+    //NOTE: `]]>` can't appear inside of a CDATA section, so we split the section in two.
+    return `${open}${content.replace(CDATA_END_REGEX, ']]]]><![CDATA[>')}${close}`;
+}
@@ -0,0 +1,120 @@
+import { BinTrieFlags } from 'entities/lib/decode.js';
+
+const MAX_BRANCH_COUNT = BinTrieFlags.BRANCH_LENGTH >> 8;
+const MAX_TREE_LENGTH = 0xff_ff;
+
+interface TrieNode {
+    value: string | null;
+    children: Map<number, TrieNode>;
+}
+
+function createTrieNode(): TrieNode {
+    return { value: null, children: new Map() };
+}
+
+//NOTE: a node is encoded as a header (flags and the number of branches), followed by the value
+//and the branches. A single branch is encoded as the character followed by the child node. Otherwise,
+//sorted characters are followed by the indices of the child nodes.
+function encodeNode(node: TrieNode, tree: number[]): number {
+    const nodeIdx = tree.length;
+    const branches = [...node.children].sort(([char1], [char2]) => char1 - char2);
+
+    if (branches.length > MAX_BRANCH_COUNT) {
+        throw new RangeError(`A decode tree node can not have more than ${MAX_BRANCH_COUNT} branches.`);
+    }
+
+    let header = branches.length << 8;
+
+    if (node.value !== null) {
+        header |= BinTrieFlags.HAS_VALUE;
+
+        if (node.value.length === 2) {
+            header |= BinTrieFlags.MULTI_BYTE;
+        }
+    }
+
+    tree.push(header);
+
+    for (let i = 0; node.value !== null && i < node.value.length; i++) {
+        tree.push(node.value.charCodeAt(i));
+    }
+
+    if (branches.length === 1) {
+        const [[char, child]] = branches;
+
+        tree.push(char);
+        encodeNode(child, tree);
+    } else if (branches.length > 1) {
+        const childIndicesIdx = tree.length + branches.length;
+
+        for (const [char] of branches) {
+            tree.push(char);
+        }
+
+        tree.length += branches.length;
+
+        for (let i = 0; i < branches.length; i++) {
+            tree[childIndicesIdx + i] = encodeNode(branches[i][1], tree);
+        }
+    }
+
+    if (tree.length > MAX_TREE_LENGTH) {
+        throw new RangeError('Too many character references for a decode tree.');
+    }
+
+    return nodeIdx;
+}
+
+/**
+ * Creates a decode tree of named character references, which can be used as the `decodeTree` option of
+ * the tokenizer and the parser.
+ *
+ * @example
+ *
+ * ```js
+ * const parse5 = require('parse5');
+ *
+ * // Decodes only `&amp;`, `&lt;` and `&gt;`. The legacy `&amp` reference is decoded as well.
+ * const decodeTree = parse5.createDecodeTree({ 'amp;': '&', amp: '&', 'lt;': '<', 'gt;': '>' });
+ * const document = parse5.parse('&lt;&amp&copy;', { decodeTree });
+ * ```
+ *
+ * @param references Decoded values of the references by their names. Names do not include the leading ampersand and
+ * include the trailing semicolon, if any. Values can be one or two UTF-16 code units long; use the `onCharacterReference`
+ * option to replace references with longer text.
+ */
+export function createDecodeTree(references: Record<string, string>): Uint16Array {
+    const root = createTrieNode();
+
+    for (const [name, value] of Object.entries(references)) {
+        if (name.length === 0) {
+            throw new TypeError('Names of character references can not be empty.');
+        }
+
+        if (value.length === 0 || value.length > 2) {
+            throw new RangeError(`Value of the \`${name}\` character reference should be one or two code units long.`);
+        }
+
+        let node = root;
+
+        for (let i = 0; i < name.length; i++) {
+            const char = name.charCodeAt(i);
+            let child = node.children.get(char);
+
+            if (!child) {
+                child = createTrieNode();
+                node.children.set(char, child);
+            }
+
+            node = child;
+        }
+
+        node.value = value;
+    }
+
+    const tree: number[] = [];
+
+    encodeNode(root, tree);
+
+    return new Uint16Array(tree);
+}
@@ -1,28 +1,275 @@
+import * as assert from 'node:assert';
 import * as parse5 from 'parse5';
 import { Tokenizer } from 'parse5/dist/tokenizer/index.js';
-import type { Token } from 'parse5/dist/common/token';
+import * as defaultTreeAdapter from '../tree-adapters/default.js';
 import { generateTokenizationTests } from 'parse5-test-utils/utils/generate-tokenization-tests.js';
 
 const dataPath = new URL('../../../../test/data/html5lib-tests/tokenizer', import.meta.url);
 
-generateTokenizationTests('tokenizer', 'Tokenizer', dataPath.pathname, ({ errors }) => {
-    const tokenizer = new Tokenizer({
-        sourceCodeLocationInfo: true,
-        onParseError(err): void {
-            errors.push({
-                code: err.code,
-                line: err.startLine,
-                col: err.startCol,
-            });
-        },
-    });
+generateTokenizationTests(
+    'tokenizer',
+    'Tokenizer',
+    dataPath.pathname,
+    ({ errors }, handler) =>
+        new Tokenizer(
+            {
+                sourceCodeLocationInfo: true,
+                onParseError(err): void {
+                    errors.push({
+                        code: err.code,
+                        line: err.startLine,
+                        col: err.startCol,
+                    });
+                },
+            },
+            handler
+        )
+);
 
-    return { tokenizer, getNextToken: (): Token => tokenizer.getNextToken() };
-});
+function tokenize(html: string, options: parse5.TokenizerOptions): string[] {
+    return [...parse5.tokenize(html, options)].map((token) => {
+        switch (token.type) {
+            case parse5.TokenType.START_TAG:
+            case parse5.TokenType.END_TAG: {
+                return token.tagName;
+            }
+            case parse5.TokenType.COMMENT: {
+                return `<!--${token.data}-->`;
+            }
+            case parse5.TokenType.INTERPOLATION: {
+                return token.data;
+            }
+            case parse5.TokenType.DOCTYPE:
+            case parse5.TokenType.EOF: {
+                return parse5.TokenType[token.type];
+            }
+            default: {
+                return token.chars;
+            }
+        }
+    });
+}
 
 describe('tokenizer', () => {
     it('Regression - `<<` in comment parses correctly (GH-325)', () => {
         const document = parse5.parse('<!--<<-->');
         expect(document.childNodes[0]).toHaveProperty('data', '<<');
     });
+
+    it('Yields the tokens of the chunks written so far', () => {
+        const tokenizer = new parse5.Tokenizer();
+        const getTypes = (): string[] => [...tokenizer.tokens()].map(({ type }) => parse5.TokenType[type]);
+
+        assert.deepStrictEqual(getTypes(), []);
+
+        tokenizer.write('<a href="fo', false);
+        assert.deepStrictEqual(getTypes(), []);
+
+        tokenizer.write('o">Hi', false);
+        assert.deepStrictEqual(getTypes(), ['START_TAG']);
+
+        tokenizer.write(' there</a', false);
+        assert.deepStrictEqual(getTypes(), ['CHARACTER', 'WHITESPACE_CHARACTER']);
+
+        tokenizer.write('>', true);
+        assert.deepStrictEqual(getTypes(), ['CHARACTER', 'END_TAG', 'EOF']);
+        assert.deepStrictEqual(getTypes(), []);
+    });
+
+    it('Tokenizes the input in the given mode', () => {
+        assert.deepStrictEqual(tokenize('<b>&amp;</b>', {}), ['b', '&', 'b', 'EOF']);
+        assert.deepStrictEqual(tokenize('<b>&amp;</b>', { initialMode: parse5.TokenizerMode.RCDATA }), [
+            '<b>&</b>',
+            'EOF',
+        ]);
+        assert.deepStrictEqual(
+            tokenize('<b>&amp;</title><i>', {
+                initialMode: parse5.TokenizerMode.RAWTEXT,
+                lastStartTagName: 'title',
+            }),
+            ['<b>&amp;', 'title', 'i', 'EOF']
+        );
+        assert.deepStrictEqual(tokenize('<![CDATA[a]]>', {}), ['<!--[CDATA[a]]-->', 'EOF']);
+        assert.deepStrictEqual(tokenize('<![CDATA[<b>]]>', { allowCDATA: true }), ['<b>', 'EOF']);
+    });
+
+    it('Reports character references', () => {
+        const html = '<p title="a&amp;b&ampc">&#x26;&copy &lt;\n&notit;&#0;</p>';
+        const references: parse5.CharacterReference[] = [];
+        const fragment = parse5.parseFragment(html, {
+            sourceCodeLocationInfo: true,
+            onCharacterReference: (reference): string => {
+                references.push(reference);
+                return reference.source;
+            },
+        });
+
+        assert.deepStrictEqual(
+            references.map(({ source, value, inAttribute }) => [source, value, inAttribute]),
+            [
+                ['&amp;', '&', true],
+                ['&#x26;', '&', false],
+                ['&copy', '\u00A9', false],
+                ['&lt;', '<', false],
+                ['&not', '\u00AC', false],
+                ['&#0;', '\uFFFD', false],
+            ]
+        );
+
+        for (const { source, location } of references) {
+            assert.ok(location);
+            assert.strictEqual(html.slice(location.startOffset, location.endOffset), source);
+            assert.strictEqual(location.endCol - location.startCol, source.length);
+        }
+
+        assert.deepStrictEqual(references[4].location, {
+            startLine: 2,
+            startCol: 1,
+            startOffset: 41,
+            endLine: 2,
+            endCol: 5,
+            endOffset: 45,
+        });
+        assert.strictEqual(
+            parse5.serialize(fragment, {}),
+            '<p title="a&amp;amp;b&amp;ampc">&amp;#x26;&amp;copy &amp;lt;\n&amp;notit;&amp;#0;</p>'
+        );
+    });
+
+    it('Reports character references split between chunks', () => {
+        const sources: string[] = [];
+        const tokenizer = new parse5.Tokenizer({
+            onCharacterReference: ({ source, value }): string => {
+                sources.push(source);
+                return value.toUpperCase();
+            },
+        });
+
+        tokenizer.write('a&#x6', false);
+        tokenizer.write('2;&am', false);
+        tokenizer.write('p;&', false);
+        tokenizer.write('eacute', true);
+
+        assert.deepStrictEqual(
+            [...tokenizer.tokens()].map((token) => (token.type === parse5.TokenType.CHARACTER ? token.chars : '')),
+            ['aB&\u00C9', '']
+        );
+        assert.deepStrictEqual(sources, ['&#x62;', '&amp;', '&eacute']);
+    });
+
+    it('Tokenizes the input as the tokens are iterated', () => {
+        const sources: string[] = [];
+        const tokenizer = new parse5.Tokenizer({
+            onCharacterReference: ({ source, value }): string => {
+                sources.push(source);
+                return value;
+            },
+        });
+
+        tokenizer.write('<a>&amp;<b>&lt;', true);
+
+        const tokens = tokenizer.tokens();
+
+        assert.strictEqual(tokens.next().value?.type, parse5.TokenType.START_TAG);
+        assert.deepStrictEqual(sources, []);
+
+        assert.strictEqual(tokens.next().value?.type, parse5.TokenType.CHARACTER);
+        assert.strictEqual(tokens.next().value?.type, parse5.TokenType.START_TAG);
+        assert.deepStrictEqual(sources, ['&amp;']);
+
+        assert.strictEqual([...tokens].length, 2);
+        assert.deepStrictEqual(sources, ['&amp;', '&lt;']);
+    });
+
+    it('Decodes named character references with a custom decode tree', () => {
+        const decodeTree = parse5.createDecodeTree({
+            'amp;': '&',
+            amp: '&',
+            'year;': '\uE000',
+            'smile;': '\uD83D\uDE00',
+            smile: '\uD83D\uDE00',
+        });
+        const onCharacterReference = ({ source, value }: parse5.CharacterReference): string =>
+            source === '&year;' ? '2022' : value;
+
+        assert.deepStrictEqual(tokenize('&amp;&amp&lt;&copy;&#60;&year;&years;&smile', { decodeTree }), [
+            '&&&lt;&copy;<\uE000&years;\uD83D\uDE00',
+            'EOF',
+        ]);
+        assert.deepStrictEqual(tokenize('&year; &yea;', { decodeTree, onCharacterReference }), [
+            '2022',
+            ' ',
+            '&yea;',
+            'EOF',
+        ]);
+
+        const [attr] = parse5.parseFragment('<a href="?a=&smile=1&smile;">', { decodeTree }).childNodes;
+
+        assert.ok(defaultTreeAdapter.isElementNode(attr));
+        assert.strictEqual(attr.attrs[0].value, '?a=&smile=1\uD83D\uDE00');
+        assert.throws(() => parse5.createDecodeTree({ 'yea;': '2022' }), RangeError);
+    });
+
+    it('Tokenizes interpolations', () => {
+        const html = '<a href={{ u }} {% attrs %}>a {{ b\n}}c</a {{ d }}><i {% f %}g{% h %} j>{{ e <b>';
+        const tokenizer = new parse5.Tokenizer({
+            interpolation: [
+                { start: '{{', end: '}}' },
+                { start: '{%', end: '%}' },
+            ],
+        });
+
+        for (const chunk of html) {
+            tokenizer.write(chunk, false);
+        }
+
+        tokenizer.write('', true);
+
+        assert.deepStrictEqual(
+            [...tokenizer.tokens()].map((token) => {
+                switch (token.type) {
+                    case parse5.TokenType.START_TAG:
+                    case parse5.TokenType.END_TAG: {
+                        return [token.tagName, token.attrs];
+                    }
+                    case parse5.TokenType.INTERPOLATION: {
+                        return token.data;
+                    }
+                    case parse5.TokenType.CHARACTER:
+                    case parse5.TokenType.NULL_CHARACTER:
+                    case parse5.TokenType.WHITESPACE_CHARACTER: {
+                        return token.chars;
+                    }
+                    default: {
+                        return parse5.TokenType[token.type];
+                    }
+                }
+            }),
+            [
+                [
+                    'a',
+                    [
+                        { name: 'href', value: '{{ u }}', valueInterpolations: [[0, 7]] },
+                        { name: '{% attrs %}', value: '', interpolation: true },
+                    ],
+                ],
+                'a',
+                ' ',
+                '{{ b\n}}',
+                'c',
+                ['a', [{ name: '{{ d }}', value: '', interpolation: true }]],
+                [
+                    'i',
+                    [
+                        { name: '{% f %}', value: '', interpolation: true },
+                        { name: 'g', value: '' },
+                        { name: '{% h %}', value: '', interpolation: true },
+                        { name: 'j', value: '' },
+                    ],
+                ],
+                '{{ e <b>',
+                'EOF',
+            ]
+        );
+    });
 });
@@ -15,8 +15,11 @@ import {
     TagToken,
     getTokenAttr,
     CommentToken,
+    EOFToken,
+    InterpolationToken,
     Attribute,
     Location,
+    AttributeLocation,
 } from '../common/token.js';
 import { htmlDecodeTree, BinTrieFlags, determineBranch } from 'entities/lib/decode.js';
 import { ERR, ParserErrorHandler } from '../common/error-codes.js';
@@ -53,8 +56,6 @@ const C1_CONTROLS_REFERENCE_REPLACEMENTS = new Map([
     [0x9f, 0x01_78],
 ]);
 
-const HIBERNATION_TOKEN: Token = { type: TokenType.HIBERNATION, location: null };
-
 //States
 const enum State {
     DATA,
@@ -137,6 +138,7 @@ const enum State {
     HEXADEMICAL_CHARACTER_REFERENCE,
     DECIMAL_CHARACTER_REFERENCE,
     NUMERIC_CHARACTER_REFERENCE_END,
+    INTERPOLATION,
 }
 
 //Tokenizer initial states for different modes
@@ -149,6 +151,178 @@ export const TokenizerMode = {
     CDATA_SECTION: State.CDATA_SECTION,
 } as const;
 
+export type TokenizerMode = typeof TokenizerMode[keyof typeof TokenizerMode];
+
+export interface TokenizerOptions {
+    /**
+     * Enables source code location information for the tokens.
+     *
+     * @default `false`
+     */
+    sourceCodeLocationInfo?: boolean;
+
+    /**
+     * Adds the locations of the attribute names, `=` signs and values to the attribute locations
+     * (see {@link AttributeLocation}). Requires source code location info.
+     *
+     * @default `false`
+     */
+    attributeLocationInfo?: boolean;
+
+    /**
+     * Adds the raw source of each token to it. Implies `sourceCodeLocationInfo`.
+     *
+     * @default `false`
+     */
+    lossless?: boolean;
+
+    /**
+     * Callback for tokenization errors.
+     *
+     * @default `null`
+     */
+    onParseError?: ParserErrorHandler | null;
+
+    /**
+     * State the tokenization starts in. The tokenizer never switches between these states on its own:
+     * e.g. the content of a `<script>` element is only tokenized as script data if the tokenization starts in
+     * the `SCRIPT_DATA` mode. This allows to tokenize the content of such elements separately.
+     *
+     * @default `TokenizerMode.DATA`
+     */
+    initialMode?: TokenizerMode;
+
+    /**
+     * Tag name of the element whose content is tokenized in the `RCDATA`, `RAWTEXT` or `SCRIPT_DATA` modes.
+     * The content ends at the end tag with this name. If empty, the whole input is the content of the element.
+     *
+     * @default `''`
+     */
+    lastStartTagName?: string;
+
+    /**
+     * Tokenizes `<![CDATA[...]]>` as text, as it is done in foreign content. Otherwise, it's tokenized as a comment.
+     *
+     * @default `false`
+     */
+    allowCDATA?: boolean;
+
+    /**
+     * Decode tree of the named character references, in the format of the `entities` package. Named references
+     * missing in the tree are left undecoded. Use `createDecodeTree` to create a tree of custom references.
+     *
+     * @default The tree of the HTML named character references.
+     */
+    decodeTree?: Uint16Array | undefined;
+
+    /**
+     * Callback for the character references in text and attribute values. Returns the text that replaces
+     * the reference, e.g. `reference.source` to keep the reference undecoded.
+     *
+     * @default `null`
+     */
+    onCharacterReference?: CharacterReferenceHandler | null;
+
+    /**
+     * Delimiters of template interpolations, e.g. `{ start: '{{', end: '}}' }`. Interpolations are recognized in text,
+     * in attribute values and in the place of attributes, and their source is kept as is. An interpolation in text
+     * is emitted as an interpolation token, an interpolation in the place of attributes is emitted as an attribute
+     * with the `interpolation` flag, and the ranges of interpolations in attribute values are recorded in
+     * the `valueInterpolations` of the attribute. An unterminated interpolation extends to the end of the input.
+     *
+     * @default `[]`
+     */
+    interpolation?: InterpolationDelimiters[];
+}
+
+export interface InterpolationDelimiters {
+    /** Delimiter that starts an interpolation, e.g. `{{`. */
+    start: string;
+    /** Delimiter that ends an interpolation, e.g. `}}`. */
+    end: string;
+}
+
+export interface CharacterReference {
+    /** Source of the reference, e.g. `&amp;`, `&#x26;` or `&amp` (without the trailing semicolon). */
+    source: string;
+    /** Text the reference is decoded to. */
+    value: string;
+    /** Set if the reference is in an attribute value. */
+    inAttribute: boolean;
+    /** Source code location of the reference. Only available if source code location info is enabled. */
+    location: Location | null;
+}
+
+export type CharacterReferenceHandler = (reference: CharacterReference) => string;
+
+/**
+ * Receives the tokens from the tokenizer. The handler methods are called synchronously, as soon as a token is complete.
+ *
+ * NOTE: the tokenizer reuses the character token object, so character tokens are only valid until the handler method
+ * returns. The handler has to copy a character token to keep it. Other tokens, their attributes and locations
+ * are allocated for each token and can be kept.
+ */
+export interface TokenHandler {
+    onComment(token: CommentToken): void;
+    onDoctype(token: DoctypeToken): void;
+    onStartTag(token: TagToken): void;
+    onEndTag(token: TagToken): void;
+    onEof(token: EOFToken): void;
+    onInterpolation(token: InterpolationToken): void;
+    onCharacter(token: CharacterToken): void;
+    onNullCharacter(token: CharacterToken): void;
+    onWhitespaceCharacter(token: CharacterToken): void;
+}
+
+//NOTE: collects the tokens of tokenizers created without a handler, so they can be iterated. The tokenizer is paused
+//after each token, so the input is only tokenized as far as the tokens are iterated.
+class TokenQueue implements TokenHandler {
+    public tokens: Token[] = [];
+
+    constructor(private tokenizer: Tokenizer) {}
+
+    private _push(token: Token): void {
+        this.tokens.push(token);
+        this.tokenizer.pause();
+    }
+
+    onComment(token: CommentToken): void {
+        this._push(token);
+    }
+
+    onDoctype(token: DoctypeToken): void {
+        this._push(token);
+    }
+
+    onStartTag(token: TagToken): void {
+        this._push(token);
+    }
+
+    onEndTag(token: TagToken): void {
+        this._push(token);
+    }
+
+    onEof(token: EOFToken): void {
+        this._push(token);
+    }
+
+    onInterpolation(token: InterpolationToken): void {
+        this._push(token);
+    }
+
+    onCharacter(token: CharacterToken): void {
+        this._push({ ...token });
+    }
+
+    onNullCharacter(token: CharacterToken): void {
+        this._push({ ...token });
+    }
+
+    onWhitespaceCharacter(token: CharacterToken): void {
+        this._push({ ...token });
+    }
+}
+
 //Utils
 
 //OPTIMIZATION: these utility functions should not be moved out of this module. V8 Crankshaft will not inline
@@ -204,33 +378,102 @@ function isScriptDataDoubleEscapeSequenceEnd(cp: number): boolean {
 }
 
 //Tokenizer
+/**
+ * HTML tokenizer, which implements the [tokenization stage](https://html.spec.whatwg.org/multipage/parsing.html#tokenization)
+ * of the HTML parsing.
+ *
+ * The input can be written in chunks with {@link Tokenizer.write}. Each chunk is tokenized right away and the tokens
+ * are passed to the {@link TokenHandler} as soon as they are complete: a token which isn't complete at the end of
+ * a chunk is passed after the following chunks are written. Character tokens are only passed along with the next
+ * token of another kind, so consecutive characters of the same kind make a single token regardless of the chunk
+ * boundaries. If the tokenizer is created without a handler, the tokens are collected and can be iterated with
+ * {@link Tokenizer.tokens}.
+ *
+ * @example
+ *
+ * ```js
+ * const { Tokenizer, TokenType } = require('parse5');
+ *
+ * const tokenizer = new Tokenizer();
+ *
+ * tokenizer.write('<a href="foo', false);
+ * console.log([...tokenizer.tokens()]); //> []
+ *
+ * tokenizer.write('">Hi</a>', true);
+ *
+ * for (const token of tokenizer.tokens()) {
+ *     console.log(TokenType[token.type]); //> 'START_TAG', 'CHARACTER', 'END_TAG', 'EOF'
+ * }
+ * ```
+ */
 export class Tokenizer {
     public preprocessor: Preprocessor;
 
-    private tokenQueue: Token[] = [];
+    private handler: TokenHandler;
+    private queue: TokenQueue | null = null;
 
     public allowCDATA = false;
     public lastStartTagName = '';
+    /** Set if there is written input which is not tokenized yet. */
     public active = false;
+    public paused = false;
+    private inLoop = false;
 
     public state = State.DATA;
     private returnState = State.DATA;
 
     private charRefCode = -1;
+    private charRefStartOffset = -1;
+    private charRefStartLine = -1;
+    private charRefStartCol = -1;
+
+    private interpolationEnd = '';
+    private interpolationStart = -1;
 
     private consumedAfterSnapshot = -1;
 
+    //OPTIMIZATION: character tokens are the most frequent ones, so the same object is used for all of them.
+    private characterToken: CharacterToken = { type: TokenType.CHARACTER, chars: '', location: null };
     private currentCharacterToken: CharacterToken | null = null;
     private currentToken: Token | null = null;
     private currentAttr: Attribute = { name: '', value: '' };
 
     private addLocationInfo;
+    private addAttributeLocationInfo;
+    private lossless;
     private onParseError;
+    private decodeTree;
+    private onCharacterReference;
+    private interpolation: InterpolationDelimiters[] | null;
+
+    /**
+     * @param options Tokenizer options.
+     * @param handler Receives the tokens. If omitted, the tokens are collected to be iterated with {@link Tokenizer.tokens}.
+     */
+    constructor(options: TokenizerOptions = {}, handler: TokenHandler | null = null) {
+        if (handler) {
+            this.handler = handler;
+        } else {
+            this.queue = new TokenQueue(this);
+            this.handler = this.queue;
+        }
 
-    constructor(options: { sourceCodeLocationInfo?: boolean; onParseError?: ParserErrorHandler | null }) {
-        this.addLocationInfo = !!options.sourceCodeLocationInfo;
+        this.lossless = !!options.lossless;
+        this.addLocationInfo = !!options.sourceCodeLocationInfo || this.lossless;
+        this.addAttributeLocationInfo = this.addLocationInfo && !!options.attributeLocationInfo;
         this.onParseError = options.onParseError ?? null;
         this.preprocessor = new Preprocessor(options);
+        this.state = options.initialMode ?? State.DATA;
+        this.lastStartTagName = options.lastStartTagName ?? '';
+        this.allowCDATA = !!options.allowCDATA;
+        this.decodeTree = options.decodeTree ?? htmlDecodeTree;
+        this.onCharacterReference = options.onCharacterReference ?? null;
+        this.interpolation = options.interpolation?.length ? options.interpolation : null;
+
+        //NOTE: in the lossless mode, tokens get the raw source slices, so we keep the whole source.
+        if (this.lossless) {
+            this.preprocessor.bufferWaterline = Number.POSITIVE_INFINITY;
+        }
     }
 
     //Errors
@@ -238,7 +481,7 @@ export class Tokenizer {
         this.onParseError?.(this.preprocessor.getError(code));
     }
 
-    private currentAttrLocation: Location | null = null;
+    private currentAttrLocation: AttributeLocation | null = null;
     private ctLoc: Location | null = null;
     private _getCurrentLocation(): Location | null {
         if (!this.addLocationInfo) {
@@ -256,8 +499,14 @@ export class Tokenizer {
     }
 
     //API
-    public getNextToken(): Token {
-        while (this.tokenQueue.length === 0 && this.active) {
+    private _runParsingLoop(): void {
+        if (this.inLoop) {
+            return;
+        }
+
+        this.inLoop = true;
+
+        while (this.active && !this.paused) {
             this.consumedAfterSnapshot = 0;
 
             const cp = this._consume();
@@ -267,17 +516,99 @@ export class Tokenizer {
             }
         }
 
-        return this.tokenQueue.shift()!;
+        this.inLoop = false;
+    }
+
+    /** Stops the tokenization after the current token. The rest of the written input is kept. */
+    public pause(): void {
+        this.paused = true;
     }
 
-    public write(chunk: string, isLastChunk: boolean): void {
+    /**
+     * Resumes the tokenization stopped with {@link Tokenizer.pause}. If called by the handler, the tokenization
+     * continues once the handler returns.
+     *
+     * @param writeCallback Called once the written input is tokenized, unless the tokenizer is paused again.
+     */
+    public resume(writeCallback?: () => void): void {
+        if (!this.paused) {
+            throw new Error('Parser was already resumed');
+        }
+
+        this.paused = false;
+
+        if (this.inLoop) {
+            return;
+        }
+
+        this._runParsingLoop();
+
+        if (!this.paused) {
+            writeCallback?.();
+        }
+    }
+
+    /**
+     * Yields the tokens of the input written so far. Only available if the tokenizer was created without a handler.
+     * The input is tokenized as the tokens are iterated. The iteration ends at the end of the written input, or after
+     * the `EOF` token if the last chunk was written. Iterating again after writing the next chunk yields the following
+     * tokens.
+     */
+    public *tokens(): Generator<Token, void, undefined> {
+        const { queue } = this;
+
+        if (queue === null) {
+            throw new TypeError('Tokens of a tokenizer with a handler can not be iterated.');
+        }
+
+        while (this.active || queue.tokens.length > 0) {
+            if (queue.tokens.length === 0) {
+                //NOTE: the queue pauses the tokenizer once the next token is complete.
+                this.paused = false;
+                this._runParsingLoop();
+            }
+
+            const { tokens } = queue;
+
+            queue.tokens = [];
+
+            yield* tokens;
+        }
+    }
+
+    /**
+     * Writes a chunk of the input and tokenizes it. Chunks can end anywhere, even in the middle of a token
+     * or a character reference. If the tokenizer was created without a handler, the chunk is tokenized
+     * by {@link Tokenizer.tokens} instead.
+     *
+     * @param chunk Input chunk.
+     * @param isLastChunk Signals that the input ends with this chunk.
+     * @param writeCallback Called once the chunk is tokenized, unless the tokenizer is paused. Not called if the
+     * tokenizer was created without a handler.
+     */
+    public write(chunk: string, isLastChunk: boolean, writeCallback?: () => void): void {
         this.active = true;
         this.preprocessor.write(chunk, isLastChunk);
+
+        if (this.queue !== null) {
+            return;
+        }
+
+        this._runParsingLoop();
+
+        if (!this.paused) {
+            writeCallback?.();
+        }
     }
 
+    /** Inserts the HTML at the current position, as it is done by `document.write()`. */
     public insertHtmlAtCurrentPos(chunk: string): void {
         this.active = true;
         this.preprocessor.insertHtmlAtCurrentPos(chunk);
+
+        if (this.queue === null) {
+            this._runParsingLoop();
+        }
     }
 
     //Hibernation
@@ -285,7 +616,6 @@ export class Tokenizer {
         if (this.preprocessor.endOfChunkHit) {
             this._unconsume(this.consumedAfterSnapshot);
             this.active = false;
-            this.tokenQueue.push(HIBERNATION_TOKEN);
 
             return true;
         }
@@ -370,11 +700,13 @@ export class Tokenizer {
     }
 
     private _createCharacterToken(type: CharacterToken['type'], chars: string): void {
-        this.currentCharacterToken = {
-            type,
-            chars,
-            location: this.ctLoc,
-        };
+        const token = this.characterToken;
+
+        token.type = type;
+        token.chars = chars;
+        token.location = this.ctLoc;
+
+        this.currentCharacterToken = token;
     }
 
     private _createEOFToken(): void {
@@ -386,6 +718,8 @@ export class Tokenizer {
             ctLoc.endOffset = ctLoc.startOffset;
         }
 
+        //NOTE: pending characters end at the end of the input (e.g. `<` emitted as a character at the EOF).
+        this.ctLoc = ctLoc;
         this.currentToken = { type: TokenType.EOF, location: ctLoc };
     }
 
@@ -395,7 +729,13 @@ export class Tokenizer {
             name: attrNameFirstCh,
             value: '',
         };
-        this.currentAttrLocation = this._getCurrentLocation();
+
+        const location = this._getCurrentLocation();
+
+        this.currentAttrLocation =
+            location && this.addAttributeLocationInfo
+                ? { ...location, name: { ...location }, equalsSign: null, value: null, quotedValue: null, quote: null }
+                : location;
     }
 
     private _leaveAttrName(): void {
@@ -404,11 +744,15 @@ export class Tokenizer {
         if (getTokenAttr(token, this.currentAttr.name) === null) {
             token.attrs.push(this.currentAttr);
 
-            if (token.location) {
+            if (token.location && this.currentAttrLocation) {
                 const attrLocations = (token.location.attrs ??= Object.create(null));
-                attrLocations[this.currentAttr.name] = this.currentAttrLocation!;
+                attrLocations[this.currentAttr.name] = this.currentAttrLocation;
 
                 // Set end location
+                if (this.currentAttrLocation.name) {
+                    this._setLocationEnd(this.currentAttrLocation.name);
+                }
+
                 this._leaveAttrValue();
             }
         } else {
@@ -416,19 +760,70 @@ export class Tokenizer {
         }
     }
 
+    private _setAttrEqualsSign(): void {
+        const location = this.addAttributeLocationInfo ? this._getCurrentLocation() : null;
+
+        if (this.currentAttrLocation && location) {
+            this._setLocationEnd(location, 1);
+            this.currentAttrLocation.equalsSign = location;
+        }
+    }
+
+    private _enterAttrValue(quote: '"' | "'" | null): void {
+        const location = this.addAttributeLocationInfo ? this._getCurrentLocation() : null;
+
+        if (this.currentAttrLocation && location) {
+            const valueStartShift = quote === null ? 0 : 1;
+
+            this.currentAttrLocation.quote = quote;
+            this.currentAttrLocation.quotedValue = location;
+            this.currentAttrLocation.value = {
+                ...location,
+                startCol: location.startCol + valueStartShift,
+                startOffset: location.startOffset + valueStartShift,
+            };
+        }
+    }
+
+    private _leaveQuotedAttrValue(): void {
+        const location = this.currentAttrLocation;
+
+        if (location?.value && location.quotedValue) {
+            this._setLocationEnd(location.value);
+            this._setLocationEnd(location.quotedValue, 1);
+            this._setLocationEnd(location, 1);
+        }
+    }
+
     private _leaveAttrValue(): void {
-        if (this.currentAttrLocation) {
-            this.currentAttrLocation.endLine = this.preprocessor.line;
-            this.currentAttrLocation.endCol = this.preprocessor.col;
-            this.currentAttrLocation.endOffset = this.preprocessor.offset;
+        const location = this.currentAttrLocation;
+
+        if (location) {
+            this._setLocationEnd(location);
+
+            if (location.quote === null && location.value && location.quotedValue) {
+                this._setLocationEnd(location.value);
+                this._setLocationEnd(location.quotedValue);
+            }
         }
     }
 
+    /** Sets the end of the location to the current character, or after it if `length` is given. */
+    private _setLocationEnd(location: Location, length = 0): void {
+        location.endLine = this.preprocessor.line;
+        location.endCol = this.preprocessor.col + length;
+        location.endOffset = this.preprocessor.offset + length;
+    }
+
     //Token emission
     private _emitCurrentToken(): void {
         this._emitCurrentCharacterToken();
 
-        const ct = this.currentToken!;
+        const ct = this.currentToken;
+
+        if (ct === null) {
+            return;
+        }
 
         this.currentToken = null;
 
@@ -459,9 +854,46 @@ export class Tokenizer {
             ct.location.endLine = this.preprocessor.line;
             ct.location.endCol = this.preprocessor.col + 1;
             ct.location.endOffset = this.preprocessor.offset + 1;
+
+            this._setRaw(ct);
+        }
+
+        switch (ct.type) {
+            case TokenType.START_TAG: {
+                this.handler.onStartTag(ct);
+                break;
+            }
+            case TokenType.END_TAG: {
+                this.handler.onEndTag(ct);
+                break;
+            }
+            case TokenType.COMMENT: {
+                this.handler.onComment(ct);
+                break;
+            }
+            case TokenType.DOCTYPE: {
+                this.handler.onDoctype(ct);
+                break;
+            }
+            case TokenType.EOF: {
+                //NOTE: the input is over, otherwise we would keep emitting EOF tokens.
+                this.active = false;
+                this.handler.onEof(ct);
+                break;
+            }
+            case TokenType.INTERPOLATION: {
+                this.handler.onInterpolation(ct);
+                break;
+            }
+            default:
+            // Do nothing
         }
+    }
 
-        this.tokenQueue.push(ct);
+    private _setRaw(token: Token): void {
+        if (this.lossless && token.location) {
+            token.raw = this.preprocessor.html.slice(token.location.startOffset, token.location.endOffset);
+        }
     }
 
     private _emitCurrentCharacterToken(): void {
@@ -474,8 +906,25 @@ export class Tokenizer {
                 this.currentCharacterToken.location.endOffset = this.ctLoc.startOffset;
             }
 
-            this.tokenQueue.push(this.currentCharacterToken);
+            const token = this.currentCharacterToken;
+
+            this._setRaw(token);
             this.currentCharacterToken = null;
+
+            switch (token.type) {
+                case TokenType.CHARACTER: {
+                    this.handler.onCharacter(token);
+                    break;
+                }
+                case TokenType.WHITESPACE_CHARACTER: {
+                    this.handler.onWhitespaceCharacter(token);
+                    break;
+                }
+                case TokenType.NULL_CHARACTER: {
+                    this.handler.onNullCharacter(token);
+                    break;
+                }
+            }
         }
     }
 
@@ -525,19 +974,20 @@ export class Tokenizer {
     }
 
     // Character reference helpers
-    private _matchNamedCharacterReference(cp: number): number[] | null {
-        let result: number[] | null = null;
+    private _matchNamedCharacterReference(cp: number): string | null {
+        const { decodeTree } = this;
+        let result: string | null = null;
         let excess = 0;
         let withoutSemicolon = false;
 
-        for (let i = 0, current = htmlDecodeTree[0]; i >= 0; cp = this._consume()) {
-            i = determineBranch(htmlDecodeTree, current, i + 1, cp);
+        for (let i = 0, current = decodeTree[0]; i >= 0; cp = this._consume()) {
+            i = determineBranch(decodeTree, current, i + 1, cp);
 
             if (i < 0) break;
 
             excess += 1;
 
-            current = htmlDecodeTree[i];
+            current = decodeTree[i];
 
             // If the branch is a value, store it and continue
             if (current & BinTrieFlags.HAS_VALUE) {
@@ -546,14 +996,14 @@ export class Tokenizer {
                     this._isCharacterReferenceInAttribute() &&
                     isEntityInAttributeInvalidEnd(this.preprocessor.peek(1))
                 ) {
-                    // No need to consider multi-byte values, as legacy entities are always a single byte.
-                    i += 1;
+                    // Skip the value. Custom decode trees can have multi-byte values of legacy entities.
+                    i += current & BinTrieFlags.MULTI_BYTE ? 2 : 1;
                 } else {
                     // If this is a surrogate pair, consume the next two bytes.
                     result =
                         current & BinTrieFlags.MULTI_BYTE
-                            ? [htmlDecodeTree[++i], htmlDecodeTree[++i]]
-                            : [htmlDecodeTree[++i]];
+                            ? String.fromCharCode(decodeTree[++i], decodeTree[++i])
+                            : String.fromCharCode(decodeTree[++i]);
                     excess = 0;
                     withoutSemicolon = cp !== $.SEMICOLON;
                 }
@@ -590,6 +1040,138 @@ export class Tokenizer {
         }
     }
 
+    private _createCharacterReference(value: string, endOffset: number): CharacterReference {
+        const { html, droppedBufferSize } = this.preprocessor;
+        const length = endOffset - this.charRefStartOffset;
+        const start = this.charRefStartOffset - droppedBufferSize;
+
+        return {
+            source: html.slice(start, start + length),
+            value,
+            inAttribute: this._isCharacterReferenceInAttribute(),
+            //NOTE: character references never span several lines.
+            location: this.addLocationInfo
+                ? {
+                      startLine: this.charRefStartLine,
+                      startCol: this.charRefStartCol,
+                      startOffset: this.charRefStartOffset,
+                      endLine: this.charRefStartLine,
+                      endCol: this.charRefStartCol + length,
+                      endOffset,
+                  }
+                : null,
+        };
+    }
+
+    private _flushCharacterReference(value: string, endOffset: number): void {
+        const text = this.onCharacterReference?.(this._createCharacterReference(value, endOffset)) ?? value;
+
+        for (let i = 0; i < text.length; i++) {
+            this._flushCodePointConsumedAsCharacterReference(text.charCodeAt(i));
+        }
+    }
+
+    // Interpolation helpers
+    /**
+     * Enters the interpolation state if an interpolation starts at the current code point. Returns `true` if it
+     * did, or if the tokenizer hibernated to wait for the rest of the start delimiter.
+     */
+    private _tryEnterInterpolation(cp: number, interpolation: InterpolationDelimiters[]): boolean {
+        for (const { start, end } of interpolation) {
+            if (cp === start.charCodeAt(0) && this.preprocessor.startsWith(start, true)) {
+                switch (this.state) {
+                    case State.DATA: {
+                        this.currentToken = { type: TokenType.INTERPOLATION, data: '', location: this.ctLoc };
+                        break;
+                    }
+                    case State.BEFORE_ATTRIBUTE_NAME:
+                    case State.AFTER_ATTRIBUTE_NAME: {
+                        //NOTE: the interpolation can't have a value, so attributes are expected after it.
+                        this.state = State.BEFORE_ATTRIBUTE_NAME;
+                        this._createAttr('');
+                        this.currentAttr.interpolation = true;
+                        break;
+                    }
+                    default: {
+                        // Attribute values
+                        this.interpolationStart = this.currentAttr.value.length;
+                    }
+                }
+
+                this._advanceBy(start.length - 1);
+                this.returnState = this.state;
+                this.state = State.INTERPOLATION;
+                this.interpolationEnd = end;
+                this._appendToInterpolation(start);
+
+                return true;
+            }
+        }
+
+        return this._ensureHibernation();
+    }
+
+    /**
+     * Checks if an interpolation starts at the current code point. If the tokenizer hibernates to wait for the rest
+     * of the start delimiter, `null` is returned.
+     */
+    private _isInterpolationStart(cp: number, interpolation: InterpolationDelimiters[]): boolean | null {
+        for (const { start } of interpolation) {
+            if (cp === start.charCodeAt(0) && this.preprocessor.startsWith(start, true)) {
+                return true;
+            }
+        }
+
+        return this._ensureHibernation() ? null : false;
+    }
+
+    private _appendToInterpolation(str: string): void {
+        switch (this.returnState) {
+            case State.DATA: {
+                (this.currentToken as InterpolationToken).data += str;
+                break;
+            }
+            case State.BEFORE_ATTRIBUTE_NAME: {
+                this.currentAttr.name += str;
+                break;
+            }
+            default: {
+                this.currentAttr.value += str;
+            }
+        }
+    }
+
+    //NOTE: the current code point is the last one of the interpolation.
+    private _leaveInterpolation(): void {
+        switch (this.returnState) {
+            case State.DATA: {
+                this._emitCurrentToken();
+                break;
+            }
+            case State.BEFORE_ATTRIBUTE_NAME: {
+                this._leaveAttrName();
+
+                if (this.currentAttrLocation) {
+                    if (this.currentAttrLocation.name) {
+                        this._setLocationEnd(this.currentAttrLocation.name, 1);
+                    }
+
+                    this._setLocationEnd(this.currentAttrLocation, 1);
+                }
+                break;
+            }
+            default: {
+                // Attribute values
+                (this.currentAttr.valueInterpolations ??= []).push([
+                    this.interpolationStart,
+                    this.currentAttr.value.length,
+                ]);
+            }
+        }
+
+        this.state = this.returnState;
+    }
+
     // Calling states this way turns out to be much faster than any other approach.
     private _callState(cp: number): void {
         switch (this.state) {
@@ -913,6 +1495,10 @@ export class Tokenizer {
                 this._stateNumericCharacterReferenceEnd();
                 break;
             }
+            case State.INTERPOLATION: {
+                this._stateInterpolation(cp);
+                break;
+            }
             default: {
                 throw new Error('Unknown state');
             }
@@ -927,6 +1513,10 @@ export class Tokenizer {
         this.preprocessor.dropParsedChunk();
         this.ctLoc = this._getCurrentLocation();
 
+        if (this.interpolation !== null && this._tryEnterInterpolation(cp, this.interpolation)) {
+            return;
+        }
+
         switch (cp) {
             case $.LESS_THAN_SIGN: {
                 this.state = State.TAG_OPEN;
@@ -1623,6 +2213,10 @@ export class Tokenizer {
     // Before attribute name state
     //------------------------------------------------------------------
     private _stateBeforeAttributeName(cp: number): void {
+        if (this.interpolation !== null && this._tryEnterInterpolation(cp, this.interpolation)) {
+            return;
+        }
+
         switch (cp) {
             case $.SPACE:
             case $.LINE_FEED:
@@ -1655,6 +2249,22 @@ export class Tokenizer {
     // Attribute name state
     //------------------------------------------------------------------
     private _stateAttributeName(cp: number): void {
+        //NOTE: an interpolation ends the attribute name, e.g. `checked{% endif %}`.
+        if (this.interpolation !== null) {
+            const isInterpolationStart = this._isInterpolationStart(cp, this.interpolation);
+
+            if (isInterpolationStart === null) {
+                return;
+            }
+
+            if (isInterpolationStart) {
+                this._leaveAttrName();
+                this.state = State.AFTER_ATTRIBUTE_NAME;
+                this._stateAfterAttributeName(cp);
+                return;
+            }
+        }
+
         switch (cp) {
             case $.SPACE:
             case $.LINE_FEED:
@@ -1670,6 +2280,7 @@ export class Tokenizer {
             }
             case $.EQUALS_SIGN: {
                 this._leaveAttrName();
+                this._setAttrEqualsSign();
                 this.state = State.BEFORE_ATTRIBUTE_VALUE;
                 break;
             }
@@ -1694,6 +2305,10 @@ export class Tokenizer {
     // After attribute name state
     //------------------------------------------------------------------
     private _stateAfterAttributeName(cp: number): void {
+        if (this.interpolation !== null && this._tryEnterInterpolation(cp, this.interpolation)) {
+            return;
+        }
+
         switch (cp) {
             case $.SPACE:
             case $.LINE_FEED:
@@ -1707,6 +2322,7 @@ export class Tokenizer {
                 break;
             }
             case $.EQUALS_SIGN: {
+                this._setAttrEqualsSign();
                 this.state = State.BEFORE_ATTRIBUTE_VALUE;
                 break;
             }
@@ -1740,10 +2356,12 @@ export class Tokenizer {
                 break;
             }
             case $.QUOTATION_MARK: {
+                this._enterAttrValue('"');
                 this.state = State.ATTRIBUTE_VALUE_DOUBLE_QUOTED;
                 break;
             }
             case $.APOSTROPHE: {
+                this._enterAttrValue("'");
                 this.state = State.ATTRIBUTE_VALUE_SINGLE_QUOTED;
                 break;
             }
@@ -1754,6 +2372,7 @@ export class Tokenizer {
                 break;
             }
             default: {
+                this._enterAttrValue(null);
                 this.state = State.ATTRIBUTE_VALUE_UNQUOTED;
                 this._stateAttributeValueUnquoted(cp);
             }
@@ -1763,8 +2382,13 @@ export class Tokenizer {
     // Attribute value (double-quoted) state
     //------------------------------------------------------------------
     private _stateAttributeValueDoubleQuoted(cp: number): void {
+        if (this.interpolation !== null && this._tryEnterInterpolation(cp, this.interpolation)) {
+            return;
+        }
+
         switch (cp) {
             case $.QUOTATION_MARK: {
+                this._leaveQuotedAttrValue();
                 this.state = State.AFTER_ATTRIBUTE_VALUE_QUOTED;
                 break;
             }
@@ -1792,8 +2416,13 @@ export class Tokenizer {
     // Attribute value (single-quoted) state
     //------------------------------------------------------------------
     private _stateAttributeValueSingleQuoted(cp: number): void {
+        if (this.interpolation !== null && this._tryEnterInterpolation(cp, this.interpolation)) {
+            return;
+        }
+
         switch (cp) {
             case $.APOSTROPHE: {
+                this._leaveQuotedAttrValue();
                 this.state = State.AFTER_ATTRIBUTE_VALUE_QUOTED;
                 break;
             }
@@ -1821,6 +2450,10 @@ export class Tokenizer {
     // Attribute value (unquoted) state
     //------------------------------------------------------------------
     private _stateAttributeValueUnquoted(cp: number): void {
+        if (this.interpolation !== null && this._tryEnterInterpolation(cp, this.interpolation)) {
+            return;
+        }
+
         switch (cp) {
             case $.SPACE:
             case $.LINE_FEED:
@@ -2882,9 +3515,34 @@ export class Tokenizer {
         }
     }
 
+    // Interpolation state
+    //------------------------------------------------------------------
+    private _stateInterpolation(cp: number): void {
+        const end = this.interpolationEnd;
+
+        if (cp === end.charCodeAt(0) && this.preprocessor.startsWith(end, true)) {
+            this._advanceBy(end.length - 1);
+            this._appendToInterpolation(end);
+            this._leaveInterpolation();
+        } else if (this._ensureHibernation()) {
+            // Wait for the rest of the end delimiter.
+        } else if (cp === $.EOF) {
+            //NOTE: the interpolation ends at the previous code point, the EOF is reconsumed in the return state.
+            this._unconsume(1);
+            this._leaveInterpolation();
+        } else {
+            this._appendToInterpolation(String.fromCodePoint(cp));
+        }
+    }
+
     // Character reference state
     //------------------------------------------------------------------
     private _stateCharacterReference(cp: number): void {
+        //NOTE: the ampersand is the previous code point.
+        this.charRefStartOffset = this.preprocessor.offset - 1;
+        this.charRefStartLine = this.preprocessor.line;
+        this.charRefStartCol = this.preprocessor.col - 1;
+
         if (cp === $.NUMBER_SIGN) {
             this.state = State.NUMERIC_CHARACTER_REFERENCE;
         } else if (isAsciiAlphaNumeric(cp)) {
@@ -2906,9 +3564,8 @@ export class Tokenizer {
         if (this._ensureHibernation()) {
             // Stay in the state, try again.
         } else if (matchResult) {
-            for (let i = 0; i < matchResult.length; i++) {
-                this._flushCodePointConsumedAsCharacterReference(matchResult[i]);
-            }
+            //NOTE: the last code point of the reference is the current one.
+            this._flushCharacterReference(matchResult, this.preprocessor.offset + 1);
             this.state = this.returnState;
         } else {
             this._flushCodePointConsumedAsCharacterReference($.AMPERSAND);
@@ -3028,7 +3685,33 @@ export class Tokenizer {
             }
         }
 
-        this._flushCodePointConsumedAsCharacterReference(this.charRefCode);
+        //NOTE: the current code point follows the reference.
+        this._flushCharacterReference(String.fromCodePoint(this.charRefCode), this.preprocessor.offset);
         this._reconsumeInState(this.returnState);
     }
 }
+
+/**
+ * Tokenizes an HTML string.
+ *
+ * @param html Input HTML string.
+ * @param options Tokenizer options.
+ * @returns Iterator over the tokens, which ends with the `EOF` token.
+ *
+ * @example
+ *
+ * ```js
+ * const parse5 = require('parse5');
+ *
+ * for (const token of parse5.tokenize('</script><b>', { initialMode: parse5.TokenizerMode.SCRIPT_DATA })) {
+ *     console.log(parse5.TokenType[token.type]); //> 'CHARACTER', 'EOF'
+ * }
+ * ```
+ */
+export function* tokenize(html: string, options: TokenizerOptions = {}): Generator<Token, void, undefined> {
+    const tokenizer = new Tokenizer(options);
+
+    tokenizer.write(html, true);
+
+    yield* tokenizer.tokens();
+}
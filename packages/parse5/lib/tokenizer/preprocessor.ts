@@ -40,8 +40,9 @@ export class Preprocessor {
         return this.pos - this.lineStartPos + Number(this.lastGapPos !== this.pos);
     }
 
+    /** The offset of the current character. If we just saw a gap (eg. a surrogate pair), return the offset before. */
     public get offset(): number {
-        return this.droppedBufferSize + this.pos;
+        return this.droppedBufferSize + this.pos - Number(this.lastGapPos === this.pos);
     }
 
     public getError(code: ERR): ParserError {
@@ -82,21 +82,25 @@ it('Location Info (Tokenizer)', () => {
     for (const testCase of testCases) {
         const html = testCase.htmlChunks.join('');
         const lines = html.split(/\r?\n/g);
-        const tokenizer = new Tokenizer({ sourceCodeLocationInfo: true });
+        const tokenizer = new Tokenizer({
+            sourceCodeLocationInfo: true,
+            initialMode: testCase.initialMode,
+            lastStartTagName: testCase.lastStartTagName,
+        });
         const lastChunkIdx = testCase.htmlChunks.length - 1;
 
+        // NOTE: set small waterline for testing purposes
+        tokenizer.preprocessor.bufferWaterline = 8;
+
         for (let i = 0; i < testCase.htmlChunks.length; i++) {
             tokenizer.write(testCase.htmlChunks[i], i === lastChunkIdx);
         }
 
-        // NOTE: set small waterline for testing purposes
-        tokenizer.preprocessor.bufferWaterline = 8;
-        tokenizer.state = testCase.initialMode;
-        tokenizer.lastStartTagName = testCase.lastStartTagName;
+        let j = 0;
 
-        for (let token = tokenizer.getNextToken(), j = 0; token.type !== TokenType.EOF; ) {
-            if (token.type === TokenType.HIBERNATION) {
-                continue;
+        for (const token of tokenizer.tokens()) {
+            if (token.type === TokenType.EOF) {
+                break;
             }
 
             assert.ok(token.location);
@@ -113,7 +117,6 @@ it('Location Info (Tokenizer)', () => {
 
             assert.strictEqual(actual, expected);
 
-            token = tokenizer.getNextToken();
             j++;
         }
     }
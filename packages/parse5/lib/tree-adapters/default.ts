@@ -1,6 +1,8 @@
-import { DOCUMENT_MODE, NAMESPACES } from '../common/html.js';
-import type { Attribute, Location, ElementLocation } from '../common/token.js';
-import type { TreeAdapterTypeMap } from './interface.js';
+import { DOCUMENT_MODE, NAMESPACES, isValidShadowHostName } from '../common/html.js';
+import type { ENCODING_CONFIDENCE } from '../common/encoding.js';
+import type { Attribute, Location, ElementLocation, TextLocation, NodeOrigin } from '../common/token.js';
+import type { RawSource } from '../common/raw-source.js';
+import type { ShadowRootInit, TreeAdapterTypeMap } from './interface.js';
 
 export enum NodeType {
     Document = '#document',
@@ -8,6 +10,7 @@ export enum NodeType {
     Comment = '#comment',
     Text = '#text',
     DocumentType = '#documentType',
+    Interpolation = '#interpolation',
 }
 
 export interface Document {
@@ -18,10 +21,21 @@ export interface Document {
      *
      * @see {@link DOCUMENT_MODE} */
     mode: DOCUMENT_MODE;
+    /** Canonical name of the document encoding. Available if the document was parsed from bytes. */
+    encoding?: string;
+    /**
+     * Confidence of the parser in the document encoding. Available if the document was parsed from bytes.
+     *
+     * @see {@link ENCODING_CONFIDENCE} */
+    encodingConfidence?: ENCODING_CONFIDENCE;
     /** The node's children. */
     childNodes: ChildNode[];
     /** Comment source code location info. Available if location info is enabled. */
     sourceCodeLocation?: Location | null;
+    /** Raw source of the node. Available if the lossless mode is enabled. */
+    rawSource?: RawSource;
+    /** Origin of the node. Available if location info is enabled. */
+    origin?: NodeOrigin;
 }
 
 export interface DocumentFragment {
@@ -31,6 +45,15 @@ export interface DocumentFragment {
     childNodes: ChildNode[];
     /** Comment source code location info. Available if location info is enabled. */
     sourceCodeLocation?: Location | null;
+    /** Raw source of the node. Available if the lossless mode is enabled. */
+    rawSource?: RawSource;
+    /** Origin of the node. Available if location info is enabled. */
+    origin?: NodeOrigin;
+}
+
+export interface ShadowRoot extends DocumentFragment, ShadowRootInit {
+    /** Shadow host element. */
+    host: Element;
 }
 
 export interface Element {
@@ -44,10 +67,16 @@ export interface Element {
     namespaceURI: NAMESPACES;
     /** Element source code location info, with attributes. Available if location info is enabled. */
     sourceCodeLocation?: ElementLocation | null;
+    /** Raw source of the node. Available if the lossless mode is enabled. */
+    rawSource?: RawSource;
+    /** Origin of the node. Available if location info is enabled. */
+    origin?: NodeOrigin;
     /** Parent node. */
     parentNode: ParentNode | null;
     /** The node's children. */
     childNodes: ChildNode[];
+    /** Attached shadow root. Available if declarative shadow roots are allowed. */
+    shadowRoot?: ShadowRoot;
 }
 
 export interface CommentNode {
@@ -59,6 +88,10 @@ export interface CommentNode {
     data: string;
     /** Comment source code location info. Available if location info is enabled. */
     sourceCodeLocation?: Location | null;
+    /** Raw source of the node. Available if the lossless mode is enabled. */
+    rawSource?: RawSource;
+    /** Origin of the node. Available if location info is enabled. */
+    origin?: NodeOrigin;
 }
 
 export interface TextNode {
@@ -68,7 +101,26 @@ export interface TextNode {
     /** Text content. */
     value: string;
     /** Comment source code location info. Available if location info is enabled. */
+    sourceCodeLocation?: TextLocation | null;
+    /** Raw source of the node. Available if the lossless mode is enabled. */
+    rawSource?: RawSource;
+    /** Origin of the node. Available if location info is enabled. */
+    origin?: NodeOrigin;
+}
+
+export interface InterpolationNode {
+    /** The name of the node. */
+    nodeName: NodeType.Interpolation;
+    /** Parent node. */
+    parentNode: ParentNode | null;
+    /** Source of the interpolation, including the delimiters. */
+    data: string;
+    /** Interpolation source code location info. Available if location info is enabled. */
     sourceCodeLocation?: Location | null;
+    /** Raw source of the node. Available if the lossless mode is enabled. */
+    rawSource?: RawSource;
+    /** Origin of the node. Available if location info is enabled. */
+    origin?: NodeOrigin;
 }
 
 export interface Template extends Element {
@@ -90,10 +142,14 @@ export interface DocumentType {
     systemId: string;
     /** Comment source code location info. Available if location info is enabled. */
     sourceCodeLocation?: Location | null;
+    /** Raw source of the node. Available if the lossless mode is enabled. */
+    rawSource?: RawSource;
+    /** Origin of the node. Available if location info is enabled. */
+    origin?: NodeOrigin;
 }
 
 export type ParentNode = Document | DocumentFragment | Element | Template;
-export type ChildNode = Element | Template | CommentNode | TextNode | DocumentType;
+export type ChildNode = Element | Template | CommentNode | TextNode | DocumentType | InterpolationNode;
 export type Node = ParentNode | ChildNode;
 
 export type DefaultTreeAdapterMap = TreeAdapterTypeMap<
@@ -144,6 +200,14 @@ export function createCommentNode(data: string): CommentNode {
     };
 }
 
+export function createInterpolationNode(data: string): InterpolationNode {
+    return {
+        nodeName: NodeType.Interpolation,
+        data,
+        parentNode: null,
+    };
+}
+
 const createTextNode = function (value: string): TextNode {
     return {
         nodeName: NodeType.Text,
@@ -173,6 +237,21 @@ export function getTemplateContent(templateElement: Template): DocumentFragment
     return templateElement.content;
 }
 
+export function attachShadowRoot(host: Element, init: ShadowRootInit): ShadowRoot | null {
+    if (host.shadowRoot || host.namespaceURI !== NAMESPACES.HTML || !isValidShadowHostName(host.tagName)) {
+        return null;
+    }
+
+    host.shadowRoot = {
+        nodeName: NodeType.DocumentFragment,
+        childNodes: [],
+        host,
+        ...init,
+    };
+
+    return host.shadowRoot;
+}
+
 export function setDocumentType(document: Document, name: string, publicId: string, systemId: string): void {
     const doctypeNode = document.childNodes.find(
         (node): node is DocumentType => node.nodeName === NodeType.DocumentType
@@ -194,6 +273,11 @@ export function setDocumentType(document: Document, name: string, publicId: stri
     }
 }
 
+export function setDocumentEncoding(document: Document, encoding: string, confidence: ENCODING_CONFIDENCE): void {
+    document.encoding = encoding;
+    document.encodingConfidence = confidence;
+}
+
 export function setDocumentMode(document: Document, mode: DOCUMENT_MODE): void {
     document.mode = mode;
 }
@@ -257,6 +341,16 @@ export function getParentNode(node: ChildNode): null | ParentNode {
     return node.parentNode;
 }
 
+export function getShadowRoot(element: Element): ShadowRoot | null {
+    return element.shadowRoot ?? null;
+}
+
+export function getShadowRootInit(shadowRoot: ShadowRoot): ShadowRootInit {
+    const { mode, clonable, serializable, delegatesFocus } = shadowRoot;
+
+    return { mode, clonable, serializable, delegatesFocus };
+}
+
 export function getAttrList(element: Element): Attribute[] {
     return element.attrs;
 }
@@ -278,6 +372,10 @@ export function getCommentNodeContent(commentNode: CommentNode): string {
     return commentNode.data;
 }
 
+export function getInterpolationNodeContent(interpolationNode: InterpolationNode): string {
+    return interpolationNode.data;
+}
+
 export function getDocumentTypeNodeName(doctypeNode: DocumentType): string {
     return doctypeNode.name;
 }
@@ -303,6 +401,10 @@ export function isDocumentTypeNode(node: Node): node is DocumentType {
     return node.nodeName === NodeType.DocumentType;
 }
 
+export function isInterpolationNode(node: Node): node is InterpolationNode {
+    return node.nodeName === NodeType.Interpolation;
+}
+
 export function isElementNode(node: Node): node is Element {
     return Object.prototype.hasOwnProperty.call(node, 'tagName');
 }
@@ -319,3 +421,21 @@ export function getNodeSourceCodeLocation(node: Node): ElementLocation | undefin
 export function updateNodeSourceCodeLocation(node: Node, endLocation: ElementLocation): void {
     node.sourceCodeLocation = { ...node.sourceCodeLocation, ...endLocation };
 }
+
+// Raw source
+export function setNodeRawSource(node: Node, rawSource: RawSource): void {
+    node.rawSource = rawSource;
+}
+
+export function getNodeRawSource(node: Node): RawSource | undefined {
+    return node.rawSource;
+}
+
+// Node origin
+export function setNodeOrigin(node: Node, origin: NodeOrigin): void {
+    node.origin = origin;
+}
+
+export function getNodeOrigin(node: Node): NodeOrigin | undefined {
+    return node.origin;
+}
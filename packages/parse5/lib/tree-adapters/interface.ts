@@ -1,5 +1,7 @@
 import { DOCUMENT_MODE, NAMESPACES } from '../common/html.js';
-import type { Attribute, ElementLocation } from '../common/token.js';
+import type { ENCODING_CONFIDENCE } from '../common/encoding.js';
+import type { Attribute, ElementLocation, NodeOrigin } from '../common/token.js';
+import type { RawSource } from '../common/raw-source.js';
 
 export interface TreeAdapterTypeMap<
     Node = unknown,
@@ -25,6 +27,20 @@ export interface TreeAdapterTypeMap<
     documentType: DocumentType;
 }
 
+/**
+ * Properties of a [shadow root](https://dom.spec.whatwg.org/#concept-shadow-root).
+ */
+export interface ShadowRootInit {
+    /** Shadow root mode. */
+    mode: 'open' | 'closed';
+    /** Determines if the shadow root is cloned along with its host. */
+    clonable: boolean;
+    /** Determines if the shadow root is serializable. */
+    serializable: boolean;
+    /** Determines if the shadow root delegates focus. */
+    delegatesFocus: boolean;
+}
+
 /**
  * Tree adapter is a set of utility functions that provides minimal required abstraction layer beetween parser and a specific AST format.
  * Note that `TreeAdapter` is not designed to be a general purpose AST manipulation library. You can build such library
@@ -49,6 +65,16 @@ export interface TreeAdapter<T extends TreeAdapterTypeMap = TreeAdapterTypeMap>
      */
     appendChild(parentNode: T['parentNode'], newNode: T['childNode']): void;
 
+    /**
+     * Attaches a [declarative shadow root](https://html.spec.whatwg.org/multipage/scripting.html#attr-template-shadowrootmode)
+     * to the given element. Used only if the `allowDeclarativeShadowRoots` parser option is enabled.
+     *
+     * @param host - Shadow host element.
+     * @param init - Shadow root properties.
+     * @returns Shadow root or `null` if the element can't host a shadow root.
+     */
+    attachShadowRoot?(host: T['element'], init: ShadowRootInit): T['documentFragment'] | null;
+
     /**
      * Creates a comment node.
      *
@@ -75,6 +101,14 @@ export interface TreeAdapter<T extends TreeAdapterTypeMap = TreeAdapterTypeMap>
      */
     createElement(tagName: string, namespaceURI: NAMESPACES, attrs: Attribute[]): T['element'];
 
+    /**
+     * Creates an interpolation node. Used only if the `interpolation` parser option is specified. If not implemented,
+     * interpolations are inserted as text.
+     *
+     * @param data - Source of the interpolation, including the delimiters.
+     */
+    createInterpolationNode?(data: string): T['childNode'];
+
     /**
      * Removes a node from its parent.
      *
@@ -139,6 +173,13 @@ export interface TreeAdapter<T extends TreeAdapterTypeMap = TreeAdapterTypeMap>
      */
     getFirstChild(node: T['parentNode']): T['childNode'] | null;
 
+    /**
+     * Returns the given interpolation node's source, including the delimiters.
+     *
+     * @param interpolationNode - Interpolation node.
+     */
+    getInterpolationNodeContent?(interpolationNode: T['childNode']): string;
+
     /**
      * Returns the given element's namespace.
      *
@@ -153,6 +194,20 @@ export interface TreeAdapter<T extends TreeAdapterTypeMap = TreeAdapterTypeMap>
      */
     getNodeSourceCodeLocation(node: T['node']): ElementLocation | undefined | null;
 
+    /**
+     * Returns the raw source of the given node, recorded by the parser in the lossless mode.
+     *
+     * @param node - Node.
+     */
+    getNodeRawSource?(node: T['node']): RawSource | undefined | null;
+
+    /**
+     * Returns the origin of the given node, recorded by the parser if the `nodeOriginInfo` option is enabled.
+     *
+     * @param node - Node.
+     */
+    getNodeOrigin?(node: T['node']): NodeOrigin | undefined | null;
+
     /**
      * Returns the given node's parent.
      *
@@ -160,6 +215,20 @@ export interface TreeAdapter<T extends TreeAdapterTypeMap = TreeAdapterTypeMap>
      */
     getParentNode(node: T['node']): T['parentNode'] | null;
 
+    /**
+     * Returns the shadow root attached to the given element.
+     *
+     * @param element - Element.
+     */
+    getShadowRoot?(element: T['element']): T['documentFragment'] | null;
+
+    /**
+     * Returns properties of the given shadow root.
+     *
+     * @param shadowRoot - Shadow root.
+     */
+    getShadowRootInit?(shadowRoot: T['documentFragment']): ShadowRootInit;
+
     /**
      * Returns the given element's tag name.
      *
@@ -231,6 +300,13 @@ export interface TreeAdapter<T extends TreeAdapterTypeMap = TreeAdapterTypeMap>
      */
     isElementNode(node: T['node']): node is T['element'];
 
+    /**
+     * Determines if the given node is an interpolation node.
+     *
+     * @param node - Node.
+     */
+    isInterpolationNode?(node: T['node']): boolean;
+
     /**
      * Determines if the given node is a text node.
      *
@@ -238,6 +314,16 @@ export interface TreeAdapter<T extends TreeAdapterTypeMap = TreeAdapterTypeMap>
      */
     isTextNode(node: T['node']): node is T['textNode'];
 
+    /**
+     * Sets the [encoding](https://dom.spec.whatwg.org/#concept-document-encoding) of the document and the confidence
+     * of the parser in it. Called only if the document was parsed from bytes.
+     *
+     * @param document - Document node.
+     * @param encoding - Canonical encoding name.
+     * @param confidence - Encoding confidence.
+     */
+    setDocumentEncoding?(document: T['document'], encoding: string, confidence: ENCODING_CONFIDENCE): void;
+
     /**
      * Sets the [document mode](https://dom.spec.whatwg.org/#concept-document-limited-quirks).
      *
@@ -272,6 +358,22 @@ export interface TreeAdapter<T extends TreeAdapterTypeMap = TreeAdapterTypeMap>
      */
     updateNodeSourceCodeLocation(node: T['node'], location: Partial<ElementLocation>): void;
 
+    /**
+     * Attaches the raw source to the node. Used only if the `lossless` parser option is enabled.
+     *
+     * @param node - Node.
+     * @param rawSource - Raw source of the node.
+     */
+    setNodeRawSource?(node: T['node'], rawSource: RawSource): void;
+
+    /**
+     * Attaches the origin to the node. Used only if the `nodeOriginInfo` parser option is enabled.
+     *
+     * @param node - Node.
+     * @param origin - Origin of the node.
+     */
+    setNodeOrigin?(node: T['node'], origin: NodeOrigin): void;
+
     /**
      * Sets the `<template>` element content element.
      *
@@ -3,15 +3,18 @@ import * as assert from 'node:assert';
 import type { TreeAdapter } from 'parse5/dist/tree-adapters/interface.js';
 import * as defaultTreeAdapter from 'parse5/dist/tree-adapters/default.js';
 import * as htmlTreeAdapter from 'parse5-htmlparser2-tree-adapter';
+import * as domTreeAdapter from 'parse5-dom-tree-adapter';
 import type { Location } from 'parse5/dist/common/token.js';
 
 const defaultAdapter: TreeAdapter<defaultTreeAdapter.DefaultTreeAdapterMap> = defaultTreeAdapter;
 const htmlparser2Adapter: TreeAdapter<htmlTreeAdapter.Htmlparser2TreeAdapterMap> = htmlTreeAdapter;
+const domAdapter: TreeAdapter<domTreeAdapter.DomTreeAdapterMap> = domTreeAdapter;
 
 // Ensure the default tree adapter matches the expected type.
 export const treeAdapters = {
     default: defaultAdapter,
     htmlparser2: htmlparser2Adapter,
+    dom: domAdapter,
 } as const;
 
 export function addSlashes(str: string): string {
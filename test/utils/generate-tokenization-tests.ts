@@ -1,7 +1,7 @@
 import * as assert from 'node:assert';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { Tokenizer, TokenizerMode } from 'parse5/dist/tokenizer/index.js';
+import { Tokenizer, TokenizerMode, TokenHandler } from 'parse5/dist/tokenizer/index.js';
 import { makeChunks } from './common.js';
 import { TokenType, Token } from 'parse5/dist/common/token.js';
 
@@ -52,10 +52,7 @@ interface TokenSourceData {
     errors: TokenError[];
 }
 
-type TokenSourceCreator = (data: TokenSourceData) => {
-    tokenizer: Tokenizer;
-    getNextToken: () => Token;
-};
+type TokenSourceCreator = (data: TokenSourceData, handler: TokenHandler) => Tokenizer;
 
 function tokenize(
     createTokenSource: TokenSourceCreator,
@@ -64,9 +61,20 @@ function tokenize(
     lastStartTag: string | null
 ): TokenSourceData {
     const result: TokenSourceData = { tokens: [], errors: [] };
-    const { tokenizer, getNextToken } = createTokenSource(result);
-    let token: Token = { type: TokenType.HIBERNATION, location: null };
-    let chunkIdx = 0;
+    const appendToken = (token: Token): void => appendTokenEntry(result.tokens, convertTokenToHtml5Lib(token));
+    const tokenizer = createTokenSource(result, {
+        onComment: appendToken,
+        onDoctype: appendToken,
+        onStartTag: appendToken,
+        onEndTag: appendToken,
+        onEof: (): void => {
+            /* Ignore */
+        },
+        onInterpolation: appendToken,
+        onCharacter: appendToken,
+        onNullCharacter: appendToken,
+        onWhitespaceCharacter: appendToken,
+    });
 
     // NOTE: set small waterline for testing purposes
     tokenizer.preprocessor.bufferWaterline = 8;
@@ -76,15 +84,9 @@ function tokenize(
         tokenizer.lastStartTagName = lastStartTag;
     }
 
-    do {
-        if (token.type === TokenType.HIBERNATION) {
-            tokenizer.write(chunks[chunkIdx], ++chunkIdx === chunks.length);
-        } else {
-            appendTokenEntry(result.tokens, convertTokenToHtml5Lib(token));
-        }
-
-        token = getNextToken();
-    } while (token.type !== TokenType.EOF);
+    for (let chunkIdx = 0; chunkIdx < chunks.length; chunkIdx++) {
+        tokenizer.write(chunks[chunkIdx], chunkIdx === chunks.length - 1);
+    }
 
     // Sort errors by line and column
     result.errors.sort((err1, err2) => err1.line - err2.line || err1.col - err2.col);
@@ -0,0 +1,79 @@
+import type { SourceMap } from 'parse5/dist/serializer/source-map.js';
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+interface Mapping {
+    generatedLine: number;
+    generatedColumn: number;
+    sourceIndex: number;
+    line: number;
+    column: number;
+}
+
+function decodeSegment(segment: string): number[] {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+
+    for (const char of segment) {
+        const digit = BASE64_CHARS.indexOf(char);
+
+        value += (digit & 0x1f) << shift;
+
+        if (digit & 0x20) {
+            shift += 5;
+        } else {
+            values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+            value = 0;
+            shift = 0;
+        }
+    }
+
+    return values;
+}
+
+function decodeMappings(mappings: string): Mapping[] {
+    const result: Mapping[] = [];
+    let sourceIndex = 0;
+    let line = 0;
+    let column = 0;
+
+    for (const [generatedLine, lineMappings] of mappings.split(';').entries()) {
+        let generatedColumn = 0;
+
+        for (const segment of lineMappings ? lineMappings.split(',') : []) {
+            const [generatedColumnDelta, sourceIndexDelta, lineDelta, columnDelta] = decodeSegment(segment);
+
+            generatedColumn += generatedColumnDelta;
+            sourceIndex += sourceIndexDelta;
+            line += lineDelta;
+            column += columnDelta;
+            result.push({ generatedLine, generatedColumn, sourceIndex, line, column });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Returns the mapped parts of the output along with the source name and the source text at the mapped
+ * position. Each part spans up to the next mapping or the end of the line. The source text has the same length.
+ */
+export function getMappedSnippets(sourceMap: SourceMap, output: string, sources: string[]): [string, string, string][] {
+    const outputLines = output.split('\n');
+    const sourceLines = sources.map((source) => source.split('\n'));
+    const mappings = decodeMappings(sourceMap.mappings);
+
+    return mappings.map(({ generatedLine, generatedColumn, sourceIndex, line, column }, idx) => {
+        const next = mappings[idx + 1];
+        const outputLine = outputLines[generatedLine];
+        const end = next?.generatedLine === generatedLine ? next.generatedColumn : outputLine.length;
+        const snippet = outputLine.slice(generatedColumn, end);
+
+        return [
+            snippet,
+            sourceMap.sources[sourceIndex],
+            sourceLines[sourceIndex][line].slice(column, column + snippet.length),
+        ];
+    });
+}